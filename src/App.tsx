@@ -1,276 +1,69 @@
-import React from 'react';
-import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
-import { AuthProvider, useAuth } from './context/AuthContext';
+import { Suspense } from 'react';
+import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
+import { AuthProvider } from './context/AuthContext';
+import { PermissionProvider } from './context/PermissionContext';
+import { NotificationProvider } from './context/NotificationContext';
+import { SavedViewsProvider } from './context/SavedViewsContext';
+import { ProtectedRoute } from './components/ProtectedRoute';
+import { SessionExpiryModal } from './components/SessionExpiryModal';
 import { Login } from './pages/Login';
-import { Dashboard } from './pages/Dashboard';
-import { SoftwareCompletionManagement } from './pages/SoftwareCompletionManagement';
-import { BatchExtensionManagement } from './pages/BatchExtensionManagement';
-import { LeaveManagement } from './pages/LeaveManagement';
-import { BatchManagement } from './pages/BatchManagement';
-import { BatchCreate } from './pages/BatchCreate';
-import { FacultyManagement } from './pages/FacultyManagement';
-import { FacultyEdit } from './pages/FacultyEdit';
-import { StudentManagement } from './pages/StudentManagement';
-import { StudentEnrollment } from './pages/StudentEnrollment';
-import { StudentEdit } from './pages/StudentEdit';
-import { EmployeeManagement } from './pages/EmployeeManagement';
-import { EmployeeRegistration } from './pages/EmployeeRegistration';
-import { EmployeeEdit } from './pages/EmployeeEdit';
-import { FacultyRegistration } from './pages/FacultyRegistration';
-import { SessionManagement } from './pages/SessionManagement';
-import { AttendanceManagement } from './pages/AttendanceManagement';
-import { StudentAttendance } from './pages/StudentAttendance';
-import { PaymentManagement } from './pages/PaymentManagement';
-import { PortfolioManagement } from './pages/PortfolioManagement';
-import { ReportManagement } from './pages/ReportManagement';
-import { ApprovalManagement } from './pages/ApprovalManagement';
-import { UserManagement } from './pages/UserManagement';
-import { RoleManagement } from './pages/RoleManagement';
+import { ForgotPassword } from './pages/ForgotPassword';
+import { ResetPassword } from './pages/ResetPassword';
+import { NotFound } from './pages/NotFound';
+import { appRoutes } from './routes';
 
-// Protected Route Component
-const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const { isAuthenticated, loading } = useAuth();
-
-  if (loading) {
-    return (
-      <div className="min-h-screen flex items-center justify-center">
-        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-500"></div>
-      </div>
-    );
-  }
-
-  if (!isAuthenticated) {
-    return <Navigate to="/login" replace />;
-  }
-
-  return <>{children}</>;
-};
+const PageLoader = () => (
+  <div className="min-h-screen flex items-center justify-center">
+    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-500"></div>
+  </div>
+);
 
 function AppRoutes() {
   return (
-    <Routes>
-      <Route path="/login" element={<Login />} />
-      <Route
-        path="/"
-        element={
-          <ProtectedRoute>
-            <Dashboard />
-          </ProtectedRoute>
-        }
-      />
-      <Route
-        path="/dashboard"
-        element={
-          <ProtectedRoute>
-            <Dashboard />
-          </ProtectedRoute>
-        }
-      />
-      <Route
-        path="/software-completions"
-        element={
-          <ProtectedRoute>
-            <SoftwareCompletionManagement />
-          </ProtectedRoute>
-        }
-      />
-      <Route
-        path="/batch-extensions"
-        element={
-          <ProtectedRoute>
-            <BatchExtensionManagement />
-          </ProtectedRoute>
-        }
-      />
-      <Route
-        path="/batches"
-        element={
-          <ProtectedRoute>
-            <BatchManagement />
-          </ProtectedRoute>
-        }
-      />
-      <Route
-        path="/batches/create"
-        element={
-          <ProtectedRoute>
-            <BatchCreate />
-          </ProtectedRoute>
-        }
-      />
-      <Route
-        path="/students"
-        element={
-          <ProtectedRoute>
-            <StudentManagement />
-          </ProtectedRoute>
-        }
-      />
-      <Route
-        path="/students/enroll"
-        element={
-          <ProtectedRoute>
-            <StudentEnrollment />
-          </ProtectedRoute>
-        }
-      />
-      <Route
-        path="/students/:id/edit"
-        element={
-          <ProtectedRoute>
-            <StudentEdit />
-          </ProtectedRoute>
-        }
-      />
-      <Route
-        path="/faculty"
-        element={
-          <ProtectedRoute>
-            <FacultyManagement />
-          </ProtectedRoute>
-        }
-      />
-      <Route
-        path="/faculty/:id/edit"
-        element={
-          <ProtectedRoute>
-            <FacultyEdit />
-          </ProtectedRoute>
-        }
-      />
-      <Route
-        path="/faculty/register"
-        element={
-          <ProtectedRoute>
-            <FacultyRegistration />
-          </ProtectedRoute>
-        }
-      />
-      <Route
-        path="/employees"
-        element={
-          <ProtectedRoute>
-            <EmployeeManagement />
-          </ProtectedRoute>
-        }
-      />
-      <Route
-        path="/employees/register"
-        element={
-          <ProtectedRoute>
-            <EmployeeRegistration />
-          </ProtectedRoute>
-        }
-      />
-      <Route
-        path="/employees/:id/edit"
-        element={
-          <ProtectedRoute>
-            <EmployeeEdit />
-          </ProtectedRoute>
-        }
-      />
-      <Route
-        path="/sessions"
-        element={
-          <ProtectedRoute>
-            <SessionManagement />
-          </ProtectedRoute>
-        }
-      />
-      <Route
-        path="/attendance"
-        element={
-          <ProtectedRoute>
-            <AttendanceManagement />
-          </ProtectedRoute>
-        }
-      />
-      <Route
-        path="/student-attendance"
-        element={
-          <ProtectedRoute>
-            <StudentAttendance />
-          </ProtectedRoute>
-        }
-      />
-      <Route
-        path="/payments"
-        element={
-          <ProtectedRoute>
-            <PaymentManagement />
-          </ProtectedRoute>
-        }
-      />
-      <Route
-        path="/portfolios"
-        element={
-          <ProtectedRoute>
-            <PortfolioManagement />
-          </ProtectedRoute>
-        }
-      />
-      <Route
-        path="/reports"
-        element={
-          <ProtectedRoute>
-            <ReportManagement />
-          </ProtectedRoute>
-        }
-      />
-      <Route
-        path="/approvals"
-        element={
-          <ProtectedRoute>
-            <ApprovalManagement />
-          </ProtectedRoute>
-        }
-      />
-      <Route
-        path="/leaves"
-        element={
-          <ProtectedRoute>
-            <LeaveManagement />
-          </ProtectedRoute>
-        }
-      />
-      <Route
-        path="/student-leaves"
-        element={
-          <ProtectedRoute>
-            <LeaveManagement />
-          </ProtectedRoute>
-        }
-      />
-      <Route
-        path="/users"
-        element={
-          <ProtectedRoute>
-            <UserManagement />
-          </ProtectedRoute>
-        }
-      />
-      <Route
-        path="/roles"
-        element={
-          <ProtectedRoute>
-            <RoleManagement />
-          </ProtectedRoute>
-        }
-      />
-    </Routes>
+    <Suspense fallback={<PageLoader />}>
+      <Routes>
+        <Route path="/login" element={<Login />} />
+        <Route path="/forgot-password" element={<ForgotPassword />} />
+        <Route path="/reset-password" element={<ResetPassword />} />
+        {appRoutes.map(({ path, component: Component, roles, module, action }) => (
+          <Route
+            key={path}
+            path={path}
+            element={
+              <ProtectedRoute allowedRoles={roles} module={module} action={action}>
+                <Component />
+              </ProtectedRoute>
+            }
+          />
+        ))}
+        <Route
+          path="*"
+          element={
+            <ProtectedRoute>
+              <NotFound />
+            </ProtectedRoute>
+          }
+        />
+      </Routes>
+    </Suspense>
   );
 }
 
 function App() {
   return (
-    <AuthProvider>
-      <Router>
-        <AppRoutes />
-      </Router>
-    </AuthProvider>
+    <Router>
+      <NotificationProvider>
+        <AuthProvider>
+          <PermissionProvider>
+            <SavedViewsProvider>
+              <AppRoutes />
+              <SessionExpiryModal />
+            </SavedViewsProvider>
+          </PermissionProvider>
+        </AuthProvider>
+      </NotificationProvider>
+    </Router>
   );
 }
 
 export default App;
-
@@ -1,4 +1,5 @@
 import api from './axios';
+import { ApiResponse, Pagination } from './response';
 
 export interface ChangeRequest {
   id: number;
@@ -25,30 +26,52 @@ export interface ChangeRequest {
   };
 }
 
+// requestedData of a batch_change request
+export interface BatchTransferData {
+  fromBatchId: number;
+  fromBatchTitle?: string;
+  toBatchId: number;
+  toBatchTitle?: string;
+  // Attendance from this date on moves with the student; earlier records stay on the old batch
+  effectiveDate: string;
+}
+
+export interface CreateChangeRequestRequest {
+  type: ChangeRequest['type'];
+  studentId: number;
+  batchId?: number;
+  reason?: string;
+  requestedData?: BatchTransferData | Record<string, unknown>;
+}
+
+export interface BatchTransferRequest extends BatchTransferData {
+  studentId: number;
+  reason: string;
+}
+
+// What the backend moved to the new batch when a batch_change request was approved
+export interface BatchTransferResult {
+  enrollmentId: number;
+  paymentsMoved: number;
+  completionsMoved: number;
+  attendanceMoved: number;
+}
+
 export interface ApproveRequestRequest {
   approve: boolean;
   rejectionReason?: string;
 }
 
-export interface ChangeRequestsResponse {
-  status: string;
-  data: {
-    changeRequests: ChangeRequest[];
-    pagination?: {
-      total: number;
-      page: number;
-      limit: number;
-      totalPages: number;
-    };
-  };
-}
+export type ChangeRequestsResponse = ApiResponse<{
+  changeRequests: ChangeRequest[];
+  pagination?: Pagination;
+}>;
 
-export interface ChangeRequestResponse {
-  status: string;
-  data: {
-    changeRequest: ChangeRequest;
-  };
-}
+export type ChangeRequestResponse = ApiResponse<{
+  changeRequest: ChangeRequest;
+  // Set when an approved batch_change request moved the student
+  transfer?: BatchTransferResult;
+}>;
 
 export const approvalAPI = {
   getAllChangeRequests: async (params?: { type?: string; status?: string; studentId?: number }): Promise<ChangeRequestsResponse> => {
@@ -59,6 +82,15 @@ export const approvalAPI = {
     const response = await api.get<ChangeRequestResponse>(`/change-requests/${id}`);
     return response.data;
   },
+  createChangeRequest: async (data: CreateChangeRequestRequest): Promise<ChangeRequestResponse> => {
+    const response = await api.post<ChangeRequestResponse>('/change-requests', data);
+    return response.data;
+  },
+  requestBatchTransfer: async ({ studentId, reason, ...transfer }: BatchTransferRequest): Promise<ChangeRequestResponse> => {
+    const requestedData: BatchTransferData = transfer;
+    return approvalAPI.createChangeRequest({ type: 'batch_change', studentId, batchId: transfer.fromBatchId, reason, requestedData });
+  },
+  // Approving a batch_change request moves the enrollment, pending payments, completions and future attendance
   approveChangeRequest: async (id: number, data: ApproveRequestRequest): Promise<ChangeRequestResponse> => {
     const response = await api.post<ChangeRequestResponse>(`/change-requests/${id}/approve`, data);
     return response.data;
@@ -1,13 +1,25 @@
 import api from './axios';
+import { ApiResponse } from './response';
+import type { PunchGeofence } from './geofence.api';
+import type { PunchRegularisation } from './regularisation.api';
+
+export enum AttendanceStatus {
+  PRESENT = 'present',
+  ABSENT = 'absent',
+  MANUAL_PRESENT = 'manual_present',
+}
 
 export interface Attendance {
   id: number;
   sessionId: number;
   studentId: number;
-  status: 'present' | 'absent' | 'manual_present';
+  status: AttendanceStatus;
   isManual: boolean;
   markedBy?: number;
   markedAt?: string;
+  // Set on QR self check-ins; late when scanned after the session's start time
+  isSelfCheckin?: boolean;
+  isLate?: boolean;
   createdAt?: string;
   updatedAt?: string;
   student?: {
@@ -24,10 +36,13 @@ export interface Attendance {
 
 export interface MarkAttendanceRequest {
   studentId: number;
-  status: 'present' | 'absent' | 'manual_present';
+  status: AttendanceStatus;
   isManual?: boolean;
 }
 
+// Per-student attendance fields, used where the student is supplied separately
+export type AttendanceRequest = Omit<MarkAttendanceRequest, 'studentId'>;
+
 export interface PunchInRequest {
   photo?: string;
   fingerprint?: string;
@@ -36,6 +51,7 @@ export interface PunchInRequest {
     longitude?: number;
     address?: string;
   };
+  geofence?: PunchGeofence;
 }
 
 export interface PunchOutRequest {
@@ -46,6 +62,7 @@ export interface PunchOutRequest {
     longitude?: number;
     address?: string;
   };
+  geofence?: PunchGeofence;
 }
 
 export interface StudentPunch {
@@ -61,44 +78,59 @@ export interface StudentPunch {
   punchInLocation?: any;
   punchOutLocation?: any;
   effectiveHours?: number;
+  // Set when an approved regularisation changed the punch
+  regularisation?: PunchRegularisation;
   createdAt?: string;
   updatedAt?: string;
 }
 
-export interface PunchResponse {
-  status: string;
+export interface PunchResponse extends ApiResponse<{
+  punch: StudentPunch;
+  punchInAt?: string;
+  punchOutAt?: string;
+  effectiveWorkingHours?: number;
+}> {
   message: string;
-  data: {
-    punch: StudentPunch;
-    punchInAt?: string;
-    punchOutAt?: string;
-    effectiveWorkingHours?: number;
-  };
 }
 
-export interface TodayPunchResponse {
-  status: string;
-  data: {
-    punch: StudentPunch | null;
-    hasPunchedIn: boolean;
-    hasPunchedOut: boolean;
-  };
-}
+export type TodayPunchResponse = ApiResponse<{
+  punch: StudentPunch | null;
+  hasPunchedIn: boolean;
+  hasPunchedOut: boolean;
+}>;
 
-export interface AttendanceResponse {
-  status: string;
-  data: {
-    attendance: Attendance;
-  };
+export type AttendanceResponse = ApiResponse<{
+  attendance: Attendance;
+}>;
+
+export type AttendancesResponse = ApiResponse<{
+  attendances: Attendance[];
+}>;
+
+export interface BulkAttendanceFailure {
+  studentId: number;
+  message: string;
 }
 
-export interface AttendancesResponse {
-  status: string;
-  data: {
-    attendances: Attendance[];
-  };
+// Rows are saved independently: some can fail while the rest are kept
+export type BulkAttendanceResponse = ApiResponse<{
+  saved: Attendance[];
+  failed: BulkAttendanceFailure[];
+  // Restores the session's attendance as it was before this request, until undoExpiresAt
+  undoToken?: string;
+  undoExpiresAt?: string;
+}>;
+
+// Rotating code a faculty member projects during an ongoing session
+export interface SessionCheckinCode {
+  token: string;
+  expiresAt: string;
+  // Image data URL of the QR code, encoding the check-in URL with the token appended
+  qrCode: string;
 }
 
+export type SessionCheckinCodeResponse = ApiResponse<SessionCheckinCode>;
+
 export const attendanceAPI = {
   getSessionAttendance: async (sessionId: number): Promise<AttendancesResponse> => {
     const response = await api.get<AttendancesResponse>(`/sessions/${sessionId}/attendance`);
@@ -108,6 +140,24 @@ export const attendanceAPI = {
     const response = await api.post<AttendanceResponse>(`/sessions/${sessionId}/attendance`, data);
     return response.data;
   },
+  markBulkAttendance: async (sessionId: number, records: MarkAttendanceRequest[]): Promise<BulkAttendanceResponse> => {
+    const response = await api.post<BulkAttendanceResponse>(`/sessions/${sessionId}/attendance/bulk`, { records });
+    return response.data;
+  },
+  undoBulkAttendance: async (sessionId: number, undoToken: string): Promise<AttendancesResponse> => {
+    const response = await api.post<AttendancesResponse>(`/sessions/${sessionId}/attendance/bulk/undo`, { undoToken });
+    return response.data;
+  },
+  getCheckinCode: async (sessionId: number, checkinUrl: string): Promise<SessionCheckinCodeResponse> => {
+    const response = await api.get<SessionCheckinCodeResponse>(`/sessions/${sessionId}/checkin-code`, {
+      params: { checkinUrl },
+    });
+    return response.data;
+  },
+  selfCheckin: async (sessionId: number, token: string): Promise<AttendanceResponse> => {
+    const response = await api.post<AttendanceResponse>(`/sessions/${sessionId}/self-checkin`, { token });
+    return response.data;
+  },
   getStudentAttendance: async (studentId: number, params?: { from?: string; to?: string }): Promise<AttendancesResponse> => {
     const response = await api.get<AttendancesResponse>(`/students/${studentId}/attendance`, { params });
     return response.data;
@@ -125,7 +175,7 @@ export const attendanceAPI = {
     const response = await api.get<TodayPunchResponse>('/student-attendance/today');
     return response.data;
   },
-  getStudentPunchHistory: async (params?: { from?: string; to?: string }): Promise<{ status: string; data: { punches: StudentPunch[] } }> => {
+  getStudentPunchHistory: async (params?: { from?: string; to?: string }): Promise<ApiResponse<{ punches: StudentPunch[] }>> => {
     const response = await api.get('/student-attendance/history', { params });
     return response.data;
   },
@@ -1,4 +1,6 @@
 import api from './axios';
+import { ApiResponse } from './response';
+import { tokenStorage } from './token';
 
 export interface User {
   id: number;
@@ -8,52 +10,51 @@ export interface User {
   role: 'superadmin' | 'admin' | 'faculty' | 'student' | 'employee';
   avatarUrl?: string;
   isActive: boolean;
+  // Set for accounts created by an admin until the user picks their own password
+  mustChangePassword?: boolean;
   createdAt?: string;
   updatedAt?: string;
 }
 
-export interface LoginResponse {
-  status: string;
+export interface LoginResponse extends ApiResponse<{
+  token: string;
+  refreshToken?: string;
+  user: User;
+}> {
   message: string;
-  data: {
-    token: string;
-    user: User;
-  };
 }
 
-export interface RegisterResponse {
-  status: string;
+export interface RegisterResponse extends ApiResponse<{
+  token: string;
+  user: User;
+}> {
   message: string;
-  data: {
-    token: string;
-    user: User;
-  };
 }
 
-export interface AuthResponse {
-  status: string;
-  data: {
-    user: User;
-  };
-}
+export type AuthResponse = ApiResponse<{
+  user: User;
+}>;
 
-export interface ImpersonateResponse {
+export interface MessageResponse {
   status: string;
   message: string;
-  data: {
-    token: string;
-    user: User;
-    originalUser: {
-      id: number;
-      email: string;
-      role: string;
-      name: string;
-      phone: string | null;
-      avatarUrl: string | null;
-      isActive: boolean;
-    };
-    originalToken: string; // Token to restore original user session
+}
+
+export interface ImpersonateResponse extends ApiResponse<{
+  token: string;
+  user: User;
+  originalUser: {
+    id: number;
+    email: string;
+    role: string;
+    name: string;
+    phone: string | null;
+    avatarUrl: string | null;
+    isActive: boolean;
   };
+  originalToken: string; // Token to restore original user session
+}> {
+  message: string;
 }
 
 export const authAPI = {
@@ -87,13 +88,28 @@ export const authAPI = {
     return response.data;
   },
 
+  forgotPassword: async (email: string): Promise<MessageResponse> => {
+    const response = await api.post<MessageResponse>('/auth/forgot-password', { email });
+    return response.data;
+  },
+
+  resetPassword: async (token: string, password: string): Promise<MessageResponse> => {
+    const response = await api.post<MessageResponse>('/auth/reset-password', { token, password });
+    return response.data;
+  },
+
+  changePassword: async (currentPassword: string, newPassword: string): Promise<MessageResponse> => {
+    const response = await api.post<MessageResponse>('/auth/change-password', { currentPassword, newPassword });
+    return response.data;
+  },
+
   impersonateUser: async (userId: number): Promise<ImpersonateResponse> => {
     const response = await api.post<ImpersonateResponse>(`/auth/impersonate/${userId}`);
     return response.data;
   },
 
   logout: () => {
-    localStorage.removeItem('token');
+    tokenStorage.clear();
     localStorage.removeItem('user');
     localStorage.removeItem('originalUser');
     localStorage.removeItem('originalSession');
@@ -0,0 +1,63 @@
+export type AuthSyncEventType =
+  | 'login'
+  | 'logout'
+  | 'impersonation-start'
+  | 'impersonation-stop'
+  | 'permissions-changed';
+
+export interface AuthSyncEvent {
+  type: AuthSyncEventType;
+  // Id of the user the sending tab is now signed in as, if any
+  userId?: number;
+}
+
+type AuthSyncListener = (event: AuthSyncEvent) => void;
+
+const CHANNEL_NAME = 'prime-academy-auth';
+const STORAGE_KEY = 'authSyncEvent';
+
+const listeners = new Set<AuthSyncListener>();
+
+const dispatch = (event: AuthSyncEvent) => {
+  listeners.forEach((listener) => listener(event));
+};
+
+// BroadcastChannel where supported; otherwise a localStorage write, which fires
+// a `storage` event in every other tab of the same origin
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+if (channel) {
+  channel.onmessage = (message: MessageEvent<AuthSyncEvent>) => dispatch(message.data);
+} else {
+  window.addEventListener('storage', (event) => {
+    if (event.key !== STORAGE_KEY || !event.newValue) return;
+    try {
+      dispatch(JSON.parse(event.newValue).event);
+    } catch {
+      // Ignore values not written by this module
+    }
+  });
+}
+
+/**
+ * Cross-tab notifications for auth state changes.
+ * Events are delivered to the other tabs only, never to the tab that sent them.
+ */
+export const authSync = {
+  broadcast: (event: AuthSyncEvent) => {
+    if (channel) {
+      channel.postMessage(event);
+      return;
+    }
+    // The timestamp makes repeated identical events still count as a change
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ event, sentAt: Date.now() }));
+    localStorage.removeItem(STORAGE_KEY);
+  },
+
+  subscribe: (listener: AuthSyncListener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
@@ -1,16 +1,66 @@
-import axios from 'axios';
+import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { tokenStorage, impersonationStorage } from './token';
+import { toApiError } from './response';
+
+const baseURL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000/api';
 
 const api = axios.create({
-  baseURL: import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000/api',
+  baseURL,
   headers: {
     'Content-Type': 'application/json',
   },
 });
 
+// Endpoints whose 401 means bad credentials rather than an expired access token
+const AUTH_ENDPOINTS = ['/auth/login', '/auth/refresh', '/auth/change-password'];
+
+interface RetryableRequestConfig extends InternalAxiosRequestConfig {
+  _retry?: boolean;
+}
+
+interface RefreshResponse {
+  status: string;
+  data: {
+    token: string;
+    refreshToken?: string;
+  };
+}
+
+let refreshPromise: Promise<string> | null = null;
+
+/**
+ * Exchanges the stored refresh token for a new access token.
+ * Single-flight: concurrent callers share one in-flight request, so a burst of
+ * 401s triggers one refresh and every queued request is replayed with its result.
+ * @returns The new access token
+ */
+export const refreshAccessToken = (): Promise<string> => {
+  if (!refreshPromise) {
+    const refreshToken = tokenStorage.getRefreshToken();
+    refreshPromise = (
+      refreshToken
+        ? axios.post<RefreshResponse>(`${baseURL}/auth/refresh`, { refreshToken }).then((response) => {
+            const { token, refreshToken: nextRefreshToken } = response.data.data;
+            tokenStorage.setTokens(token, nextRefreshToken);
+            return token;
+          })
+        : Promise.reject(new Error('No refresh token available'))
+    ).finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
 // Request interceptor to add auth token
 api.interceptors.request.use(
   (config) => {
-    const token = localStorage.getItem('token');
+    if (config.method === 'delete' && impersonationStorage.get()?.blockDestructiveActions) {
+      return Promise.reject(
+        new AxiosError('Delete actions are disabled while viewing as another user', 'ERR_READ_ONLY_SESSION', config)
+      );
+    }
+    const token = tokenStorage.getAccessToken();
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
@@ -21,22 +71,30 @@ api.interceptors.request.use(
   }
 );
 
-// Response interceptor for error handling
+// Response interceptor: on 401, refresh the access token once and replay the request.
+// Every failure leaves here as an ApiError.
 api.interceptors.response.use(
   (response) => response,
-  (error) => {
-    // Don't redirect on login endpoint 401 errors
-    if (error.response?.status === 401 && !error.config?.url?.includes('/auth/login')) {
-      // Unauthorized - clear token and redirect to login
-      localStorage.removeItem('token');
-      // Only redirect if not already on login page
-      if (window.location.pathname !== '/login') {
-        window.location.href = '/login';
-      }
+  async (error) => {
+    const originalRequest = error.config as RetryableRequestConfig | undefined;
+    const isAuthEndpoint = AUTH_ENDPOINTS.some((endpoint) => originalRequest?.url?.includes(endpoint));
+
+    if (error.response?.status !== 401 || !originalRequest || originalRequest._retry || isAuthEndpoint) {
+      return Promise.reject(toApiError(error));
+    }
+
+    originalRequest._retry = true;
+    try {
+      const token = await refreshAccessToken();
+      originalRequest.headers.Authorization = `Bearer ${token}`;
+      return api(originalRequest);
+    } catch {
+      // Refresh failed - end the session. AuthContext clears the user and the route
+      // guard sends the user to /login, remembering the page they were on.
+      tokenStorage.clear();
+      return Promise.reject(toApiError(error));
     }
-    return Promise.reject(error);
   }
 );
 
 export default api;
-
@@ -1,4 +1,5 @@
 import api from './axios';
+import { ApiResponse } from './response';
 
 export interface Batch {
   id: number;
@@ -8,7 +9,12 @@ export interface Batch {
   startDate: string;
   endDate: string;
   maxCapacity?: number;
+  // Active enrollments and waiting students, when the list endpoint includes them
+  enrolledCount?: number;
+  waitlistCount?: number;
   status?: string;
+  // Classroom or lab the batch meets in; two batches in the same room must not overlap
+  room?: string;
   schedule?: {
     [day: string]: {
       startTime: string;
@@ -49,18 +55,11 @@ export interface Batch {
   }>;
 }
 
-export interface BatchesResponse {
-  status: string;
-  data: Batch[];
-}
+export type BatchesResponse = ApiResponse<Batch[]>;
 
-export interface BatchResponse {
-  status: string;
-  message?: string;
-  data: {
-    batch: Batch;
-  };
-}
+export type BatchResponse = ApiResponse<{
+  batch: Batch;
+}>;
 
 export interface CreateBatchRequest {
   title: string;
@@ -69,6 +68,7 @@ export interface CreateBatchRequest {
   startDate: string;
   endDate: string;
   maxCapacity?: number;
+  room?: string;
   schedule?: {
     [day: string]: {
       startTime: string;
@@ -85,6 +85,7 @@ export interface UpdateBatchRequest {
   startDate?: string;
   endDate?: string;
   maxCapacity?: number;
+  room?: string;
   schedule?: {
     [day: string]: {
       startTime: string;
@@ -107,20 +108,34 @@ export interface SuggestedCandidate {
   conflictingSessions?: string[];
 }
 
-export interface SuggestCandidatesResponse {
-  status: string;
-  data: {
-    batch: Batch;
-    candidates: SuggestedCandidate[];
-    totalCount: number;
-    summary: {
-      available: number;
-      busy: number;
-      feesOverdue: number;
-    };
-  };
+export interface CandidateSummary {
+  available: number;
+  busy: number;
+  feesOverdue: number;
+}
+
+export type SuggestCandidatesResponse = ApiResponse<{
+  batch: Batch;
+  candidates: SuggestedCandidate[];
+  totalCount: number;
+  summary: CandidateSummary;
+}>;
+
+// Criteria of a batch that hasn't been saved yet
+export interface SuggestCandidatesRequest {
+  software: string;
+  startDate: string;
+  endDate?: string;
+  mode?: string;
+  schedule?: CreateBatchRequest['schedule'];
 }
 
+export type DraftCandidatesResponse = ApiResponse<{
+  candidates: SuggestedCandidate[];
+  totalCount: number;
+  summary: CandidateSummary;
+}>;
+
 export const batchAPI = {
   getAllBatches: async (): Promise<BatchesResponse> => {
     const response = await api.get<BatchesResponse>('/batches');
@@ -142,9 +157,17 @@ export const batchAPI = {
     const response = await api.delete<{ status: string; message: string }>(`/batches/${id}`);
     return response.data;
   },
+  assignFaculty: async (batchId: number, facultyIds: number[]): Promise<BatchResponse> => {
+    const response = await api.put<BatchResponse>(`/batches/${batchId}/faculty`, { facultyIds });
+    return response.data;
+  },
   suggestCandidates: async (batchId: number): Promise<SuggestCandidatesResponse> => {
     const response = await api.get<SuggestCandidatesResponse>(`/batches/${batchId}/candidates/suggest`);
     return response.data;
   },
+  suggestCandidatesForDraft: async (criteria: SuggestCandidatesRequest): Promise<DraftCandidatesResponse> => {
+    const response = await api.post<DraftCandidatesResponse>('/batches/candidates/suggest', criteria);
+    return response.data;
+  },
 };
 
@@ -1,4 +1,5 @@
 import api from './axios';
+import { ApiResponse } from './response';
 
 export enum ExtensionStatus {
   PENDING = 'pending',
@@ -48,20 +49,15 @@ export interface ApproveExtensionRequest {
   rejectionReason?: string;
 }
 
-export interface ExtensionsResponse {
-  status: string;
-  data: {
-    extensions: BatchExtension[];
-    count: number;
-  };
-}
+export type ExtensionsResponse = ApiResponse<{
+  extensions: BatchExtension[];
+  count: number;
+}>;
 
-export interface ExtensionResponse {
-  status: string;
+export interface ExtensionResponse extends ApiResponse<{
+  extension: BatchExtension;
+}> {
   message: string;
-  data: {
-    extension: BatchExtension;
-  };
 }
 
 export interface ExtensionsQueryParams {
@@ -1,4 +1,5 @@
 import api from './axios';
+import { ApiResponse } from './response';
 
 export interface BatchProgress {
   id: number;
@@ -20,13 +21,10 @@ export interface BatchProgress {
   }>;
 }
 
-export interface BatchProgressResponse {
-  status: string;
-  data: {
-    batches: BatchProgress[];
-    totalCount: number;
-  };
-}
+export type BatchProgressResponse = ApiResponse<{
+  batches: BatchProgress[];
+  totalCount: number;
+}>;
 
 export interface BatchProgressQueryParams {
   search?: string;
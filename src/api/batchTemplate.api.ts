@@ -0,0 +1,48 @@
+import api from './axios';
+import { ApiResponse } from './response';
+
+// Reusable starting point for batches that run the same course again and again
+export interface BatchTemplate {
+  id: number;
+  name: string;
+  software?: string;
+  mode: string;
+  // The end date of a batch made from the template follows from its start date and this count
+  sessionCount?: number;
+  schedule?: {
+    [day: string]: {
+      startTime: string;
+      endTime: string;
+    };
+  };
+  defaultFacultyIds?: number[];
+  maxCapacity?: number;
+  room?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type CreateBatchTemplateRequest = Omit<BatchTemplate, 'id' | 'createdAt' | 'updatedAt'>;
+
+export type BatchTemplatesResponse = ApiResponse<{
+  templates: BatchTemplate[];
+}>;
+
+export type BatchTemplateResponse = ApiResponse<{
+  template: BatchTemplate;
+}>;
+
+export const batchTemplateAPI = {
+  getTemplates: async (): Promise<BatchTemplatesResponse> => {
+    const response = await api.get<BatchTemplatesResponse>('/batch-templates');
+    return response.data;
+  },
+  createTemplate: async (data: CreateBatchTemplateRequest): Promise<BatchTemplateResponse> => {
+    const response = await api.post<BatchTemplateResponse>('/batch-templates', data);
+    return response.data;
+  },
+  deleteTemplate: async (id: number): Promise<{ status: string; message: string }> => {
+    const response = await api.delete<{ status: string; message: string }>(`/batch-templates/${id}`);
+    return response.data;
+  },
+};
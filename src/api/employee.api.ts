@@ -1,4 +1,5 @@
 import api from './axios';
+import { ApiResponse, ListParams, Pagination } from './response';
 
 export interface EmployeeProfile {
   id: number;
@@ -45,25 +46,14 @@ export interface Employee {
   employeeProfile?: EmployeeProfile;
 }
 
-export interface EmployeesResponse {
-  status: string;
-  data: {
-    users: Employee[];
-    pagination?: {
-      total: number;
-      page: number;
-      limit: number;
-      totalPages: number;
-    };
-  };
-}
+export type EmployeesResponse = ApiResponse<{
+  users: Employee[];
+  pagination?: Pagination;
+}>;
 
-export interface EmployeeProfileResponse {
-  status: string;
-  data: {
-    employeeProfile: EmployeeProfile;
-  };
-}
+export type EmployeeProfileResponse = ApiResponse<{
+  employeeProfile: EmployeeProfile;
+}>;
 
 export interface CreateEmployeeProfileRequest {
   userId: number;
@@ -89,9 +79,10 @@ export interface CreateEmployeeProfileRequest {
 }
 
 export const employeeAPI = {
-  getAllEmployees: async (): Promise<EmployeesResponse> => {
+  getAllEmployees: async (params?: ListParams): Promise<EmployeesResponse> => {
     const response = await api.get<EmployeesResponse>('/users', {
       params: {
+        ...params,
         role: 'employee',
         isActive: true,
       },
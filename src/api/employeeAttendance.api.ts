@@ -1,4 +1,7 @@
 import api from './axios';
+import { ApiResponse } from './response';
+import type { PunchGeofence } from './geofence.api';
+import type { PunchRegularisation } from './regularisation.api';
 
 export interface Location {
   latitude: number;
@@ -10,12 +13,14 @@ export interface PunchInRequest {
   photo?: string;
   fingerprint?: string;
   location?: Location;
+  geofence?: PunchGeofence;
 }
 
 export interface PunchOutRequest {
   photo?: string;
   fingerprint?: string;
   location?: Location;
+  geofence?: PunchGeofence;
 }
 
 export interface AddBreakRequest {
@@ -45,6 +50,8 @@ export interface EmployeePunch {
     createdAt: string;
   }>;
   effectiveWorkingHours: number | null;
+  // Set when an approved regularisation changed the punch
+  regularisation?: PunchRegularisation;
   user?: {
     id: number;
     name: string;
@@ -52,30 +59,24 @@ export interface EmployeePunch {
   };
 }
 
-export interface TodayPunchResponse {
-  status: string;
-  data: {
-    punch: EmployeePunch | null;
-    canPunchIn: boolean;
-    canPunchOut: boolean;
-  };
-}
+export type TodayPunchResponse = ApiResponse<{
+  punch: EmployeePunch | null;
+  canPunchIn: boolean;
+  canPunchOut: boolean;
+}>;
 
-export interface DailyLogResponse {
-  status: string;
-  data: {
-    punches: EmployeePunch[];
-    total: number;
-  };
-}
+export type DailyLogResponse = ApiResponse<{
+  punches: EmployeePunch[];
+  total: number;
+}>;
 
 export const employeeAttendanceAPI = {
-  punchIn: async (data: PunchInRequest): Promise<{ status: string; message: string; data: any }> => {
+  punchIn: async (data: PunchInRequest): Promise<ApiResponse<any>> => {
     const response = await api.post('/employee-attendance/punch-in', data);
     return response.data;
   },
 
-  punchOut: async (data: PunchOutRequest): Promise<{ status: string; message: string; data: any }> => {
+  punchOut: async (data: PunchOutRequest): Promise<ApiResponse<any>> => {
     const response = await api.post('/employee-attendance/punch-out', data);
     return response.data;
   },
@@ -90,12 +91,12 @@ export const employeeAttendanceAPI = {
     return response.data;
   },
 
-  addBreak: async (data: AddBreakRequest): Promise<{ status: string; message: string; data: any }> => {
+  addBreak: async (data: AddBreakRequest): Promise<ApiResponse<any>> => {
     const response = await api.post('/employee-attendance/break', data);
     return response.data;
   },
 
-  endBreak: async (breakId: string): Promise<{ status: string; message: string; data: any }> => {
+  endBreak: async (breakId: string): Promise<ApiResponse<any>> => {
     const response = await api.post(`/employee-attendance/break/${breakId}/end`);
     return response.data;
   },
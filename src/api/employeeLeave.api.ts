@@ -1,4 +1,5 @@
 import api from './axios';
+import { ApiResponse } from './response';
 import { LeaveStatus } from './studentLeave.api';
 
 export interface EmployeeLeave {
@@ -38,20 +39,15 @@ export interface ApproveLeaveRequest {
   rejectionReason?: string;
 }
 
-export interface EmployeeLeavesResponse {
-  status: string;
-  data: {
-    leaves: EmployeeLeave[];
-    count: number;
-  };
-}
+export type EmployeeLeavesResponse = ApiResponse<{
+  leaves: EmployeeLeave[];
+  count: number;
+}>;
 
-export interface EmployeeLeaveResponse {
-  status: string;
+export interface EmployeeLeaveResponse extends ApiResponse<{
+  leave: EmployeeLeave;
+}> {
   message: string;
-  data: {
-    leave: EmployeeLeave;
-  };
 }
 
 export interface EmployeeLeavesQueryParams {
@@ -1,4 +1,5 @@
 import api from './axios';
+import { ApiResponse } from './response';
 
 export interface Enrollment {
   id: number;
@@ -12,18 +13,122 @@ export interface Enrollment {
     email: string;
     phone?: string;
   };
+  batch?: {
+    id: number;
+    title: string;
+    software?: string;
+  };
+}
+
+export type EnrollmentsResponse = ApiResponse<Enrollment[]>;
+
+export enum WaitlistStatus {
+  WAITING = 'waiting',
+  // A seat was released and is held for this student until they accept or decline
+  OFFERED = 'offered',
+  ACCEPTED = 'accepted',
+  DECLINED = 'declined',
+  REMOVED = 'removed',
+}
+
+export interface WaitlistEntry {
+  id: number;
+  batchId: number;
+  studentId: number;
+  // 1-based place in the queue; only waiting and offered entries hold one
+  position: number;
+  status: WaitlistStatus;
+  offeredAt?: string;
+  createdAt: string;
+  student?: {
+    id: number;
+    name: string;
+    email: string;
+    phone?: string;
+  };
 }
 
-export interface EnrollmentsResponse {
-  status: string;
-  data: Enrollment[];
+export type WaitlistAction = 'joined' | 'moved' | 'offered' | 'accepted' | 'declined' | 'removed' | 'seat_released';
+
+// Audit trail of waitlist and seat changes on a batch, newest first
+export interface WaitlistActivity {
+  id: number;
+  batchId: number;
+  action: WaitlistAction;
+  studentId?: number;
+  studentName?: string;
+  performedBy?: {
+    id: number;
+    name: string;
+  };
+  note?: string;
+  createdAt: string;
 }
 
+export interface BatchCapacity {
+  // null when the batch has no maximum
+  maxCapacity: number | null;
+  enrolled: number;
+  remaining: number | null;
+  waitlisted: number;
+}
+
+export type WaitlistResponse = ApiResponse<{
+  capacity: BatchCapacity;
+  entries: WaitlistEntry[];
+  activity: WaitlistActivity[];
+}>;
+
+export type WaitlistEntryResponse = ApiResponse<{
+  entry: WaitlistEntry;
+}>;
+
+export type DropEnrollmentResponse = ApiResponse<{
+  enrollment: Enrollment;
+  // The next waitlisted student, who has been offered the released seat
+  offeredTo?: WaitlistEntry;
+}>;
+
 export const enrollmentAPI = {
   getBatchEnrollments: async (batchId: number): Promise<EnrollmentsResponse> => {
     const response = await api.get<EnrollmentsResponse>(`/batches/${batchId}/enrollments`);
     return response.data;
   },
+  getStudentEnrollments: async (studentId: number): Promise<EnrollmentsResponse> => {
+    const response = await api.get<EnrollmentsResponse>(`/students/${studentId}/enrollments`);
+    return response.data;
+  },
+  // Releasing a seat offers it to the first student on the batch's waitlist
+  dropEnrollment: async (enrollmentId: number, data?: { reason?: string }): Promise<DropEnrollmentResponse> => {
+    const response = await api.post<DropEnrollmentResponse>(`/enrollments/${enrollmentId}/drop`, data);
+    return response.data;
+  },
+  getWaitlist: async (batchId: number): Promise<WaitlistResponse> => {
+    const response = await api.get<WaitlistResponse>(`/batches/${batchId}/waitlist`);
+    return response.data;
+  },
+  joinWaitlist: async (batchId: number, studentId: number): Promise<WaitlistEntryResponse> => {
+    const response = await api.post<WaitlistEntryResponse>(`/batches/${batchId}/waitlist`, { studentId });
+    return response.data;
+  },
+  moveWaitlistEntry: async (batchId: number, entryId: number, position: number): Promise<WaitlistEntryResponse> => {
+    const response = await api.put<WaitlistEntryResponse>(`/batches/${batchId}/waitlist/${entryId}`, { position });
+    return response.data;
+  },
+  // Offers a free seat to the first waiting student
+  offerNextSeat: async (batchId: number): Promise<WaitlistEntryResponse> => {
+    const response = await api.post<WaitlistEntryResponse>(`/batches/${batchId}/waitlist/offer`);
+    return response.data;
+  },
+  // Accepting enrolls the student; declining passes the seat to the next in line
+  respondToOffer: async (batchId: number, entryId: number, accept: boolean): Promise<WaitlistEntryResponse> => {
+    const response = await api.post<WaitlistEntryResponse>(`/batches/${batchId}/waitlist/${entryId}/respond`, { accept });
+    return response.data;
+  },
+  removeFromWaitlist: async (batchId: number, entryId: number): Promise<{ status: string; message: string }> => {
+    const response = await api.delete<{ status: string; message: string }>(`/batches/${batchId}/waitlist/${entryId}`);
+    return response.data;
+  },
 };
 
 
@@ -1,4 +1,5 @@
 import api from './axios';
+import { ApiResponse, ListParams, Pagination } from './response';
 
 export interface FacultyProfile {
   id: number;
@@ -22,18 +23,10 @@ export interface FacultyUser {
   facultyProfile?: FacultyProfile;
 }
 
-export interface FacultyResponse {
-  status: string;
-  data: {
-    users: FacultyUser[];
-    pagination: {
-      total: number;
-      page: number;
-      limit: number;
-      totalPages: number;
-    };
-  };
-}
+export type FacultyResponse = ApiResponse<{
+  users: FacultyUser[];
+  pagination: Pagination;
+}>;
 
 export interface CreateFacultyRequest {
   userId: number;
@@ -41,26 +34,24 @@ export interface CreateFacultyRequest {
   availability?: string;
 }
 
-export interface CreateFacultyResponse {
-  status: string;
-  message: string;
-  data: {
-    facultyProfile: {
-      id: number;
-      userId: number;
-      expertise?: string;
-      availability?: string;
-      user: FacultyUser;
-      createdAt: string;
-      updatedAt: string;
-    };
+export interface CreateFacultyResponse extends ApiResponse<{
+  facultyProfile: {
+    id: number;
+    userId: number;
+    expertise?: string;
+    availability?: string;
+    user: FacultyUser;
+    createdAt: string;
+    updatedAt: string;
   };
+}> {
+  message: string;
 }
 
 export const facultyAPI = {
-  getAllFaculty: async (): Promise<FacultyResponse> => {
+  getAllFaculty: async (params?: ListParams): Promise<FacultyResponse> => {
     const response = await api.get<FacultyResponse>('/users', {
-      params: { role: 'faculty' },
+      params: { ...params, role: 'faculty' },
     });
     return response.data;
   },
@@ -1,4 +1,5 @@
 import api from './axios';
+import { ApiResponse } from './response';
 import { LeaveStatus } from './studentLeave.api';
 
 export interface FacultyLeave {
@@ -38,20 +39,15 @@ export interface ApproveLeaveRequest {
   rejectionReason?: string;
 }
 
-export interface FacultyLeavesResponse {
-  status: string;
-  data: {
-    leaves: FacultyLeave[];
-    count: number;
-  };
-}
+export type FacultyLeavesResponse = ApiResponse<{
+  leaves: FacultyLeave[];
+  count: number;
+}>;
 
-export interface FacultyLeaveResponse {
-  status: string;
+export interface FacultyLeaveResponse extends ApiResponse<{
+  leave: FacultyLeave;
+}> {
   message: string;
-  data: {
-    leave: FacultyLeave;
-  };
 }
 
 export interface FacultyLeavesQueryParams {
@@ -0,0 +1,54 @@
+import api from './axios';
+import { ApiResponse } from './response';
+
+// What happens to a punch made outside every campus fence
+export type GeofencePolicy = 'block' | 'flag';
+
+// A campus area punches are expected from, one or more per branch
+export interface CampusGeofence {
+  id: number;
+  branch: string;
+  // Shown as the punch location instead of a reverse-geocoded address
+  name: string;
+  latitude: number;
+  longitude: number;
+  radiusMeters: number;
+  policy: GeofencePolicy;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type CreateGeofenceRequest = Omit<CampusGeofence, 'id' | 'createdAt' | 'updatedAt'>;
+
+// Result of the fence check sent along with a punch
+export interface PunchGeofence {
+  // unavailable: location was denied or not supported by the browser, or the fences failed to load
+  status: 'inside' | 'outside' | 'unavailable';
+  geofenceId?: number;
+  distanceMeters?: number;
+  // Set when the punch is accepted but has to be approved before it counts
+  needsApproval?: boolean;
+}
+
+export type GeofencesResponse = ApiResponse<{
+  geofences: CampusGeofence[];
+}>;
+
+export type GeofenceResponse = ApiResponse<{
+  geofence: CampusGeofence;
+}>;
+
+export const geofenceAPI = {
+  getGeofences: async (): Promise<GeofencesResponse> => {
+    const response = await api.get<GeofencesResponse>('/geofences');
+    return response.data;
+  },
+  createGeofence: async (data: CreateGeofenceRequest): Promise<GeofenceResponse> => {
+    const response = await api.post<GeofenceResponse>('/geofences', data);
+    return response.data;
+  },
+  deleteGeofence: async (id: number): Promise<{ status: string; message: string }> => {
+    const response = await api.delete<{ status: string; message: string }>(`/geofences/${id}`);
+    return response.data;
+  },
+};
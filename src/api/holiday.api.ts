@@ -0,0 +1,19 @@
+import api from './axios';
+import { ApiResponse } from './response';
+
+export interface Holiday {
+  id: number;
+  date: string;
+  name: string;
+}
+
+export type HolidaysResponse = ApiResponse<{
+  holidays: Holiday[];
+}>;
+
+export const holidayAPI = {
+  getHolidays: async (params?: { dateFrom?: string; dateTo?: string }): Promise<HolidaysResponse> => {
+    const response = await api.get<HolidaysResponse>('/holidays', { params });
+    return response.data;
+  },
+};
@@ -1,15 +1,27 @@
 import api from './axios';
+import { ApiResponse, ListParams, Pagination } from './response';
+
+export enum PaymentStatus {
+  PENDING = 'pending',
+  PARTIAL = 'partial',
+  PAID = 'paid',
+  OVERDUE = 'overdue',
+  CANCELLED = 'cancelled',
+}
 
 export interface PaymentTransaction {
   id: number;
   studentId: number;
   enrollmentId?: number;
   amount: number;
+  // Running total of instalments recorded against this payment
+  paidAmount?: number;
   dueDate?: string;
   paidDate?: string;
-  status: 'pending' | 'paid' | 'overdue' | 'cancelled';
+  status: PaymentStatus;
   paymentMethod?: string;
   transactionId?: string;
+  receiptUrl?: string;
   notes?: string;
   createdAt?: string;
   updatedAt?: string;
@@ -29,44 +41,45 @@ export interface PaymentTransaction {
   };
 }
 
+export type Payment = PaymentTransaction;
+
 export interface CreatePaymentRequest {
   studentId: number;
   enrollmentId?: number;
   amount: number;
   dueDate: string;
+  receiptUrl?: string;
   notes?: string;
 }
 
 export interface UpdatePaymentRequest {
-  status?: 'pending' | 'paid' | 'overdue' | 'cancelled';
+  status?: PaymentStatus;
   paidDate?: string;
   paymentMethod?: string;
   transactionId?: string;
   notes?: string;
 }
 
-export interface PaymentsResponse {
-  status: string;
-  data: {
-    payments: PaymentTransaction[];
-    pagination?: {
-      total: number;
-      page: number;
-      limit: number;
-      totalPages: number;
-    };
-  };
+// Records a (possibly partial) instalment; the backend moves the payment to partial or paid
+export interface RecordPaymentRequest {
+  amountPaid: number;
+  receiptUrl?: string;
+  paymentMethod?: string;
+  transactionId?: string;
+  notes?: string;
 }
 
-export interface PaymentResponse {
-  status: string;
-  data: {
-    payment: PaymentTransaction;
-  };
-}
+export type PaymentsResponse = ApiResponse<{
+  payments: PaymentTransaction[];
+  pagination?: Pagination;
+}>;
+
+export type PaymentResponse = ApiResponse<{
+  payment: PaymentTransaction;
+}>;
 
 export const paymentAPI = {
-  getAllPayments: async (params?: { studentId?: number; status?: string }): Promise<PaymentsResponse> => {
+  getAllPayments: async (params?: ListParams & { studentId?: number; status?: string }): Promise<PaymentsResponse> => {
     const response = await api.get<PaymentsResponse>('/payments', { params });
     return response.data;
   },
@@ -82,5 +95,9 @@ export const paymentAPI = {
     const response = await api.put<PaymentResponse>(`/payments/${id}`, data);
     return response.data;
   },
+  recordPayment: async (id: number, data: RecordPaymentRequest): Promise<PaymentResponse> => {
+    const response = await api.post<PaymentResponse>(`/payments/${id}/record`, data);
+    return response.data;
+  },
 };
 
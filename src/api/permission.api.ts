@@ -1,4 +1,5 @@
 import api from './axios';
+import { ApiResponse } from './response';
 
 export enum Module {
   BATCHES = 'batches',
@@ -43,22 +44,16 @@ export interface UpdatePermissionsRequest {
   permissions: UpdatePermissionRequest[];
 }
 
-export interface PermissionsResponse {
-  status: string;
-  data: {
-    permissions: Permission[];
-  };
-}
+export type PermissionsResponse = ApiResponse<{
+  permissions: Permission[];
+}>;
 
-export interface ModulesResponse {
-  status: string;
-  data: {
-    modules: Array<{
-      value: string;
-      label: string;
-    }>;
-  };
-}
+export type ModulesResponse = ApiResponse<{
+  modules: Array<{
+    value: string;
+    label: string;
+  }>;
+}>;
 
 export const permissionAPI = {
   getUserPermissions: async (userId: number): Promise<PermissionsResponse> => {
@@ -1,4 +1,5 @@
 import api from './axios';
+import { ApiResponse, Pagination } from './response';
 
 export interface Portfolio {
   id: number;
@@ -32,25 +33,14 @@ export interface ApprovePortfolioRequest {
   approve: boolean;
 }
 
-export interface PortfoliosResponse {
-  status: string;
-  data: {
-    portfolios: Portfolio[];
-    pagination?: {
-      total: number;
-      page: number;
-      limit: number;
-      totalPages: number;
-    };
-  };
-}
+export type PortfoliosResponse = ApiResponse<{
+  portfolios: Portfolio[];
+  pagination?: Pagination;
+}>;
 
-export interface PortfolioResponse {
-  status: string;
-  data: {
-    portfolio: Portfolio;
-  };
-}
+export type PortfolioResponse = ApiResponse<{
+  portfolio: Portfolio;
+}>;
 
 export const portfolioAPI = {
   getAllPortfolios: async (params?: { studentId?: number; batchId?: number; status?: string }): Promise<PortfoliosResponse> => {
@@ -0,0 +1,102 @@
+import api from './axios';
+import { ApiResponse, Pagination } from './response';
+import type { ApproveRequestRequest } from './approval.api';
+
+// Which punch log a request corrects: employeeAttendanceAPI or the student punches of attendanceAPI
+export type PunchSource = 'employee' | 'student';
+
+export type RegularisationStatus = 'pending' | 'approved' | 'rejected';
+
+export interface BreakCorrection {
+  // Unset for a break that was never recorded
+  breakId?: string;
+  startTime: string;
+  endTime?: string;
+}
+
+// Punch times as recorded, or as the user says they should have been
+export interface PunchTimes {
+  punchInAt?: string | null;
+  punchOutAt?: string | null;
+  breaks?: BreakCorrection[];
+}
+
+export interface RegularisationRequest {
+  id: number;
+  source: PunchSource;
+  // Unset when the user did not punch at all that day
+  punchId?: number;
+  userId: number;
+  date: string;
+  status: RegularisationStatus;
+  reason: string;
+  original: PunchTimes;
+  requested: PunchTimes;
+  reviewedBy?: number;
+  reviewedAt?: string;
+  rejectionReason?: string;
+  createdAt?: string;
+  user?: {
+    id: number;
+    name: string;
+    email: string;
+  };
+}
+
+export interface CreateRegularisationRequest {
+  source: PunchSource;
+  punchId?: number;
+  date: string;
+  requested: PunchTimes;
+  reason: string;
+}
+
+// One change made to a punch, by the user or through an approved request
+export interface PunchAuditEntry {
+  id: number;
+  field: 'punchInAt' | 'punchOutAt' | 'break';
+  from?: string | null;
+  to?: string | null;
+  changedAt: string;
+  changedBy?: {
+    id: number;
+    name: string;
+  };
+  regularisationId?: number;
+  reason?: string;
+}
+
+// Attached to punches that were corrected after the fact
+export interface PunchRegularisation {
+  original: PunchTimes;
+  audit: PunchAuditEntry[];
+}
+
+export type RegularisationsResponse = ApiResponse<{
+  requests: RegularisationRequest[];
+  pagination?: Pagination;
+}>;
+
+export type RegularisationResponse = ApiResponse<{
+  request: RegularisationRequest;
+}>;
+
+export const regularisationAPI = {
+  getRequests: async (params?: {
+    status?: RegularisationStatus;
+    source?: PunchSource;
+    userId?: number;
+  }): Promise<RegularisationsResponse> => {
+    const response = await api.get<RegularisationsResponse>('/attendance-regularisations', { params });
+    return response.data;
+  },
+  createRequest: async (data: CreateRegularisationRequest): Promise<RegularisationResponse> => {
+    const response = await api.post<RegularisationResponse>('/attendance-regularisations', data);
+    return response.data;
+  },
+  // Approving rewrites the punch and recalculates its working hours; the original stays in the audit trail
+  reviewRequest: async (id: number, data: ApproveRequestRequest): Promise<RegularisationResponse> => {
+    const response = await api.post<RegularisationResponse>(`/attendance-regularisations/${id}/review`, data);
+    return response.data;
+  },
+};
@@ -1,4 +1,5 @@
 import api from './axios';
+import { ApiResponse } from './response';
 
 export interface StudentsWithoutBatchReport {
   students: Array<{
@@ -166,23 +167,23 @@ export interface AllAnalysisReport {
 }
 
 export const reportAPI = {
-  getStudentsWithoutBatch: async (): Promise<{ status: string; data: StudentsWithoutBatchReport }> => {
+  getStudentsWithoutBatch: async (): Promise<ApiResponse<StudentsWithoutBatchReport>> => {
     const response = await api.get('/reports/students-without-batch');
     return response.data;
   },
-  getBatchAttendance: async (batchId: number, params?: { from?: string; to?: string }): Promise<{ status: string; data: BatchAttendanceReport }> => {
+  getBatchAttendance: async (batchId: number, params?: { from?: string; to?: string }): Promise<ApiResponse<BatchAttendanceReport>> => {
     const response = await api.get(`/reports/batch-attendance`, { params: { batchId, ...params } });
     return response.data;
   },
-  getPendingPayments: async (): Promise<{ status: string; data: PendingPaymentsReport }> => {
+  getPendingPayments: async (): Promise<ApiResponse<PendingPaymentsReport>> => {
     const response = await api.get('/reports/pending-payments');
     return response.data;
   },
-  getPortfolioStatus: async (): Promise<{ status: string; data: PortfolioStatusReport }> => {
+  getPortfolioStatus: async (): Promise<ApiResponse<PortfolioStatusReport>> => {
     const response = await api.get('/reports/portfolio-status');
     return response.data;
   },
-  getAllAnalysisReports: async (): Promise<{ status: string; data: AllAnalysisReport }> => {
+  getAllAnalysisReports: async (): Promise<ApiResponse<AllAnalysisReport>> => {
     const response = await api.get('/reports/all-analysis');
     return response.data;
   },
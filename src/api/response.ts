@@ -0,0 +1,153 @@
+import axios from 'axios';
+
+/**
+ * Envelope every backend endpoint responds with
+ */
+export interface ApiResponse<T> {
+  status: string;
+  message?: string;
+  data: T;
+}
+
+// Page metadata returned by paginated list endpoints
+export interface Pagination {
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export type SortOrder = 'asc' | 'desc';
+
+// Query parameters understood by paginated list endpoints
+export interface ListParams {
+  page?: number;
+  limit?: number;
+  sortBy?: string;
+  sortOrder?: SortOrder;
+  search?: string;
+}
+
+// Validation messages keyed by request field name, e.g. `{ email: 'Email is already taken' }`
+export type FieldErrors = Record<string, string>;
+
+/**
+ * Error thrown for every failed request made through the shared axios instance.
+ * The response interceptor builds it, so callers never need to dig into axios internals.
+ */
+export class ApiError extends Error {
+  // HTTP status, or null when no response was received (network error, request refused locally)
+  readonly status: number | null;
+  readonly code?: string;
+  readonly fieldErrors: FieldErrors;
+  // Correlation id from the backend, worth quoting in bug reports
+  readonly requestId?: string;
+  // Raw response body, for endpoint-specific extras such as debug info
+  readonly data?: unknown;
+
+  constructor(
+    message: string,
+    options: { status?: number | null; code?: string; fieldErrors?: FieldErrors; requestId?: string; data?: unknown } = {}
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = options.status ?? null;
+    this.code = options.code;
+    this.fieldErrors = options.fieldErrors ?? {};
+    this.requestId = options.requestId;
+    this.data = options.data;
+  }
+
+  get isNetworkError(): boolean {
+    return this.status === null;
+  }
+
+  get hasFieldErrors(): boolean {
+    return Object.keys(this.fieldErrors).length > 0;
+  }
+}
+
+interface ErrorBody {
+  message?: string;
+  error?: string;
+  requestId?: string;
+  errors?: unknown;
+}
+
+// The backend reports validation failures either as a list of
+// `{ field | path | param, message | msg }` items or as a `{ field: message | message[] }` map
+const parseFieldErrors = (errors: unknown): FieldErrors => {
+  const fieldErrors: FieldErrors = {};
+  if (Array.isArray(errors)) {
+    errors.forEach((item) => {
+      const field = item?.field ?? item?.path ?? item?.param;
+      const message = item?.message ?? item?.msg;
+      const key = Array.isArray(field) ? field.join('.') : field;
+      if (key && message && !fieldErrors[key]) {
+        fieldErrors[key] = String(message);
+      }
+    });
+  } else if (errors && typeof errors === 'object') {
+    Object.entries(errors as Record<string, unknown>).forEach(([field, message]) => {
+      const first = Array.isArray(message) ? message[0] : message;
+      if (first) {
+        fieldErrors[field] = String(first);
+      }
+    });
+  }
+  return fieldErrors;
+};
+
+/**
+ * Converts anything thrown by a request into an ApiError
+ * @param error - Usually an AxiosError; other values are wrapped as-is
+ */
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+
+  if (axios.isAxiosError(error)) {
+    const body = (error.response?.data ?? undefined) as ErrorBody | undefined;
+    const requestId = error.response?.headers?.['x-request-id'] ?? body?.requestId;
+    let message = body?.message || body?.error;
+    if (!message) {
+      message = error.response
+        ? `Request failed with status ${error.response.status}`
+        : error.code === 'ERR_NETWORK'
+          ? 'Unable to connect to server. Please check your connection.'
+          : error.message;
+    }
+    return new ApiError(message, {
+      status: error.response?.status ?? null,
+      code: error.code,
+      fieldErrors: parseFieldErrors(body?.errors),
+      requestId: requestId ? String(requestId) : undefined,
+      data: body,
+    });
+  }
+
+  return new ApiError(error instanceof Error ? error.message : 'Something went wrong');
+}
+
+/**
+ * Message to show for a failed request
+ * @param error - The caught error
+ * @param fallback - Used when the error carries no backend message
+ */
+export function getErrorMessage(error: unknown, fallback: string): string {
+  if (!(error instanceof ApiError)) return fallback;
+  // Prefer what the backend said; a bare status code is less helpful than the caller's wording
+  const body = error.data as ErrorBody | undefined;
+  return (body?.message || body?.error || error.isNetworkError) ? error.message : fallback;
+}
+
+/**
+ * Field errors of a failed request, keyed by form input name
+ * @param error - The caught error
+ * @param inputNames - Request field to input name, for inputs named differently from the payload
+ */
+export function getFieldErrors(error: unknown, inputNames: Record<string, string> = {}): FieldErrors {
+  if (!(error instanceof ApiError)) return {};
+  return Object.fromEntries(
+    Object.entries(error.fieldErrors).map(([field, message]) => [inputNames[field] ?? field, message])
+  );
+}
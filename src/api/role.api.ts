@@ -1,4 +1,5 @@
 import api from './axios';
+import { ApiResponse } from './response';
 import { Module } from './permission.api';
 
 export interface Role {
@@ -51,27 +52,18 @@ export interface AssignRoleRequest {
   roleId: number;
 }
 
-export interface RolesResponse {
-  status: string;
-  data: {
-    roles: Role[];
-    count: number;
-  };
-}
+export type RolesResponse = ApiResponse<{
+  roles: Role[];
+  count: number;
+}>;
 
-export interface RoleResponse {
-  status: string;
-  data: {
-    role: Role;
-  };
-}
+export type RoleResponse = ApiResponse<{
+  role: Role;
+}>;
 
-export interface UserRolesResponse {
-  status: string;
-  data: {
-    roles: Role[];
-  };
-}
+export type UserRolesResponse = ApiResponse<{
+  roles: Role[];
+}>;
 
 export const roleAPI = {
   getAllRoles: async (): Promise<RolesResponse> => {
@@ -0,0 +1,47 @@
+import api from './axios';
+import { ApiResponse } from './response';
+
+/**
+ * A named list page with its filters, sort and page as they were in the query string.
+ * Opening the view navigates to `path` + `search`, so the same URL works as a shared link.
+ * Views belong to the signed-in user and follow them across devices.
+ */
+export interface SavedView {
+  id: number;
+  name: string;
+  path: string;
+  search: string;
+  pinned: boolean;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export type CreateSavedViewRequest = Pick<SavedView, 'name' | 'path' | 'search' | 'pinned'>;
+
+export type SavedViewsResponse = ApiResponse<{
+  views: SavedView[];
+}>;
+
+export type SavedViewResponse = ApiResponse<{
+  view: SavedView;
+}>;
+
+export const savedViewAPI = {
+  // Only the current user's views are returned
+  getViews: async (): Promise<SavedViewsResponse> => {
+    const response = await api.get<SavedViewsResponse>('/saved-views');
+    return response.data;
+  },
+  createView: async (data: CreateSavedViewRequest): Promise<SavedViewResponse> => {
+    const response = await api.post<SavedViewResponse>('/saved-views', data);
+    return response.data;
+  },
+  updateView: async (id: number, data: Partial<CreateSavedViewRequest>): Promise<SavedViewResponse> => {
+    const response = await api.patch<SavedViewResponse>(`/saved-views/${id}`, data);
+    return response.data;
+  },
+  deleteView: async (id: number): Promise<{ status: string; message: string }> => {
+    const response = await api.delete<{ status: string; message: string }>(`/saved-views/${id}`);
+    return response.data;
+  },
+};
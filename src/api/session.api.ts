@@ -1,4 +1,12 @@
 import api from './axios';
+import { ApiResponse, ListParams, Pagination } from './response';
+
+export enum SessionStatus {
+  SCHEDULED = 'scheduled',
+  ONGOING = 'ongoing',
+  COMPLETED = 'completed',
+  CANCELLED = 'cancelled',
+}
 
 export interface Session {
   id: number;
@@ -9,7 +17,7 @@ export interface Session {
   endTime: string;
   topic?: string;
   isBackup: boolean;
-  status: 'scheduled' | 'ongoing' | 'completed' | 'cancelled';
+  status: SessionStatus;
   actualStartAt?: string;
   actualEndAt?: string;
   createdAt?: string;
@@ -35,28 +43,19 @@ export interface CreateSessionRequest {
   isBackup?: boolean;
 }
 
-export interface SessionsResponse {
-  status: string;
-  data: {
-    sessions: Session[];
-    pagination?: {
-      total: number;
-      page: number;
-      limit: number;
-      totalPages: number;
-    };
-  };
-}
+export type SessionsResponse = ApiResponse<{
+  sessions: Session[];
+  pagination?: Pagination;
+}>;
 
-export interface SessionResponse {
-  status: string;
-  data: {
-    session: Session;
-  };
-}
+export type SessionResponse = ApiResponse<{
+  session: Session;
+}>;
 
 export const sessionAPI = {
-  getAllSessions: async (params?: { batchId?: number; facultyId?: number; status?: string }): Promise<SessionsResponse> => {
+  getAllSessions: async (
+    params?: ListParams & { batchId?: number; facultyId?: number; status?: string; dateFrom?: string; dateTo?: string }
+  ): Promise<SessionsResponse> => {
     const response = await api.get<SessionsResponse>('/sessions', { params });
     return response.data;
   },
@@ -1,4 +1,5 @@
 import api from './axios';
+import { ApiResponse } from './response';
 
 export enum SoftwareCompletionStatus {
   IN_PROGRESS = 'in_progress',
@@ -48,20 +49,15 @@ export interface UpdateCompletionRequest {
   endDate?: string;
 }
 
-export interface CompletionsResponse {
-  status: string;
-  data: {
-    completions: SoftwareCompletion[];
-    count: number;
-  };
-}
+export type CompletionsResponse = ApiResponse<{
+  completions: SoftwareCompletion[];
+  count: number;
+}>;
 
-export interface CompletionResponse {
-  status: string;
+export interface CompletionResponse extends ApiResponse<{
+  completion: SoftwareCompletion;
+}> {
   message: string;
-  data: {
-    completion: SoftwareCompletion;
-  };
 }
 
 export interface CompletionsQueryParams {
@@ -1,4 +1,6 @@
 import api from './axios';
+import { ApiResponse } from './response';
+import type { WaitlistEntry } from './enrollment.api';
 
 export interface Student {
   id: number;
@@ -9,13 +11,10 @@ export interface Student {
   createdAt?: string;
 }
 
-export interface StudentsResponse {
-  status: string;
-  data: {
-    students: Student[];
-    totalCount: number;
-  };
-}
+export type StudentsResponse = ApiResponse<{
+  students: Student[];
+  totalCount: number;
+}>;
 
 export interface Enrollment {
   id: number;
@@ -38,12 +37,12 @@ export interface CreateEnrollmentRequest {
   status?: string;
 }
 
-export interface EnrollmentResponse {
-  status: string;
+// A full batch queues the student instead: enrollment is then absent and waitlistEntry holds their place
+export interface EnrollmentResponse extends ApiResponse<{
+  enrollment?: Enrollment;
+  waitlistEntry?: WaitlistEntry;
+}> {
   message: string;
-  data: {
-    enrollment: Enrollment;
-  };
 }
 
 export interface CompleteEnrollmentRequest {
@@ -84,19 +83,50 @@ export interface CompleteEnrollmentRequest {
   leadSource?: string;
   walkinDate?: string;
   masterFaculty?: string;
+
+  // Makes the student replace their initial password on first login
+  mustChangePassword?: boolean;
 }
 
-export interface CompleteEnrollmentResponse {
-  status: string;
+export interface CompleteEnrollmentResponse extends ApiResponse<{
+  user: {
+    id: number;
+    name: string;
+    email: string;
+  };
+  enrollment?: Enrollment;
+  // Set instead of enrollment when the chosen batch is full
+  waitlistEntry?: WaitlistEntry;
+}> {
   message: string;
-  data: {
-    user: {
-      id: number;
-      name: string;
-      email: string;
-    };
-    enrollment?: Enrollment;
+}
+
+export interface OrientationAcknowledgmentData {
+  studentId: number;
+  studentName: string;
+  course: string;
+  specialCommitment?: string;
+  specialBatchTiming?: string;
+  unableToPracticeReason?: string;
+  paymentExemption?: string;
+  confirmed: boolean;
+}
+
+export interface OrientationAcknowledgmentResponse extends ApiResponse<{
+  orientation: OrientationAcknowledgmentData & {
+    id: number;
+    acknowledgedAt: string;
   };
+}> {
+  message: string;
+}
+
+export interface BulkEnrollResult {
+  success: number;
+  // Rows whose batch was full; those students were added to its waitlist
+  waitlisted: number;
+  failed: number;
+  errors: any[];
 }
 
 export const studentAPI = {
@@ -105,6 +135,7 @@ export const studentAPI = {
     return response.data;
   },
 
+  // The server checks the batch's capacity and waitlists the student when it is full
   createEnrollment: async (data: CreateEnrollmentRequest): Promise<EnrollmentResponse> => {
     // Note: This endpoint may need to be created in the backend
     // For now, we'll use a placeholder that can be updated when the endpoint is available
@@ -119,7 +150,7 @@ export const studentAPI = {
     return response.data;
   },
 
-  bulkEnrollStudents: async (file: File): Promise<{ status: string; message: string; data: { success: number; failed: number; errors: any[] } }> => {
+  bulkEnrollStudents: async (file: File): Promise<ApiResponse<BulkEnrollResult>> => {
     const formData = new FormData();
     formData.append('file', file);
     const response = await api.post('/students/bulk-enroll', formData, {
@@ -130,6 +161,11 @@ export const studentAPI = {
     return response.data;
   },
 
+  acknowledgeOrientation: async (data: OrientationAcknowledgmentData): Promise<OrientationAcknowledgmentResponse> => {
+    const response = await api.post<OrientationAcknowledgmentResponse>('/students/orientation', data);
+    return response.data;
+  },
+
   downloadEnrollmentTemplate: async (): Promise<Blob> => {
     const response = await api.get('/students/template', {
       responseType: 'blob',
@@ -1,4 +1,5 @@
 import api from './axios';
+import { ApiResponse } from './response';
 
 export enum LeaveStatus {
   PENDING = 'pending',
@@ -50,20 +51,15 @@ export interface ApproveLeaveRequest {
   rejectionReason?: string;
 }
 
-export interface LeavesResponse {
-  status: string;
-  data: {
-    leaves: StudentLeave[];
-    count: number;
-  };
-}
+export type LeavesResponse = ApiResponse<{
+  leaves: StudentLeave[];
+  count: number;
+}>;
 
-export interface LeaveResponse {
-  status: string;
+export interface LeaveResponse extends ApiResponse<{
+  leave: StudentLeave;
+}> {
   message: string;
-  data: {
-    leave: StudentLeave;
-  };
 }
 
 export interface LeavesQueryParams {
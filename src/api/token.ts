@@ -0,0 +1,103 @@
+const TOKEN_KEY = 'token';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+const ORIGINAL_SESSION_KEY = 'originalSession';
+
+type TokenListener = (token: string | null) => void;
+
+const listeners = new Set<TokenListener>();
+
+const notify = (token: string | null) => {
+  listeners.forEach((listener) => listener(token));
+};
+
+// Tokens written by other tabs (refresh, login, logout) share this localStorage
+window.addEventListener('storage', (event) => {
+  if (event.key === TOKEN_KEY || event.key === null) {
+    notify(localStorage.getItem(TOKEN_KEY));
+  }
+});
+
+/**
+ * Access/refresh token storage.
+ * Every write notifies subscribers, so AuthContext learns about tokens
+ * renewed or cleared by the axios interceptor or by another tab.
+ */
+export const tokenStorage = {
+  getAccessToken: (): string | null => localStorage.getItem(TOKEN_KEY),
+
+  getRefreshToken: (): string | null => localStorage.getItem(REFRESH_TOKEN_KEY),
+
+  // Pass `null` as refreshToken to drop the stored one, e.g. for sessions that must not be renewed
+  setTokens: (token: string, refreshToken?: string | null) => {
+    localStorage.setItem(TOKEN_KEY, token);
+    if (refreshToken) {
+      localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+    } else if (refreshToken === null) {
+      localStorage.removeItem(REFRESH_TOKEN_KEY);
+    }
+    notify(token);
+  },
+
+  clear: () => {
+    localStorage.removeItem(TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+    notify(null);
+  },
+
+  subscribe: (listener: TokenListener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
+
+// The admin session put aside while impersonating another user
+export interface OriginalSession {
+  token: string;
+  refreshToken: string | null;
+  user: {
+    id: number;
+    name: string;
+    email: string;
+    role: string;
+  };
+  // When set, delete actions are hidden and DELETE requests are refused
+  blockDestructiveActions: boolean;
+}
+
+export const impersonationStorage = {
+  get: (): OriginalSession | null => {
+    const stored = localStorage.getItem(ORIGINAL_SESSION_KEY);
+    if (!stored) return null;
+    try {
+      return JSON.parse(stored);
+    } catch {
+      return null;
+    }
+  },
+
+  set: (session: OriginalSession) => {
+    localStorage.setItem(ORIGINAL_SESSION_KEY, JSON.stringify(session));
+  },
+
+  clear: () => {
+    localStorage.removeItem(ORIGINAL_SESSION_KEY);
+  },
+};
+
+/**
+ * Reads the expiry of a JWT without verifying it
+ * @param token - The encoded JWT
+ * @returns Expiry as epoch milliseconds, or null when the token has no readable `exp`
+ */
+export function getTokenExpiry(token: string | null): number | null {
+  if (!token) return null;
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    const { exp } = JSON.parse(atob(payload));
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
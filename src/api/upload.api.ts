@@ -1,4 +1,5 @@
 import api from './axios';
+import { ApiResponse } from './response';
 
 export interface UploadedFile {
   originalName: string;
@@ -8,14 +9,12 @@ export interface UploadedFile {
   url: string;
 }
 
-export interface UploadResponse {
-  status: string;
+export interface UploadResponse extends ApiResponse<{
+  files: UploadedFile[];
+  urls: string[];
+  count: number;
+}> {
   message: string;
-  data: {
-    files: UploadedFile[];
-    urls: string[];
-    count: number;
-  };
 }
 
 export const uploadAPI = {
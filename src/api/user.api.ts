@@ -1,4 +1,13 @@
 import api from './axios';
+import { ApiResponse, ListParams, Pagination } from './response';
+
+export enum UserRole {
+  SUPERADMIN = 'superadmin',
+  ADMIN = 'admin',
+  FACULTY = 'faculty',
+  STUDENT = 'student',
+  EMPLOYEE = 'employee',
+}
 
 export interface StudentProfile {
   id: number;
@@ -35,6 +44,8 @@ export interface CreateUserRequest {
   phone?: string;
   role: 'superadmin' | 'admin' | 'faculty' | 'student' | 'employee';
   password: string;
+  // Makes the user replace the admin-chosen password on first login
+  mustChangePassword?: boolean;
 }
 
 export interface UpdateUserRequest {
@@ -56,36 +67,25 @@ export interface UpdateStudentProfileRequest {
   documents?: Record<string, any>;
 }
 
-export interface UsersResponse {
-  status: string;
-  data: {
-    users: User[];
-    pagination?: {
-      total: number;
-      page: number;
-      limit: number;
-      totalPages: number;
-    };
-  };
-}
+export type UsersResponse = ApiResponse<{
+  users: User[];
+  pagination?: Pagination;
+}>;
 
-export interface UserResponse {
-  status: string;
-  data: {
-    user: User;
-  };
-}
+export type UserResponse = ApiResponse<{
+  user: User;
+}>;
 
-export interface LoginAsUserResponse {
-  status: string;
-  data: {
-    token: string;
-    user: User;
-  };
-}
+export type LoginAsUserResponse = ApiResponse<{
+  token: string;
+  user: User;
+}>;
 
 export const userAPI = {
-  getAllUsers: async (params?: { role?: string; isActive?: boolean }): Promise<UsersResponse> => {
+  getAllUsers: async (params?: ListParams & {
+    role?: string;
+    isActive?: boolean;
+  }): Promise<UsersResponse> => {
     const response = await api.get<UsersResponse>('/users', { params });
     return response.data;
   },
@@ -1,8 +1,9 @@
-import React, { useState, useEffect } from 'react';
-import { attendanceAPI, AttendanceStatus, AttendanceRequest } from '../api/attendance.api';
-import { enrollmentAPI, Enrollment } from '../api/enrollment.api';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { attendanceAPI, AttendanceStatus, BulkAttendanceResponse, MarkAttendanceRequest } from '../api/attendance.api';
+import { enrollmentAPI } from '../api/enrollment.api';
 import { Session } from '../api/session.api';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from '../context/NotificationContext';
 
 interface AttendanceModalProps {
   session: Session;
@@ -10,8 +11,49 @@ interface AttendanceModalProps {
   onClose: () => void;
 }
 
+// Keyboard shortcuts on a focused roster row
+const STATUS_KEYS: Record<string, AttendanceStatus> = {
+  p: AttendanceStatus.PRESENT,
+  a: AttendanceStatus.ABSENT,
+  m: AttendanceStatus.MANUAL_PRESENT,
+};
+
+const STATUS_BUTTONS: { status: AttendanceStatus; label: string; shortcut: string; active: string; idle: string }[] = [
+  {
+    status: AttendanceStatus.PRESENT,
+    label: 'Present',
+    shortcut: 'P',
+    active: 'bg-green-100 text-green-700 border-green-500',
+    idle: 'hover:bg-green-50',
+  },
+  {
+    status: AttendanceStatus.ABSENT,
+    label: 'Absent',
+    shortcut: 'A',
+    active: 'bg-red-100 text-red-700 border-red-500',
+    idle: 'hover:bg-red-50',
+  },
+  {
+    status: AttendanceStatus.MANUAL_PRESENT,
+    label: 'Manual',
+    shortcut: 'M',
+    active: 'bg-blue-100 text-blue-700 border-blue-500',
+    idle: 'hover:bg-blue-50',
+  },
+];
+
+type SaveResult = BulkAttendanceResponse['data'];
+
+/**
+ * Session roster for marking attendance. Changes stay local until saved in one bulk request;
+ * a successful save can be undone for as long as the backend keeps the undo token.
+ */
 export const AttendanceModal: React.FC<AttendanceModalProps> = ({ session, isOpen, onClose }) => {
-  const [studentAttendances, setStudentAttendances] = useState<Record<number, AttendanceStatus>>({});
+  // Unsaved changes on top of the saved attendance, by student
+  const [edits, setEdits] = useState<Record<number, AttendanceStatus>>({});
+  const [lastSave, setLastSave] = useState<SaveResult | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const rowRefs = useRef<(HTMLDivElement | null)[]>([]);
   const queryClient = useQueryClient();
 
   // Fetch enrolled students for the batch
@@ -24,60 +66,124 @@ export const AttendanceModal: React.FC<AttendanceModalProps> = ({ session, isOpe
   // Fetch existing attendances for this session
   const { data: attendancesData } = useQuery({
     queryKey: ['session-attendances', session.id],
-    queryFn: () => attendanceAPI.getSessionAttendances(session.id),
+    queryFn: () => attendanceAPI.getSessionAttendance(session.id),
     enabled: isOpen,
   });
 
-  // Initialize student attendances from existing data
+  const savedStatuses = useMemo(() => {
+    const statuses: Record<number, AttendanceStatus> = {};
+    attendancesData?.data.attendances.forEach((attendance) => {
+      statuses[attendance.studentId] = attendance.status;
+    });
+    return statuses;
+  }, [attendancesData]);
+
+  // Students whose QR check-in came after the session started
+  const lateStudentIds = useMemo(
+    () => new Set(attendancesData?.data.attendances.filter((attendance) => attendance.isLate).map((attendance) => attendance.studentId)),
+    [attendancesData]
+  );
+
+  const undoExpiresAt = lastSave?.undoToken && lastSave.undoExpiresAt ? new Date(lastSave.undoExpiresAt).getTime() : 0;
+  const undoSecondsLeft = Math.max(0, Math.ceil((undoExpiresAt - now) / 1000));
+
+  // Tick the undo countdown while it runs
   useEffect(() => {
-    if (attendancesData?.data) {
-      const initial: Record<number, AttendanceStatus> = {};
-      attendancesData.data.forEach((att) => {
-        initial[att.studentId] = att.status;
-      });
-      setStudentAttendances(initial);
-    } else if (enrollmentsData?.data) {
-      // Initialize all as absent if no attendance records exist
-      const initial: Record<number, AttendanceStatus> = {};
-      enrollmentsData.data.forEach((enrollment) => {
-        if (!initial[enrollment.studentId]) {
-          initial[enrollment.studentId] = AttendanceStatus.ABSENT;
-        }
-      });
-      setStudentAttendances(initial);
-    }
-  }, [attendancesData, enrollmentsData]);
+    if (!undoExpiresAt) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [undoExpiresAt]);
 
-  const markAttendanceMutation = useMutation({
-    mutationFn: ({ studentId, status, isManual }: AttendanceRequest & { studentId: number }) =>
-      attendanceAPI.markAttendance(session.id, { studentId, status, isManual }),
+  const saveMutation = useMutation({
+    mutationFn: (records: MarkAttendanceRequest[]) => attendanceAPI.markBulkAttendance(session.id, records),
+    meta: { errorMessage: 'Failed to save attendance' },
+    onSuccess: (response) => {
+      const { saved, failed } = response.data;
+      // Keep failed rows as unsaved edits so they can be retried
+      const failedIds = new Set(failed.map((failure) => failure.studentId));
+      setEdits((current) =>
+        Object.fromEntries(Object.entries(current).filter(([studentId]) => failedIds.has(Number(studentId))))
+      );
+      setLastSave(response.data);
+      setNow(Date.now());
+      if (failed.length > 0) {
+        toast.error(`Saved ${saved.length} record(s); ${failed.length} could not be saved.`);
+      } else {
+        toast.success(`Attendance saved for ${saved.length} student(s).`);
+      }
+      queryClient.invalidateQueries({ queryKey: ['session-attendances', session.id] });
+    },
+  });
+
+  const undoMutation = useMutation({
+    mutationFn: (undoToken: string) => attendanceAPI.undoBulkAttendance(session.id, undoToken),
+    meta: { successMessage: 'Attendance changes undone', errorMessage: 'Failed to undo attendance changes' },
     onSuccess: () => {
+      setLastSave(null);
+      setEdits({});
       queryClient.invalidateQueries({ queryKey: ['session-attendances', session.id] });
     },
   });
 
-  const handleAttendanceChange = (studentId: number, status: AttendanceStatus, isManual = false) => {
-    setStudentAttendances((prev) => ({
-      ...prev,
-      [studentId]: status,
-    }));
+  if (!isOpen) return null;
 
-    markAttendanceMutation.mutate({ studentId, status, isManual });
+  const students = enrollmentsData?.data || [];
+  const statusOf = (studentId: number): AttendanceStatus | undefined => edits[studentId] ?? savedStatuses[studentId];
+  const changes = Object.entries(edits).filter(([studentId, status]) => savedStatuses[Number(studentId)] !== status);
+  const unmarkedCount = students.filter((enrollment) => !statusOf(enrollment.studentId)).length;
+  const presentCount = students.filter((enrollment) => {
+    const status = statusOf(enrollment.studentId);
+    return status === AttendanceStatus.PRESENT || status === AttendanceStatus.MANUAL_PRESENT;
+  }).length;
+  const isSaving = saveMutation.isPending || undoMutation.isPending;
+  const namesById = new Map(students.map((enrollment) => [enrollment.studentId, enrollment.student?.name]));
+
+  const setStatus = (studentId: number, status: AttendanceStatus) => {
+    setEdits((current) => ({ ...current, [studentId]: status }));
   };
 
-  const handleBulkSave = () => {
-    if (!enrollmentsData?.data) return;
+  const markAllPresent = () => {
+    setEdits(Object.fromEntries(students.map((enrollment) => [enrollment.studentId, AttendanceStatus.PRESENT])));
+  };
 
-    enrollmentsData.data.forEach((enrollment) => {
-      const status = studentAttendances[enrollment.studentId] || AttendanceStatus.ABSENT;
-      markAttendanceMutation.mutate({ studentId: enrollment.studentId, status, isManual: false });
-    });
+  // Flips a row between present and absent; unmarked rows become absent, as after "mark all present"
+  const toggleAbsent = (studentId: number) => {
+    setStatus(studentId, statusOf(studentId) === AttendanceStatus.ABSENT ? AttendanceStatus.PRESENT : AttendanceStatus.ABSENT);
   };
 
-  if (!isOpen) return null;
+  const focusRow = (index: number) => {
+    rowRefs.current[Math.min(Math.max(index, 0), students.length - 1)]?.focus();
+  };
 
-  const students = enrollmentsData?.data || [];
-  const isMarking = markAttendanceMutation.isPending;
+  const handleRowKeyDown = (e: React.KeyboardEvent<HTMLDivElement>, index: number, studentId: number) => {
+    const key = e.key.toLowerCase();
+    if (STATUS_KEYS[key]) {
+      e.preventDefault();
+      setStatus(studentId, STATUS_KEYS[key]);
+      focusRow(index + 1);
+    } else if (key === ' ') {
+      e.preventDefault();
+      toggleAbsent(studentId);
+    } else if (key === 'arrowdown' || key === 'j') {
+      e.preventDefault();
+      focusRow(index + 1);
+    } else if (key === 'arrowup' || key === 'k') {
+      e.preventDefault();
+      focusRow(index - 1);
+    }
+  };
+
+  const handleSave = () => {
+    if (changes.length === 0) return;
+    setLastSave(null);
+    saveMutation.mutate(
+      changes.map(([studentId, status]) => ({
+        studentId: Number(studentId),
+        status,
+        isManual: status === AttendanceStatus.MANUAL_PRESENT,
+      }))
+    );
+  };
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -103,6 +209,55 @@ export const AttendanceModal: React.FC<AttendanceModalProps> = ({ session, isOpe
           </button>
         </div>
 
+        {/* Toolbar */}
+        {students.length > 0 && (
+          <div className="px-6 py-3 border-b border-gray-200 flex flex-wrap items-center gap-3 text-sm">
+            <button
+              onClick={markAllPresent}
+              disabled={isSaving}
+              className="px-3 py-1.5 font-medium text-green-700 bg-green-50 border border-green-300 rounded-md hover:bg-green-100 disabled:opacity-50"
+            >
+              Mark all present
+            </button>
+            <span className="text-gray-600">
+              {presentCount} present · {students.length - presentCount - unmarkedCount} absent · {unmarkedCount} unmarked
+            </span>
+            <span className="ml-auto text-xs text-gray-500">
+              ↑/↓ to move · P, A, M to mark · Space toggles absent
+            </span>
+          </div>
+        )}
+
+        {/* Save result and undo */}
+        {lastSave && (
+          <div className="px-6 py-3 border-b border-gray-200 space-y-2 text-sm">
+            <div className="flex items-center justify-between gap-3">
+              <span className="text-gray-700">
+                Saved {lastSave.saved.length} record(s)
+                {lastSave.failed.length > 0 && <span className="text-red-600">, {lastSave.failed.length} failed</span>}.
+              </span>
+              {undoSecondsLeft > 0 && lastSave.undoToken && (
+                <button
+                  onClick={() => undoMutation.mutate(lastSave.undoToken!)}
+                  disabled={isSaving}
+                  className="px-3 py-1 font-medium text-orange-700 bg-orange-50 border border-orange-300 rounded-md hover:bg-orange-100 disabled:opacity-50"
+                >
+                  Undo ({undoSecondsLeft}s)
+                </button>
+              )}
+            </div>
+            {lastSave.failed.length > 0 && (
+              <ul className="p-2 bg-red-50 border border-red-200 rounded text-red-700 space-y-1">
+                {lastSave.failed.map((failure) => (
+                  <li key={failure.studentId}>
+                    {namesById.get(failure.studentId) || `Student ${failure.studentId}`}: {failure.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
         {/* Content */}
         <div className="px-6 py-4 overflow-y-auto flex-1">
           {isLoadingEnrollments ? (
@@ -112,80 +267,62 @@ export const AttendanceModal: React.FC<AttendanceModalProps> = ({ session, isOpe
           ) : students.length === 0 ? (
             <p className="text-center text-gray-500 py-8">No students enrolled in this batch.</p>
           ) : (
-            <div className="space-y-2">
-              {students.map((enrollment) => (
-                <div
-                  key={enrollment.id}
-                  className="flex items-center justify-between p-3 border border-gray-200 rounded-lg hover:bg-gray-50"
-                >
-                  <div className="flex-1">
-                    <p className="font-medium text-gray-900">
-                      {enrollment.student?.name || 'Unknown Student'}
-                    </p>
-                    <p className="text-sm text-gray-500">{enrollment.student?.email}</p>
-                  </div>
+            <div className="space-y-2" role="grid" aria-label="Attendance roster">
+              {students.map((enrollment, index) => {
+                const status = statusOf(enrollment.studentId);
+                const isChanged = enrollment.studentId in edits && edits[enrollment.studentId] !== savedStatuses[enrollment.studentId];
+                return (
+                  <div
+                    key={enrollment.id}
+                    ref={(element) => {
+                      rowRefs.current[index] = element;
+                    }}
+                    role="row"
+                    tabIndex={0}
+                    onKeyDown={(e) => handleRowKeyDown(e, index, enrollment.studentId)}
+                    className={`flex items-center justify-between p-3 border rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-orange-500 ${
+                      isChanged ? 'border-orange-300 bg-orange-50/40' : 'border-gray-200'
+                    }`}
+                  >
+                    <div className="flex-1">
+                      <p className="font-medium text-gray-900">
+                        {enrollment.student?.name || 'Unknown Student'}
+                        {lateStudentIds.has(enrollment.studentId) && (
+                          <span className="ml-2 px-2 py-0.5 text-xs font-semibold rounded bg-yellow-100 text-yellow-800">Late</span>
+                        )}
+                        {isChanged && <span className="ml-2 text-xs text-orange-600">unsaved</span>}
+                      </p>
+                      <p className="text-sm text-gray-500">{enrollment.student?.email}</p>
+                    </div>
 
-                  <div className="flex items-center space-x-2">
-                    <button
-                      onClick={() =>
-                        handleAttendanceChange(
-                          enrollment.studentId,
-                          AttendanceStatus.PRESENT,
-                          false
-                        )
-                      }
-                      disabled={isMarking}
-                      className={`px-3 py-1 text-sm rounded-md transition ${
-                        studentAttendances[enrollment.studentId] === AttendanceStatus.PRESENT
-                          ? 'bg-green-100 text-green-700 border-2 border-green-500'
-                          : 'bg-gray-100 text-gray-700 hover:bg-green-50 border-2 border-transparent'
-                      } ${isMarking ? 'opacity-50 cursor-not-allowed' : ''}`}
-                    >
-                      Present
-                    </button>
-                    <button
-                      onClick={() =>
-                        handleAttendanceChange(
-                          enrollment.studentId,
-                          AttendanceStatus.MANUAL_PRESENT,
-                          true
-                        )
-                      }
-                      disabled={isMarking}
-                      className={`px-3 py-1 text-sm rounded-md transition ${
-                        studentAttendances[enrollment.studentId] === AttendanceStatus.MANUAL_PRESENT
-                          ? 'bg-blue-100 text-blue-700 border-2 border-blue-500'
-                          : 'bg-gray-100 text-gray-700 hover:bg-blue-50 border-2 border-transparent'
-                      } ${isMarking ? 'opacity-50 cursor-not-allowed' : ''}`}
-                    >
-                      Manual
-                    </button>
-                    <button
-                      onClick={() =>
-                        handleAttendanceChange(
-                          enrollment.studentId,
-                          AttendanceStatus.ABSENT,
-                          false
-                        )
-                      }
-                      disabled={isMarking}
-                      className={`px-3 py-1 text-sm rounded-md transition ${
-                        studentAttendances[enrollment.studentId] === AttendanceStatus.ABSENT
-                          ? 'bg-red-100 text-red-700 border-2 border-red-500'
-                          : 'bg-gray-100 text-gray-700 hover:bg-red-50 border-2 border-transparent'
-                      } ${isMarking ? 'opacity-50 cursor-not-allowed' : ''}`}
-                    >
-                      Absent
-                    </button>
+                    <div className="flex items-center space-x-2">
+                      {STATUS_BUTTONS.map((button) => (
+                        <button
+                          key={button.status}
+                          onClick={() => setStatus(enrollment.studentId, button.status)}
+                          disabled={isSaving}
+                          tabIndex={-1}
+                          title={`${button.label} (${button.shortcut})`}
+                          className={`px-3 py-1 text-sm rounded-md border-2 transition ${
+                            status === button.status ? button.active : `bg-gray-100 text-gray-700 border-transparent ${button.idle}`
+                          } ${isSaving ? 'opacity-50 cursor-not-allowed' : ''}`}
+                        >
+                          {button.label}
+                        </button>
+                      ))}
+                    </div>
                   </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
           )}
         </div>
 
         {/* Footer */}
-        <div className="px-6 py-4 border-t border-gray-200 flex justify-end space-x-3">
+        <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-end space-x-3">
+          {changes.length > 0 && (
+            <span className="mr-auto text-sm text-gray-600">{changes.length} unsaved change(s)</span>
+          )}
           <button
             onClick={onClose}
             className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
@@ -193,16 +330,14 @@ export const AttendanceModal: React.FC<AttendanceModalProps> = ({ session, isOpe
             Close
           </button>
           <button
-            onClick={handleBulkSave}
-            disabled={isMarking}
+            onClick={handleSave}
+            disabled={isSaving || changes.length === 0}
             className="px-4 py-2 text-sm font-medium text-white bg-orange-600 rounded-md hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            {isMarking ? 'Saving...' : 'Save All'}
+            {saveMutation.isPending ? 'Saving...' : 'Save All'}
           </button>
         </div>
       </div>
     </div>
   );
 };
-
-
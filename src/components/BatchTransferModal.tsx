@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Batch, batchAPI } from '../api/batch.api';
+import { enrollmentAPI } from '../api/enrollment.api';
+import { approvalAPI, BatchTransferRequest } from '../api/approval.api';
+import { compareSchedules, normalizeSchedule, toDateKey } from '../types/schedule.types';
+import { formatSeats, getBatchSeats } from '../types/capacity.types';
+
+const formatSlot = (slot?: { startTime: string; endTime: string }) =>
+  slot ? `${slot.startTime.slice(0, 5)} - ${slot.endTime.slice(0, 5)}` : '—';
+
+interface BatchTransferComparisonProps {
+  fromBatch?: Batch;
+  toBatch?: Batch;
+}
+
+/**
+ * Side-by-side view of the batch a student leaves and the one they move to
+ */
+export const BatchTransferComparison: React.FC<BatchTransferComparisonProps> = ({ fromBatch, toBatch }) => {
+  if (!fromBatch || !toBatch) return null;
+  const days = compareSchedules(normalizeSchedule(fromBatch.schedule), normalizeSchedule(toBatch.schedule));
+  const rows: { label: string; from: string; to: string }[] = [
+    { label: 'Software', from: fromBatch.software || '—', to: toBatch.software || '—' },
+    { label: 'Mode', from: fromBatch.mode, to: toBatch.mode },
+    {
+      label: 'Dates',
+      from: `${new Date(fromBatch.startDate).toLocaleDateString()} - ${new Date(fromBatch.endDate).toLocaleDateString()}`,
+      to: `${new Date(toBatch.startDate).toLocaleDateString()} - ${new Date(toBatch.endDate).toLocaleDateString()}`,
+    },
+    { label: 'Seats', from: formatSeats(getBatchSeats(fromBatch)), to: formatSeats(getBatchSeats(toBatch)) },
+  ];
+
+  return (
+    <table className="w-full text-sm border border-gray-200 rounded-lg overflow-hidden">
+      <thead className="bg-gray-50 text-gray-600">
+        <tr>
+          <th className="px-3 py-2 text-left font-medium"></th>
+          <th className="px-3 py-2 text-left font-medium">{fromBatch.title}</th>
+          <th className="px-3 py-2 text-left font-medium">{toBatch.title}</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-200">
+        {rows.map((row) => (
+          <tr key={row.label}>
+            <td className="px-3 py-2 font-medium text-gray-700">{row.label}</td>
+            <td className="px-3 py-2">{row.from}</td>
+            <td className={`px-3 py-2 ${row.from !== row.to ? 'text-orange-700 font-medium' : ''}`}>{row.to}</td>
+          </tr>
+        ))}
+        {days.map((day) => (
+          <tr key={day.day}>
+            <td className="px-3 py-2 font-medium text-gray-700">{day.day}</td>
+            <td className="px-3 py-2">{formatSlot(day.from)}</td>
+            <td className={`px-3 py-2 ${day.changed ? 'text-orange-700 font-medium' : ''}`}>{formatSlot(day.to)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+interface BatchTransferModalProps {
+  student: { id: number; name?: string };
+  onClose: () => void;
+}
+
+/**
+ * Raises a batch_change request moving a student from one of their batches to another.
+ * Nothing moves until the request is approved under Approvals.
+ */
+export const BatchTransferModal: React.FC<BatchTransferModalProps> = ({ student, onClose }) => {
+  const queryClient = useQueryClient();
+  const [fromBatchId, setFromBatchId] = useState(0);
+  const [toBatchId, setToBatchId] = useState(0);
+
+  const { data: enrollmentsData, isLoading: isLoadingEnrollments } = useQuery({
+    queryKey: ['student-enrollments', student.id],
+    queryFn: () => enrollmentAPI.getStudentEnrollments(student.id),
+  });
+
+  const { data: batchesData } = useQuery({
+    queryKey: ['batches'],
+    queryFn: () => batchAPI.getAllBatches(),
+  });
+
+  const transferMutation = useMutation({
+    mutationFn: (data: BatchTransferRequest) => approvalAPI.requestBatchTransfer(data),
+    meta: { successMessage: 'Transfer request submitted for approval', errorMessage: 'Failed to submit transfer request' },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['change-requests'] });
+      onClose();
+    },
+  });
+
+  const batches = batchesData?.data || [];
+  const enrollments = (enrollmentsData?.data || []).filter((enrollment) => !enrollment.status || enrollment.status === 'active');
+  const enrolledBatchIds = new Set(enrollments.map((enrollment) => enrollment.batchId));
+  // Default to the only batch when the student is in just one
+  const currentBatchId = fromBatchId || (enrollments.length === 1 ? enrollments[0].batchId : 0);
+  const fromBatch = batches.find((batch) => batch.id === currentBatchId);
+  const toBatch = batches.find((batch) => batch.id === toBatchId);
+  const targets = batches.filter((batch) => batch.status !== 'inactive' && !enrolledBatchIds.has(batch.id));
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!fromBatch || !toBatch) return;
+    const formData = new FormData(e.currentTarget);
+    transferMutation.mutate({
+      studentId: student.id,
+      fromBatchId: fromBatch.id,
+      fromBatchTitle: fromBatch.title,
+      toBatchId: toBatch.id,
+      toBatchTitle: toBatch.title,
+      effectiveDate: formData.get('effectiveDate') as string,
+      reason: formData.get('reason') as string,
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <h2 className="text-2xl font-bold mb-1">Request Batch Transfer</h2>
+        {student.name && <p className="text-sm text-gray-600 mb-4">{student.name}</p>}
+
+        {isLoadingEnrollments ? (
+          <p className="text-gray-500">Loading...</p>
+        ) : enrollments.length === 0 ? (
+          <div>
+            <p className="text-gray-600 mb-4">This student is not enrolled in any batch.</p>
+            <button
+              onClick={onClose}
+              className="w-full px-4 py-2 bg-gray-200 text-gray-700 rounded-lg font-semibold hover:bg-gray-300 transition-colors"
+            >
+              Close
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">From batch *</label>
+                <select
+                  value={currentBatchId || ''}
+                  onChange={(e) => setFromBatchId(parseInt(e.target.value) || 0)}
+                  required
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+                >
+                  <option value="">Select current batch</option>
+                  {enrollments.map((enrollment) => (
+                    <option key={enrollment.id} value={enrollment.batchId}>
+                      {enrollment.batch?.title || `Batch ${enrollment.batchId}`}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">To batch *</label>
+                <select
+                  value={toBatchId || ''}
+                  onChange={(e) => setToBatchId(parseInt(e.target.value) || 0)}
+                  required
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+                >
+                  <option value="">Select target batch</option>
+                  {targets.map((batch) => {
+                    const seats = getBatchSeats(batch);
+                    return (
+                      <option key={batch.id} value={batch.id} disabled={seats.isFull}>
+                        {batch.title} · {formatSeats(seats)}
+                      </option>
+                    );
+                  })}
+                </select>
+              </div>
+            </div>
+
+            <BatchTransferComparison fromBatch={fromBatch} toBatch={toBatch} />
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Effective from *</label>
+              <input
+                type="date"
+                name="effectiveDate"
+                required
+                defaultValue={toDateKey(new Date())}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+              />
+              <p className="mt-1 text-xs text-gray-500">Attendance from this date on moves to the new batch.</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Reason *</label>
+              <textarea
+                name="reason"
+                required
+                rows={3}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+              />
+            </div>
+            <div className="flex gap-3">
+              <button
+                type="submit"
+                disabled={!fromBatch || !toBatch || transferMutation.isPending}
+                className="flex-1 px-4 py-2 bg-orange-600 text-white rounded-lg font-semibold hover:bg-orange-700 transition-colors disabled:opacity-50"
+              >
+                {transferMutation.isPending ? 'Submitting...' : 'Submit Request'}
+              </button>
+              <button
+                type="button"
+                onClick={onClose}
+                className="flex-1 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg font-semibold hover:bg-gray-300 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
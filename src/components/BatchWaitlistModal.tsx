@@ -0,0 +1,344 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Batch } from '../api/batch.api';
+import { enrollmentAPI, WaitlistAction, WaitlistStatus } from '../api/enrollment.api';
+import { studentAPI } from '../api/student.api';
+import { Module } from '../api/permission.api';
+import { usePermissions } from '../context/PermissionContext';
+import { toast, useConfirm } from '../context/NotificationContext';
+
+const ACTION_LABELS: Record<WaitlistAction, string> = {
+  joined: 'joined the waitlist',
+  moved: 'moved in the waitlist',
+  offered: 'was offered a seat',
+  accepted: 'accepted the seat and was enrolled',
+  declined: 'declined the seat',
+  removed: 'was removed from the waitlist',
+  seat_released: 'released their seat',
+};
+
+interface BatchWaitlistModalProps {
+  batch: Batch;
+  onClose: () => void;
+}
+
+/**
+ * Seats, enrolled students and the ordered waitlist of a batch. Dropping a student frees
+ * a seat, which the backend offers to the first student in line.
+ */
+export const BatchWaitlistModal: React.FC<BatchWaitlistModalProps> = ({ batch, onClose }) => {
+  const { can } = usePermissions();
+  const confirm = useConfirm();
+  const queryClient = useQueryClient();
+  const canManage = can(Module.BATCHES, 'edit');
+  const [studentToAdd, setStudentToAdd] = useState('');
+
+  const { data: waitlistData, isLoading: isLoadingWaitlist } = useQuery({
+    queryKey: ['batch-waitlist', batch.id],
+    queryFn: () => enrollmentAPI.getWaitlist(batch.id),
+  });
+
+  const { data: enrollmentsData, isLoading: isLoadingEnrollments } = useQuery({
+    queryKey: ['batch-enrollments', batch.id],
+    queryFn: () => enrollmentAPI.getBatchEnrollments(batch.id),
+  });
+
+  const { data: studentsData } = useQuery({
+    queryKey: ['students'],
+    queryFn: () => studentAPI.getAllStudents(),
+    enabled: canManage,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['batch-waitlist', batch.id] });
+    queryClient.invalidateQueries({ queryKey: ['batch-enrollments', batch.id] });
+    queryClient.invalidateQueries({ queryKey: ['batches'] });
+  };
+
+  const dropMutation = useMutation({
+    mutationFn: (enrollmentId: number) => enrollmentAPI.dropEnrollment(enrollmentId),
+    meta: { errorMessage: 'Failed to drop student' },
+    onSuccess: (response) => {
+      const offeredTo = response.data.offeredTo;
+      toast.success(
+        offeredTo
+          ? `Student dropped. The seat was offered to ${offeredTo.student?.name || 'the next student on the waitlist'}.`
+          : 'Student dropped.'
+      );
+      refresh();
+    },
+  });
+
+  const joinMutation = useMutation({
+    mutationFn: (studentId: number) => enrollmentAPI.joinWaitlist(batch.id, studentId),
+    meta: { successMessage: 'Student added to the waitlist', errorMessage: 'Failed to add student to the waitlist' },
+    onSuccess: () => {
+      setStudentToAdd('');
+      refresh();
+    },
+  });
+
+  const moveMutation = useMutation({
+    mutationFn: ({ entryId, position }: { entryId: number; position: number }) =>
+      enrollmentAPI.moveWaitlistEntry(batch.id, entryId, position),
+    meta: { errorMessage: 'Failed to reorder the waitlist' },
+    onSuccess: refresh,
+  });
+
+  const offerMutation = useMutation({
+    mutationFn: () => enrollmentAPI.offerNextSeat(batch.id),
+    meta: { errorMessage: 'Failed to offer the seat' },
+    onSuccess: (response) => {
+      toast.success(`Seat offered to ${response.data.entry.student?.name || 'the next student'}.`);
+      refresh();
+    },
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: ({ entryId, accept }: { entryId: number; accept: boolean }) =>
+      enrollmentAPI.respondToOffer(batch.id, entryId, accept),
+    meta: { errorMessage: 'Failed to update the seat offer' },
+    onSuccess: (_, { accept }) => {
+      toast.success(accept ? 'Student enrolled from the waitlist.' : 'Offer declined. The seat goes to the next student in line.');
+      refresh();
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (entryId: number) => enrollmentAPI.removeFromWaitlist(batch.id, entryId),
+    meta: { successMessage: 'Removed from the waitlist', errorMessage: 'Failed to remove from the waitlist' },
+    onSuccess: refresh,
+  });
+
+  const capacity = waitlistData?.data.capacity;
+  const queue = (waitlistData?.data.entries || [])
+    .filter((entry) => entry.status === WaitlistStatus.WAITING || entry.status === WaitlistStatus.OFFERED)
+    .sort((a, b) => a.position - b.position);
+  const activity = waitlistData?.data.activity || [];
+  const enrollments = (enrollmentsData?.data || []).filter((enrollment) => !enrollment.status || enrollment.status === 'active');
+  const hasOpenOffer = queue.some((entry) => entry.status === WaitlistStatus.OFFERED);
+  const canOffer =
+    !!capacity && capacity.remaining !== null && capacity.remaining > 0 && !hasOpenOffer && queue.length > 0;
+
+  // Students who are neither enrolled nor already queued
+  const takenIds = new Set([...enrollments.map((enrollment) => enrollment.studentId), ...queue.map((entry) => entry.studentId)]);
+  const availableStudents = (studentsData?.data.students || []).filter((student) => !takenIds.has(student.id));
+
+  const handleDrop = async (enrollmentId: number, name: string) => {
+    const confirmed = await confirm({
+      title: 'Drop student',
+      message: `Drop ${name} from ${batch.title}? Their seat will be offered to the next student on the waitlist.`,
+      confirmLabel: 'Drop',
+      destructive: true,
+    });
+    if (confirmed) dropMutation.mutate(enrollmentId);
+  };
+
+  const isBusy =
+    dropMutation.isPending ||
+    joinMutation.isPending ||
+    moveMutation.isPending ||
+    offerMutation.isPending ||
+    respondMutation.isPending ||
+    removeMutation.isPending;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-3xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className="text-2xl font-bold">Seats &amp; Waitlist</h2>
+            <p className="text-sm text-gray-600">{batch.title}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 text-2xl">
+            ×
+          </button>
+        </div>
+
+        {isLoadingWaitlist || isLoadingEnrollments ? (
+          <p className="text-gray-500">Loading...</p>
+        ) : (
+          <div className="space-y-6">
+            {capacity && (
+              <div className="grid grid-cols-3 gap-4">
+                <div className="p-3 bg-gray-50 rounded-lg">
+                  <p className="text-xs text-gray-500">Seats filled</p>
+                  <p className="text-xl font-semibold">
+                    {capacity.enrolled}
+                    {capacity.maxCapacity !== null && <span className="text-gray-500"> / {capacity.maxCapacity}</span>}
+                  </p>
+                </div>
+                <div className="p-3 bg-gray-50 rounded-lg">
+                  <p className="text-xs text-gray-500">Seats remaining</p>
+                  <p className={`text-xl font-semibold ${capacity.remaining === 0 ? 'text-red-600' : ''}`}>
+                    {capacity.remaining === null ? 'No limit' : capacity.remaining}
+                  </p>
+                </div>
+                <div className="p-3 bg-gray-50 rounded-lg">
+                  <p className="text-xs text-gray-500">Waitlisted</p>
+                  <p className="text-xl font-semibold">{capacity.waitlisted}</p>
+                </div>
+              </div>
+            )}
+
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">Enrolled Students ({enrollments.length})</h3>
+              {enrollments.length === 0 ? (
+                <p className="text-sm text-gray-500">No students enrolled yet.</p>
+              ) : (
+                <div className="max-h-48 overflow-y-auto border border-gray-200 rounded-lg divide-y">
+                  {enrollments.map((enrollment) => (
+                    <div key={enrollment.id} className="flex items-center justify-between p-2">
+                      <div>
+                        <span className="font-medium">{enrollment.student?.name || `Student ${enrollment.studentId}`}</span>
+                        {enrollment.student?.email && (
+                          <span className="text-xs text-gray-600 ml-2">({enrollment.student.email})</span>
+                        )}
+                      </div>
+                      {canManage && (
+                        <button
+                          onClick={() => handleDrop(enrollment.id, enrollment.student?.name || `Student ${enrollment.studentId}`)}
+                          disabled={isBusy}
+                          className="px-3 py-1 bg-red-500 text-white rounded text-xs hover:bg-red-600 disabled:opacity-50"
+                        >
+                          Drop
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <h3 className="text-lg font-semibold text-gray-900">Waitlist ({queue.length})</h3>
+                {canManage && canOffer && (
+                  <button
+                    onClick={() => offerMutation.mutate()}
+                    disabled={isBusy}
+                    className="px-3 py-1 bg-orange-600 text-white rounded text-sm hover:bg-orange-700 disabled:opacity-50"
+                  >
+                    Offer seat to next in line
+                  </button>
+                )}
+              </div>
+              {queue.length === 0 ? (
+                <p className="text-sm text-gray-500">Nobody is waiting for a seat.</p>
+              ) : (
+                <ol className="border border-gray-200 rounded-lg divide-y">
+                  {queue.map((entry, index) => (
+                    <li key={entry.id} className="flex items-center justify-between gap-2 p-2">
+                      <div className="flex items-center gap-3">
+                        <span className="w-6 text-center font-semibold text-gray-500">{entry.position}</span>
+                        <div>
+                          <span className="font-medium">{entry.student?.name || `Student ${entry.studentId}`}</span>
+                          <p className="text-xs text-gray-500">
+                            Joined {new Date(entry.createdAt).toLocaleDateString()}
+                            {entry.offeredAt && ` · offered ${new Date(entry.offeredAt).toLocaleString()}`}
+                          </p>
+                        </div>
+                        {entry.status === WaitlistStatus.OFFERED && (
+                          <span className="px-2 py-1 rounded-full text-xs font-semibold bg-blue-100 text-blue-800">SEAT OFFERED</span>
+                        )}
+                      </div>
+                      {canManage && (
+                        <div className="flex items-center gap-1">
+                          {entry.status === WaitlistStatus.OFFERED ? (
+                            <>
+                              <button
+                                onClick={() => respondMutation.mutate({ entryId: entry.id, accept: true })}
+                                disabled={isBusy}
+                                className="px-3 py-1 bg-green-600 text-white rounded text-xs hover:bg-green-700 disabled:opacity-50"
+                              >
+                                Enroll
+                              </button>
+                              <button
+                                onClick={() => respondMutation.mutate({ entryId: entry.id, accept: false })}
+                                disabled={isBusy}
+                                className="px-3 py-1 bg-gray-200 text-gray-700 rounded text-xs hover:bg-gray-300 disabled:opacity-50"
+                              >
+                                Decline
+                              </button>
+                            </>
+                          ) : (
+                            <>
+                              <button
+                                onClick={() => moveMutation.mutate({ entryId: entry.id, position: entry.position - 1 })}
+                                disabled={isBusy || index === 0}
+                                className="px-2 py-1 bg-gray-100 rounded text-xs hover:bg-gray-200 disabled:opacity-50"
+                                title="Move up"
+                              >
+                                ↑
+                              </button>
+                              <button
+                                onClick={() => moveMutation.mutate({ entryId: entry.id, position: entry.position + 1 })}
+                                disabled={isBusy || index === queue.length - 1}
+                                className="px-2 py-1 bg-gray-100 rounded text-xs hover:bg-gray-200 disabled:opacity-50"
+                                title="Move down"
+                              >
+                                ↓
+                              </button>
+                            </>
+                          )}
+                          <button
+                            onClick={() => removeMutation.mutate(entry.id)}
+                            disabled={isBusy}
+                            className="px-2 py-1 text-red-600 rounded text-xs hover:bg-red-50 disabled:opacity-50"
+                            title="Remove from waitlist"
+                          >
+                            ✕
+                          </button>
+                        </div>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              )}
+
+              {canManage && (
+                <div className="flex gap-2 mt-3">
+                  <select
+                    value={studentToAdd}
+                    onChange={(e) => setStudentToAdd(e.target.value)}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+                  >
+                    <option value="">Add a student to the waitlist...</option>
+                    {availableStudents.map((student) => (
+                      <option key={student.id} value={student.id}>
+                        {student.name} ({student.email})
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => joinMutation.mutate(parseInt(studentToAdd))}
+                    disabled={!studentToAdd || isBusy}
+                    className="px-4 py-2 bg-orange-600 text-white rounded-md hover:bg-orange-700 disabled:opacity-50"
+                  >
+                    Add
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {activity.length > 0 && (
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">Activity</h3>
+                <ul className="max-h-48 overflow-y-auto space-y-1 text-sm text-gray-700">
+                  {activity.map((item) => (
+                    <li key={item.id}>
+                      <span className="text-xs text-gray-500 mr-2">{new Date(item.createdAt).toLocaleString()}</span>
+                      {item.studentName || 'A student'} {ACTION_LABELS[item.action]}
+                      {item.performedBy && <span className="text-gray-500"> by {item.performedBy.name}</span>}
+                      {item.note && <span className="text-gray-500"> ({item.note})</span>}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,25 @@
+import React, { ReactNode } from 'react';
+import { usePermissions } from '../context/PermissionContext';
+import { Module } from '../api/permission.api';
+import { PermissionAction } from '../types/permission.types';
+
+interface CanProps {
+  module: Module;
+  action?: PermissionAction;
+  children: ReactNode;
+  fallback?: ReactNode;
+}
+
+/**
+ * Renders its children only when the current user has the given right on a module.
+ * For buttons that should stay visible but inactive, use `usePermissions().can` with `disabled`.
+ */
+export const Can: React.FC<CanProps> = ({ module, action = 'view', children, fallback = null }) => {
+  const { can } = usePermissions();
+
+  if (!can(module, action)) {
+    return <>{fallback}</>;
+  }
+
+  return <>{children}</>;
+};
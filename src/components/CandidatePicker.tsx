@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { CandidateSummary, SuggestedCandidate } from '../api/batch.api';
+
+type CandidateStatus = SuggestedCandidate['status'];
+
+const STATUS_STYLES: Record<CandidateStatus, { label: string; row: string; badge: string }> = {
+  available: { label: 'Available', row: 'bg-green-50 border-green-300', badge: 'bg-green-200 text-green-800' },
+  fees_overdue: { label: 'Fees overdue', row: 'bg-yellow-50 border-yellow-300', badge: 'bg-yellow-200 text-yellow-800' },
+  busy: { label: 'Busy', row: 'bg-gray-50 border-gray-300', badge: 'bg-gray-200 text-gray-800' },
+};
+
+const STATUS_FILTERS: CandidateStatus[] = ['available', 'fees_overdue', 'busy'];
+
+interface CandidatePickerProps {
+  candidates: SuggestedCandidate[];
+  summary?: CandidateSummary;
+  // Every selected student, including ones picked outside the suggestions
+  selectedIds: number[];
+  onChange: (selectedIds: number[]) => void;
+  // Seats in the batch; selection stops once they are filled
+  capacity?: number;
+}
+
+/**
+ * Lists suggested students with why each one is available, busy or has overdue fees,
+ * and lets several be picked at once without going over the batch capacity
+ */
+export const CandidatePicker: React.FC<CandidatePickerProps> = ({ candidates, summary, selectedIds, onChange, capacity }) => {
+  const [statusFilter, setStatusFilter] = useState<CandidateStatus | ''>('');
+
+  const counts: Record<CandidateStatus, number> = summary
+    ? { available: summary.available, fees_overdue: summary.feesOverdue, busy: summary.busy }
+    : {
+        available: candidates.filter((candidate) => candidate.status === 'available').length,
+        fees_overdue: candidates.filter((candidate) => candidate.status === 'fees_overdue').length,
+        busy: candidates.filter((candidate) => candidate.status === 'busy').length,
+      };
+  const visible = statusFilter ? candidates.filter((candidate) => candidate.status === statusFilter) : candidates;
+  const seatsLeft = capacity ? capacity - selectedIds.length : undefined;
+  const isFull = seatsLeft !== undefined && seatsLeft <= 0;
+
+  const toggle = (candidate: SuggestedCandidate) => {
+    if (selectedIds.includes(candidate.studentId)) {
+      onChange(selectedIds.filter((id) => id !== candidate.studentId));
+    } else if (candidate.status !== 'busy' && !isFull) {
+      onChange([...selectedIds, candidate.studentId]);
+    }
+  };
+
+  // Fills the remaining seats with available students, in the order the API ranked them
+  const selectAllAvailable = () => {
+    const toAdd = candidates
+      .filter((candidate) => candidate.status === 'available' && !selectedIds.includes(candidate.studentId))
+      .map((candidate) => candidate.studentId);
+    onChange([...selectedIds, ...(seatsLeft !== undefined ? toAdd.slice(0, Math.max(seatsLeft, 0)) : toAdd)]);
+  };
+
+  const clearSuggested = () => {
+    const suggestedIds = new Set(candidates.map((candidate) => candidate.studentId));
+    onChange(selectedIds.filter((id) => !suggestedIds.has(id)));
+  };
+
+  return (
+    <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h4 className="font-semibold text-blue-900">Suggested Students (based on software and schedule)</h4>
+        {capacity ? (
+          <span className={`text-sm font-medium ${selectedIds.length > capacity ? 'text-red-600' : 'text-gray-700'}`}>
+            {selectedIds.length} / {capacity} seats filled
+          </span>
+        ) : null}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <button
+          type="button"
+          onClick={() => setStatusFilter('')}
+          className={`px-3 py-1 rounded-full text-xs font-semibold ${statusFilter === '' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 border border-gray-300'}`}
+        >
+          All ({candidates.length})
+        </button>
+        {STATUS_FILTERS.map((status) => (
+          <button
+            key={status}
+            type="button"
+            onClick={() => setStatusFilter(status)}
+            className={`px-3 py-1 rounded-full text-xs font-semibold ${statusFilter === status ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 border border-gray-300'}`}
+          >
+            {STATUS_STYLES[status].label} ({counts[status]})
+          </button>
+        ))}
+        <div className="ml-auto flex gap-2">
+          <button
+            type="button"
+            onClick={selectAllAvailable}
+            disabled={isFull || counts.available === 0}
+            className="px-3 py-1 bg-blue-600 text-white rounded text-xs font-semibold hover:bg-blue-700 disabled:opacity-50"
+          >
+            Select all available
+          </button>
+          <button
+            type="button"
+            onClick={clearSuggested}
+            className="px-3 py-1 bg-white text-gray-700 border border-gray-300 rounded text-xs font-semibold hover:bg-gray-50"
+          >
+            Clear
+          </button>
+        </div>
+      </div>
+
+      {isFull && (
+        <p className="mb-2 text-xs text-amber-700">
+          The batch is full. Raise the max capacity or deselect a student to add more.
+        </p>
+      )}
+
+      <div className="max-h-72 overflow-y-auto space-y-2">
+        {visible.length === 0 ? (
+          <p className="text-sm text-gray-500">No students in this category.</p>
+        ) : (
+          visible.map((candidate) => {
+            const isSelected = selectedIds.includes(candidate.studentId);
+            const isDisabled = !isSelected && (candidate.status === 'busy' || isFull);
+            const style = STATUS_STYLES[candidate.status];
+            return (
+              <label
+                key={candidate.studentId}
+                className={`block p-2 rounded border ${style.row} ${isDisabled ? 'opacity-60 cursor-not-allowed' : 'cursor-pointer'}`}
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <div>
+                      <span className="font-medium">{candidate.name}</span>
+                      <span className="text-xs text-gray-600 ml-2">
+                        ({candidate.email}
+                        {candidate.phone ? `, ${candidate.phone}` : ''})
+                      </span>
+                    </div>
+                    <p className="text-xs text-gray-700 mt-1">{candidate.statusMessage}</p>
+                    {candidate.hasOverdueFees && candidate.totalOverdueAmount ? (
+                      <p className="text-xs text-yellow-800 mt-1">₹{candidate.totalOverdueAmount.toFixed(2)} overdue</p>
+                    ) : null}
+                    {candidate.conflictingBatches && candidate.conflictingBatches.length > 0 && (
+                      <p className="text-xs text-gray-600 mt-1">Clashing batches: {candidate.conflictingBatches.join(', ')}</p>
+                    )}
+                    {candidate.conflictingSessions && candidate.conflictingSessions.length > 0 && (
+                      <p className="text-xs text-gray-600 mt-1">Clashing sessions: {candidate.conflictingSessions.join(', ')}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <span className={`text-xs px-2 py-1 rounded ${style.badge}`}>{style.label}</span>
+                    <input
+                      type="checkbox"
+                      checked={isSelected}
+                      onChange={() => toggle(candidate)}
+                      disabled={isDisabled}
+                      className="w-4 h-4 text-orange-600 border-gray-300 rounded focus:ring-orange-500"
+                    />
+                  </div>
+                </div>
+              </label>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
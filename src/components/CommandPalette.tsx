@@ -0,0 +1,321 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import { usePermissions } from '../context/PermissionContext';
+import { appRoutes } from '../routes';
+import { isRouteAllowed, RouteAccess } from '../types/route.types';
+import { Module } from '../api/permission.api';
+import { userAPI } from '../api/user.api';
+import { batchAPI } from '../api/batch.api';
+import { sessionAPI } from '../api/session.api';
+import { paymentAPI } from '../api/payment.api';
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface PaletteItem {
+  key: string;
+  group: string;
+  icon: string;
+  label: string;
+  detail?: string;
+  href: string;
+}
+
+interface QuickAction extends RouteAccess {
+  label: string;
+  icon: string;
+  href: string;
+}
+
+// Shortcuts to the most common "create" screens; access mirrors the target route
+const QUICK_ACTIONS: QuickAction[] = [
+  { label: 'Create batch', icon: '➕', href: '/batches/create', module: Module.BATCHES, action: 'add' },
+  { label: 'Mark attendance', icon: '✅', href: '/attendance', module: Module.ATTENDANCE, action: 'add' },
+  { label: 'Enroll student', icon: '🎓', href: '/students/enroll', module: Module.STUDENTS, action: 'add' },
+  { label: 'Register faculty', icon: '👨‍🏫', href: '/faculty/register', module: Module.FACULTY, action: 'add' },
+  { label: 'Register employee', icon: '💼', href: '/employees/register', module: Module.EMPLOYEES, action: 'add' },
+  { label: 'Change password', icon: '🔑', href: '/change-password' },
+];
+
+// Records are only searched once the query is this long
+const MIN_SEARCH_LENGTH = 2;
+const MAX_RESULTS_PER_GROUP = 5;
+// The list endpoints have no search, so records are filtered in the browser and reused for a minute
+const SEARCH_STALE_TIME_MS = 60 * 1000;
+
+const matches = (query: string, ...fields: (string | number | undefined | null)[]) =>
+  fields.some((field) => field !== undefined && field !== null && String(field).toLowerCase().includes(query));
+
+const formatDate = (date?: string) => (date ? new Date(date).toLocaleDateString() : '');
+
+/**
+ * Ctrl/Cmd+K palette: jump to any screen, run a quick action, or find a student,
+ * faculty member, employee, batch, session or payment by name.
+ * Only lists screens and records the signed-in user has permission to open.
+ */
+export const CommandPalette: React.FC<CommandPaletteProps> = ({ isOpen, onClose }) => {
+  const { user } = useAuth();
+  const { can } = usePermissions();
+  const navigate = useNavigate();
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const term = query.trim().toLowerCase();
+  const searchRecords = isOpen && term.length >= MIN_SEARCH_LENGTH;
+
+  useEffect(() => {
+    if (isOpen) {
+      setQuery('');
+      setActiveIndex(0);
+    }
+  }, [isOpen]);
+
+  const { data: studentsData, isFetching: fetchingStudents } = useQuery({
+    queryKey: ['command-palette', 'students'],
+    queryFn: () => userAPI.getAllUsers({ role: 'student', limit: 1000 }),
+    enabled: searchRecords && can(Module.STUDENTS),
+    staleTime: SEARCH_STALE_TIME_MS,
+  });
+
+  const { data: facultyData, isFetching: fetchingFaculty } = useQuery({
+    queryKey: ['command-palette', 'faculty'],
+    queryFn: () => userAPI.getAllUsers({ role: 'faculty', limit: 1000 }),
+    enabled: searchRecords && can(Module.FACULTY),
+    staleTime: SEARCH_STALE_TIME_MS,
+  });
+
+  const { data: employeesData, isFetching: fetchingEmployees } = useQuery({
+    queryKey: ['command-palette', 'employees'],
+    queryFn: () => userAPI.getAllUsers({ role: 'employee', limit: 1000 }),
+    enabled: searchRecords && can(Module.EMPLOYEES),
+    staleTime: SEARCH_STALE_TIME_MS,
+  });
+
+  const { data: batchesData, isFetching: fetchingBatches } = useQuery({
+    queryKey: ['command-palette', 'batches'],
+    queryFn: () => batchAPI.getAllBatches(),
+    enabled: searchRecords && can(Module.BATCHES),
+    staleTime: SEARCH_STALE_TIME_MS,
+  });
+
+  const { data: sessionsData, isFetching: fetchingSessions } = useQuery({
+    queryKey: ['command-palette', 'sessions'],
+    queryFn: () => sessionAPI.getAllSessions(),
+    enabled: searchRecords && can(Module.SESSIONS),
+    staleTime: SEARCH_STALE_TIME_MS,
+  });
+
+  const { data: paymentsData, isFetching: fetchingPayments } = useQuery({
+    queryKey: ['command-palette', 'payments'],
+    queryFn: () => paymentAPI.getAllPayments(),
+    enabled: searchRecords && can(Module.PAYMENTS),
+    staleTime: SEARCH_STALE_TIME_MS,
+  });
+
+  const isSearching =
+    searchRecords &&
+    (fetchingStudents || fetchingFaculty || fetchingEmployees || fetchingBatches || fetchingSessions || fetchingPayments);
+
+  const items = useMemo<PaletteItem[]>(() => {
+    const actions: PaletteItem[] = QUICK_ACTIONS.filter((action) => isRouteAllowed(action, user?.role, can))
+      .filter((action) => !term || matches(term, action.label))
+      .map((action) => ({
+        key: `action-${action.href}`,
+        group: 'Quick actions',
+        icon: action.icon,
+        label: action.label,
+        href: action.href,
+      }));
+
+    const screens: PaletteItem[] = appRoutes
+      .filter((route) => route.nav && isRouteAllowed(route, user?.role, can))
+      .filter((route) => !term || matches(term, route.nav!.name, route.path))
+      .map((route) => ({
+        key: `nav-${route.path}`,
+        group: 'Go to',
+        icon: route.nav!.icon,
+        label: route.nav!.name,
+        href: route.path,
+      }));
+
+    if (term.length < MIN_SEARCH_LENGTH) {
+      return [...actions, ...screens];
+    }
+
+    const take = (records: PaletteItem[]) => records.slice(0, MAX_RESULTS_PER_GROUP);
+
+    // People open their edit screen when the user may edit them, otherwise the list searched for them
+    const people = (
+      users: { id: number; name: string; email: string; phone?: string }[],
+      group: string,
+      icon: string,
+      basePath: string,
+      module: Module
+    ): PaletteItem[] =>
+      take(
+        users
+          .filter((person) => matches(term, person.name, person.email, person.phone))
+          .map((person) => ({
+            key: `${basePath}-${person.id}`,
+            group,
+            icon,
+            label: person.name,
+            detail: person.email,
+            href: can(module, 'edit') ? `${basePath}/${person.id}/edit` : `${basePath}?search=${encodeURIComponent(person.name)}`,
+          }))
+      );
+
+    const students = people(studentsData?.data.users || [], 'Students', '👥', '/students', Module.STUDENTS);
+    const faculty = people(facultyData?.data.users || [], 'Faculty', '👨‍🏫', '/faculty', Module.FACULTY);
+    const employees = people(employeesData?.data.users || [], 'Employees', '💼', '/employees', Module.EMPLOYEES);
+
+    const batches = take(
+      (batchesData?.data || [])
+        .filter((batch) => matches(term, batch.title, batch.software, batch.status))
+        .map((batch) => ({
+          key: `batch-${batch.id}`,
+          group: 'Batches',
+          icon: '📚',
+          label: batch.title,
+          detail: [batch.software, batch.status, `${formatDate(batch.startDate)} – ${formatDate(batch.endDate)}`]
+            .filter(Boolean)
+            .join(' · '),
+          href: `/batches/list?search=${encodeURIComponent(batch.title)}`,
+        }))
+    );
+
+    // A session opens its attendance sheet when the user can see attendance
+    const sessions = take(
+      (sessionsData?.data.sessions || [])
+        .filter((session) => matches(term, session.batch?.title, session.topic, session.faculty?.name, formatDate(session.date)))
+        .map((session) => ({
+          key: `session-${session.id}`,
+          group: 'Sessions',
+          icon: '🗓️',
+          label: `${session.batch?.title || `Batch ${session.batchId}`} – ${formatDate(session.date)}`,
+          detail: [session.topic, `${session.startTime}–${session.endTime}`, session.faculty?.name].filter(Boolean).join(' · '),
+          href: can(Module.ATTENDANCE) ? `/attendance?sessionId=${session.id}` : '/sessions',
+        }))
+    );
+
+    const payments = take(
+      (paymentsData?.data.payments || [])
+        .filter((payment) =>
+          matches(term, payment.student?.name, payment.enrollment?.batch?.title, payment.transactionId, payment.id)
+        )
+        .map((payment) => ({
+          key: `payment-${payment.id}`,
+          group: 'Payments',
+          icon: '💰',
+          label: `${payment.student?.name || `Student ${payment.studentId}`} – ₹${payment.amount}`,
+          detail: [payment.status, payment.enrollment?.batch?.title, formatDate(payment.dueDate)].filter(Boolean).join(' · '),
+          href: `/payments?search=${encodeURIComponent(payment.student?.name || '')}`,
+        }))
+    );
+
+    return [...actions, ...screens, ...students, ...faculty, ...employees, ...batches, ...sessions, ...payments];
+  }, [term, user?.role, can, studentsData, facultyData, employeesData, batchesData, sessionsData, paymentsData]);
+
+  // Keep the highlighted row valid as results arrive
+  useEffect(() => {
+    setActiveIndex((index) => Math.min(index, Math.max(items.length - 1, 0)));
+  }, [items.length]);
+
+  useEffect(() => {
+    listRef.current?.querySelector<HTMLElement>(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  if (!isOpen) return null;
+
+  const select = (item: PaletteItem) => {
+    onClose();
+    navigate(item.href);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((index) => (items.length ? (index + 1) % items.length : 0));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((index) => (items.length ? (index - 1 + items.length) % items.length : 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (items[activeIndex]) select(items[activeIndex]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-start justify-center z-[60] pt-24" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-xl max-w-xl w-full mx-4 overflow-hidden"
+        role="dialog"
+        aria-modal="true"
+        aria-label="Command palette"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <div className="flex items-center border-b border-gray-200 px-4">
+          <span className="text-gray-400 mr-2">🔍</span>
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setActiveIndex(0);
+            }}
+            autoFocus
+            placeholder="Search students, batches, payments… or jump to a page"
+            className="flex-1 py-4 text-sm focus:outline-none"
+          />
+          {isSearching && <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-orange-500"></div>}
+        </div>
+
+        <ul ref={listRef} className="max-h-96 overflow-y-auto py-2">
+          {items.length === 0 ? (
+            <li className="px-4 py-6 text-center text-sm text-gray-500">
+              {isSearching ? 'Searching…' : 'No matches found'}
+            </li>
+          ) : (
+            items.map((item, index) => (
+              <React.Fragment key={item.key}>
+                {(index === 0 || items[index - 1].group !== item.group) && (
+                  <li className="px-4 pt-3 pb-1 text-xs font-semibold text-gray-500 uppercase tracking-wider">
+                    {item.group}
+                  </li>
+                )}
+                <li
+                  data-index={index}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  onClick={() => select(item)}
+                  className={`flex items-center px-4 py-2 cursor-pointer ${
+                    index === activeIndex ? 'bg-orange-100 text-orange-700' : 'text-gray-700'
+                  }`}
+                >
+                  <span className="text-lg mr-3 flex-shrink-0">{item.icon}</span>
+                  <div className="min-w-0">
+                    <div className="text-sm truncate">{item.label}</div>
+                    {item.detail && <div className="text-xs text-gray-500 truncate">{item.detail}</div>}
+                  </div>
+                </li>
+              </React.Fragment>
+            ))
+          )}
+        </ul>
+
+        <div className="border-t border-gray-200 px-4 py-2 text-xs text-gray-500 flex justify-between">
+          <span>↑↓ to navigate · Enter to open · Esc to close</span>
+          {term.length > 0 && term.length < MIN_SEARCH_LENGTH && <span>Type {MIN_SEARCH_LENGTH}+ characters to search records</span>}
+        </div>
+      </div>
+    </div>
+  );
+};
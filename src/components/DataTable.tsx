@@ -0,0 +1,512 @@
+import { ReactNode, useCallback, useEffect, useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { getErrorMessage, ListParams, Pagination, SortOrder } from '../api/response';
+
+export interface DataTableColumn<T> {
+  id: string;
+  header: string;
+  cell: (row: T) => ReactNode;
+  // Header click sorts by this column; the id is sent to the backend as `sortBy`
+  sortable?: boolean;
+  // Plain value used to search and sort lists that are paginated in the browser (see applyTableState)
+  value?: (row: T) => string | number | null | undefined;
+  // Set to false for columns that must stay visible, e.g. row actions
+  hideable?: boolean;
+  defaultHidden?: boolean;
+  className?: string;
+}
+
+export interface DataTableFilter {
+  id: string;
+  label: string;
+  options: { value: string; label: string }[];
+}
+
+export interface DataTableBulkAction<T> {
+  label: string;
+  onClick: (rows: T[]) => void | Promise<void>;
+  destructive?: boolean;
+}
+
+export interface DataTableState {
+  page: number;
+  limit: number;
+  sortBy?: string;
+  sortOrder: SortOrder;
+  search: string;
+  // Values of the table's filter dropdowns keyed by filter id; empty means "all"
+  filters: Record<string, string>;
+}
+
+interface DataTableStateOptions {
+  filterIds?: string[];
+  // Filter values used while the URL has none; a filter with a default needs an explicit "all" option
+  defaultFilters?: Record<string, string>;
+  defaultLimit?: number;
+  defaultSortBy?: string;
+  defaultSortOrder?: SortOrder;
+  // Needed when one page shows several tables, so their URL parameters don't collide
+  paramPrefix?: string;
+}
+
+const PAGE_SIZE_OPTIONS = [10, 25, 50, 100];
+// URL value of an "All" choice on a filter that has a default; an absent parameter means the default
+const ALL_FILTER_VALUE = 'all';
+const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * Table state (page, page size, sort, search and filters) kept in the URL query string,
+ * so a filtered list survives a reload and can be bookmarked or shared.
+ * @returns The current state, a patch updater, and the state as list endpoint parameters
+ */
+export function useDataTableState({
+  filterIds = [],
+  defaultFilters = {},
+  defaultLimit = PAGE_SIZE_OPTIONS[0],
+  defaultSortBy,
+  defaultSortOrder = 'asc',
+  paramPrefix = '',
+}: DataTableStateOptions = {}) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filterKey = filterIds.join(',');
+  // Callers usually pass these inline; compare by value so the state isn't rebuilt every render
+  const defaultFiltersKey = JSON.stringify(defaultFilters);
+  const filterDefaults = useMemo<Record<string, string>>(() => JSON.parse(defaultFiltersKey), [defaultFiltersKey]);
+
+  const state = useMemo<DataTableState>(() => {
+    const read = (key: string) => searchParams.get(`${paramPrefix}${key}`) || '';
+    const filters: Record<string, string> = {};
+    filterKey.split(',').filter(Boolean).forEach((id) => {
+      const value = read(id);
+      filters[id] = value === ALL_FILTER_VALUE ? '' : value || filterDefaults[id] || '';
+    });
+    const sortOrder = read('sortOrder') || defaultSortOrder;
+    return {
+      page: Math.max(Number(read('page')) || 1, 1),
+      limit: Number(read('limit')) || defaultLimit,
+      sortBy: read('sortBy') || defaultSortBy,
+      sortOrder: sortOrder === 'desc' ? 'desc' : 'asc',
+      search: read('search'),
+      filters,
+    };
+  }, [searchParams, paramPrefix, filterKey, filterDefaults, defaultLimit, defaultSortBy, defaultSortOrder]);
+
+  // Any change other than the page itself starts again from page 1
+  const update = useCallback(
+    (patch: Partial<DataTableState>) => {
+      setSearchParams(
+        (previous) => {
+          const next = new URLSearchParams(previous);
+          const write = (key: string, value: string | number | undefined, defaultValue?: string | number) => {
+            if (value === undefined || value === '' || value === defaultValue) {
+              next.delete(`${paramPrefix}${key}`);
+            } else {
+              next.set(`${paramPrefix}${key}`, String(value));
+            }
+          };
+          write('page', patch.page ?? 1, 1);
+          if ('limit' in patch) write('limit', patch.limit, defaultLimit);
+          if ('sortBy' in patch) write('sortBy', patch.sortBy, defaultSortBy);
+          if ('sortOrder' in patch) write('sortOrder', patch.sortOrder, defaultSortOrder);
+          if ('search' in patch) write('search', patch.search?.trim());
+          Object.entries(patch.filters || {}).forEach(([id, value]) =>
+            write(id, !value && filterDefaults[id] ? ALL_FILTER_VALUE : value, filterDefaults[id])
+          );
+          return next;
+        },
+        { replace: true }
+      );
+    },
+    [setSearchParams, paramPrefix, filterDefaults, defaultLimit, defaultSortBy, defaultSortOrder]
+  );
+
+  const params = useMemo<ListParams>(
+    () => ({
+      page: state.page,
+      limit: state.limit,
+      sortBy: state.sortBy,
+      sortOrder: state.sortBy ? state.sortOrder : undefined,
+      search: state.search || undefined,
+    }),
+    [state]
+  );
+
+  return { state, update, params };
+}
+
+/**
+ * Searches, sorts and pages a full list in the browser, for endpoints that return
+ * every record at once instead of a page.
+ * @param rows - Every record, already narrowed by the page's filters
+ * @param state - Table state from useDataTableState
+ * @param columns - Columns whose `value` accessors are searched and sorted on
+ */
+export function applyTableState<T>(rows: T[], state: DataTableState, columns: DataTableColumn<T>[]) {
+  const term = state.search.trim().toLowerCase();
+  const searchable = columns.filter((column) => column.value);
+  let result = term
+    ? rows.filter((row) =>
+        searchable.some((column) => String(column.value!(row) ?? '').toLowerCase().includes(term))
+      )
+    : rows;
+
+  const sortColumn = columns.find((column) => column.id === state.sortBy && column.value);
+  if (sortColumn) {
+    const direction = state.sortOrder === 'desc' ? -1 : 1;
+    result = [...result].sort((a, b) => {
+      const left = sortColumn.value!(a) ?? '';
+      const right = sortColumn.value!(b) ?? '';
+      if (typeof left === 'number' && typeof right === 'number') return (left - right) * direction;
+      return String(left).localeCompare(String(right), undefined, { numeric: true }) * direction;
+    });
+  }
+
+  const total = result.length;
+  const pagination: Pagination = {
+    total,
+    page: state.page,
+    limit: state.limit,
+    totalPages: Math.max(Math.ceil(total / state.limit), 1),
+  };
+  const start = (state.page - 1) * state.limit;
+  return { rows: result.slice(start, start + state.limit), pagination };
+}
+
+const readHiddenColumns = (storageKey: string): string[] | null => {
+  try {
+    const stored = localStorage.getItem(storageKey);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+interface DataTableProps<T> {
+  // Identifies the table in localStorage, where hidden columns are remembered
+  tableId: string;
+  columns: DataTableColumn<T>[];
+  rows: T[];
+  rowKey: (row: T) => string | number;
+  state: DataTableState;
+  onStateChange: (patch: Partial<DataTableState>) => void;
+  pagination?: Pagination;
+  isLoading?: boolean;
+  isFetching?: boolean;
+  error?: unknown;
+  onRetry?: () => void;
+  filters?: DataTableFilter[];
+  // The search box is shown when a placeholder is given
+  searchPlaceholder?: string;
+  // Row checkboxes are shown when there is at least one bulk action
+  bulkActions?: DataTableBulkAction<T>[];
+  emptyMessage?: string;
+  // Extra controls rendered at the end of the toolbar
+  toolbar?: ReactNode;
+}
+
+/**
+ * List table driven by useDataTableState: pagination, sorting, search and filters are
+ * sent to the backend (or applied with applyTableState), plus column visibility and
+ * row selection with bulk actions.
+ */
+export function DataTable<T>({
+  tableId,
+  columns,
+  rows,
+  rowKey,
+  state,
+  onStateChange,
+  pagination,
+  isLoading,
+  isFetching,
+  error,
+  onRetry,
+  filters = [],
+  searchPlaceholder,
+  bulkActions = [],
+  emptyMessage = 'No records found',
+  toolbar,
+}: DataTableProps<T>) {
+  const storageKey = `dataTable.hiddenColumns.${tableId}`;
+  const [hiddenColumns, setHiddenColumns] = useState<string[]>(
+    () => readHiddenColumns(storageKey) ?? columns.filter((column) => column.defaultHidden).map((column) => column.id)
+  );
+  const [isColumnMenuOpen, setIsColumnMenuOpen] = useState(false);
+  const [searchInput, setSearchInput] = useState(state.search);
+  const [selectedKeys, setSelectedKeys] = useState<Set<string | number>>(new Set());
+
+  // Follow the URL when it changes from outside the search box (back button, saved links)
+  useEffect(() => {
+    setSearchInput(state.search);
+  }, [state.search]);
+
+  useEffect(() => {
+    if (searchInput.trim() === state.search) return;
+    const timer = setTimeout(() => onStateChange({ search: searchInput }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput, state.search, onStateChange]);
+
+  // Selection only spans the rows on screen; a new page or filter clears it
+  const rowKeys = rows.map(rowKey).join(',');
+  useEffect(() => {
+    setSelectedKeys(new Set());
+  }, [rowKeys]);
+
+  const toggleColumn = (id: string) => {
+    const next = hiddenColumns.includes(id) ? hiddenColumns.filter((hidden) => hidden !== id) : [...hiddenColumns, id];
+    setHiddenColumns(next);
+    localStorage.setItem(storageKey, JSON.stringify(next));
+  };
+
+  const visibleColumns = columns.filter((column) => column.hideable === false || !hiddenColumns.includes(column.id));
+  const selectable = bulkActions.length > 0;
+  const selectedRows = rows.filter((row) => selectedKeys.has(rowKey(row)));
+  const allSelected = rows.length > 0 && selectedRows.length === rows.length;
+  const columnCount = visibleColumns.length + (selectable ? 1 : 0);
+
+  const toggleRow = (key: string | number) => {
+    setSelectedKeys((current) => {
+      const next = new Set(current);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedKeys(allSelected ? new Set() : new Set(rows.map(rowKey)));
+  };
+
+  const handleSort = (column: DataTableColumn<T>) => {
+    if (!column.sortable) return;
+    const sortOrder: SortOrder = state.sortBy === column.id && state.sortOrder === 'asc' ? 'desc' : 'asc';
+    onStateChange({ sortBy: column.id, sortOrder });
+  };
+
+  const total = pagination?.total ?? rows.length;
+  const totalPages = pagination?.totalPages ?? 1;
+  const firstRow = total === 0 ? 0 : (state.page - 1) * state.limit + 1;
+  const lastRow = Math.min(state.page * state.limit, total);
+
+  const hideableColumns = columns.filter((column) => column.hideable !== false);
+  const hasToolbar = searchPlaceholder || filters.length > 0 || hideableColumns.length > 0 || toolbar;
+
+  return (
+    <div>
+      {hasToolbar && (
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          {searchPlaceholder && (
+            <input
+              type="search"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder={searchPlaceholder}
+              className="w-full md:w-64 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+            />
+          )}
+          {filters.map((filter) => (
+            <select
+              key={filter.id}
+              value={state.filters[filter.id] || ''}
+              onChange={(e) => onStateChange({ filters: { [filter.id]: e.target.value } })}
+              aria-label={filter.label}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+            >
+              <option value="">All {filter.label.toLowerCase()}</option>
+              {filter.options.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          ))}
+          <div className="flex items-center gap-3 ml-auto">
+            {toolbar}
+            {hideableColumns.length > 0 && (
+              <div className="relative">
+                <button
+                  type="button"
+                  onClick={() => setIsColumnMenuOpen(!isColumnMenuOpen)}
+                  className="px-3 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50"
+                >
+                  Columns
+                </button>
+                {isColumnMenuOpen && (
+                  <div className="absolute right-0 mt-2 w-48 bg-white border border-gray-200 rounded-md shadow-lg z-20 py-2">
+                    {hideableColumns.map((column) => (
+                      <label key={column.id} className="flex items-center px-3 py-1 text-sm text-gray-700 hover:bg-gray-50">
+                        <input
+                          type="checkbox"
+                          checked={!hiddenColumns.includes(column.id)}
+                          onChange={() => toggleColumn(column.id)}
+                          className="mr-2"
+                        />
+                        {column.header}
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {selectable && selectedRows.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3 mb-4 px-4 py-2 bg-orange-50 border border-orange-200 rounded-lg">
+          <span className="text-sm font-medium text-orange-800">{selectedRows.length} selected</span>
+          {bulkActions.map((action) => (
+            <button
+              key={action.label}
+              type="button"
+              onClick={() => action.onClick(selectedRows)}
+              className={`px-3 py-1 text-sm text-white rounded-md ${
+                action.destructive ? 'bg-red-600 hover:bg-red-700' : 'bg-orange-600 hover:bg-orange-700'
+              }`}
+            >
+              {action.label}
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={() => setSelectedKeys(new Set())}
+            className="ml-auto text-sm text-gray-600 hover:text-gray-900"
+          >
+            Clear selection
+          </button>
+        </div>
+      )}
+
+      <div className="overflow-auto max-h-[70vh] border border-gray-200 rounded-lg">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50 sticky top-0 z-10">
+            <tr>
+              {selectable && (
+                <th className="px-4 py-3 w-10 bg-gray-50">
+                  <input type="checkbox" checked={allSelected} onChange={toggleAll} aria-label="Select all rows" />
+                </th>
+              )}
+              {visibleColumns.map((column) => (
+                <th
+                  key={column.id}
+                  onClick={() => handleSort(column)}
+                  aria-sort={
+                    state.sortBy === column.id ? (state.sortOrder === 'asc' ? 'ascending' : 'descending') : undefined
+                  }
+                  className={`px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider bg-gray-50 ${
+                    column.sortable ? 'cursor-pointer select-none hover:text-gray-700' : ''
+                  }`}
+                >
+                  {column.header}
+                  {column.sortable && state.sortBy === column.id && (
+                    <span className="ml-1">{state.sortOrder === 'asc' ? '▲' : '▼'}</span>
+                  )}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className={`bg-white divide-y divide-gray-200 ${isFetching && !isLoading ? 'opacity-60' : ''}`}>
+            {isLoading ? (
+              <tr>
+                <td colSpan={columnCount} className="py-12">
+                  <div className="flex justify-center">
+                    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-500"></div>
+                  </div>
+                </td>
+              </tr>
+            ) : error ? (
+              <tr>
+                <td colSpan={columnCount} className="py-12 text-center">
+                  <p className="text-red-600 text-lg mb-2">Could not load records</p>
+                  <p className="text-gray-500 text-sm mb-4">{getErrorMessage(error, 'Unknown error')}</p>
+                  {onRetry && (
+                    <button
+                      type="button"
+                      onClick={onRetry}
+                      className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700"
+                    >
+                      Retry
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ) : rows.length === 0 ? (
+              <tr>
+                <td colSpan={columnCount} className="py-12 text-center text-gray-500 text-lg">
+                  {emptyMessage}
+                </td>
+              </tr>
+            ) : (
+              rows.map((row) => {
+                const key = rowKey(row);
+                return (
+                  <tr key={key} className={selectedKeys.has(key) ? 'bg-orange-50' : 'hover:bg-gray-50'}>
+                    {selectable && (
+                      <td className="px-4 py-4">
+                        <input
+                          type="checkbox"
+                          checked={selectedKeys.has(key)}
+                          onChange={() => toggleRow(key)}
+                          aria-label="Select row"
+                        />
+                      </td>
+                    )}
+                    {visibleColumns.map((column) => (
+                      <td key={column.id} className={column.className || 'px-6 py-4 whitespace-nowrap text-sm text-gray-500'}>
+                        {column.cell(row)}
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {!isLoading && !error && total > 0 && (
+        <div className="flex flex-wrap items-center justify-between gap-3 mt-4 text-sm text-gray-600">
+          <span>
+            Showing {firstRow}–{lastRow} of {total}
+          </span>
+          <div className="flex items-center gap-3">
+            <select
+              value={state.limit}
+              onChange={(e) => onStateChange({ limit: Number(e.target.value) })}
+              aria-label="Rows per page"
+              className="px-2 py-1 border border-gray-300 rounded-md"
+            >
+              {PAGE_SIZE_OPTIONS.map((size) => (
+                <option key={size} value={size}>
+                  {size} / page
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => onStateChange({ page: state.page - 1 })}
+              disabled={state.page <= 1}
+              className="px-3 py-1 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <span>
+              Page {state.page} of {totalPages}
+            </span>
+            <button
+              type="button"
+              onClick={() => onStateChange({ page: state.page + 1 })}
+              disabled={state.page >= totalPages}
+              className="px-3 py-1 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
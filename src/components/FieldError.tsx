@@ -0,0 +1,13 @@
+import React from 'react';
+
+interface FieldErrorProps {
+  message?: string;
+}
+
+/**
+ * Validation message shown under a form input, e.g. one returned by the backend
+ */
+export const FieldError: React.FC<FieldErrorProps> = ({ message }) => {
+  if (!message) return null;
+  return <p className="mt-1 text-sm text-red-600">{message}</p>;
+};
@@ -0,0 +1,301 @@
+import React, { useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Batch, batchAPI } from '../api/batch.api';
+import { sessionAPI, SessionStatus } from '../api/session.api';
+import { facultyAPI } from '../api/faculty.api';
+import { facultyLeaveAPI, FacultyLeave } from '../api/facultyLeave.api';
+import { LeaveStatus } from '../api/studentLeave.api';
+import { holidayAPI } from '../api/holiday.api';
+import { BatchExtension } from '../api/batchExtension.api';
+import { toast } from '../context/NotificationContext';
+import { addDays, listClassDates, normalizeSchedule, parseDateKey, toDateKey } from '../types/schedule.types';
+
+// How far ahead an extension's extra sessions are looked for
+const EXTENSION_HORIZON_DAYS = 366;
+const SESSION_FETCH_LIMIT = 1000;
+
+interface PlannedRow {
+  date: string;
+  startTime: string;
+  endTime: string;
+  facultyId: number;
+  topic: string;
+  include: boolean;
+  // Why the date is left out by default, e.g. a holiday
+  skipReason?: string;
+}
+
+type RowEdit = Partial<Pick<PlannedRow, 'facultyId' | 'topic' | 'include'>>;
+
+interface GenerateSessionsModalProps {
+  batch: Batch;
+  // When set, plans the extension's extra sessions after the batch's last session instead
+  extension?: BatchExtension;
+  onClose: () => void;
+}
+
+const dateOf = (value: string) => value.split('T')[0];
+
+const isOnLeave = (leaves: FacultyLeave[], facultyId: number, date: string) =>
+  leaves.some((leave) => leave.facultyId === facultyId && dateOf(leave.startDate) <= date && dateOf(leave.endDate) >= date);
+
+/**
+ * Previews the sessions a batch schedule implies, skipping holidays, approved faculty leave
+ * and days that already have a session, and creates the selected rows in bulk
+ */
+export const GenerateSessionsModal: React.FC<GenerateSessionsModalProps> = ({ batch, extension, onClose }) => {
+  const queryClient = useQueryClient();
+  const schedule = useMemo(() => normalizeSchedule(batch.schedule), [batch.schedule]);
+  const assignedFaculty = batch.assignedFaculty || [];
+  const [defaultFacultyId, setDefaultFacultyId] = useState<number>(assignedFaculty[0]?.id || 0);
+  const [edits, setEdits] = useState<Record<string, RowEdit>>({});
+
+  const { data: sessionsData, isLoading: isLoadingSessions } = useQuery({
+    queryKey: ['sessions', 'batch', batch.id],
+    queryFn: () => sessionAPI.getAllSessions({ batchId: batch.id, limit: SESSION_FETCH_LIMIT }),
+  });
+
+  // Everyone can teach when the batch has no faculty assigned yet
+  const { data: facultyData } = useQuery({
+    queryKey: ['faculty'],
+    queryFn: () => facultyAPI.getAllFaculty(),
+    enabled: assignedFaculty.length === 0,
+  });
+
+  const { data: leavesData } = useQuery({
+    queryKey: ['faculty-leaves', LeaveStatus.APPROVED],
+    queryFn: () => facultyLeaveAPI.getLeaves({ status: LeaveStatus.APPROVED }),
+  });
+
+  const existingSessions = useMemo(
+    () => (sessionsData?.data.sessions || []).filter((session) => session.status !== SessionStatus.CANCELLED),
+    [sessionsData]
+  );
+
+  // Regular generation fills the rest of the batch from today; an extension continues after the last session
+  const today = toDateKey(new Date());
+  const lastSessionDate = existingSessions.reduce((latest, session) => {
+    const date = dateOf(session.date);
+    return date > latest ? date : latest;
+  }, '');
+  const from = extension
+    ? toDateKey(addDays(parseDateKey(lastSessionDate > today ? lastSessionDate : today), 1))
+    : dateOf(batch.startDate) > today
+      ? dateOf(batch.startDate)
+      : today;
+  const until = extension ? toDateKey(addDays(parseDateKey(from), EXTENSION_HORIZON_DAYS)) : dateOf(batch.endDate);
+
+  const { data: holidaysData, isLoading: isLoadingHolidays } = useQuery({
+    queryKey: ['holidays', from, until],
+    queryFn: () => holidayAPI.getHolidays({ dateFrom: from, dateTo: until }),
+    enabled: !isLoadingSessions,
+    retry: false,
+  });
+
+  const facultyOptions = assignedFaculty.length > 0 ? assignedFaculty : facultyData?.data.users || [];
+  const leaves = useMemo(() => leavesData?.data.leaves || [], [leavesData]);
+
+  const plannedRows = useMemo<PlannedRow[]>(() => {
+    const holidays = new Map((holidaysData?.data.holidays || []).map((holiday) => [dateOf(holiday.date), holiday.name]));
+    const sessionDates = new Set(existingSessions.map((session) => dateOf(session.date)));
+    const rows: PlannedRow[] = [];
+    let included = 0;
+
+    for (const classDate of listClassDates(schedule, from, until)) {
+      if (extension && included >= extension.numberOfSessions) break;
+      const holiday = holidays.get(classDate.date);
+      const skipReason = sessionDates.has(classDate.date)
+        ? 'Already has a session'
+        : holiday
+          ? `Holiday: ${holiday}`
+          : isOnLeave(leaves, defaultFacultyId, classDate.date)
+            ? 'Faculty on leave'
+            : undefined;
+      // Days that already have a session are not shown again for an extension
+      if (extension && skipReason === 'Already has a session') continue;
+      if (!skipReason) included++;
+      rows.push({ ...classDate, facultyId: defaultFacultyId, topic: '', include: !skipReason, skipReason });
+    }
+    return rows;
+  }, [schedule, from, until, extension, existingSessions, holidaysData, leaves, defaultFacultyId]);
+
+  const rows = plannedRows.map((row) => ({ ...row, ...edits[row.date] }));
+  const selectedRows = rows.filter((row) => row.include);
+  const editRow = (date: string, edit: RowEdit) => setEdits((current) => ({ ...current, [date]: { ...current[date], ...edit } }));
+
+  const generateMutation = useMutation({
+    mutationFn: async (toCreate: PlannedRow[]) => {
+      const results = await Promise.allSettled(
+        toCreate.map((row) =>
+          sessionAPI.createSession({
+            batchId: batch.id,
+            facultyId: row.facultyId,
+            date: row.date,
+            startTime: row.startTime,
+            endTime: row.endTime,
+            topic: row.topic.trim() || undefined,
+          })
+        )
+      );
+      const created = results.filter((result) => result.status === 'fulfilled').length;
+      // An extension runs past the old end date; move the end date to the last new session
+      const lastDate = toCreate[toCreate.length - 1]?.date;
+      if (extension && created > 0 && lastDate > dateOf(batch.endDate)) {
+        await batchAPI.updateBatch(batch.id, { endDate: lastDate });
+      }
+      return { created, failed: results.length - created };
+    },
+    meta: { errorMessage: 'Failed to generate sessions' },
+    onSuccess: ({ created, failed }) => {
+      queryClient.invalidateQueries({ queryKey: ['sessions'] });
+      queryClient.invalidateQueries({ queryKey: ['batches'] });
+      if (failed > 0) {
+        toast.error(`Created ${created} session${created === 1 ? '' : 's'}; ${failed} could not be created.`);
+      } else {
+        toast.success(`Created ${created} session${created === 1 ? '' : 's'}.`);
+      }
+      onClose();
+    },
+  });
+
+  const isLoading = isLoadingSessions || isLoadingHolidays;
+  const hasSchedule = Object.keys(schedule).length > 0;
+  const canSubmit = selectedRows.length > 0 && selectedRows.every((row) => row.facultyId) && !generateMutation.isPending;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-4xl w-full mx-4 max-h-[90vh] flex flex-col">
+        <div className="mb-4">
+          <h2 className="text-2xl font-bold">{extension ? 'Plan Extension Sessions' : 'Generate Sessions'}</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            {batch.title} ·{' '}
+            {extension
+              ? `${extension.numberOfSessions} extra session${extension.numberOfSessions === 1 ? '' : 's'} after the last scheduled session`
+              : `${parseDateKey(from).toLocaleDateString()} to ${parseDateKey(until).toLocaleDateString()}`}
+          </p>
+        </div>
+
+        {!hasSchedule ? (
+          <p className="py-8 text-center text-gray-500">
+            This batch has no weekly schedule. Add one in the batch edit form to generate sessions.
+          </p>
+        ) : isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-500"></div>
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-3 mb-3">
+              <label className="text-sm font-medium text-gray-700">Faculty for all rows</label>
+              <select
+                value={defaultFacultyId || ''}
+                onChange={(e) => {
+                  const facultyId = Number(e.target.value);
+                  setDefaultFacultyId(facultyId);
+                  // A new default replaces per-row faculty choices
+                  setEdits((current) =>
+                    Object.fromEntries(Object.entries(current).map(([date, edit]) => [date, { ...edit, facultyId: undefined }]))
+                  );
+                }}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+              >
+                <option value="">Select a faculty</option>
+                {facultyOptions.map((member) => (
+                  <option key={member.id} value={member.id}>
+                    {member.name}
+                  </option>
+                ))}
+              </select>
+              <span className="ml-auto text-sm text-gray-600">
+                {selectedRows.length} of {rows.length} selected
+              </span>
+            </div>
+
+            <div className="flex-1 overflow-auto border border-gray-200 rounded-lg">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2"></th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Time</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Faculty</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Topic</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {rows.map((row) => (
+                    <tr key={row.date} className={row.include ? '' : 'bg-gray-50 text-gray-400'}>
+                      <td className="px-3 py-2">
+                        <input
+                          type="checkbox"
+                          checked={row.include}
+                          onChange={(e) => editRow(row.date, { include: e.target.checked })}
+                        />
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        {parseDateKey(row.date).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' })}
+                        {row.skipReason && <div className="text-xs text-amber-700">{row.skipReason}</div>}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        {row.startTime} – {row.endTime}
+                      </td>
+                      <td className="px-3 py-2">
+                        <select
+                          value={row.facultyId || ''}
+                          onChange={(e) => editRow(row.date, { facultyId: Number(e.target.value) })}
+                          className="w-full px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+                        >
+                          <option value="">Select</option>
+                          {facultyOptions.map((member) => (
+                            <option key={member.id} value={member.id}>
+                              {member.name}
+                            </option>
+                          ))}
+                        </select>
+                        {row.include && isOnLeave(leaves, row.facultyId, row.date) && (
+                          <div className="text-xs text-amber-700">On approved leave this day</div>
+                        )}
+                      </td>
+                      <td className="px-3 py-2">
+                        <input
+                          type="text"
+                          value={row.topic}
+                          onChange={(e) => editRow(row.date, { topic: e.target.value })}
+                          placeholder="Optional"
+                          className="w-full px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {rows.length === 0 && (
+                <p className="py-8 text-center text-gray-500">The schedule has no class days left in this period.</p>
+              )}
+            </div>
+          </>
+        )}
+
+        <div className="flex gap-3 mt-4">
+          <button
+            type="button"
+            onClick={() => generateMutation.mutate(selectedRows)}
+            disabled={!canSubmit}
+            className="flex-1 px-4 py-2 bg-orange-600 text-white rounded-lg font-semibold hover:bg-orange-700 transition-colors disabled:opacity-50"
+          >
+            {generateMutation.isPending
+              ? 'Creating...'
+              : `Create ${selectedRows.length} session${selectedRows.length === 1 ? '' : 's'}`}
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg font-semibold hover:bg-gray-300 transition-colors"
+          >
+            {extension ? 'Skip' : 'Cancel'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
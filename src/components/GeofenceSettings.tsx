@@ -0,0 +1,148 @@
+import React, { useRef } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { CreateGeofenceRequest, GeofencePolicy, geofenceAPI } from '../api/geofence.api';
+import { useConfirm } from '../context/NotificationContext';
+import { formatDistance } from '../types/geofence.types';
+
+const POLICY_LABELS: Record<GeofencePolicy, string> = {
+  block: 'Block punches from outside',
+  flag: 'Allow, but send for approval',
+};
+
+/**
+ * Admin list of campus fences used by the employee and student punch screens
+ */
+export const GeofenceSettings: React.FC = () => {
+  const queryClient = useQueryClient();
+  const confirm = useConfirm();
+  const formRef = useRef<HTMLFormElement>(null);
+
+  const { data: geofencesData, isLoading } = useQuery({
+    queryKey: ['geofences'],
+    queryFn: () => geofenceAPI.getGeofences(),
+    retry: false,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: (data: CreateGeofenceRequest) => geofenceAPI.createGeofence(data),
+    meta: { successMessage: 'Campus location added', errorMessage: 'Failed to add campus location' },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['geofences'] });
+      formRef.current?.reset();
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => geofenceAPI.deleteGeofence(id),
+    meta: { successMessage: 'Campus location removed', errorMessage: 'Failed to remove campus location' },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['geofences'] });
+    },
+  });
+
+  const geofences = geofencesData?.data.geofences || [];
+
+  // Fills the center with where the admin is standing, e.g. when setting up on site
+  const fillCurrentPosition = () => {
+    navigator.geolocation?.getCurrentPosition((position) => {
+      const form = formRef.current;
+      if (!form) return;
+      (form.elements.namedItem('latitude') as HTMLInputElement).value = position.coords.latitude.toFixed(6);
+      (form.elements.namedItem('longitude') as HTMLInputElement).value = position.coords.longitude.toFixed(6);
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    createMutation.mutate({
+      branch: formData.get('branch') as string,
+      name: formData.get('name') as string,
+      latitude: Number(formData.get('latitude')),
+      longitude: Number(formData.get('longitude')),
+      radiusMeters: Number(formData.get('radiusMeters')),
+      policy: formData.get('policy') as GeofencePolicy,
+    });
+  };
+
+  const handleDelete = async (id: number, name: string) => {
+    const confirmed = await confirm({
+      title: 'Remove Campus Location',
+      message: `Remove ${name}? Punches will no longer be checked against it.`,
+      confirmLabel: 'Remove',
+      destructive: true,
+    });
+    if (confirmed) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-1">Campus Locations</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Punches are checked against these areas. With none configured, punches are accepted from anywhere.
+      </p>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : geofences.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">No campus locations configured.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 mb-4">
+          {geofences.map((fence) => (
+            <li key={fence.id} className="py-2 flex items-center justify-between gap-3 text-sm">
+              <div>
+                <p className="font-medium text-gray-900">
+                  {fence.name} <span className="text-gray-500 font-normal">· {fence.branch}</span>
+                </p>
+                <p className="text-gray-600">
+                  {fence.latitude.toFixed(6)}, {fence.longitude.toFixed(6)} · {formatDistance(fence.radiusMeters)} radius ·{' '}
+                  {POLICY_LABELS[fence.policy]}
+                </p>
+              </div>
+              <button
+                onClick={() => handleDelete(fence.id, fence.name)}
+                disabled={deleteMutation.isPending}
+                className="px-3 py-1 text-red-600 hover:bg-red-50 rounded disabled:opacity-50"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form ref={formRef} onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+        <input name="branch" required placeholder="Branch *" className="px-3 py-2 border border-gray-300 rounded-lg" />
+        <input name="name" required placeholder="Site name *" className="px-3 py-2 border border-gray-300 rounded-lg" />
+        <select name="policy" defaultValue="flag" className="px-3 py-2 border border-gray-300 rounded-lg">
+          {(Object.keys(POLICY_LABELS) as GeofencePolicy[]).map((policy) => (
+            <option key={policy} value={policy}>
+              {POLICY_LABELS[policy]}
+            </option>
+          ))}
+        </select>
+        <input name="latitude" type="number" step="any" min={-90} max={90} required placeholder="Latitude *" className="px-3 py-2 border border-gray-300 rounded-lg" />
+        <input name="longitude" type="number" step="any" min={-180} max={180} required placeholder="Longitude *" className="px-3 py-2 border border-gray-300 rounded-lg" />
+        <input name="radiusMeters" type="number" min={10} required defaultValue={200} placeholder="Radius (m) *" className="px-3 py-2 border border-gray-300 rounded-lg" />
+        <div className="md:col-span-3 flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={fillCurrentPosition}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200"
+          >
+            Use my location
+          </button>
+          <button
+            type="submit"
+            disabled={createMutation.isPending}
+            className="px-4 py-2 bg-orange-600 text-white rounded-lg font-semibold hover:bg-orange-700 disabled:opacity-50"
+          >
+            {createMutation.isPending ? 'Adding...' : 'Add Location'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
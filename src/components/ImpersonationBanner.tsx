@@ -0,0 +1,46 @@
+import React, { useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+
+/**
+ * Persistent notice shown while an admin is viewing the app as another user,
+ * with a one-click way back to the admin's own session.
+ */
+export const ImpersonationBanner: React.FC = () => {
+  const { user, isImpersonating, originalUser, blockDestructiveActions, stopImpersonating } = useAuth();
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  if (!isImpersonating || !user || !originalUser) {
+    return null;
+  }
+
+  const handleReturn = async () => {
+    setIsRestoring(true);
+    try {
+      await stopImpersonating();
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="bg-yellow-400 text-yellow-900 px-6 py-2 flex flex-wrap items-center justify-between gap-2 text-sm">
+      <div className="flex items-center gap-2">
+        <span className="font-semibold">
+          You are viewing as {user.name} ({user.role})
+        </span>
+        {blockDestructiveActions && (
+          <span className="px-2 py-0.5 text-xs rounded-full bg-yellow-900/10 border border-yellow-900/20">
+            Delete actions disabled
+          </span>
+        )}
+      </div>
+      <button
+        onClick={handleReturn}
+        disabled={isRestoring}
+        className="px-3 py-1 bg-yellow-900 text-white rounded-md font-medium hover:bg-yellow-800 disabled:opacity-60 transition-colors"
+      >
+        {isRestoring ? 'Restoring...' : `Return to ${originalUser.name}`}
+      </button>
+    </div>
+  );
+};
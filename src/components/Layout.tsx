@@ -1,6 +1,13 @@
-import React, { ReactNode, useState } from 'react';
+import React, { ReactNode, useEffect, useState } from 'react';
 import { useAuth } from '../context/AuthContext';
-import { Link, useLocation } from 'react-router-dom';
+import { usePermissions } from '../context/PermissionContext';
+import { Link, matchPath, useLocation } from 'react-router-dom';
+import { appRoutes } from '../routes';
+import { isRouteAllowed } from '../types/route.types';
+import { ImpersonationBanner } from './ImpersonationBanner';
+import { CommandPalette } from './CommandPalette';
+import { SavedViewsMenu } from './SavedViewsMenu';
+import { useSavedViews } from '../context/SavedViewsContext';
 
 interface LayoutProps {
   children: ReactNode;
@@ -8,26 +15,35 @@ interface LayoutProps {
 
 export const Layout: React.FC<LayoutProps> = ({ children }) => {
   const { user, logout } = useAuth();
+  const { can } = usePermissions();
   const location = useLocation();
+  const { views } = useSavedViews();
   const [sidebarOpen, setSidebarOpen] = useState(true);
+  const [paletteOpen, setPaletteOpen] = useState(false);
 
-  const navigation = [
-    { name: 'Dashboard', href: '/dashboard', icon: '🏠' },
-    { name: 'Batches', href: '/batches', icon: '📚' },
-    { name: 'Students', href: '/students', icon: '👥' },
-    { name: 'Faculty', href: '/faculty', icon: '👨‍🏫' },
-    { name: 'Employees', href: '/employees', icon: '💼' },
-    { name: 'Attendance', href: '/attendance', icon: '✅' },
-    ...(user?.role !== 'student' ? [{ name: 'My Attendance', href: '/student-attendance', icon: '📸' }] : []),
-    { name: 'Payments', href: '/payments', icon: '💰' },
-    { name: 'Portfolios', href: '/portfolios', icon: '📁' },
-    { name: 'Reports', href: '/reports', icon: '📊' },
-    { name: 'Approvals', href: '/approvals', icon: '✓' },
-    { name: 'Leave Management', href: '/leaves', icon: '🏖️' },
-    { name: 'Batch Extensions', href: '/batch-extensions', icon: '⏱️' },
-    { name: 'Users', href: '/users', icon: '👤' },
-    ...(user?.role === 'superadmin' ? [{ name: 'Roles', href: '/roles', icon: '🔐' }] : []),
-  ];
+  // Ctrl/Cmd+K toggles the command palette from anywhere in the app
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setPaletteOpen((open) => !open);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Menu entries come from the route table, filtered by the same rules as the route guard
+  const navigation = appRoutes
+    .filter((route) => route.nav && isRouteAllowed(route, user?.role, can))
+    .map((route) => ({ name: route.nav!.name, href: route.path, icon: route.nav!.icon }));
+
+  // Pinned views take the icon of their page, and are hidden if the user has since lost access to it
+  const pinnedViews = views.flatMap((view) => {
+    const route = appRoutes.find((candidate) => matchPath(candidate.path, view.path));
+    if (!view.pinned || !route || !isRouteAllowed(route, user?.role, can)) return [];
+    return [{ ...view, href: `${view.path}${view.search}`, icon: route.nav?.icon || '📌' }];
+  });
 
   return (
     <div className="min-h-screen bg-gray-100 flex">
@@ -94,6 +110,34 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
                 </Link>
               );
             })}
+
+            {pinnedViews.length > 0 && (
+              <div className="pt-4 mt-4 border-t border-gray-200 space-y-2">
+                {sidebarOpen && (
+                  <p className="px-4 text-xs font-semibold text-gray-500 uppercase">Saved views</p>
+                )}
+                {pinnedViews.map((view) => {
+                  const isActive = location.pathname === view.path && location.search === view.search;
+                  return (
+                    <Link
+                      key={view.id}
+                      to={view.href}
+                      className={`flex items-center px-4 py-2 rounded-lg transition-colors ${
+                        isActive
+                          ? 'bg-orange-100 text-orange-700 font-semibold'
+                          : 'text-gray-700 hover:bg-gray-100'
+                      }`}
+                      title={!sidebarOpen ? view.name : ''}
+                    >
+                      <span className="text-xl mr-3 flex-shrink-0">{view.icon}</span>
+                      {sidebarOpen && (
+                        <span className="text-sm truncate">{view.name}</span>
+                      )}
+                    </Link>
+                  );
+                })}
+              </div>
+            )}
           </nav>
         </div>
 
@@ -104,6 +148,9 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
               <div className="font-semibold text-gray-900 truncate">{user.name}</div>
               <div className="text-xs text-gray-500">{user.role}</div>
             </div>
+            <Link to="/change-password" className="block text-xs text-orange-600 hover:underline mb-2">
+              Change Password
+            </Link>
             <button
               onClick={logout}
               className="w-full px-4 py-2 text-sm font-medium text-white bg-orange-600 rounded-lg hover:bg-orange-700 transition-colors"
@@ -118,6 +165,7 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
       <div className={`flex-1 ${sidebarOpen ? 'ml-64' : 'ml-20'} transition-all duration-300 min-h-screen`}>
         {/* Top Bar */}
         <header className="bg-white shadow-sm sticky top-0 z-40">
+          <ImpersonationBanner />
           <div className="px-6 py-4 flex items-center justify-between">
             <div className="flex items-center">
               {!sidebarOpen && (
@@ -145,6 +193,15 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
               </h2>
             </div>
             <div className="flex items-center space-x-4">
+              <SavedViewsMenu />
+              <button
+                onClick={() => setPaletteOpen(true)}
+                className="flex items-center px-3 py-2 text-sm text-gray-500 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <span className="mr-2">🔍</span>
+                Search
+                <kbd className="ml-3 px-1.5 py-0.5 text-xs bg-gray-100 border border-gray-200 rounded">Ctrl K</kbd>
+              </button>
               {!sidebarOpen && user && (
                 <>
                   <span className="text-sm text-gray-700">
@@ -165,6 +222,8 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
         {/* Page Content */}
         <main className="p-6 bg-gray-50 min-h-[calc(100vh-4rem)]">{children}</main>
       </div>
+
+      <CommandPalette isOpen={paletteOpen} onClose={() => setPaletteOpen(false)} />
     </div>
   );
 };
@@ -1,6 +1,7 @@
 import React from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
+import { ImpersonationBanner } from './ImpersonationBanner';
 
 export const Navbar: React.FC = () => {
   const { user, logout, isAuthenticated } = useAuth();
@@ -17,6 +18,7 @@ export const Navbar: React.FC = () => {
 
   return (
     <nav className="bg-black text-white shadow-lg">
+      <ImpersonationBanner />
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="flex justify-between h-16">
           <div className="flex items-center space-x-8">
@@ -60,6 +62,12 @@ export const Navbar: React.FC = () => {
                     {user.role.toUpperCase()}
                   </span>
                 </div>
+                <Link
+                  to="/change-password"
+                  className="px-3 py-2 rounded-md text-sm font-medium hover:bg-gray-800 transition"
+                >
+                  Change Password
+                </Link>
                 <button
                   onClick={handleLogout}
                   className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 transition"
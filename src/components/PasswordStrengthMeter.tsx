@@ -0,0 +1,40 @@
+import React from 'react';
+import { PASSWORD_RULES, PasswordStrength, getPasswordStrength } from '../types/password.types';
+
+const STRENGTH_STYLES: Record<PasswordStrength, { bar: string; width: string; label: string }> = {
+  weak: { bar: 'bg-red-500', width: 'w-1/3', label: 'Weak' },
+  fair: { bar: 'bg-yellow-500', width: 'w-2/3', label: 'Fair' },
+  strong: { bar: 'bg-green-500', width: 'w-full', label: 'Strong' },
+};
+
+interface PasswordStrengthMeterProps {
+  password: string;
+}
+
+export const PasswordStrengthMeter: React.FC<PasswordStrengthMeterProps> = ({ password }) => {
+  const strength = STRENGTH_STYLES[getPasswordStrength(password)];
+
+  return (
+    <div className="mt-2 space-y-2">
+      {password && (
+        <div className="flex items-center gap-3">
+          <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+            <div className={`h-full ${strength.bar} ${strength.width} transition-all`}></div>
+          </div>
+          <span className="text-xs font-medium text-gray-600">{strength.label}</span>
+        </div>
+      )}
+      <ul className="space-y-1">
+        {PASSWORD_RULES.map((rule) => {
+          const met = rule.test(password);
+          return (
+            <li key={rule.id} className={`text-xs flex items-center gap-2 ${met ? 'text-green-600' : 'text-gray-500'}`}>
+              <span>{met ? '✓' : '○'}</span>
+              {rule.label}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
@@ -1,23 +1,33 @@
 import React from 'react';
-import { Navigate } from 'react-router-dom';
+import { Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
-
-type UserRole = 'superadmin' | 'admin' | 'faculty' | 'student' | 'employee';
+import { usePermissions } from '../context/PermissionContext';
+import { Module } from '../api/permission.api';
+import { PermissionAction } from '../types/permission.types';
+import { UserRole } from '../types/user.types';
+import { isRouteAllowed } from '../types/route.types';
+import { Forbidden } from '../pages/Forbidden';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
   allowedRoles?: UserRole[];
+  module?: Module;
+  action?: PermissionAction;
   redirectTo?: string;
 }
 
 export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
   children,
   allowedRoles,
+  module,
+  action,
   redirectTo = '/login',
 }) => {
-  const { isAuthenticated, user, loading } = useAuth();
+  const { isAuthenticated, user, loading, isImpersonating } = useAuth();
+  const { can, loading: permissionsLoading } = usePermissions();
+  const location = useLocation();
 
-  if (loading) {
+  if (loading || permissionsLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-500"></div>
@@ -26,21 +36,18 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
   }
 
   if (!isAuthenticated) {
-    return <Navigate to={redirectTo} replace />;
+    return <Navigate to={redirectTo} replace state={{ from: location }} />;
   }
 
-  if (allowedRoles && user && !allowedRoles.includes(user.role)) {
-    return (
-      <div className="min-h-screen flex items-center justify-center">
-        <div className="text-center">
-          <h1 className="text-2xl font-bold text-gray-800 mb-2">Access Denied</h1>
-          <p className="text-gray-600">You don't have permission to access this page.</p>
-        </div>
-      </div>
-    );
+  // Accounts created by an admin must replace their initial password before going anywhere else.
+  // An admin viewing as such a user is not asked to pick a password for them.
+  if (user?.mustChangePassword && !isImpersonating && location.pathname !== '/change-password') {
+    return <Navigate to="/change-password" replace state={{ from: location }} />;
+  }
+
+  if (!isRouteAllowed({ roles: allowedRoles, module, action }, user?.role, can)) {
+    return <Forbidden />;
   }
 
   return <>{children}</>;
 };
-
-
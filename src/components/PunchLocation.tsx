@@ -0,0 +1,169 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { geofenceAPI, PunchGeofence } from '../api/geofence.api';
+import { toast, useConfirm } from '../context/NotificationContext';
+import {
+  Coordinates,
+  GeofenceCheck,
+  checkGeofences,
+  describeLocation,
+  formatDistance,
+  toPunchGeofence,
+} from '../types/geofence.types';
+
+export interface PunchLocationFields {
+  location?: Coordinates & { address?: string };
+  geofence?: PunchGeofence;
+}
+
+export interface PunchLocationState {
+  position: Coordinates | null;
+  address?: string;
+  error: string | null;
+  isLocating: boolean;
+  check: GeofenceCheck | null;
+  locate: () => void;
+}
+
+/**
+ * Tracks the device location and checks it against the campus fences.
+ * With no fences configured every location is accepted, as before fences existed. If the fences
+ * fail to load, punches are sent for approval like punches without a location.
+ */
+export function usePunchLocation() {
+  const confirm = useConfirm();
+  const [position, setPosition] = useState<Coordinates | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
+
+  const {
+    data: geofencesData,
+    isLoading: isLoadingGeofences,
+    isError: isGeofencesError,
+  } = useQuery({
+    queryKey: ['geofences'],
+    queryFn: () => geofenceAPI.getGeofences(),
+    retry: false,
+  });
+
+  const locate = useCallback(() => {
+    if (!navigator.geolocation) {
+      setError('Geolocation is not supported by your browser.');
+      return;
+    }
+    setIsLocating(true);
+    setError(null);
+    navigator.geolocation.getCurrentPosition(
+      (result) => {
+        setPosition({ latitude: result.coords.latitude, longitude: result.coords.longitude });
+        setIsLocating(false);
+      },
+      (positionError) => {
+        setPosition(null);
+        setError(
+          positionError.code === positionError.PERMISSION_DENIED
+            ? 'Location access was denied.'
+            : 'Unable to fetch location. Please enable location services.'
+        );
+        setIsLocating(false);
+      },
+      { enableHighAccuracy: true, timeout: 10000, maximumAge: 0 }
+    );
+  }, []);
+
+  useEffect(() => {
+    locate();
+  }, [locate]);
+
+  const check = useMemo(
+    () => checkGeofences(position, isGeofencesError ? null : geofencesData?.data.geofences || []),
+    [position, geofencesData, isGeofencesError]
+  );
+  const address = position ? describeLocation(position, check) : undefined;
+
+  /**
+   * Applies the fence policy before a punch: blocks it, asks to send it for approval, or lets it through
+   * @param action - Shown in the prompts, e.g. "Punch In"
+   * @returns The location fields for the punch request, or null when the punch should not be sent
+   */
+  const preparePunch = async (action: string): Promise<PunchLocationFields | null> => {
+    if (isLocating) {
+      toast.info('Still getting your location, please try again in a moment.');
+      return null;
+    }
+    if (isLoadingGeofences) {
+      toast.info('Still loading campus locations, please try again in a moment.');
+      return null;
+    }
+    const location = position ? { ...position, address } : undefined;
+    if (!check) return { location };
+    if (check.status === 'outside' && check.policy === 'block') {
+      toast.error(`You are ${formatDistance(check.distanceMeters ?? 0)} outside ${check.fence?.name}. ${action} is only allowed on campus.`);
+      return null;
+    }
+    if (check.status !== 'inside') {
+      const confirmed = await confirm({
+        title: check.status === 'outside' ? 'Outside Campus' : 'Location Unavailable',
+        message:
+          check.status === 'outside'
+            ? `You are ${formatDistance(check.distanceMeters ?? 0)} outside ${check.fence?.name}. The punch will be recorded and sent for approval.`
+            : `${
+                position ? 'Campus locations could not be loaded.' : error || 'Your location could not be determined.'
+              } The punch will be recorded and sent for approval.`,
+        confirmLabel: `${action} Anyway`,
+      });
+      if (!confirmed) return null;
+    }
+    return { location, geofence: toPunchGeofence(check) };
+  };
+
+  const state: PunchLocationState = { position, address, error, isLocating, check, locate };
+  return { ...state, preparePunch };
+}
+
+/**
+ * Location box for the punch screens: where the user is and whether that is on campus
+ */
+export const PunchLocationStatus: React.FC<{ punchLocation: PunchLocationState }> = ({ punchLocation }) => {
+  const { position, address, error, isLocating, check, locate } = punchLocation;
+
+  if (isLocating) {
+    return <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 text-sm text-gray-600">Getting your location...</div>;
+  }
+
+  if (!position) {
+    return (
+      <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+        <div className="text-sm text-yellow-700">
+          {error || 'Location not available.'}{' '}
+          {check ? 'Punches will be sent for approval until location is available.' : 'You can still punch in/out without location.'}
+        </div>
+        <button
+          onClick={locate}
+          className="mt-2 px-3 py-1 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+        >
+          Try Again
+        </button>
+      </div>
+    );
+  }
+
+  const isOutside = check?.status === 'outside';
+  return (
+    <div className={`${isOutside ? 'bg-red-50 border-red-200' : 'bg-gray-50 border-gray-200'} border rounded-lg p-3 space-y-1`}>
+      <div className="text-sm text-gray-600">📍 Location: {address}</div>
+      {check?.status === 'inside' && <div className="text-sm text-green-700">On campus</div>}
+      {check?.status === 'unavailable' && (
+        <div className="text-sm text-yellow-700">Campus locations could not be loaded. Punches will be sent for approval.</div>
+      )}
+      {isOutside && (
+        <div className="text-sm text-red-700">
+          {check.policy === 'block' ? 'Punching is not allowed from here.' : 'Punches from here need approval.'}
+        </div>
+      )}
+      <button onClick={locate} className="text-xs text-blue-600 hover:underline">
+        Refresh location
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,262 @@
+import React, { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  BreakCorrection,
+  CreateRegularisationRequest,
+  PunchRegularisation,
+  PunchSource,
+  PunchTimes,
+  regularisationAPI,
+} from '../api/regularisation.api';
+import { toDateKey } from '../types/schedule.types';
+import { comparePunchTimes, formatPunchTime, toDateTimeInput } from '../types/regularisation.types';
+
+const AUDIT_FIELD_LABELS: Record<string, string> = {
+  punchInAt: 'Punch in',
+  punchOutAt: 'Punch out',
+  break: 'Break',
+};
+
+/**
+ * Recorded against requested punch times, with changed rows highlighted
+ */
+export const PunchTimesComparison: React.FC<{ original: PunchTimes; requested: PunchTimes }> = ({ original, requested }) => (
+  <table className="w-full text-sm border border-gray-200 rounded-lg overflow-hidden">
+    <thead className="bg-gray-50 text-gray-600">
+      <tr>
+        <th className="px-3 py-2 text-left font-medium"></th>
+        <th className="px-3 py-2 text-left font-medium">Recorded</th>
+        <th className="px-3 py-2 text-left font-medium">Corrected</th>
+      </tr>
+    </thead>
+    <tbody className="divide-y divide-gray-200">
+      {comparePunchTimes(original, requested).map((row) => (
+        <tr key={row.label}>
+          <td className="px-3 py-2 font-medium text-gray-700">{row.label}</td>
+          <td className="px-3 py-2">{row.original}</td>
+          <td className={`px-3 py-2 ${row.changed ? 'text-orange-700 font-medium' : ''}`}>{row.requested}</td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+/**
+ * Every change made to a corrected punch, oldest first
+ */
+export const PunchAuditTrail: React.FC<{ regularisation: PunchRegularisation }> = ({ regularisation }) => (
+  <ul className="space-y-1 text-xs text-gray-600">
+    {regularisation.audit.map((entry) => (
+      <li key={entry.id}>
+        <span className="font-medium">{AUDIT_FIELD_LABELS[entry.field] || entry.field}</span>{' '}
+        {formatPunchTime(entry.from)} → {formatPunchTime(entry.to)} · {entry.changedBy?.name || 'System'},{' '}
+        {new Date(entry.changedAt).toLocaleString()}
+        {entry.reason ? ` · ${entry.reason}` : ''}
+      </li>
+    ))}
+  </ul>
+);
+
+// The punch being corrected, in the shape both punch logs share
+export interface RegularisablePunch {
+  id: number;
+  date: string;
+  punchInAt?: string | null;
+  punchOutAt?: string | null;
+  breaks?: { id: string; startTime: string; endTime: string | null }[];
+}
+
+interface RegularisationModalProps {
+  source: PunchSource;
+  // Null when asking for a day with no punch at all
+  punch: RegularisablePunch | null;
+  onClose: () => void;
+}
+
+type BreakInput = { breakId?: string; startTime: string; endTime: string };
+
+const fromDateTimeInput = (value: string) => (value ? new Date(value).toISOString() : null);
+
+/**
+ * Asks for a punch to be corrected, e.g. a missed punch-out. The punch only changes
+ * once a manager approves the request under Approvals.
+ */
+export const RegularisationModal: React.FC<RegularisationModalProps> = ({ source, punch, onClose }) => {
+  const queryClient = useQueryClient();
+  const [date, setDate] = useState(punch ? punch.date.split('T')[0] : toDateKey(new Date()));
+  const [punchInAt, setPunchInAt] = useState(toDateTimeInput(punch?.punchInAt));
+  const [punchOutAt, setPunchOutAt] = useState(toDateTimeInput(punch?.punchOutAt));
+  const [breaks, setBreaks] = useState<BreakInput[]>(
+    (punch?.breaks || []).map((item) => ({
+      breakId: String(item.id),
+      startTime: toDateTimeInput(item.startTime),
+      endTime: toDateTimeInput(item.endTime),
+    }))
+  );
+  const [reason, setReason] = useState('');
+
+  const createMutation = useMutation({
+    mutationFn: (data: CreateRegularisationRequest) => regularisationAPI.createRequest(data),
+    meta: { successMessage: 'Correction request submitted for approval', errorMessage: 'Failed to submit correction request' },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['regularisations'] });
+      onClose();
+    },
+  });
+
+  const original: PunchTimes = {
+    punchInAt: punch?.punchInAt ?? null,
+    punchOutAt: punch?.punchOutAt ?? null,
+    breaks: (punch?.breaks || []).map((item) => ({
+      breakId: String(item.id),
+      startTime: item.startTime,
+      endTime: item.endTime ?? undefined,
+    })),
+  };
+
+  // Only what differs from the recorded punch is sent
+  const requestedBreaks: BreakCorrection[] = breaks
+    .filter((item) => item.startTime)
+    .map((item) => ({
+      breakId: item.breakId,
+      startTime: fromDateTimeInput(item.startTime)!,
+      endTime: fromDateTimeInput(item.endTime) ?? undefined,
+    }))
+    .filter((item) => {
+      const recorded = original.breaks?.find((candidate) => candidate.breakId === item.breakId);
+      return (
+        !recorded ||
+        toDateTimeInput(recorded.startTime) !== toDateTimeInput(item.startTime) ||
+        toDateTimeInput(recorded.endTime) !== toDateTimeInput(item.endTime)
+      );
+    });
+  const requested: PunchTimes = {
+    ...(punchInAt !== toDateTimeInput(original.punchInAt) && { punchInAt: fromDateTimeInput(punchInAt) }),
+    ...(punchOutAt !== toDateTimeInput(original.punchOutAt) && { punchOutAt: fromDateTimeInput(punchOutAt) }),
+    ...(requestedBreaks.length > 0 && { breaks: requestedBreaks }),
+  };
+  const hasChanges = Object.keys(requested).length > 0;
+  const isOutOfOrder = !!punchInAt && !!punchOutAt && punchOutAt <= punchInAt;
+
+  const updateBreak = (index: number, changes: Partial<BreakInput>) => {
+    setBreaks((current) => current.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!hasChanges || isOutOfOrder) return;
+    createMutation.mutate({ source, punchId: punch?.id, date, requested, reason });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <h2 className="text-2xl font-bold mb-4">Request Attendance Correction</h2>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Date *</label>
+            <input
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              disabled={!!punch}
+              max={toDateKey(new Date())}
+              required
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500 disabled:bg-gray-100"
+            />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Punch in</label>
+              <input
+                type="datetime-local"
+                value={punchInAt}
+                onChange={(e) => setPunchInAt(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Punch out</label>
+              <input
+                type="datetime-local"
+                value={punchOutAt}
+                onChange={(e) => setPunchOutAt(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+              />
+            </div>
+          </div>
+          {isOutOfOrder && <p className="text-sm text-red-600">Punch out must be after punch in.</p>}
+
+          {source === 'employee' && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-medium text-gray-700">Breaks</label>
+                <button
+                  type="button"
+                  onClick={() => setBreaks((current) => [...current, { startTime: '', endTime: '' }])}
+                  className="text-sm text-orange-600 hover:underline"
+                >
+                  + Add missed break
+                </button>
+              </div>
+              {breaks.length === 0 ? (
+                <p className="text-sm text-gray-500">No breaks recorded.</p>
+              ) : (
+                <div className="space-y-2">
+                  {breaks.map((item, index) => (
+                    <div key={item.breakId ?? `new-${index}`} className="grid grid-cols-2 gap-2">
+                      <input
+                        type="datetime-local"
+                        value={item.startTime}
+                        onChange={(e) => updateBreak(index, { startTime: e.target.value })}
+                        aria-label={`Break ${index + 1} start`}
+                        className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+                      />
+                      <input
+                        type="datetime-local"
+                        value={item.endTime}
+                        onChange={(e) => updateBreak(index, { endTime: e.target.value })}
+                        aria-label={`Break ${index + 1} end`}
+                        className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {hasChanges && <PunchTimesComparison original={original} requested={requested} />}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Reason *</label>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              required
+              rows={3}
+              placeholder="e.g. Forgot to punch out before leaving"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+            />
+          </div>
+          <div className="flex gap-3">
+            <button
+              type="submit"
+              disabled={!hasChanges || isOutOfOrder || createMutation.isPending}
+              className="flex-1 px-4 py-2 bg-orange-600 text-white rounded-lg font-semibold hover:bg-orange-700 transition-colors disabled:opacity-50"
+            >
+              {createMutation.isPending ? 'Submitting...' : 'Submit Request'}
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg font-semibold hover:bg-gray-300 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
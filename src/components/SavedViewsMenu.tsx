@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { SavedView, useSavedViews } from '../context/SavedViewsContext';
+import { toast } from '../context/NotificationContext';
+
+/**
+ * Header menu for saving the current page with its query string as a named view,
+ * copying it as a shareable link, and pinning saved views to the sidebar.
+ */
+export const SavedViewsMenu: React.FC = () => {
+  const location = useLocation();
+  const { views, saveView, removeView, togglePinned } = useSavedViews();
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const pageViews = views.filter((view) => view.path === location.pathname);
+  const otherViews = views.filter((view) => view.path !== location.pathname);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    setIsSaving(true);
+    try {
+      const view = await saveView(name, location.pathname, location.search);
+      toast.success(`Saved "${view.name}" and pinned it to the sidebar`);
+      setName('');
+    } catch {
+      // Reported by the mutation's error toast
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${location.pathname}${location.search}`);
+      toast.success('Link copied. Anyone with access to this page will see the same filters.');
+    } catch {
+      toast.error('Could not copy the link. Copy it from the address bar instead.');
+    }
+  };
+
+  const renderView = (view: SavedView) => (
+    <li key={view.id} className="flex items-center px-3 py-1 hover:bg-gray-50">
+      <Link
+        to={`${view.path}${view.search}`}
+        onClick={() => setIsOpen(false)}
+        className={`flex-1 text-sm truncate ${
+          view.path === location.pathname && view.search === location.search ? 'text-orange-700 font-semibold' : 'text-gray-700'
+        }`}
+      >
+        {view.name}
+      </Link>
+      <button
+        type="button"
+        onClick={() => togglePinned(view.id)}
+        className={`ml-2 text-sm ${view.pinned ? 'opacity-100' : 'opacity-30 hover:opacity-70'}`}
+        title={view.pinned ? 'Unpin from sidebar' : 'Pin to sidebar'}
+      >
+        📌
+      </button>
+      <button
+        type="button"
+        onClick={() => removeView(view.id)}
+        className="ml-2 text-sm text-gray-400 hover:text-red-600"
+        title="Delete view"
+      >
+        ✕
+      </button>
+    </li>
+  );
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center px-3 py-2 text-sm text-gray-500 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+      >
+        <span className="mr-2">⭐</span>
+        Views
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white border border-gray-200 rounded-md shadow-lg z-50 py-2">
+          <form onSubmit={handleSave} className="flex gap-2 px-3 pb-2 border-b border-gray-100">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Name this view"
+              className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+            />
+            <button
+              type="submit"
+              disabled={!name.trim() || isSaving}
+              className="px-3 py-1 text-sm text-white bg-orange-600 rounded-md hover:bg-orange-700 disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+          </form>
+          <button
+            type="button"
+            onClick={handleCopyLink}
+            className="w-full text-left px-3 py-2 text-sm text-gray-700 hover:bg-gray-50 border-b border-gray-100"
+          >
+            🔗 Copy link to this view
+          </button>
+
+          {views.length === 0 ? (
+            <p className="px-3 py-2 text-sm text-gray-500">No saved views yet</p>
+          ) : (
+            <>
+              {pageViews.length > 0 && (
+                <>
+                  <p className="px-3 pt-2 text-xs font-semibold text-gray-500 uppercase">This page</p>
+                  <ul>{pageViews.map(renderView)}</ul>
+                </>
+              )}
+              {otherViews.length > 0 && (
+                <>
+                  <p className="px-3 pt-2 text-xs font-semibold text-gray-500 uppercase">Other pages</p>
+                  <ul>{otherViews.map(renderView)}</ul>
+                </>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
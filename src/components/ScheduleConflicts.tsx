@@ -0,0 +1,115 @@
+import React, { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { batchAPI } from '../api/batch.api';
+import { sessionAPI } from '../api/session.api';
+import { facultyLeaveAPI } from '../api/facultyLeave.api';
+import { LeaveStatus } from '../api/studentLeave.api';
+import { holidayAPI } from '../api/holiday.api';
+import {
+  BatchProposal,
+  ConflictKind,
+  ScheduleConflict,
+  SessionProposal,
+  findBatchConflicts,
+  findSessionConflicts,
+} from '../types/conflict.types';
+
+// Enough to cover every session of a long batch; the check is advisory, not a guarantee
+const SESSION_FETCH_LIMIT = 1000;
+
+const KIND_LABELS: Record<ConflictKind, string> = {
+  faculty: 'Faculty',
+  room: 'Room',
+  leave: 'Leave',
+  holiday: 'Holiday',
+};
+
+export type ConflictCheck = { session: SessionProposal } | { batch: BatchProposal };
+
+/**
+ * Checks a proposed session or batch schedule against existing sessions, batch schedules,
+ * approved faculty leaves and holidays.
+ * @param proposal - The proposal, or null while the form is still incomplete
+ * @returns The conflicts found and whether the data behind them is still loading
+ */
+export function useScheduleConflicts(proposal: ConflictCheck | null) {
+  // Callers rebuild the proposal on every render; compare by value
+  const proposalKey = JSON.stringify(proposal);
+  const check = useMemo<ConflictCheck | null>(() => JSON.parse(proposalKey), [proposalKey]);
+  const range = check
+    ? 'session' in check
+      ? { dateFrom: check.session.date, dateTo: check.session.date }
+      : { dateFrom: check.batch.startDate, dateTo: check.batch.endDate }
+    : null;
+  const enabled = !!range?.dateFrom && !!range.dateTo && range.dateFrom <= range.dateTo;
+
+  const { data: batchesData, isLoading: isLoadingBatches } = useQuery({
+    queryKey: ['batches'],
+    queryFn: () => batchAPI.getAllBatches(),
+    enabled,
+  });
+
+  const { data: sessionsData, isLoading: isLoadingSessions } = useQuery({
+    queryKey: ['sessions', 'conflicts', range?.dateFrom, range?.dateTo],
+    queryFn: () => sessionAPI.getAllSessions({ dateFrom: range!.dateFrom, dateTo: range!.dateTo, limit: SESSION_FETCH_LIMIT }),
+    enabled,
+  });
+
+  const { data: leavesData } = useQuery({
+    queryKey: ['faculty-leaves', LeaveStatus.APPROVED],
+    queryFn: () => facultyLeaveAPI.getLeaves({ status: LeaveStatus.APPROVED }),
+    enabled,
+  });
+
+  // Holidays are optional: without them the other checks still run
+  const { data: holidaysData } = useQuery({
+    queryKey: ['holidays', range?.dateFrom, range?.dateTo],
+    queryFn: () => holidayAPI.getHolidays({ dateFrom: range!.dateFrom, dateTo: range!.dateTo }),
+    enabled,
+    retry: false,
+  });
+
+  const conflicts = useMemo<ScheduleConflict[]>(() => {
+    if (!enabled || !check) return [];
+    const sources = {
+      batches: batchesData?.data || [],
+      sessions: sessionsData?.data.sessions || [],
+      facultyLeaves: leavesData?.data.leaves || [],
+      holidays: holidaysData?.data.holidays || [],
+    };
+    return 'session' in check ? findSessionConflicts(check.session, sources) : findBatchConflicts(check.batch, sources);
+  }, [enabled, check, batchesData, sessionsData, leavesData, holidaysData]);
+
+  return { conflicts, isChecking: enabled && (isLoadingBatches || isLoadingSessions) };
+}
+
+interface ScheduleConflictListProps {
+  conflicts: ScheduleConflict[];
+  isChecking?: boolean;
+}
+
+/**
+ * Inline warning listing the conflicts from useScheduleConflicts; renders nothing when there are none
+ */
+export const ScheduleConflictList: React.FC<ScheduleConflictListProps> = ({ conflicts, isChecking }) => {
+  if (isChecking) {
+    return <p className="text-xs text-gray-500">Checking for scheduling conflicts...</p>;
+  }
+  if (conflicts.length === 0) return null;
+
+  return (
+    <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800" role="alert">
+      <p className="font-semibold mb-1">
+        {conflicts.length} scheduling conflict{conflicts.length === 1 ? '' : 's'}
+      </p>
+      <ul className="space-y-1">
+        {conflicts.map((conflict, index) => (
+          <li key={index} className="flex gap-2">
+            <span className="px-1.5 py-0.5 text-xs font-semibold bg-amber-100 rounded">{KIND_LABELS[conflict.kind]}</span>
+            <span>{conflict.message}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+
+// How long before the access token expires the warning is shown
+const WARNING_WINDOW_MS = 2 * 60 * 1000;
+
+const formatRemaining = (ms: number) => {
+  const totalSeconds = Math.max(Math.ceil(ms / 1000), 0);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Warns a signed-in user shortly before their access token expires and lets them
+ * extend the session. If they don't, AuthContext tries to renew it at expiry and
+ * signs them out only if that fails. An impersonated session can't be extended and
+ * returns to the admin's own account instead.
+ */
+export const SessionExpiryModal: React.FC = () => {
+  const { isAuthenticated, sessionExpiresAt, refreshSession, logout, isImpersonating, stopImpersonating } = useAuth();
+  const [now, setNow] = useState(() => Date.now());
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState('');
+
+  const remaining = sessionExpiresAt ? sessionExpiresAt - now : null;
+  const isOpen = isAuthenticated && remaining !== null && remaining > 0 && remaining <= WARNING_WINDOW_MS;
+
+  useEffect(() => {
+    if (!isAuthenticated || !sessionExpiresAt) return;
+    // Tick every second while the warning is visible, otherwise wake up when it is due
+    const delay = isOpen ? 1000 : Math.max(sessionExpiresAt - WARNING_WINDOW_MS - Date.now(), 0);
+    const timer = setTimeout(() => setNow(Date.now()), Math.min(delay, 2147483647));
+    return () => clearTimeout(timer);
+  }, [isAuthenticated, sessionExpiresAt, isOpen, now]);
+
+  const handleStaySignedIn = async () => {
+    setError('');
+    setRefreshing(true);
+    try {
+      await refreshSession();
+      setNow(Date.now());
+    } catch {
+      setError('Could not extend your session. Please sign in again.');
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  if (!isOpen || remaining === null) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60] p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-md">
+        <div className="px-6 py-4 border-b border-gray-100">
+          <h3 className="text-xl font-semibold text-gray-900">Your session is about to expire</h3>
+        </div>
+        <div className="px-6 py-4 space-y-3">
+          {isImpersonating ? (
+            <p className="text-sm text-gray-600">
+              Viewing as this user ends in{' '}
+              <span className="font-semibold text-orange-600">{formatRemaining(remaining)}</span>. You will then be
+              returned to your own account.
+            </p>
+          ) : (
+            <p className="text-sm text-gray-600">
+              Your session expires in{' '}
+              <span className="font-semibold text-orange-600">{formatRemaining(remaining)}</span>. It is renewed
+              automatically when it runs out; stay signed in to renew it now.
+            </p>
+          )}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+        <div className="px-6 py-4 flex justify-end space-x-3 border-t border-gray-100">
+          <button type="button" onClick={logout} className="px-4 py-2 border rounded-lg hover:bg-gray-50">
+            Sign out
+          </button>
+          {isImpersonating ? (
+            <button
+              type="button"
+              onClick={stopImpersonating}
+              className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700"
+            >
+              Return to my account
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={handleStaySignedIn}
+              disabled={refreshing}
+              className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 disabled:opacity-60"
+            >
+              {refreshing ? 'Extending...' : 'Stay signed in'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
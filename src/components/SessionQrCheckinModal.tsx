@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { attendanceAPI, Attendance, AttendanceStatus } from '../api/attendance.api';
+import { enrollmentAPI } from '../api/enrollment.api';
+import { Session } from '../api/session.api';
+
+// How often the roster is refreshed while the code is on screen
+const ROSTER_REFRESH_MS = 5000;
+
+interface SessionQrCheckinModalProps {
+  session: Session;
+  onClose: () => void;
+}
+
+/**
+ * Projectable QR code for an ongoing session. The backend rotates the token and each code
+ * stops working when it expires, so a photo of the screen cannot be reused later.
+ * Students who scan it land on the check-in page and are marked present for this session.
+ */
+export const SessionQrCheckinModal: React.FC<SessionQrCheckinModalProps> = ({ session, onClose }) => {
+  const [now, setNow] = useState(() => Date.now());
+  const checkinUrl = `${window.location.origin}/sessions/${session.id}/checkin`;
+
+  // Fetches the next code as soon as the current one expires
+  const { data: codeData, isError: isCodeError } = useQuery({
+    queryKey: ['session-checkin-code', session.id],
+    queryFn: () => attendanceAPI.getCheckinCode(session.id, checkinUrl),
+    refetchInterval: (query) => {
+      const expiresAt = query.state.data?.data.expiresAt;
+      return expiresAt ? Math.max(new Date(expiresAt).getTime() - Date.now(), 1000) : false;
+    },
+    gcTime: 0,
+  });
+
+  const { data: enrollmentsData } = useQuery({
+    queryKey: ['batch-enrollments', session.batchId],
+    queryFn: () => enrollmentAPI.getBatchEnrollments(session.batchId),
+    enabled: !!session.batchId,
+  });
+
+  const { data: attendancesData } = useQuery({
+    queryKey: ['session-attendances', session.id],
+    queryFn: () => attendanceAPI.getSessionAttendance(session.id),
+    refetchInterval: ROSTER_REFRESH_MS,
+  });
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const code = codeData?.data;
+  const secondsLeft = code ? Math.max(0, Math.ceil((new Date(code.expiresAt).getTime() - now) / 1000)) : 0;
+  const students = enrollmentsData?.data || [];
+  const attendanceByStudent = new Map<number, Attendance>(
+    (attendancesData?.data.attendances || []).map((attendance) => [attendance.studentId, attendance])
+  );
+  const isPresent = (attendance?: Attendance) =>
+    attendance?.status === AttendanceStatus.PRESENT || attendance?.status === AttendanceStatus.MANUAL_PRESENT;
+  const presentCount = students.filter((enrollment) => isPresent(attendanceByStudent.get(enrollment.studentId))).length;
+  const lateCount = students.filter((enrollment) => attendanceByStudent.get(enrollment.studentId)?.isLate).length;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-5xl w-full mx-4 max-h-[95vh] overflow-hidden flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+          <div>
+            <h3 className="text-xl font-semibold text-gray-900">QR Check-in</h3>
+            <p className="text-sm text-gray-600 mt-1">
+              {session.batch?.title} - {new Date(session.date).toLocaleDateString()} · {session.startTime} - {session.endTime}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto grid grid-cols-1 md:grid-cols-2 gap-6 p-6">
+          <div className="flex flex-col items-center justify-center">
+            {isCodeError ? (
+              <p className="text-red-600 text-center">Could not load the check-in code. Make sure the session has started.</p>
+            ) : !code ? (
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-500"></div>
+            ) : (
+              <>
+                <img
+                  src={code.qrCode}
+                  alt="Session check-in QR code"
+                  className={`w-full max-w-sm aspect-square ${secondsLeft === 0 ? 'opacity-30' : ''}`}
+                />
+                <p className="mt-3 text-sm text-gray-600">
+                  {secondsLeft > 0 ? `New code in ${secondsLeft}s` : 'Refreshing code...'}
+                </p>
+              </>
+            )}
+            <p className="mt-2 text-xs text-gray-500 text-center">
+              Students scan this with their phone while logged in to mark themselves present.
+            </p>
+          </div>
+
+          <div className="flex flex-col min-h-0">
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="font-semibold text-gray-900">Roster</h4>
+              <span className="text-sm text-gray-600">
+                {presentCount} / {students.length} present{lateCount > 0 ? ` · ${lateCount} late` : ''}
+              </span>
+            </div>
+            {students.length === 0 ? (
+              <p className="text-sm text-gray-500">No students enrolled in this batch.</p>
+            ) : (
+              <ul className="space-y-1 overflow-y-auto">
+                {students.map((enrollment) => {
+                  const attendance = attendanceByStudent.get(enrollment.studentId);
+                  return (
+                    <li
+                      key={enrollment.id}
+                      className={`flex items-center justify-between px-3 py-2 rounded border text-sm ${
+                        isPresent(attendance) ? 'bg-green-50 border-green-200' : 'border-gray-200'
+                      }`}
+                    >
+                      <span className="text-gray-900">{enrollment.student?.name || 'Unknown Student'}</span>
+                      <span className="flex items-center gap-2">
+                        {attendance?.isLate && (
+                          <span className="px-2 py-0.5 text-xs font-semibold rounded bg-yellow-100 text-yellow-800">Late</span>
+                        )}
+                        {isPresent(attendance) ? (
+                          <span className="text-xs text-green-700">
+                            {attendance?.isSelfCheckin ? 'Scanned' : 'Marked'}
+                            {attendance?.markedAt ? ` ${new Date(attendance.markedAt).toLocaleTimeString()}` : ''}
+                          </span>
+                        ) : (
+                          <span className="text-xs text-gray-400">Waiting</span>
+                        )}
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,100 +1,13 @@
 import React, { useState } from 'react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
-
-interface MenuItem {
-  name: string;
-  path: string;
-  icon: string;
-  roles?: string[];
-}
-
-const menuItems: MenuItem[] = [
-  {
-    name: 'Dashboard',
-    path: '/dashboard',
-    icon: '📊',
-  },
-  {
-    name: 'Faculty Dashboard',
-    path: '/faculty/dashboard',
-    icon: '👨‍🏫',
-    roles: ['faculty'],
-  },
-  {
-    name: 'All Batches',
-    path: '/batches',
-    icon: '📚',
-  },
-  {
-    name: 'Batch Progress',
-    path: '/batches/progress',
-    icon: '📈',
-  },
-  {
-    name: 'Create Batch',
-    path: '/batches/create',
-    icon: '➕',
-    roles: ['admin', 'superadmin'],
-  },
-  {
-    name: 'Employee Details',
-    path: '/employee/details',
-    icon: '👤',
-    roles: ['admin', 'superadmin', 'employee'],
-  },
-  {
-    name: 'Student Enrollment',
-    path: '/enrollment',
-    icon: '📝',
-    roles: ['admin', 'superadmin'],
-  },
-  {
-    name: 'Student Leave Management',
-    path: '/student-leaves',
-    icon: '🏖️',
-    roles: ['student', 'admin', 'superadmin'],
-  },
-  {
-    name: 'Batch Extensions',
-    path: '/batch-extensions',
-    icon: '⏰',
-    roles: ['admin', 'superadmin'],
-  },
-  {
-    name: 'Software Completion',
-    path: '/software-completions',
-    icon: '✅',
-    roles: ['faculty', 'admin', 'superadmin', 'student'],
-  },
-  {
-    name: 'Users',
-    path: '/users',
-    icon: '👥',
-    roles: ['admin', 'superadmin'],
-  },
-  {
-    name: 'Reports',
-    path: '/reports',
-    icon: '📊',
-    roles: ['admin', 'superadmin'],
-  },
-  {
-    name: 'Collections',
-    path: '/collections',
-    icon: '💳',
-    roles: ['admin', 'superadmin'],
-  },
-  {
-    name: 'Employee Attendance',
-    path: '/employee-attendance',
-    icon: '⏰',
-    roles: ['employee', 'admin', 'superadmin'],
-  },
-];
+import { usePermissions } from '../context/PermissionContext';
+import { appRoutes } from '../routes';
+import { isRouteAllowed } from '../types/route.types';
 
 export const Sidebar: React.FC = () => {
   const { user, logout, isAuthenticated, isImpersonating, originalUser, stopImpersonating } = useAuth();
+  const { can } = usePermissions();
   const location = useLocation();
   const navigate = useNavigate();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
@@ -109,11 +22,10 @@ export const Sidebar: React.FC = () => {
     return null;
   }
 
-  // Filter menu items based on user role
-  const filteredMenuItems = menuItems.filter((item) => {
-    if (!item.roles) return true;
-    return user && item.roles.includes(user.role);
-  });
+  // Menu entries come from the route table, filtered by the same rules as the route guard
+  const filteredMenuItems = appRoutes
+    .filter((route) => route.nav && isRouteAllowed(route, user?.role, can))
+    .map((route) => ({ name: route.nav!.name, path: route.path, icon: route.nav!.icon }));
 
   const isActive = (path: string) => {
     return location.pathname === path;
@@ -1,5 +1,14 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import api from '../api/axios';
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import api, { refreshAccessToken } from '../api/axios';
+import { authAPI } from '../api/auth.api';
+import { tokenStorage, impersonationStorage, getTokenExpiry, OriginalSession } from '../api/token';
+import { authSync } from '../api/authSync';
+import { getHomePath } from '../types/route.types';
+
+// setTimeout cannot schedule further ahead than this
+const MAX_TIMEOUT_MS = 2147483647;
 
 interface User {
   id: number;
@@ -7,6 +16,7 @@ interface User {
   email: string;
   role: string;
   userId?: number;
+  mustChangePassword?: boolean;
 }
 
 interface AuthContextType {
@@ -14,62 +24,126 @@ interface AuthContextType {
   loading: boolean;
   login: (email: string, password: string) => Promise<void>;
   logout: () => void;
+  refreshUser: () => Promise<void>;
   isAuthenticated: boolean;
+  // Epoch ms at which the current access token expires, when it carries an `exp` claim
+  sessionExpiresAt: number | null;
+  refreshSession: () => Promise<void>;
+  isImpersonating: boolean;
+  // The admin who started the impersonation session
+  originalUser: OriginalSession['user'] | null;
+  blockDestructiveActions: boolean;
+  startImpersonating: (userId: number, options?: { blockDestructiveActions?: boolean }) => Promise<void>;
+  stopImpersonating: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const [originalSession, setOriginalSession] = useState<OriginalSession | null>(() => impersonationStorage.get());
+  const [sessionExpiresAt, setSessionExpiresAt] = useState<number | null>(() =>
+    getTokenExpiry(tokenStorage.getAccessToken())
+  );
 
-  useEffect(() => {
-    // Check if user is already logged in
-    const token = localStorage.getItem('token');
-    if (token) {
-      fetchUser();
-    } else {
-      setLoading(false);
-    }
-  }, []);
-
-  const fetchUser = async () => {
+  const fetchUser = useCallback(async (): Promise<User | null> => {
     try {
       const response = await api.get('/auth/me');
       if (response.data.status === 'success') {
-        setUser({ ...response.data.data.user, userId: response.data.data.user.id });
+        const nextUser = { ...response.data.data.user, userId: response.data.data.user.id };
+        setUser(nextUser);
+        return nextUser;
       }
+      return null;
     } catch (error) {
       console.error('Failed to fetch user:', error);
-      localStorage.removeItem('token');
+      tokenStorage.clear();
+      return null;
     } finally {
       setLoading(false);
     }
-  };
+  }, []);
+
+  useEffect(() => {
+    // Check if user is already logged in
+    const token = tokenStorage.getAccessToken();
+    if (token) {
+      fetchUser();
+    } else {
+      setLoading(false);
+    }
+  }, [fetchUser]);
+
+  // Track tokens renewed or cleared outside this context (e.g. by the axios interceptor)
+  useEffect(
+    () =>
+      tokenStorage.subscribe((token) => {
+        setSessionExpiresAt(getTokenExpiry(token));
+        if (!token) {
+          // An ended session never falls back to the stashed admin session
+          impersonationStorage.clear();
+          setOriginalSession(null);
+          setUser(null);
+        }
+      }),
+    []
+  );
+
+  // Follow sign-in changes made in other tabs. Cached queries belong to the previous
+  // user, so they are dropped before the new user is loaded.
+  useEffect(
+    () =>
+      authSync.subscribe(async (event) => {
+        switch (event.type) {
+          case 'logout':
+            queryClient.clear();
+            setUser(null);
+            navigate('/login', { replace: true });
+            break;
+          case 'login':
+          case 'impersonation-start':
+          case 'impersonation-stop': {
+            queryClient.clear();
+            setOriginalSession(impersonationStorage.get());
+            setLoading(true);
+            const nextUser = await fetchUser();
+            navigate(nextUser ? getHomePath(nextUser.role) : '/login', { replace: true });
+            break;
+          }
+          // permissions-changed is handled by PermissionProvider
+        }
+      }),
+    [fetchUser, navigate, queryClient]
+  );
 
   const login = async (email: string, password: string) => {
     try {
       const response = await api.post('/auth/login', { email, password });
       if (response.data.status === 'success') {
-        const token = response.data.data.token;
+        const { token, refreshToken } = response.data.data;
         const userData = response.data.data.user;
         
-        // Store token
-        localStorage.setItem('token', token);
+        // Store tokens
+        tokenStorage.setTokens(token, refreshToken);
         
+        // Drop anything cached for a previous user
+        queryClient.clear();
+
         // Set user with userId
         setUser({ 
           ...userData, 
           userId: userData.id 
         });
+        authSync.broadcast({ type: 'login', userId: userData.id });
       } else {
         throw new Error(response.data.message || 'Login failed');
       }
     } catch (error: any) {
-      // Preserve the original error for better error handling
-      if (error.response?.data?.message) {
-        throw new Error(error.response.data.message);
-      } else if (error.message) {
+      // Request failures arrive as ApiError, already carrying the backend message
+      if (error.message) {
         throw error;
       } else {
         throw new Error('Login failed. Please try again.');
@@ -78,11 +152,90 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   };
 
   const logout = () => {
-    localStorage.removeItem('token');
+    impersonationStorage.clear();
+    tokenStorage.clear();
+    authSync.broadcast({ type: 'logout' });
     setUser(null);
     window.location.href = '/login';
   };
 
+  const refreshUser = useCallback(async () => {
+    await fetchUser();
+  }, [fetchUser]);
+
+  const refreshSession = useCallback(async () => {
+    try {
+      await refreshAccessToken();
+    } catch (error) {
+      tokenStorage.clear();
+      throw error;
+    }
+  }, []);
+
+  const startImpersonating = useCallback(
+    async (userId: number, options: { blockDestructiveActions?: boolean } = {}) => {
+      const adminToken = tokenStorage.getAccessToken();
+      if (!user || !adminToken) return;
+
+      const response = await authAPI.impersonateUser(userId);
+      const session: OriginalSession = {
+        token: adminToken,
+        refreshToken: tokenStorage.getRefreshToken(),
+        user: { id: user.id, name: user.name, email: user.email, role: user.role },
+        blockDestructiveActions: !!options.blockDestructiveActions,
+      };
+      impersonationStorage.set(session);
+      setOriginalSession(session);
+
+      // The impersonated session is never renewed with the admin's refresh token
+      tokenStorage.setTokens(response.data.token, null);
+      queryClient.clear();
+      const impersonatedUser = response.data.user;
+      setUser({ ...impersonatedUser, userId: impersonatedUser.id });
+      authSync.broadcast({ type: 'impersonation-start', userId: impersonatedUser.id });
+      navigate(getHomePath(impersonatedUser.role), { replace: true });
+    },
+    [user, queryClient, navigate]
+  );
+
+  const stopImpersonating = useCallback(async () => {
+    const session = impersonationStorage.get();
+    if (!session) return;
+
+    impersonationStorage.clear();
+    setOriginalSession(null);
+    tokenStorage.setTokens(session.token, session.refreshToken);
+    queryClient.clear();
+    setLoading(true);
+    const adminUser = await fetchUser();
+    authSync.broadcast({ type: 'impersonation-stop', userId: adminUser?.id });
+    navigate(adminUser ? '/users' : '/login', { replace: true });
+  }, [queryClient, fetchUser, navigate]);
+
+  // Renew the access token once it expires without being extended. The session only
+  // ends when there is no refresh token or the refresh is rejected. An impersonated
+  // session has no refresh token, so it ends by returning to the admin's own session.
+  useEffect(() => {
+    if (!user || !sessionExpiresAt) return;
+    const delay = sessionExpiresAt - Date.now();
+    if (delay > MAX_TIMEOUT_MS) return;
+    // Tabs share the tokens and all expire at once; the refresh lock in axios.ts is per tab.
+    // A tab that finds the token already renewed by another one leaves it alone, since with
+    // rotating refresh tokens its own refresh would fail.
+    const isRenewedElsewhere = () => (getTokenExpiry(tokenStorage.getAccessToken()) ?? 0) > Date.now();
+    const timer = setTimeout(() => {
+      if (isRenewedElsewhere()) return;
+      if (impersonationStorage.get()) {
+        stopImpersonating();
+        return;
+      }
+      refreshAccessToken().catch(() => {
+        if (!isRenewedElsewhere()) tokenStorage.clear();
+      });
+    }, Math.max(delay, 0));
+    return () => clearTimeout(timer);
+  }, [user, sessionExpiresAt, stopImpersonating]);
+
   return (
     <AuthContext.Provider
       value={{
@@ -90,7 +243,15 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         loading,
         login,
         logout,
+        refreshUser,
         isAuthenticated: !!user,
+        sessionExpiresAt,
+        refreshSession,
+        isImpersonating: !!originalSession,
+        originalUser: originalSession?.user || null,
+        blockDestructiveActions: !!originalSession?.blockDestructiveActions,
+        startImpersonating,
+        stopImpersonating,
       }}
     >
       {children}
@@ -0,0 +1,192 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+
+export type ToastVariant = 'success' | 'error' | 'info';
+
+export interface Toast {
+  id: number;
+  variant: ToastVariant;
+  message: string;
+}
+
+export interface ConfirmOptions {
+  title: string;
+  message?: ReactNode;
+  confirmLabel?: string;
+  cancelLabel?: string;
+  // Red confirm button, for deletes and other actions that cannot be undone
+  destructive?: boolean;
+  // When set, the confirm button stays disabled until this exact text is typed
+  typedConfirmation?: string;
+}
+
+interface NotificationContextType {
+  confirm: (options: ConfirmOptions) => Promise<boolean>;
+}
+
+interface PendingConfirm extends ConfirmOptions {
+  resolve: (confirmed: boolean) => void;
+}
+
+// How long a toast stays on screen; errors stay longer so they can be read
+const TOAST_DURATION_MS: Record<ToastVariant, number> = {
+  success: 4000,
+  info: 4000,
+  error: 7000,
+};
+
+const TOAST_STYLES: Record<ToastVariant, { container: string; icon: string }> = {
+  success: { container: 'bg-green-50 border-green-200 text-green-800', icon: '✓' },
+  error: { container: 'bg-red-50 border-red-200 text-red-800', icon: '✕' },
+  info: { container: 'bg-blue-50 border-blue-200 text-blue-800', icon: 'i' },
+};
+
+type ToastListener = (toast: Toast) => void;
+
+const toastListeners = new Set<ToastListener>();
+let nextToastId = 1;
+
+const showToast = (variant: ToastVariant, message: string) => {
+  const item: Toast = { id: nextToastId++, variant, message };
+  toastListeners.forEach((listener) => listener(item));
+};
+
+/**
+ * Non-blocking notifications, shown by NotificationProvider.
+ * A plain module rather than a hook so mutation callbacks and the QueryClient
+ * defaults in main.tsx can use it too.
+ */
+export const toast = {
+  success: (message: string) => showToast('success', message),
+  error: (message: string) => showToast('error', message),
+  info: (message: string) => showToast('info', message),
+};
+
+const NotificationContext = createContext<NotificationContextType | undefined>(undefined);
+
+export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const [pendingConfirm, setPendingConfirm] = useState<PendingConfirm | null>(null);
+  const [typedValue, setTypedValue] = useState('');
+  const timers = useRef(new Map<number, ReturnType<typeof setTimeout>>());
+
+  const dismiss = useCallback((id: number) => {
+    clearTimeout(timers.current.get(id));
+    timers.current.delete(id);
+    setToasts((current) => current.filter((item) => item.id !== id));
+  }, []);
+
+  useEffect(() => {
+    const activeTimers = timers.current;
+    const listener: ToastListener = (item) => {
+      setToasts((current) => [...current, item]);
+      activeTimers.set(item.id, setTimeout(() => dismiss(item.id), TOAST_DURATION_MS[item.variant]));
+    };
+    toastListeners.add(listener);
+    return () => {
+      toastListeners.delete(listener);
+      activeTimers.forEach((timer) => clearTimeout(timer));
+      activeTimers.clear();
+    };
+  }, [dismiss]);
+
+  const confirm = useCallback((options: ConfirmOptions) => {
+    return new Promise<boolean>((resolve) => {
+      setTypedValue('');
+      setPendingConfirm((previous) => {
+        // A new dialog replaces one still open; the earlier caller gets a cancel
+        previous?.resolve(false);
+        return { ...options, resolve };
+      });
+    });
+  }, []);
+
+  const settle = (confirmed: boolean) => {
+    pendingConfirm?.resolve(confirmed);
+    setPendingConfirm(null);
+  };
+
+  const canConfirm = !pendingConfirm?.typedConfirmation || typedValue.trim() === pendingConfirm.typedConfirmation.trim();
+
+  return (
+    <NotificationContext.Provider value={{ confirm }}>
+      {children}
+
+      {/* Toasts */}
+      <div className="fixed top-4 right-4 z-[70] space-y-2 w-full max-w-sm pointer-events-none">
+        {toasts.map((item) => (
+          <div
+            key={item.id}
+            role={item.variant === 'error' ? 'alert' : 'status'}
+            className={`pointer-events-auto flex items-start gap-3 border rounded-lg shadow-lg px-4 py-3 ${TOAST_STYLES[item.variant].container}`}
+          >
+            <span className="font-bold">{TOAST_STYLES[item.variant].icon}</span>
+            <p className="flex-1 text-sm whitespace-pre-line">{item.message}</p>
+            <button
+              type="button"
+              onClick={() => dismiss(item.id)}
+              className="text-sm opacity-60 hover:opacity-100"
+              aria-label="Dismiss"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {/* Confirm dialog */}
+      {pendingConfirm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60]">
+          <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
+            <h3 className="text-lg font-semibold mb-2">{pendingConfirm.title}</h3>
+            {pendingConfirm.message && <div className="text-gray-600 mb-4">{pendingConfirm.message}</div>}
+            {pendingConfirm.typedConfirmation && (
+              <div className="mb-4">
+                <label className="block text-sm text-gray-700 mb-1">
+                  Type <span className="font-semibold">{pendingConfirm.typedConfirmation}</span> to confirm
+                </label>
+                <input
+                  type="text"
+                  value={typedValue}
+                  onChange={(e) => setTypedValue(e.target.value)}
+                  autoFocus
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+                />
+              </div>
+            )}
+            <div className="flex justify-end space-x-2">
+              <button
+                type="button"
+                onClick={() => settle(false)}
+                className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                {pendingConfirm.cancelLabel || 'Cancel'}
+              </button>
+              <button
+                type="button"
+                onClick={() => settle(true)}
+                disabled={!canConfirm}
+                className={`px-4 py-2 text-white rounded-md disabled:opacity-50 ${
+                  pendingConfirm.destructive ? 'bg-red-600 hover:bg-red-700' : 'bg-orange-600 hover:bg-orange-700'
+                }`}
+              >
+                {pendingConfirm.confirmLabel || 'Confirm'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </NotificationContext.Provider>
+  );
+};
+
+/**
+ * Promise-based replacement for window.confirm.
+ * @returns A function that opens the confirm dialog and resolves to true when the user confirms
+ */
+export const useConfirm = () => {
+  const context = useContext(NotificationContext);
+  if (context === undefined) {
+    throw new Error('useConfirm must be used within a NotificationProvider');
+  }
+  return context.confirm;
+};
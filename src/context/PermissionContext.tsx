@@ -0,0 +1,110 @@
+import React, { createContext, useContext, useMemo, useCallback, useEffect, ReactNode } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from './AuthContext';
+import { permissionAPI, Module } from '../api/permission.api';
+import { roleAPI } from '../api/role.api';
+import { authSync } from '../api/authSync';
+import { validateUserRole } from '../types/user.types';
+import {
+  PermissionAction,
+  PermissionMap,
+  ModuleRights,
+  NO_RIGHTS,
+  resolvePermissions,
+  hasPermission,
+  withoutDeleteRights,
+} from '../types/permission.types';
+
+interface PermissionContextType {
+  permissions: PermissionMap;
+  loading: boolean;
+  can: (module: Module, action?: PermissionAction) => boolean;
+  rightsFor: (module: Module) => ModuleRights;
+  refreshPermissions: () => Promise<void>;
+}
+
+const PermissionContext = createContext<PermissionContextType | undefined>(undefined);
+
+export const PermissionProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user, blockDestructiveActions } = useAuth();
+  const queryClient = useQueryClient();
+  const userId = user?.id;
+  const systemRole = validateUserRole(user?.role);
+
+  // Loaded once /auth/me has resolved the user. Failures fall back to the system role defaults.
+  const { data: overridesData, isLoading: isLoadingOverrides } = useQuery({
+    queryKey: ['my-permissions', userId],
+    queryFn: () => permissionAPI.getUserPermissions(userId!),
+    enabled: !!userId && systemRole !== 'superadmin',
+    retry: false,
+  });
+
+  const { data: rolesData, isLoading: isLoadingRoles } = useQuery({
+    queryKey: ['my-roles', userId],
+    queryFn: () => roleAPI.getUserRoles(userId!),
+    enabled: !!userId && systemRole !== 'superadmin',
+    retry: false,
+  });
+
+  const permissions = useMemo(() => {
+    const resolved = resolvePermissions(systemRole, rolesData?.data.roles, overridesData?.data.permissions);
+    // A view-only impersonation session hides every delete action
+    return blockDestructiveActions ? withoutDeleteRights(resolved) : resolved;
+  }, [systemRole, rolesData, overridesData, blockDestructiveActions]);
+
+  const can = useCallback(
+    (module: Module, action: PermissionAction = 'view') => hasPermission(permissions, module, action),
+    [permissions]
+  );
+
+  const rightsFor = useCallback((module: Module) => permissions[module] || NO_RIGHTS, [permissions]);
+
+  const invalidatePermissions = useCallback(
+    () =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['my-permissions'] }),
+        queryClient.invalidateQueries({ queryKey: ['my-roles'] }),
+      ]),
+    [queryClient]
+  );
+
+  const refreshPermissions = useCallback(async () => {
+    await invalidatePermissions();
+    authSync.broadcast({ type: 'permissions-changed', userId });
+  }, [invalidatePermissions, userId]);
+
+  // Other tabs signed in as the same user reload their rights when they change
+  useEffect(
+    () =>
+      authSync.subscribe((event) => {
+        if (event.type === 'permissions-changed') {
+          invalidatePermissions();
+        }
+      }),
+    [invalidatePermissions]
+  );
+
+  const loading = !!userId && systemRole !== 'superadmin' && (isLoadingOverrides || isLoadingRoles);
+
+  return (
+    <PermissionContext.Provider
+      value={{
+        permissions,
+        loading,
+        can,
+        rightsFor,
+        refreshPermissions,
+      }}
+    >
+      {children}
+    </PermissionContext.Provider>
+  );
+};
+
+export const usePermissions = () => {
+  const context = useContext(PermissionContext);
+  if (context === undefined) {
+    throw new Error('usePermissions must be used within a PermissionProvider');
+  }
+  return context;
+};
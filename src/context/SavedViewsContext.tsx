@@ -0,0 +1,101 @@
+import React, { createContext, useCallback, useContext, useEffect, ReactNode } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from './AuthContext';
+import { CreateSavedViewRequest, SavedView, savedViewAPI } from '../api/savedView.api';
+
+export type { SavedView } from '../api/savedView.api';
+
+interface SavedViewsContextType {
+  views: SavedView[];
+  saveView: (name: string, path: string, search: string) => Promise<SavedView>;
+  removeView: (id: number) => void;
+  togglePinned: (id: number) => void;
+}
+
+// Where views were kept before they were stored per user on the server
+const legacyStorageKey = (userId: number) => `savedViews.${userId}`;
+
+const readLegacyViews = (userId: number): Omit<SavedView, 'id'>[] => {
+  try {
+    const stored = localStorage.getItem(legacyStorageKey(userId));
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+const SavedViewsContext = createContext<SavedViewsContextType | undefined>(undefined);
+
+export const SavedViewsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const userId = user?.id;
+  const queryKey = ['saved-views', userId];
+
+  // Refetched on focus so views saved on another device or tab show up
+  const { data: viewsData, isSuccess } = useQuery({
+    queryKey,
+    queryFn: () => savedViewAPI.getViews(),
+    enabled: !!userId,
+    refetchOnWindowFocus: true,
+  });
+
+  const invalidateViews = () => queryClient.invalidateQueries({ queryKey: ['saved-views'] });
+
+  const createMutation = useMutation({
+    mutationFn: (view: CreateSavedViewRequest) => savedViewAPI.createView(view),
+    meta: { errorMessage: 'Failed to save view' },
+    onSuccess: invalidateViews,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, pinned }: { id: number; pinned: boolean }) => savedViewAPI.updateView(id, { pinned }),
+    meta: { errorMessage: 'Failed to update view' },
+    onSuccess: invalidateViews,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => savedViewAPI.deleteView(id),
+    meta: { errorMessage: 'Failed to delete view' },
+    onSuccess: invalidateViews,
+  });
+
+  // Moves views saved in this browser before they were stored on the server, once
+  const { mutate: importView } = createMutation;
+  useEffect(() => {
+    if (!userId || !isSuccess) return;
+    const legacyViews = readLegacyViews(userId);
+    localStorage.removeItem(legacyStorageKey(userId));
+    legacyViews.forEach(({ name, path, search, pinned }) => importView({ name, path, search, pinned }));
+  }, [userId, isSuccess, importView]);
+
+  const { mutateAsync: createView } = createMutation;
+  const saveView = useCallback(
+    async (name: string, path: string, search: string) => {
+      const response = await createView({ name: name.trim(), path, search, pinned: true });
+      return response.data.view;
+    },
+    [createView]
+  );
+
+  const views = viewsData?.data.views || [];
+
+  const togglePinned = (id: number) => {
+    const view = views.find((candidate) => candidate.id === id);
+    if (view) updateMutation.mutate({ id, pinned: !view.pinned });
+  };
+
+  return (
+    <SavedViewsContext.Provider value={{ views, saveView, removeView: deleteMutation.mutate, togglePinned }}>
+      {children}
+    </SavedViewsContext.Provider>
+  );
+};
+
+export const useSavedViews = () => {
+  const context = useContext(SavedViewsContext);
+  if (context === undefined) {
+    throw new Error('useSavedViews must be used within a SavedViewsProvider');
+  }
+  return context;
+};
@@ -1,10 +1,28 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { MutationCache, QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import App from './App';
+import { toast } from './context/NotificationContext';
+import { getErrorMessage } from './api/response';
+import './types/query.types';
 import './index.css';
 
 const queryClient = new QueryClient({
+  // Mutations report their outcome through toasts; see MutationToastMeta
+  mutationCache: new MutationCache({
+    onSuccess: (data: unknown, _variables, _context, mutation) => {
+      const fallback = mutation.meta?.successMessage;
+      if (fallback) {
+        toast.success((data as { message?: string } | undefined)?.message || fallback);
+      }
+    },
+    onError: (error, _variables, _context, mutation) => {
+      const fallback = mutation.meta?.errorMessage;
+      if (fallback !== false) {
+        toast.error(getErrorMessage(error, fallback || 'Something went wrong'));
+      }
+    },
+  }),
   defaultOptions: {
     queries: {
       refetchOnWindowFocus: false,
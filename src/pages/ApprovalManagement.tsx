@@ -1,46 +1,139 @@
 import React, { useState } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { useAuth } from '../context/AuthContext';
+import { keepPreviousData, useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { usePermissions } from '../context/PermissionContext';
+import { toast } from '../context/NotificationContext';
 import { Layout } from '../components/Layout';
 import { approvalAPI, ChangeRequest, ApproveRequestRequest } from '../api/approval.api';
+import { regularisationAPI, RegularisationRequest } from '../api/regularisation.api';
+import { batchAPI } from '../api/batch.api';
+import { Module } from '../api/permission.api';
+import { useDataTableState } from '../components/DataTable';
+import { BatchTransferComparison } from '../components/BatchTransferModal';
+import { PunchTimesComparison } from '../components/Regularisation';
+import { getTransferData } from '../types/transfer.types';
+import { parseDateKey } from '../types/schedule.types';
+import { comparePunchTimes } from '../types/regularisation.types';
+
+const STATUS_OPTIONS: { value: ChangeRequest['status'] | ''; label: string }[] = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'rejected', label: 'Rejected' },
+  { value: '', label: 'All statuses' },
+];
+
+// Attendance corrections are regularisation requests, listed here alongside change requests
+const ATTENDANCE_TYPE = 'attendance';
+
+const TYPE_OPTIONS: { value: ChangeRequest['type'] | typeof ATTENDANCE_TYPE; label: string }[] = [
+  { value: 'batch_change', label: 'Batch change' },
+  { value: 'leave', label: 'Leave' },
+  { value: 'extension', label: 'Extension' },
+  { value: 'other', label: 'Other' },
+  { value: ATTENDANCE_TYPE, label: 'Attendance correction' },
+];
+
+const statusBadgeClass = (status: ChangeRequest['status']) =>
+  status === 'approved' ? 'bg-green-100 text-green-800' : status === 'rejected' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800';
 
 export const ApprovalManagement: React.FC = () => {
-  const { user } = useAuth();
+  const { can } = usePermissions();
   const queryClient = useQueryClient();
   const [selectedRequest, setSelectedRequest] = useState<ChangeRequest | null>(null);
+  const [selectedRegularisation, setSelectedRegularisation] = useState<RegularisationRequest | null>(null);
   const [isApproveModalOpen, setIsApproveModalOpen] = useState(false);
+  const selectedTransfer = selectedRequest ? getTransferData(selectedRequest) : null;
+  const { state: filterState, update: updateFilters } = useDataTableState({
+    filterIds: ['status', 'type'],
+    defaultFilters: { status: 'pending' },
+  });
+  const { status: statusFilter, type: typeFilter } = filterState.filters;
+  const showChangeRequests = typeFilter !== ATTENDANCE_TYPE;
+  const showRegularisations = !typeFilter || typeFilter === ATTENDANCE_TYPE;
 
   // Fetch change requests
   const { data: requestsData, isLoading } = useQuery({
-    queryKey: ['change-requests'],
-    queryFn: () => approvalAPI.getAllChangeRequests({ status: 'pending' }),
+    queryKey: ['change-requests', statusFilter, typeFilter],
+    queryFn: () =>
+      approvalAPI.getAllChangeRequests({
+        status: statusFilter || undefined,
+        type: typeFilter || undefined,
+      }),
+    placeholderData: keepPreviousData,
+    enabled: showChangeRequests,
+  });
+
+  const { data: regularisationsData } = useQuery({
+    queryKey: ['regularisations', statusFilter],
+    queryFn: () =>
+      regularisationAPI.getRequests({
+        status: (statusFilter as RegularisationRequest['status']) || undefined,
+      }),
+    placeholderData: keepPreviousData,
+    enabled: showRegularisations,
   });
 
+  // Batches to compare when reviewing a transfer
+  const { data: batchesData } = useQuery({
+    queryKey: ['batches'],
+    queryFn: () => batchAPI.getAllBatches(),
+    enabled: isApproveModalOpen && !!selectedTransfer,
+  });
+
+  const closeReview = () => {
+    setIsApproveModalOpen(false);
+    setSelectedRequest(null);
+    setSelectedRegularisation(null);
+  };
+
   const approveRequestMutation = useMutation({
     mutationFn: ({ id, data }: { id: number; data: ApproveRequestRequest }) =>
       approvalAPI.approveChangeRequest(id, data),
-    onSuccess: () => {
+    meta: { errorMessage: 'Failed to process request' },
+    onSuccess: (response) => {
+      const transfer = response.data.transfer;
+      if (transfer) {
+        toast.success(
+          `Student transferred. Moved ${transfer.paymentsMoved} pending payment(s), ${transfer.completionsMoved} software completion record(s) and ${transfer.attendanceMoved} attendance record(s).`
+        );
+        ['batches', 'batch-enrollments', 'student-enrollments', 'payments', 'software-completions', 'attendance'].forEach((key) =>
+          queryClient.invalidateQueries({ queryKey: [key] })
+        );
+      } else {
+        toast.success('Request processed successfully!');
+      }
       queryClient.invalidateQueries({ queryKey: ['change-requests'] });
-      setIsApproveModalOpen(false);
-      setSelectedRequest(null);
-      alert('Request processed successfully!');
+      closeReview();
     },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to process request');
+  });
+
+  const reviewRegularisationMutation = useMutation({
+    mutationFn: ({ id, data }: { id: number; data: ApproveRequestRequest }) => regularisationAPI.reviewRequest(id, data),
+    meta: { errorMessage: 'Failed to process request' },
+    onSuccess: (_, { data }) => {
+      toast.success(data.approve ? 'Attendance corrected' : 'Correction request rejected');
+      ['regularisations', 'dailyLog', 'allEmployeesAttendance', 'punch-history', 'today-punch', 'todayPunch'].forEach((key) =>
+        queryClient.invalidateQueries({ queryKey: [key] })
+      );
+      closeReview();
     },
   });
 
-  const requests = requestsData?.data.changeRequests || [];
+  const requests = showChangeRequests ? requestsData?.data.changeRequests || [] : [];
+  const regularisations = showRegularisations ? regularisationsData?.data.requests || [] : [];
+  const isReviewPending = approveRequestMutation.isPending || reviewRegularisationMutation.isPending;
 
   const handleApproveRequest = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
-    if (!selectedRequest) return;
     const formData = new FormData(e.currentTarget);
     const data: ApproveRequestRequest = {
       approve: formData.get('approve') === 'true',
       rejectionReason: formData.get('rejectionReason') as string || undefined,
     };
-    approveRequestMutation.mutate({ id: selectedRequest.id, data });
+    if (selectedRegularisation) {
+      reviewRegularisationMutation.mutate({ id: selectedRegularisation.id, data });
+    } else if (selectedRequest) {
+      approveRequestMutation.mutate({ id: selectedRequest.id, data });
+    }
   };
 
   if (isLoading) {
@@ -60,72 +153,164 @@ export const ApprovalManagement: React.FC = () => {
       <div className="max-w-7xl mx-auto">
         <div className="bg-white shadow-xl rounded-lg overflow-hidden">
           <div className="bg-gradient-to-r from-orange-600 to-orange-500 px-8 py-6">
-            <div>
-              <h1 className="text-3xl font-bold text-white">Approvals</h1>
-              <p className="mt-2 text-orange-100">Manage approvals</p>
+            <div className="flex justify-between items-center">
+              <div>
+                <h1 className="text-3xl font-bold text-white">Approvals</h1>
+                <p className="mt-2 text-orange-100">Manage approvals</p>
+              </div>
             </div>
           </div>
 
           <div className="p-6">
-            {requests.length === 0 ? (
+            <div className="flex flex-wrap gap-3 mb-6">
+              <select
+                value={statusFilter}
+                onChange={(e) => updateFilters({ filters: { status: e.target.value } })}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+              >
+                {STATUS_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={typeFilter}
+                onChange={(e) => updateFilters({ filters: { type: e.target.value } })}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+              >
+                <option value="">All types</option>
+                {TYPE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {requests.length === 0 && regularisations.length === 0 ? (
               <div className="text-center py-12">
-                <p className="text-gray-500 text-lg">No pending approval requests found</p>
+                <p className="text-gray-500 text-lg">No approval requests match these filters</p>
               </div>
             ) : (
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {requests.map((request) => (
-                  <div key={request.id} className="border border-gray-200 rounded-lg p-6 hover:shadow-md transition-shadow">
-                    <div className="flex items-start justify-between mb-4">
-                      <div>
-                        <h3 className="text-lg font-semibold text-gray-900 capitalize">{request.type.replace('_', ' ')}</h3>
-                        <p className="text-sm text-gray-600 mt-1">
-                          Student: {request.student?.name || `Student ${request.studentId}`}
-                        </p>
-                        {request.batch && (
-                          <p className="text-sm text-gray-600">
-                            Batch: {request.batch.title || `Batch ${request.batchId}`}
+                {requests.map((request) => {
+                  const transfer = getTransferData(request);
+                  return (
+                    <div key={request.id} className="border border-gray-200 rounded-lg p-6 hover:shadow-md transition-shadow">
+                      <div className="flex items-start justify-between mb-4">
+                        <div>
+                          <h3 className="text-lg font-semibold text-gray-900 capitalize">{request.type.replace('_', ' ')}</h3>
+                          <p className="text-sm text-gray-600 mt-1">
+                            Student: {request.student?.name || `Student ${request.studentId}`}
                           </p>
-                        )}
+                          {request.batch && (
+                            <p className="text-sm text-gray-600">
+                              Batch: {request.batch.title || `Batch ${request.batchId}`}
+                            </p>
+                          )}
+                        </div>
+                        <span className={`px-2 py-1 rounded text-xs font-semibold ${statusBadgeClass(request.status)}`}>
+                          {request.status}
+                        </span>
                       </div>
-                      <span className={`px-2 py-1 rounded text-xs font-semibold ${
-                        request.status === 'approved' ? 'bg-green-100 text-green-800' :
-                        request.status === 'rejected' ? 'bg-red-100 text-red-800' :
-                        'bg-yellow-100 text-yellow-800'
-                      }`}>
-                        {request.status}
-                      </span>
+                      {request.reason && (
+                        <div className="mb-4">
+                          <p className="text-sm text-gray-700">
+                            <span className="font-medium">Reason:</span> {request.reason}
+                          </p>
+                        </div>
+                      )}
+                      {transfer ? (
+                        <div className="mb-4 text-sm text-gray-700">
+                          <p>
+                            <span className="font-medium">Transfer:</span> {transfer.fromBatchTitle || `Batch ${transfer.fromBatchId}`} →{' '}
+                            {transfer.toBatchTitle || `Batch ${transfer.toBatchId}`}
+                          </p>
+                          {transfer.effectiveDate && (
+                            <p className="text-xs text-gray-500 mt-1">
+                              Effective {parseDateKey(transfer.effectiveDate).toLocaleDateString()}
+                            </p>
+                          )}
+                        </div>
+                      ) : request.requestedData && (
+                        <div className="mb-4">
+                          <p className="text-xs text-gray-500 mb-1">Requested Data:</p>
+                          <div className="bg-gray-50 p-2 rounded text-xs">
+                            {JSON.stringify(request.requestedData, null, 2)}
+                          </div>
+                        </div>
+                      )}
+                      <p className="text-xs text-gray-500 mb-4">
+                        Created: {request.createdAt ? new Date(request.createdAt).toLocaleDateString() : '-'}
+                      </p>
+                      {can(Module.APPROVALS, 'edit') && request.status === 'pending' && (
+                        <button
+                          onClick={() => {
+                            setSelectedRequest(request);
+                            setIsApproveModalOpen(true);
+                          }}
+                          className="w-full px-3 py-2 bg-orange-600 text-white rounded text-sm hover:bg-orange-700 transition-colors"
+                        >
+                          Review
+                        </button>
+                      )}
                     </div>
-                    {request.reason && (
-                      <div className="mb-4">
-                        <p className="text-sm text-gray-700">
-                          <span className="font-medium">Reason:</span> {request.reason}
-                        </p>
-                      </div>
-                    )}
-                    {request.requestedData && (
-                      <div className="mb-4">
-                        <p className="text-xs text-gray-500 mb-1">Requested Data:</p>
-                        <div className="bg-gray-50 p-2 rounded text-xs">
-                          {JSON.stringify(request.requestedData, null, 2)}
+                  );
+                })}
+              </div>
+            )}
+
+            {regularisations.length > 0 && (
+              <div className={requests.length > 0 ? 'mt-8' : ''}>
+                <h2 className="text-xl font-semibold text-gray-900 mb-4">Attendance Corrections</h2>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {regularisations.map((regularisation) => (
+                    <div key={regularisation.id} className="border border-gray-200 rounded-lg p-6 hover:shadow-md transition-shadow">
+                      <div className="flex items-start justify-between mb-4">
+                        <div>
+                          <h3 className="text-lg font-semibold text-gray-900">Attendance correction</h3>
+                          <p className="text-sm text-gray-600 mt-1">
+                            <span className="capitalize">{regularisation.source}</span>:{' '}
+                            {regularisation.user?.name || `User ${regularisation.userId}`}
+                          </p>
+                          <p className="text-sm text-gray-600">
+                            Date: {parseDateKey(regularisation.date.split('T')[0]).toLocaleDateString()}
+                          </p>
                         </div>
+                        <span className={`px-2 py-1 rounded text-xs font-semibold ${statusBadgeClass(regularisation.status)}`}>
+                          {regularisation.status}
+                        </span>
                       </div>
-                    )}
-                    <p className="text-xs text-gray-500 mb-4">
-                      Created: {request.createdAt ? new Date(request.createdAt).toLocaleDateString() : '-'}
-                    </p>
-                    {(user?.role === 'admin' || user?.role === 'superadmin') && request.status === 'pending' && (
-                      <button
-                        onClick={() => {
-                          setSelectedRequest(request);
-                          setIsApproveModalOpen(true);
-                        }}
-                        className="w-full px-3 py-2 bg-orange-600 text-white rounded text-sm hover:bg-orange-700 transition-colors"
-                      >
-                        Review
-                      </button>
-                    )}
-                  </div>
-                ))}
+                      <p className="text-sm text-gray-700 mb-2">
+                        <span className="font-medium">Reason:</span> {regularisation.reason}
+                      </p>
+                      <ul className="mb-4 text-sm text-gray-700">
+                        {comparePunchTimes(regularisation.original, regularisation.requested)
+                          .filter((row) => row.changed)
+                          .map((row) => (
+                            <li key={row.label}>
+                              <span className="font-medium">{row.label}:</span> {row.original} → {row.requested}
+                            </li>
+                          ))}
+                      </ul>
+                      {regularisation.rejectionReason && (
+                        <p className="text-xs text-red-600 mb-4">Rejected: {regularisation.rejectionReason}</p>
+                      )}
+                      {can(Module.APPROVALS, 'edit') && regularisation.status === 'pending' && (
+                        <button
+                          onClick={() => {
+                            setSelectedRegularisation(regularisation);
+                            setIsApproveModalOpen(true);
+                          }}
+                          className="w-full px-3 py-2 bg-orange-600 text-white rounded text-sm hover:bg-orange-700 transition-colors"
+                        >
+                          Review
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
               </div>
             )}
           </div>
@@ -133,23 +318,63 @@ export const ApprovalManagement: React.FC = () => {
       </div>
 
       {/* Approve Request Modal */}
-      {isApproveModalOpen && selectedRequest && (
+      {isApproveModalOpen && (selectedRequest || selectedRegularisation) && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
+          <div
+            className={`bg-white rounded-lg p-6 w-full mx-4 max-h-[90vh] overflow-y-auto ${
+              selectedTransfer || selectedRegularisation ? 'max-w-2xl' : 'max-w-md'
+            }`}
+          >
             <h2 className="text-2xl font-bold mb-4">Review Request</h2>
-            <div className="mb-4">
-              <p className="text-sm text-gray-600 mb-2">
-                <span className="font-medium">Type:</span> {selectedRequest.type.replace('_', ' ')}
-              </p>
-              <p className="text-sm text-gray-600 mb-2">
-                <span className="font-medium">Student:</span> {selectedRequest.student?.name || `Student ${selectedRequest.studentId}`}
-              </p>
-              {selectedRequest.reason && (
+            {selectedRegularisation ? (
+              <div className="mb-4">
                 <p className="text-sm text-gray-600 mb-2">
-                  <span className="font-medium">Reason:</span> {selectedRequest.reason}
+                  <span className="font-medium">Type:</span> attendance correction ({selectedRegularisation.source})
                 </p>
-              )}
-            </div>
+                <p className="text-sm text-gray-600 mb-2">
+                  <span className="font-medium">Requested by:</span>{' '}
+                  {selectedRegularisation.user?.name || `User ${selectedRegularisation.userId}`}
+                </p>
+                <p className="text-sm text-gray-600 mb-2">
+                  <span className="font-medium">Date:</span>{' '}
+                  {parseDateKey(selectedRegularisation.date.split('T')[0]).toLocaleDateString()}
+                </p>
+                <p className="text-sm text-gray-600 mb-2">
+                  <span className="font-medium">Reason:</span> {selectedRegularisation.reason}
+                </p>
+                <PunchTimesComparison original={selectedRegularisation.original} requested={selectedRegularisation.requested} />
+                <p className="mt-2 text-xs text-gray-500">
+                  Approving updates the punch and its working hours. The recorded times stay in the punch's audit trail.
+                </p>
+              </div>
+            ) : selectedRequest && (
+              <div className="mb-4">
+                <p className="text-sm text-gray-600 mb-2">
+                  <span className="font-medium">Type:</span> {selectedRequest.type.replace('_', ' ')}
+                </p>
+                <p className="text-sm text-gray-600 mb-2">
+                  <span className="font-medium">Student:</span> {selectedRequest.student?.name || `Student ${selectedRequest.studentId}`}
+                </p>
+                {selectedRequest.reason && (
+                  <p className="text-sm text-gray-600 mb-2">
+                    <span className="font-medium">Reason:</span> {selectedRequest.reason}
+                  </p>
+                )}
+                {selectedTransfer && (
+                  <div className="mt-3 space-y-2">
+                    <BatchTransferComparison
+                      fromBatch={batchesData?.data.find((batch) => batch.id === selectedTransfer.fromBatchId)}
+                      toBatch={batchesData?.data.find((batch) => batch.id === selectedTransfer.toBatchId)}
+                    />
+                    <p className="text-xs text-gray-500">
+                      Approving moves the enrollment, pending payments and software completion records to{' '}
+                      {selectedTransfer.toBatchTitle || 'the new batch'}, along with attendance from{' '}
+                      {selectedTransfer.effectiveDate ? parseDateKey(selectedTransfer.effectiveDate).toLocaleDateString() : 'the effective date'} on.
+                    </p>
+                  </div>
+                )}
+              </div>
+            )}
             <form onSubmit={handleApproveRequest}>
               <div className="mb-4">
                 <label className="block text-sm font-medium text-gray-700 mb-1">Action *</label>
@@ -173,17 +398,14 @@ export const ApprovalManagement: React.FC = () => {
               <div className="flex gap-3">
                 <button
                   type="submit"
-                  disabled={approveRequestMutation.isPending}
+                  disabled={isReviewPending}
                   className="flex-1 px-4 py-2 bg-orange-600 text-white rounded-lg font-semibold hover:bg-orange-700 transition-colors disabled:opacity-50"
                 >
-                  {approveRequestMutation.isPending ? 'Processing...' : 'Submit'}
+                  {isReviewPending ? 'Processing...' : 'Submit'}
                 </button>
                 <button
                   type="button"
-                  onClick={() => {
-                    setIsApproveModalOpen(false);
-                    setSelectedRequest(null);
-                  }}
+                  onClick={closeReview}
                   className="flex-1 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg font-semibold hover:bg-gray-300 transition-colors"
                 >
                   Cancel
@@ -1,16 +1,24 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { useAuth } from '../context/AuthContext';
+import { usePermissions } from '../context/PermissionContext';
 import { Layout } from '../components/Layout';
-import { attendanceAPI, MarkAttendanceRequest } from '../api/attendance.api';
+import { attendanceAPI, AttendanceStatus, MarkAttendanceRequest } from '../api/attendance.api';
 import { sessionAPI } from '../api/session.api';
+import { Module } from '../api/permission.api';
 
 export const AttendanceManagement: React.FC = () => {
-  const { user } = useAuth();
+  const { can } = usePermissions();
   const queryClient = useQueryClient();
+  const [searchParams] = useSearchParams();
   const [selectedSessionId, setSelectedSessionId] = useState<number | null>(null);
   const [isMarkModalOpen, setIsMarkModalOpen] = useState(false);
 
+  // Links such as the command palette's session results preselect a session with ?sessionId=
+  const linkedSessionId = Number(searchParams.get('sessionId')) || null;
+  useEffect(() => {
+    if (linkedSessionId) setSelectedSessionId(linkedSessionId);
+  }, [linkedSessionId]);
 
   // Fetch sessions
   const { data: sessionsData } = useQuery({
@@ -28,13 +36,10 @@ export const AttendanceManagement: React.FC = () => {
   const markAttendanceMutation = useMutation({
     mutationFn: ({ sessionId, data }: { sessionId: number; data: MarkAttendanceRequest }) =>
       attendanceAPI.markAttendance(sessionId, data),
+    meta: { successMessage: 'Attendance marked successfully!', errorMessage: 'Failed to mark attendance' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['attendance', selectedSessionId] });
       setIsMarkModalOpen(false);
-      alert('Attendance marked successfully!');
-    },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to mark attendance');
     },
   });
 
@@ -47,7 +52,7 @@ export const AttendanceManagement: React.FC = () => {
     const formData = new FormData(e.currentTarget);
     const data: MarkAttendanceRequest = {
       studentId: parseInt(formData.get('studentId') as string),
-      status: formData.get('status') as 'present' | 'absent' | 'manual_present',
+      status: formData.get('status') as AttendanceStatus,
       isManual: formData.get('isManual') === 'true',
     };
     markAttendanceMutation.mutate({ sessionId: selectedSessionId, data });
@@ -83,7 +88,7 @@ export const AttendanceManagement: React.FC = () => {
 
             {selectedSessionId && (
               <>
-                {(user?.role === 'admin' || user?.role === 'superadmin' || user?.role === 'faculty') && (
+                {can(Module.ATTENDANCE, 'add') && (
                   <div className="mb-4">
                     <button
                       onClick={() => setIsMarkModalOpen(true)}
@@ -0,0 +1,308 @@
+import React, { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Layout } from '../components/Layout';
+import { usePermissions } from '../context/PermissionContext';
+import { Module } from '../api/permission.api';
+import { batchAPI } from '../api/batch.api';
+import { enrollmentAPI } from '../api/enrollment.api';
+import { employeeAttendanceAPI } from '../api/employeeAttendance.api';
+import { employeeLeaveAPI } from '../api/employeeLeave.api';
+import { holidayAPI } from '../api/holiday.api';
+import { reportAPI } from '../api/report.api';
+import { LeaveStatus, studentLeaveAPI } from '../api/studentLeave.api';
+import { userAPI, UserRole } from '../api/user.api';
+import {
+  AttendanceRegister as Register,
+  REGISTER_CODES,
+  REGISTER_CODE_LABELS,
+  RegisterCode,
+  buildEmployeeRegister,
+  buildStudentRegister,
+  getAttendanceRate,
+  toRegisterTable,
+} from '../types/register.types';
+import { parseDateKey, toDateKey } from '../types/schedule.types';
+import { downloadFile, toCsv, toXlsx } from '../types/spreadsheet.types';
+
+type RegisterView = 'employees' | 'students';
+
+const CODE_STYLES: Record<RegisterCode, string> = {
+  P: 'bg-green-100 text-green-800',
+  HD: 'bg-yellow-100 text-yellow-800',
+  A: 'bg-red-100 text-red-800',
+  L: 'bg-blue-100 text-blue-800',
+  H: 'bg-gray-100 text-gray-600',
+};
+
+/**
+ * Month register of attendance codes per person and day, for employees or the students of a batch
+ */
+export const AttendanceRegister: React.FC = () => {
+  const { can } = usePermissions();
+  const canViewEmployees = can(Module.EMPLOYEES, 'view');
+  const [view, setView] = useState<RegisterView>(canViewEmployees ? 'employees' : 'students');
+  const [month, setMonth] = useState(() => toDateKey(new Date()).slice(0, 7));
+  const [batchId, setBatchId] = useState(0);
+
+  const today = toDateKey(new Date());
+  const from = `${month}-01`;
+  const lastDay = new Date(parseDateKey(from).getFullYear(), parseDateKey(from).getMonth() + 1, 0);
+  const to = toDateKey(lastDay);
+  const isEmployeeView = view === 'employees';
+  const isStudentView = view === 'students' && !!batchId;
+
+  // Holidays are optional: without them those days show as absent
+  const { data: holidaysData } = useQuery({
+    queryKey: ['holidays', from, to],
+    queryFn: () => holidayAPI.getHolidays({ dateFrom: from, dateTo: to }),
+    retry: false,
+  });
+
+  const { data: employeesData, isLoading: isLoadingEmployees } = useQuery({
+    queryKey: ['employees'],
+    queryFn: () => userAPI.getAllUsers({ role: UserRole.EMPLOYEE, isActive: true, page: 1, limit: 1000 }),
+    enabled: isEmployeeView,
+  });
+
+  const { data: punchesData, isLoading: isLoadingPunches } = useQuery({
+    queryKey: ['allEmployeesAttendance', from, to, undefined],
+    queryFn: () => employeeAttendanceAPI.getAllEmployeesAttendance({ from, to }),
+    enabled: isEmployeeView,
+  });
+
+  const { data: employeeLeavesData } = useQuery({
+    queryKey: ['employee-leaves', LeaveStatus.APPROVED],
+    queryFn: () => employeeLeaveAPI.getLeaves({ status: LeaveStatus.APPROVED }),
+    enabled: isEmployeeView,
+  });
+
+  const { data: batchesData } = useQuery({
+    queryKey: ['batches'],
+    queryFn: () => batchAPI.getAllBatches(),
+    enabled: view === 'students',
+  });
+
+  const { data: enrollmentsData, isLoading: isLoadingEnrollments } = useQuery({
+    queryKey: ['batch-enrollments', batchId],
+    queryFn: () => enrollmentAPI.getBatchEnrollments(batchId),
+    enabled: isStudentView,
+  });
+
+  const { data: batchAttendanceData, isLoading: isLoadingSessions } = useQuery({
+    queryKey: ['batch-attendance-report', batchId, from, to],
+    queryFn: () => reportAPI.getBatchAttendance(batchId, { from, to }),
+    enabled: isStudentView,
+  });
+
+  const { data: studentLeavesData } = useQuery({
+    queryKey: ['student-leaves', LeaveStatus.APPROVED, batchId],
+    queryFn: () => studentLeaveAPI.getLeaves({ batchId, status: LeaveStatus.APPROVED }),
+    enabled: isStudentView,
+  });
+
+  const register = useMemo<Register | null>(() => {
+    const holidays = holidaysData?.data.holidays || [];
+    if (isEmployeeView) {
+      if (!employeesData || !punchesData) return null;
+      return buildEmployeeRegister(
+        month,
+        {
+          employees: employeesData.data.users.map((user) => ({ id: user.id, name: user.name })),
+          punches: punchesData.data.punches,
+          leaves: employeeLeavesData?.data.leaves || [],
+          holidays,
+        },
+        today
+      );
+    }
+    if (!isStudentView || !enrollmentsData || !batchAttendanceData) return null;
+    return buildStudentRegister(
+      month,
+      {
+        students: enrollmentsData.data.map((enrollment) => ({
+          id: enrollment.studentId,
+          name: enrollment.student?.name || `Student ${enrollment.studentId}`,
+        })),
+        sessions: batchAttendanceData.data.sessions,
+        leaves: studentLeavesData?.data.leaves || [],
+        holidays,
+      },
+      today
+    );
+  }, [
+    isEmployeeView,
+    isStudentView,
+    month,
+    today,
+    holidaysData,
+    employeesData,
+    punchesData,
+    employeeLeavesData,
+    enrollmentsData,
+    batchAttendanceData,
+    studentLeavesData,
+  ]);
+
+  const batches = batchesData?.data || [];
+  const batchTitle = batches.find((batch) => batch.id === batchId)?.title;
+  const isLoading = isEmployeeView ? isLoadingEmployees || isLoadingPunches : isStudentView && (isLoadingEnrollments || isLoadingSessions);
+  const fileName = `attendance-register-${isEmployeeView ? 'employees' : (batchTitle || `batch-${batchId}`).replace(/\s+/g, '-')}-${month}`;
+
+  const handleExport = (format: 'csv' | 'xlsx') => {
+    if (!register) return;
+    const table = toRegisterTable(register);
+    if (format === 'csv') {
+      downloadFile(new Blob([toCsv(table)], { type: 'text/csv' }), `${fileName}.csv`);
+    } else {
+      downloadFile(toXlsx(table, `${isEmployeeView ? 'Employees' : batchTitle || 'Students'} ${month}`), `${fileName}.xlsx`);
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="max-w-7xl mx-auto">
+        <div className="bg-white shadow-xl rounded-lg overflow-hidden">
+          <div className="bg-gradient-to-r from-orange-600 to-orange-500 px-8 py-6">
+            <h1 className="text-3xl font-bold text-white">Attendance Register</h1>
+            <p className="mt-2 text-orange-100">Monthly attendance by person and day</p>
+          </div>
+
+          <div className="p-6">
+            <div className="flex flex-wrap items-center gap-3 mb-4">
+              {canViewEmployees && (
+                <div className="flex rounded-md border border-gray-300 overflow-hidden">
+                  {(['employees', 'students'] as RegisterView[]).map((option) => (
+                    <button
+                      key={option}
+                      onClick={() => setView(option)}
+                      className={`px-4 py-2 text-sm font-medium capitalize ${
+                        view === option ? 'bg-orange-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      {option}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <input
+                type="month"
+                value={month}
+                onChange={(e) => e.target.value && setMonth(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+              />
+              {view === 'students' && (
+                <select
+                  value={batchId || ''}
+                  onChange={(e) => setBatchId(parseInt(e.target.value) || 0)}
+                  className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+                >
+                  <option value="">Select batch</option>
+                  {batches.map((batch) => (
+                    <option key={batch.id} value={batch.id}>
+                      {batch.title}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <div className="ml-auto flex gap-2">
+                <button
+                  onClick={() => handleExport('csv')}
+                  disabled={!register || register.rows.length === 0}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Export CSV
+                </button>
+                <button
+                  onClick={() => handleExport('xlsx')}
+                  disabled={!register || register.rows.length === 0}
+                  className="px-4 py-2 text-sm font-medium text-white bg-orange-600 rounded-md hover:bg-orange-700 disabled:opacity-50"
+                >
+                  Export Excel
+                </button>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-3 mb-4 text-xs text-gray-600">
+              {REGISTER_CODES.map((code) => (
+                <span key={code} className="flex items-center gap-1">
+                  <span className={`px-1.5 py-0.5 rounded font-semibold ${CODE_STYLES[code]}`}>{code}</span>
+                  {REGISTER_CODE_LABELS[code]}
+                </span>
+              ))}
+            </div>
+
+            {view === 'students' && !batchId ? (
+              <p className="text-center text-gray-500 py-12">Select a batch to see its register.</p>
+            ) : isLoading ? (
+              <div className="flex justify-center items-center py-12">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-500"></div>
+              </div>
+            ) : !register || register.rows.length === 0 ? (
+              <p className="text-center text-gray-500 py-12">
+                {isEmployeeView ? 'No employees found.' : 'No students enrolled in this batch.'}
+              </p>
+            ) : (
+              <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                <table className="min-w-full text-xs">
+                  <thead className="bg-gray-50 text-gray-600">
+                    <tr>
+                      <th className="sticky left-0 bg-gray-50 px-3 py-2 text-left font-medium">Name</th>
+                      {register.dates.map((date) => {
+                        const day = parseDateKey(date);
+                        return (
+                          <th key={date} className={`px-1 py-2 text-center font-medium ${day.getDay() === 0 ? 'text-gray-400' : ''}`}>
+                            {day.getDate()}
+                          </th>
+                        );
+                      })}
+                      {REGISTER_CODES.map((code) => (
+                        <th key={code} className="px-2 py-2 text-center font-medium" title={REGISTER_CODE_LABELS[code]}>
+                          {code}
+                        </th>
+                      ))}
+                      <th className="px-2 py-2 text-center font-medium">%</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {register.rows.map((row) => {
+                      const rate = getAttendanceRate(row.totals);
+                      return (
+                        <tr key={row.id} className="hover:bg-gray-50">
+                          <td className="sticky left-0 bg-white px-3 py-2 font-medium text-gray-900 whitespace-nowrap">{row.name}</td>
+                          {row.days.map((code, index) => (
+                            <td key={register.dates[index]} className="px-0.5 py-1 text-center">
+                              {code && (
+                                <span
+                                  className={`inline-block min-w-[1.75rem] px-1 py-0.5 rounded font-semibold ${CODE_STYLES[code]}`}
+                                  title={REGISTER_CODE_LABELS[code]}
+                                >
+                                  {code}
+                                </span>
+                              )}
+                            </td>
+                          ))}
+                          {REGISTER_CODES.map((code) => (
+                            <td key={code} className="px-2 py-2 text-center text-gray-700">
+                              {row.totals[code]}
+                            </td>
+                          ))}
+                          <td
+                            className={`px-2 py-2 text-center font-semibold ${
+                              rate !== null && rate < 75 ? 'text-red-600' : 'text-gray-900'
+                            }`}
+                          >
+                            {rate !== null ? `${rate}%` : '—'}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+};
@@ -0,0 +1,534 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { Layout } from '../components/Layout';
+import { useDataTableState } from '../components/DataTable';
+import { usePermissions } from '../context/PermissionContext';
+import { Module } from '../api/permission.api';
+import { batchAPI, Batch } from '../api/batch.api';
+import { sessionAPI, Session, SessionStatus } from '../api/session.api';
+import { facultyAPI } from '../api/faculty.api';
+import { DAYS_OF_WEEK, addDays, getSlotForDate, normalizeSchedule, parseDateKey, toDateKey } from '../types/schedule.types';
+
+type CalendarView = 'day' | 'week' | 'month';
+
+const VIEWS: { value: CalendarView; label: string }[] = [
+  { value: 'day', label: 'Day' },
+  { value: 'week', label: 'Week' },
+  { value: 'month', label: 'Month' },
+];
+
+const MODE_OPTIONS = [
+  { value: 'online', label: 'Online' },
+  { value: 'offline', label: 'Offline' },
+  { value: 'hybrid', label: 'Hybrid' },
+];
+
+// Same colours as the status badges on the sessions list
+const SESSION_STATUS_STYLES: Record<SessionStatus, string> = {
+  [SessionStatus.SCHEDULED]: 'bg-gray-100 text-gray-800 border-gray-300',
+  [SessionStatus.ONGOING]: 'bg-blue-100 text-blue-800 border-blue-300',
+  [SessionStatus.COMPLETED]: 'bg-green-100 text-green-800 border-green-300',
+  [SessionStatus.CANCELLED]: 'bg-red-100 text-red-800 border-red-300 line-through',
+};
+
+// Slots from Batch.schedule that have no session yet
+const PLANNED_STYLE = 'bg-white text-orange-700 border-orange-300 border-dashed';
+
+const MAX_EVENTS_PER_MONTH_CELL = 3;
+// Sessions are paginated; a month of sessions for every batch fits in one request
+const SESSION_FETCH_LIMIT = 500;
+
+interface CalendarEvent {
+  key: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  title: string;
+  batch?: Batch;
+  // Set for actual sessions; planned slots only have the batch
+  session?: Session;
+}
+
+// Weeks start on Monday, like the batch schedule form
+const startOfWeek = (date: Date) => addDays(date, -((date.getDay() + 6) % 7));
+
+const getVisibleDays = (view: CalendarView, anchor: Date): Date[] => {
+  if (view === 'day') return [anchor];
+  const start = view === 'week' ? startOfWeek(anchor) : startOfWeek(new Date(anchor.getFullYear(), anchor.getMonth(), 1));
+  const end =
+    view === 'week' ? addDays(start, 6) : addDays(startOfWeek(new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0)), 6);
+  const days: Date[] = [];
+  for (let day = start; day <= end; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+};
+
+const shiftAnchor = (view: CalendarView, anchor: Date, direction: 1 | -1) => {
+  if (view === 'day') return addDays(anchor, direction);
+  if (view === 'week') return addDays(anchor, 7 * direction);
+  return new Date(anchor.getFullYear(), anchor.getMonth() + direction, 1);
+};
+
+const formatTitle = (view: CalendarView, days: Date[], anchor: Date) => {
+  if (view === 'day') {
+    return anchor.toLocaleDateString(undefined, { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' });
+  }
+  if (view === 'month') {
+    return anchor.toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+  }
+  const first = days[0].toLocaleDateString(undefined, { day: 'numeric', month: 'short' });
+  const last = days[days.length - 1].toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+  return `${first} – ${last}`;
+};
+
+const splitSoftware = (software?: string) =>
+  (software || '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+export const BatchCalendar: React.FC = () => {
+  const { can } = usePermissions();
+  const queryClient = useQueryClient();
+  const [selectedEvent, setSelectedEvent] = useState<CalendarEvent | null>(null);
+  const { state, update } = useDataTableState({
+    filterIds: ['view', 'date', 'facultyId', 'batchId', 'software', 'mode'],
+    defaultFilters: { view: 'week' },
+  });
+  const { filters } = state;
+  const view = (VIEWS.some((option) => option.value === filters.view) ? filters.view : 'week') as CalendarView;
+  const anchor = filters.date ? parseDateKey(filters.date) : new Date();
+  const anchorKey = toDateKey(anchor);
+  const todayKey = toDateKey(new Date());
+
+  const days = useMemo(() => getVisibleDays(view, parseDateKey(anchorKey)), [view, anchorKey]);
+  const dateFrom = toDateKey(days[0]);
+  const dateTo = toDateKey(days[days.length - 1]);
+  const setFilter = (id: string, value: string) => update({ filters: { [id]: value } });
+
+  const { data: batchesData, isLoading: isLoadingBatches } = useQuery({
+    queryKey: ['batches'],
+    queryFn: () => batchAPI.getAllBatches(),
+  });
+
+  const { data: facultyData } = useQuery({
+    queryKey: ['faculty'],
+    queryFn: () => facultyAPI.getAllFaculty(),
+  });
+
+  const {
+    data: sessionsData,
+    isLoading: isLoadingSessions,
+    isFetching: isFetchingSessions,
+  } = useQuery({
+    queryKey: ['sessions', 'calendar', dateFrom, dateTo, filters.facultyId, filters.batchId],
+    queryFn: () =>
+      sessionAPI.getAllSessions({
+        dateFrom,
+        dateTo,
+        facultyId: Number(filters.facultyId) || undefined,
+        batchId: Number(filters.batchId) || undefined,
+        limit: SESSION_FETCH_LIMIT,
+        sortBy: 'date',
+        sortOrder: 'asc',
+      }),
+    enabled: can(Module.SESSIONS),
+    placeholderData: keepPreviousData,
+  });
+
+  const checkInMutation = useMutation({
+    mutationFn: (id: number) => sessionAPI.checkInSession(id),
+    meta: { successMessage: 'Session checked in successfully!', errorMessage: 'Failed to check in session' },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sessions'] });
+      setSelectedEvent(null);
+    },
+  });
+
+  const checkOutMutation = useMutation({
+    mutationFn: (id: number) => sessionAPI.checkOutSession(id),
+    meta: { successMessage: 'Session checked out successfully!', errorMessage: 'Failed to check out session' },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sessions'] });
+      setSelectedEvent(null);
+    },
+  });
+
+  const batches = useMemo(() => batchesData?.data || [], [batchesData]);
+  const faculty = facultyData?.data.users || [];
+  const softwareOptions = useMemo(
+    () => Array.from(new Set(batches.flatMap((batch) => splitSoftware(batch.software)))).sort(),
+    [batches]
+  );
+
+  const eventsByDate = useMemo(() => {
+    const batchesById = new Map(batches.map((batch) => [batch.id, batch]));
+    const facultyId = Number(filters.facultyId) || null;
+    const batchId = Number(filters.batchId) || null;
+    const software = filters.software.toLowerCase();
+
+    // Software and mode belong to the batch, so sessions are filtered through their batch too
+    const batchMatches = (batch: Batch | undefined) => {
+      if (!batch) return !software && !filters.mode;
+      if (batchId && batch.id !== batchId) return false;
+      if (filters.mode && batch.mode !== filters.mode) return false;
+      if (software && !splitSoftware(batch.software).some((item) => item.toLowerCase() === software)) return false;
+      return true;
+    };
+
+    const result = new Map<string, CalendarEvent[]>();
+    const add = (event: CalendarEvent) => {
+      result.set(event.date, [...(result.get(event.date) || []), event]);
+    };
+
+    const sessions = sessionsData?.data.sessions || [];
+    const sessionDays = new Set<string>();
+    sessions.forEach((session) => {
+      const batch = batchesById.get(session.batchId);
+      if (!batchMatches(batch)) return;
+      const date = session.date.split('T')[0];
+      sessionDays.add(`${session.batchId}:${date}`);
+      add({
+        key: `session-${session.id}`,
+        date,
+        startTime: session.startTime,
+        endTime: session.endTime,
+        title: session.batch?.title || batch?.title || `Batch ${session.batchId}`,
+        batch,
+        session,
+      });
+    });
+
+    // Planned slots fill the days a batch meets but has no session yet
+    batches.forEach((batch) => {
+      if (batch.status === 'inactive' || !batchMatches(batch)) return;
+      if (facultyId && !batch.assignedFaculty?.some((member) => member.id === facultyId)) return;
+      const schedule = normalizeSchedule(batch.schedule);
+      if (Object.keys(schedule).length === 0) return;
+      const batchStart = batch.startDate.split('T')[0];
+      const batchEnd = batch.endDate.split('T')[0];
+      days.forEach((day) => {
+        const date = toDateKey(day);
+        const slot = getSlotForDate(schedule, day);
+        if (!slot || date < batchStart || date > batchEnd || sessionDays.has(`${batch.id}:${date}`)) return;
+        add({ key: `planned-${batch.id}-${date}`, date, ...slot, title: batch.title, batch });
+      });
+    });
+
+    result.forEach((events) => events.sort((a, b) => a.startTime.localeCompare(b.startTime)));
+    return result;
+  }, [batches, sessionsData, days, filters.facultyId, filters.batchId, filters.software, filters.mode]);
+
+  const isLoading = isLoadingBatches || (can(Module.SESSIONS) && isLoadingSessions);
+  const hasFilters = Boolean(filters.facultyId || filters.batchId || filters.software || filters.mode);
+
+  const renderEvent = (event: CalendarEvent, compact = false) => (
+    <button
+      key={event.key}
+      type="button"
+      onClick={() => setSelectedEvent(event)}
+      className={`w-full text-left border rounded px-2 py-1 text-xs hover:shadow-sm ${
+        event.session ? SESSION_STATUS_STYLES[event.session.status] : PLANNED_STYLE
+      }`}
+      title={`${event.startTime}–${event.endTime} ${event.title}`}
+    >
+      <span className="font-semibold">{event.startTime}</span> <span className={compact ? 'truncate' : ''}>{event.title}</span>
+      {!compact && event.session?.faculty && <div className="text-[11px] opacity-75">{event.session.faculty.name}</div>}
+    </button>
+  );
+
+  return (
+    <Layout>
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="bg-gradient-to-r from-orange-600 to-orange-500 rounded-lg shadow-xl px-8 py-6">
+          <h1 className="text-3xl font-bold text-white">Batch Calendar</h1>
+          <p className="mt-2 text-orange-100">Planned batch slots and actual sessions by day, week or month</p>
+        </div>
+
+        {/* Toolbar */}
+        <div className="bg-white rounded-lg shadow p-4 space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={() => setFilter('date', toDateKey(shiftAnchor(view, anchor, -1)))}
+                className="px-3 py-2 border border-gray-300 rounded-md hover:bg-gray-50"
+                aria-label="Previous"
+              >
+                ‹
+              </button>
+              <button
+                type="button"
+                onClick={() => setFilter('date', '')}
+                className="px-3 py-2 border border-gray-300 rounded-md hover:bg-gray-50 text-sm"
+              >
+                Today
+              </button>
+              <button
+                type="button"
+                onClick={() => setFilter('date', toDateKey(shiftAnchor(view, anchor, 1)))}
+                className="px-3 py-2 border border-gray-300 rounded-md hover:bg-gray-50"
+                aria-label="Next"
+              >
+                ›
+              </button>
+              <h2 className="ml-2 text-lg font-semibold text-gray-800">{formatTitle(view, days, anchor)}</h2>
+              {isFetchingSessions && !isLoading && <span className="text-xs text-gray-400">Updating…</span>}
+            </div>
+            <div className="inline-flex rounded-md border border-gray-300 overflow-hidden">
+              {VIEWS.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setFilter('view', option.value)}
+                  className={`px-4 py-2 text-sm ${
+                    view === option.value ? 'bg-orange-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+            <select
+              value={filters.facultyId}
+              onChange={(e) => setFilter('facultyId', e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+            >
+              <option value="">All faculty</option>
+              {faculty.map((member) => (
+                <option key={member.id} value={member.id}>
+                  {member.name}
+                </option>
+              ))}
+            </select>
+            <select
+              value={filters.batchId}
+              onChange={(e) => setFilter('batchId', e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+            >
+              <option value="">All batches</option>
+              {batches.map((batch) => (
+                <option key={batch.id} value={batch.id}>
+                  {batch.title}
+                </option>
+              ))}
+            </select>
+            <select
+              value={filters.software}
+              onChange={(e) => setFilter('software', e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+            >
+              <option value="">All software</option>
+              {softwareOptions.map((software) => (
+                <option key={software} value={software}>
+                  {software}
+                </option>
+              ))}
+            </select>
+            <select
+              value={filters.mode}
+              onChange={(e) => setFilter('mode', e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+            >
+              <option value="">All modes</option>
+              {MODE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => update({ filters: { facultyId: '', batchId: '', software: '', mode: '' } })}
+              disabled={!hasFilters}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm hover:bg-gray-50 disabled:opacity-50"
+            >
+              Clear filters
+            </button>
+          </div>
+
+          {/* Legend */}
+          <div className="flex flex-wrap gap-3 text-xs">
+            <span className={`border rounded px-2 py-0.5 ${PLANNED_STYLE}`}>Planned (no session yet)</span>
+            {Object.values(SessionStatus).map((status) => (
+              <span key={status} className={`border rounded px-2 py-0.5 capitalize ${SESSION_STATUS_STYLES[status]}`}>
+                {status}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {/* Calendar */}
+        {isLoading ? (
+          <div className="bg-white rounded-lg shadow p-12 flex justify-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-500"></div>
+          </div>
+        ) : view === 'day' ? (
+          <div className="bg-white rounded-lg shadow divide-y">
+            {(eventsByDate.get(anchorKey) || []).length === 0 ? (
+              <p className="p-8 text-center text-gray-500">Nothing scheduled on this day</p>
+            ) : (
+              (eventsByDate.get(anchorKey) || []).map((event) => (
+                <div key={event.key} className="flex items-center gap-4 p-4">
+                  <div className="w-32 text-sm font-medium text-gray-700">
+                    {event.startTime} – {event.endTime}
+                  </div>
+                  <div className="flex-1">{renderEvent(event)}</div>
+                </div>
+              ))
+            )}
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            <div className="grid grid-cols-7 bg-gray-50 border-b text-xs font-semibold text-gray-600 uppercase">
+              {DAYS_OF_WEEK.map((day) => (
+                <div key={day} className="px-2 py-2 text-center">
+                  {day.slice(0, 3)}
+                </div>
+              ))}
+            </div>
+            <div className="grid grid-cols-7">
+              {days.map((day) => {
+                const date = toDateKey(day);
+                const events = eventsByDate.get(date) || [];
+                const isOutsideMonth = view === 'month' && day.getMonth() !== anchor.getMonth();
+                const visibleEvents = view === 'month' ? events.slice(0, MAX_EVENTS_PER_MONTH_CELL) : events;
+                return (
+                  <div
+                    key={date}
+                    className={`border-r border-b p-1 space-y-1 ${view === 'month' ? 'min-h-[7rem]' : 'min-h-[20rem]'} ${
+                      isOutsideMonth ? 'bg-gray-50' : ''
+                    }`}
+                  >
+                    <button
+                      type="button"
+                      onClick={() => update({ filters: { view: 'day', date } })}
+                      className={`text-xs font-semibold px-1.5 py-0.5 rounded ${
+                        date === todayKey ? 'bg-orange-600 text-white' : isOutsideMonth ? 'text-gray-400' : 'text-gray-700'
+                      } hover:underline`}
+                    >
+                      {day.getDate()}
+                    </button>
+                    {visibleEvents.map((event) => renderEvent(event, view === 'month'))}
+                    {events.length > visibleEvents.length && (
+                      <button
+                        type="button"
+                        onClick={() => update({ filters: { view: 'day', date } })}
+                        className="text-xs text-orange-600 hover:underline px-1"
+                      >
+                        +{events.length - visibleEvents.length} more
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Event details */}
+      {selectedEvent && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
+            <h2 className="text-2xl font-bold mb-1">{selectedEvent.title}</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              {parseDateKey(selectedEvent.date).toLocaleDateString(undefined, {
+                weekday: 'long',
+                day: 'numeric',
+                month: 'long',
+              })}
+              , {selectedEvent.startTime} – {selectedEvent.endTime}
+            </p>
+            <div className="space-y-2 text-sm text-gray-700 mb-6">
+              {selectedEvent.session ? (
+                <>
+                  <p>
+                    <span className="font-medium">Status:</span>{' '}
+                    <span className={`px-2 py-0.5 rounded border text-xs capitalize ${SESSION_STATUS_STYLES[selectedEvent.session.status]}`}>
+                      {selectedEvent.session.status}
+                    </span>
+                  </p>
+                  {selectedEvent.session.faculty && (
+                    <p>
+                      <span className="font-medium">Faculty:</span> {selectedEvent.session.faculty.name}
+                    </p>
+                  )}
+                  {selectedEvent.session.topic && (
+                    <p>
+                      <span className="font-medium">Topic:</span> {selectedEvent.session.topic}
+                    </p>
+                  )}
+                </>
+              ) : (
+                <p className="text-gray-500">Planned from the batch schedule. No session has been created for this day yet.</p>
+              )}
+              {selectedEvent.batch && (
+                <p>
+                  <span className="font-medium">Batch:</span> {selectedEvent.batch.software || 'No software'} ·{' '}
+                  <span className="capitalize">{selectedEvent.batch.mode}</span>
+                </p>
+              )}
+              {!selectedEvent.session && selectedEvent.batch?.assignedFaculty?.length ? (
+                <p>
+                  <span className="font-medium">Faculty:</span>{' '}
+                  {selectedEvent.batch.assignedFaculty.map((member) => member.name).join(', ')}
+                </p>
+              ) : null}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {selectedEvent.session?.status === SessionStatus.SCHEDULED && can(Module.SESSIONS, 'edit') && (
+                <button
+                  type="button"
+                  onClick={() => checkInMutation.mutate(selectedEvent.session!.id)}
+                  disabled={checkInMutation.isPending}
+                  className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+                >
+                  {checkInMutation.isPending ? 'Checking in...' : 'Check in'}
+                </button>
+              )}
+              {selectedEvent.session?.status === SessionStatus.ONGOING && can(Module.SESSIONS, 'edit') && (
+                <button
+                  type="button"
+                  onClick={() => checkOutMutation.mutate(selectedEvent.session!.id)}
+                  disabled={checkOutMutation.isPending}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {checkOutMutation.isPending ? 'Checking out...' : 'Check out'}
+                </button>
+              )}
+              {selectedEvent.session && can(Module.ATTENDANCE) && (
+                <Link
+                  to={`/attendance?sessionId=${selectedEvent.session.id}`}
+                  className="px-4 py-2 bg-orange-600 text-white rounded-md hover:bg-orange-700"
+                >
+                  Attendance
+                </Link>
+              )}
+              {!selectedEvent.session && selectedEvent.batch && (
+                <Link
+                  to={`/batches/list?search=${encodeURIComponent(selectedEvent.batch.title)}`}
+                  className="px-4 py-2 bg-orange-600 text-white rounded-md hover:bg-orange-700"
+                >
+                  Open batch
+                </Link>
+              )}
+              <button
+                type="button"
+                onClick={() => setSelectedEvent(null)}
+                className="ml-auto px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </Layout>
+  );
+};
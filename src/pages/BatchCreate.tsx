@@ -1,31 +1,189 @@
-import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
-import { useAuth } from '../context/AuthContext';
+import { usePermissions } from '../context/PermissionContext';
 import { Layout } from '../components/Layout';
-import { batchAPI, CreateBatchRequest, SuggestedCandidate } from '../api/batch.api';
+import { batchAPI, CreateBatchRequest, DraftCandidatesResponse, SuggestCandidatesRequest } from '../api/batch.api';
 import { studentAPI } from '../api/student.api';
 import { studentAPI as enrollmentAPI } from '../api/student.api';
-
-const DAYS_OF_WEEK = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+import { Module } from '../api/permission.api';
+import { facultyAPI } from '../api/faculty.api';
+import { batchTemplateAPI, CreateBatchTemplateRequest } from '../api/batchTemplate.api';
+import { toast, useConfirm } from '../context/NotificationContext';
+import { FieldError } from '../components/FieldError';
+import { ScheduleConflictList, useScheduleConflicts } from '../components/ScheduleConflicts';
+import { CandidatePicker } from '../components/CandidatePicker';
+import { getFieldErrors, FieldErrors } from '../api/response';
+import { BatchSchedule, DAYS_OF_WEEK, computeEndDate, listClassDates, normalizeSchedule } from '../types/schedule.types';
 
 interface DaySchedule {
   startTime: string;
   endTime: string;
 }
 
+const SOFTWARE_OPTIONS = [
+  'Photoshop',
+  'Illustrator',
+  'InDesign',
+  'After Effects',
+  'Premiere Pro',
+  'Figma',
+  'Sketch',
+  'Blender',
+  'Maya',
+  '3ds Max',
+  'Cinema 4D',
+  'Lightroom',
+  'CorelDRAW',
+  'AutoCAD',
+  'SolidWorks',
+  'Revit',
+  'SketchUp',
+  'Unity',
+  'Unreal Engine',
+  'DaVinci Resolve',
+  'Final Cut Pro',
+  'Procreate',
+  'Affinity Designer',
+  'Affinity Photo',
+  'Canva Pro',
+];
+
+// Values a template or duplicated batch fills the form with
+interface BatchPrefill {
+  title?: string;
+  software?: string;
+  mode?: string;
+  maxCapacity?: number;
+  room?: string;
+  schedule?: BatchSchedule;
+  facultyIds?: number[];
+  sessionCount?: number;
+}
+
 export const BatchCreate: React.FC = () => {
-  const { user } = useAuth();
+  const { can } = usePermissions();
   const navigate = useNavigate();
+  const confirm = useConfirm();
   const queryClient = useQueryClient();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const formRef = useRef<HTMLFormElement>(null);
   const [daySchedules, setDaySchedules] = useState<Record<string, DaySchedule>>({});
   const [applyToAll, setApplyToAll] = useState(false);
   const [selectedStudents, setSelectedStudents] = useState<number[]>([]);
-  const [showSuggestions, setShowSuggestions] = useState(false);
-  const [suggestedCandidates, setSuggestedCandidates] = useState<SuggestedCandidate[]>([]);
+  const [suggestions, setSuggestions] = useState<DraftCandidatesResponse['data'] | null>(null);
   const [showOtherSoftwareInput, setShowOtherSoftwareInput] = useState(false);
   const [otherSoftware, setOtherSoftware] = useState('');
   const [selectedSoftwares, setSelectedSoftwares] = useState<string[]>([]);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  // Form fields the conflict check, suggestions and capacity need; the rest of the form is read on submit
+  const [formDraft, setFormDraft] = useState({ startDate: '', endDate: '', room: '', mode: '', maxCapacity: '' });
+  const capacity = parseInt(formDraft.maxCapacity) || undefined;
+  // When set, the end date follows from the start date and schedule
+  const [sessionCount, setSessionCount] = useState('');
+  const [facultyIds, setFacultyIds] = useState<number[]>([]);
+  const [prefill, setPrefill] = useState<BatchPrefill>({});
+  // Bumped to remount the uncontrolled inputs with new prefill defaults
+  const [formKey, setFormKey] = useState(0);
+  const [templateName, setTemplateName] = useState('');
+  // The template or batch the form was last filled from, so refetches don't wipe the user's edits
+  const appliedSource = useRef('');
+  const templateId = Number(searchParams.get('templateId')) || undefined;
+  const sourceBatchId = Number(searchParams.get('from')) || undefined;
+
+  const { conflicts, isChecking } = useScheduleConflicts({
+    batch: {
+      startDate: formDraft.startDate,
+      endDate: formDraft.endDate,
+      room: formDraft.room,
+      schedule: normalizeSchedule(daySchedules),
+      facultyIds,
+    },
+  });
+
+  const { data: templatesData } = useQuery({
+    queryKey: ['batch-templates'],
+    queryFn: () => batchTemplateAPI.getTemplates(),
+  });
+
+  // Batch being duplicated
+  const { data: sourceBatchData } = useQuery({
+    queryKey: ['batches', sourceBatchId],
+    queryFn: () => batchAPI.getBatchById(sourceBatchId!),
+    enabled: !!sourceBatchId,
+  });
+
+  const { data: facultyData } = useQuery({
+    queryKey: ['faculty'],
+    queryFn: () => facultyAPI.getAllFaculty(),
+  });
+
+  const templates = templatesData?.data.templates || [];
+  const sourceBatch = sourceBatchData?.data.batch;
+  const faculty = facultyData?.data.users || [];
+
+  const applyPrefill = useCallback((source: BatchPrefill) => {
+    const softwares = source.software ? source.software.split(',').map((software) => software.trim()).filter(Boolean) : [];
+    const custom = softwares.filter((software) => !SOFTWARE_OPTIONS.includes(software));
+    setSelectedSoftwares(softwares);
+    setShowOtherSoftwareInput(custom.length > 0);
+    setOtherSoftware(custom.join(', '));
+    setDaySchedules(normalizeSchedule(source.schedule));
+    setFacultyIds(source.facultyIds || []);
+    setSessionCount(source.sessionCount ? String(source.sessionCount) : '');
+    setFormDraft({
+      startDate: '',
+      endDate: '',
+      room: source.room || '',
+      mode: source.mode || '',
+      maxCapacity: source.maxCapacity ? String(source.maxCapacity) : '',
+    });
+    setPrefill(source);
+    setFormKey((key) => key + 1);
+  }, []);
+
+  useEffect(() => {
+    const template = templatesData?.data.templates.find((item) => item.id === templateId);
+    if (!template || appliedSource.current === `template:${template.id}`) return;
+    appliedSource.current = `template:${template.id}`;
+    applyPrefill({
+      software: template.software,
+      mode: template.mode,
+      maxCapacity: template.maxCapacity,
+      room: template.room,
+      schedule: normalizeSchedule(template.schedule),
+      facultyIds: template.defaultFacultyIds,
+      sessionCount: template.sessionCount,
+    });
+  }, [templatesData, templateId, applyPrefill]);
+
+  useEffect(() => {
+    if (!sourceBatch || appliedSource.current === `batch:${sourceBatch.id}`) return;
+    appliedSource.current = `batch:${sourceBatch.id}`;
+    const schedule = normalizeSchedule(sourceBatch.schedule);
+    applyPrefill({
+      title: `${sourceBatch.title} (copy)`,
+      software: sourceBatch.software,
+      mode: sourceBatch.mode,
+      maxCapacity: sourceBatch.maxCapacity,
+      room: sourceBatch.room,
+      schedule,
+      facultyIds: sourceBatch.assignedFaculty?.map((member) => member.id),
+      // Same number of classes as the original run
+      sessionCount: listClassDates(schedule, sourceBatch.startDate.split('T')[0], sourceBatch.endDate.split('T')[0]).length || undefined,
+    });
+  }, [sourceBatch, applyPrefill]);
+
+  // Keep the end date in step with the start date, schedule and session count
+  useEffect(() => {
+    const count = parseInt(sessionCount);
+    if (!count) return;
+    const endDate = computeEndDate(normalizeSchedule(daySchedules), formDraft.startDate, count);
+    const input = formRef.current?.elements.namedItem('endDate') as HTMLInputElement | null;
+    if (!endDate || !input || input.value === endDate) return;
+    input.value = endDate;
+    setFormDraft((draft) => ({ ...draft, endDate }));
+  }, [sessionCount, daySchedules, formDraft.startDate]);
 
   // Fetch all students
   const { data: studentsData } = useQuery({
@@ -49,21 +207,96 @@ export const BatchCreate: React.FC = () => {
             return null;
           })
         );
-        await Promise.all(enrollmentPromises);
+        const results = await Promise.all(enrollmentPromises);
+        // The enrollment endpoint queues students beyond the batch's capacity
+        const waitlisted = results.filter((result) => result?.data.waitlistEntry).length;
+        if (waitlisted > 0) {
+          toast.info(`The batch filled up; ${waitlisted} student(s) were added to its waitlist.`);
+        }
+      }
+      if (facultyIds.length > 0 && response.data.batch) {
+        // The batch exists by now, so a failed assignment is reported without failing the create
+        await batchAPI.assignFaculty(response.data.batch.id, facultyIds).catch(() => {
+          toast.error('Batch created, but faculty could not be assigned. Assign them from the batch list.');
+        });
       }
       return response;
     },
+    meta: { successMessage: 'Batch created successfully!', errorMessage: 'Failed to create batch' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['batches'] });
       queryClient.invalidateQueries({ queryKey: ['students'] });
-      alert('Batch created successfully!');
       navigate('/batches');
     },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to create batch');
+    onError: (error) => {
+      setFieldErrors(getFieldErrors(error));
+    },
+  });
+
+  const saveTemplateMutation = useMutation({
+    mutationFn: (data: CreateBatchTemplateRequest) => batchTemplateAPI.createTemplate(data),
+    meta: { successMessage: 'Template saved', errorMessage: 'Failed to save template' },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['batch-templates'] });
+      setTemplateName('');
+    },
+  });
+
+  const deleteTemplateMutation = useMutation({
+    mutationFn: (id: number) => batchTemplateAPI.deleteTemplate(id),
+    meta: { successMessage: 'Template deleted', errorMessage: 'Failed to delete template' },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['batch-templates'] });
+      setSearchParams({}, { replace: true });
     },
   });
 
+  const handleTemplateChange = (value: string) => {
+    if (value) {
+      setSearchParams({ templateId: value }, { replace: true });
+    } else {
+      setSearchParams({}, { replace: true });
+      appliedSource.current = '';
+      applyPrefill({});
+    }
+  };
+
+  const handleSaveTemplate = () => {
+    const name = templateName.trim();
+    if (!name || !formRef.current) return;
+    const formData = new FormData(formRef.current);
+    const mode = formData.get('mode') as string;
+    if (!mode) {
+      toast.error('Please select a mode before saving a template');
+      return;
+    }
+    const schedule = normalizeSchedule(daySchedules);
+    saveTemplateMutation.mutate({
+      name,
+      software: selectedSoftwares.length > 0 ? selectedSoftwares.join(', ') : undefined,
+      mode,
+      sessionCount: parseInt(sessionCount) || undefined,
+      schedule: Object.keys(schedule).length > 0 ? schedule : undefined,
+      defaultFacultyIds: facultyIds.length > 0 ? facultyIds : undefined,
+      maxCapacity: parseInt(formData.get('maxCapacity') as string) || undefined,
+      room: (formData.get('room') as string).trim() || undefined,
+    });
+  };
+
+  const handleDeleteTemplate = async (id: number, name: string) => {
+    const confirmed = await confirm({
+      title: 'Delete Template',
+      message: `Delete the template "${name}"? Batches already created from it are not affected.`,
+      confirmLabel: 'Delete',
+      destructive: true,
+    });
+    if (confirmed) deleteTemplateMutation.mutate(id);
+  };
+
+  const handleToggleFaculty = (id: number) => {
+    setFacultyIds(prev => (prev.includes(id) ? prev.filter(facultyId => facultyId !== id) : [...prev, id]));
+  };
+
   const handleDayToggle = (day: string) => {
     setDaySchedules(prev => {
       if (prev[day]) {
@@ -103,7 +336,18 @@ export const BatchCreate: React.FC = () => {
     });
   };
 
-  const handleCreateBatch = (e: React.FormEvent<HTMLFormElement>) => {
+  const handleFormChange = (e: React.FormEvent<HTMLFormElement>) => {
+    const formData = new FormData(e.currentTarget);
+    setFormDraft({
+      startDate: formData.get('startDate') as string,
+      endDate: formData.get('endDate') as string,
+      room: formData.get('room') as string,
+      mode: formData.get('mode') as string,
+      maxCapacity: formData.get('maxCapacity') as string,
+    });
+  };
+
+  const handleCreateBatch = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     const formData = new FormData(e.currentTarget);
     
@@ -119,57 +363,59 @@ export const BatchCreate: React.FC = () => {
       startDate: formData.get('startDate') as string,
       endDate: formData.get('endDate') as string,
       maxCapacity: formData.get('maxCapacity') ? parseInt(formData.get('maxCapacity') as string) : undefined,
+      room: (formData.get('room') as string).trim() || undefined,
       status: formData.get('status') as string || 'active',
       schedule: Object.keys(daySchedules).length > 0 ? 
         Object.fromEntries(
           Object.entries(daySchedules).filter(([_, times]) => times.startTime && times.endTime)
         ) : undefined,
     };
+    // Max capacity can be lowered after students were picked
+    if (data.maxCapacity && selectedStudents.length > data.maxCapacity) {
+      toast.error(`${selectedStudents.length} students are selected but the batch only has ${data.maxCapacity} seats.`);
+      return;
+    }
+    if (
+      conflicts.length > 0 &&
+      !(await confirm({
+        title: 'Create batch despite conflicts?',
+        message: `This schedule has ${conflicts.length} scheduling conflict${conflicts.length === 1 ? '' : 's'}.`,
+        confirmLabel: 'Create anyway',
+      }))
+    ) {
+      return;
+    }
+    setFieldErrors({});
     createBatchMutation.mutate(data);
   };
 
-  const handleGetSuggestions = async () => {
-    const form = document.querySelector('form') as HTMLFormElement;
-    if (!form) return;
-    
-    const formData = new FormData(form);
+  const suggestMutation = useMutation({
+    mutationFn: (criteria: SuggestCandidatesRequest) => batchAPI.suggestCandidatesForDraft(criteria),
+    meta: { errorMessage: 'Failed to get suggestions' },
+    onSuccess: (response) => setSuggestions(response.data),
+  });
+
+  const handleGetSuggestions = () => {
     const software = selectedSoftwares.length > 0 ? selectedSoftwares.join(', ') : undefined;
-    const startDate = formData.get('startDate') as string;
-    
-    if (!software || !startDate) {
-      alert('Please select software and enter start date first to get suggestions');
+    if (!software || !formDraft.startDate) {
+      toast.error('Please select software and enter start date first to get suggestions');
       return;
     }
-
-    // Create a temporary batch to get suggestions
-    try {
-      const tempData: CreateBatchRequest = {
-        title: 'TEMP_FOR_SUGGESTIONS',
-        software,
-        mode: formData.get('mode') as string || 'online',
-        startDate,
-        endDate: formData.get('endDate') as string || startDate,
-        maxCapacity: 100,
-      };
-      
-      const tempBatch = await batchAPI.createBatch(tempData);
-      if (tempBatch.data.batch) {
-        const suggestions = await batchAPI.suggestCandidates(tempBatch.data.batch.id);
-        setSuggestedCandidates(suggestions.data.candidates);
-        setShowSuggestions(true);
-        // Delete temporary batch
-        try {
-          await batchAPI.deleteBatch(tempBatch.data.batch.id);
-        } catch (err) {
-          console.error('Failed to delete temp batch:', err);
-        }
-      }
-    } catch (error: any) {
-      alert(error.response?.data?.message || 'Failed to get suggestions');
-    }
+    const schedule = normalizeSchedule(daySchedules);
+    suggestMutation.mutate({
+      software,
+      startDate: formDraft.startDate,
+      endDate: formDraft.endDate || undefined,
+      mode: formDraft.mode || undefined,
+      schedule: Object.keys(schedule).length > 0 ? schedule : undefined,
+    });
   };
 
   const handleToggleStudent = (studentId: number) => {
+    if (!selectedStudents.includes(studentId) && capacity && selectedStudents.length >= capacity) {
+      toast.error(`The batch is full (${capacity} students). Raise the max capacity to add more.`);
+      return;
+    }
     setSelectedStudents(prev => 
       prev.includes(studentId) 
         ? prev.filter(id => id !== studentId)
@@ -177,15 +423,9 @@ export const BatchCreate: React.FC = () => {
     );
   };
 
-  const handleSelectSuggested = (candidate: SuggestedCandidate) => {
-    if (candidate.status === 'available' || candidate.status === 'fees_overdue') {
-      handleToggleStudent(candidate.studentId);
-    }
-  };
-
   const students = studentsData?.data.students || [];
 
-  if (user?.role !== 'admin' && user?.role !== 'superadmin') {
+  if (!can(Module.BATCHES, 'add')) {
     return (
       <Layout>
         <div className="max-w-7xl mx-auto">
@@ -223,7 +463,47 @@ export const BatchCreate: React.FC = () => {
           </div>
 
           <div className="p-8">
-            <form onSubmit={handleCreateBatch} className="space-y-6">
+            <div className="mb-6 p-4 bg-orange-50 border border-orange-200 rounded-lg space-y-2">
+              {sourceBatch && (
+                <p className="text-sm text-orange-900">
+                  Duplicating <span className="font-semibold">{sourceBatch.title}</span>. Pick a start date for the new run; students are not copied.
+                </p>
+              )}
+              <div className="flex flex-wrap items-center gap-3">
+                <label className="text-sm font-medium text-gray-700">Start from template</label>
+                <select
+                  value={templateId || ''}
+                  onChange={(e) => handleTemplateChange(e.target.value)}
+                  className="flex-1 min-w-[12rem] px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+                >
+                  <option value="">{templates.length > 0 ? 'No template' : 'No templates saved yet'}</option>
+                  {templates.map((template) => (
+                    <option key={template.id} value={template.id}>
+                      {template.name}
+                      {template.sessionCount ? ` · ${template.sessionCount} sessions` : ''}
+                    </option>
+                  ))}
+                </select>
+                {templateId && (
+                  <button
+                    type="button"
+                    onClick={() => handleDeleteTemplate(templateId, templates.find((template) => template.id === templateId)?.name || '')}
+                    disabled={deleteTemplateMutation.isPending}
+                    className="px-3 py-2 text-sm text-red-600 bg-white border border-red-200 rounded-md hover:bg-red-50 disabled:opacity-50"
+                  >
+                    Delete template
+                  </button>
+                )}
+              </div>
+            </div>
+
+            <form
+              key={formKey}
+              ref={formRef}
+              onSubmit={handleCreateBatch}
+              onChange={handleFormChange}
+              className="space-y-6"
+            >
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div className="md:col-span-2">
                   <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -233,9 +513,11 @@ export const BatchCreate: React.FC = () => {
                     type="text"
                     name="title"
                     required
+                    defaultValue={prefill.title}
                     placeholder="e.g., Digital Art Fundamentals - Batch 1"
                     className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent"
                   />
+                  <FieldError message={fieldErrors.title} />
                 </div>
 
                 <div className="md:col-span-2">
@@ -244,34 +526,7 @@ export const BatchCreate: React.FC = () => {
                   </label>
                   <div className="border border-gray-300 rounded-lg p-4 max-h-48 overflow-y-auto">
                     <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
-                      {[
-                        'Photoshop',
-                        'Illustrator',
-                        'InDesign',
-                        'After Effects',
-                        'Premiere Pro',
-                        'Figma',
-                        'Sketch',
-                        'Blender',
-                        'Maya',
-                        '3ds Max',
-                        'Cinema 4D',
-                        'Lightroom',
-                        'CorelDRAW',
-                        'AutoCAD',
-                        'SolidWorks',
-                        'Revit',
-                        'SketchUp',
-                        'Unity',
-                        'Unreal Engine',
-                        'DaVinci Resolve',
-                        'Final Cut Pro',
-                        'Procreate',
-                        'Affinity Designer',
-                        'Affinity Photo',
-                        'Canva Pro',
-                        'Other',
-                      ].map((software) => (
+                      {[...SOFTWARE_OPTIONS, 'Other'].map((software) => (
                         <label 
                           key={software} 
                           className="flex items-center space-x-2 cursor-pointer hover:bg-gray-50 p-2 rounded"
@@ -312,23 +567,11 @@ export const BatchCreate: React.FC = () => {
                             // Split by comma and add each software
                             const newSoftwares = value.split(',').map(s => s.trim()).filter(s => s);
                             setSelectedSoftwares(prev => {
-                              const standardSoftwares = prev.filter(s => 
-                                ['Photoshop', 'Illustrator', 'InDesign', 'After Effects', 'Premiere Pro', 
-                                 'Figma', 'Sketch', 'Blender', 'Maya', '3ds Max', 'Cinema 4D', 'Lightroom',
-                                 'CorelDRAW', 'AutoCAD', 'SolidWorks', 'Revit', 'SketchUp', 'Unity',
-                                 'Unreal Engine', 'DaVinci Resolve', 'Final Cut Pro', 'Procreate',
-                                 'Affinity Designer', 'Affinity Photo', 'Canva Pro'].includes(s)
-                              );
+                              const standardSoftwares = prev.filter(s => SOFTWARE_OPTIONS.includes(s));
                               return [...standardSoftwares, ...newSoftwares];
                             });
                           } else {
-                            setSelectedSoftwares(prev => prev.filter(s => 
-                              ['Photoshop', 'Illustrator', 'InDesign', 'After Effects', 'Premiere Pro', 
-                               'Figma', 'Sketch', 'Blender', 'Maya', '3ds Max', 'Cinema 4D', 'Lightroom',
-                               'CorelDRAW', 'AutoCAD', 'SolidWorks', 'Revit', 'SketchUp', 'Unity',
-                               'Unreal Engine', 'DaVinci Resolve', 'Final Cut Pro', 'Procreate',
-                               'Affinity Designer', 'Affinity Photo', 'Canva Pro'].includes(s)
-                            ));
+                            setSelectedSoftwares(prev => prev.filter(s => SOFTWARE_OPTIONS.includes(s)));
                           }
                         }}
                         placeholder="Enter software names (comma separated)"
@@ -341,6 +584,7 @@ export const BatchCreate: React.FC = () => {
                       Selected: {selectedSoftwares.join(', ')}
                     </p>
                   )}
+                  <FieldError message={fieldErrors.software} />
                 </div>
 
                 <div>
@@ -350,6 +594,7 @@ export const BatchCreate: React.FC = () => {
                   <select
                     name="mode"
                     required
+                    defaultValue={prefill.mode || ''}
                     className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent"
                   >
                     <option value="">Select mode</option>
@@ -357,6 +602,22 @@ export const BatchCreate: React.FC = () => {
                     <option value="offline">Offline</option>
                     <option value="hybrid">Hybrid</option>
                   </select>
+                  <FieldError message={fieldErrors.mode} />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Classroom / Lab
+                  </label>
+                  <input
+                    type="text"
+                    name="room"
+                    defaultValue={prefill.room}
+                    placeholder="e.g., Lab 2"
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                  />
+                  <FieldError message={fieldErrors.room} />
+                  <p className="mt-1 text-xs text-gray-500">Used to warn about batches booked into the same room</p>
                 </div>
 
                 <div>
@@ -369,6 +630,7 @@ export const BatchCreate: React.FC = () => {
                     required
                     className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent"
                   />
+                  <FieldError message={fieldErrors.startDate} />
                 </div>
 
                 <div>
@@ -381,6 +643,22 @@ export const BatchCreate: React.FC = () => {
                     required
                     className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent"
                   />
+                  <FieldError message={fieldErrors.endDate} />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Number of Sessions
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={sessionCount}
+                    onChange={(e) => setSessionCount(e.target.value)}
+                    placeholder="e.g., 24"
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">Fills in the end date from the start date and schedule</p>
                 </div>
 
                 <div>
@@ -391,9 +669,11 @@ export const BatchCreate: React.FC = () => {
                     type="number"
                     name="maxCapacity"
                     min="1"
+                    defaultValue={prefill.maxCapacity}
                     placeholder="e.g., 30"
                     className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent"
                   />
+                  <FieldError message={fieldErrors.maxCapacity} />
                   <p className="mt-1 text-xs text-gray-500">Maximum number of students allowed in this batch</p>
                 </div>
 
@@ -408,9 +688,32 @@ export const BatchCreate: React.FC = () => {
                     <option value="active">Active</option>
                     <option value="inactive">Inactive</option>
                   </select>
+                  <FieldError message={fieldErrors.status} />
                 </div>
               </div>
 
+              {/* Faculty Section */}
+              <div className="pt-6 border-t border-gray-200">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">Assign Faculty (Optional)</h3>
+                {faculty.length === 0 ? (
+                  <p className="text-sm text-gray-500">No faculty found.</p>
+                ) : (
+                  <div className="border border-gray-300 rounded-lg p-4 max-h-48 overflow-y-auto grid grid-cols-1 md:grid-cols-2 gap-2">
+                    {faculty.map((member) => (
+                      <label key={member.id} className="flex items-center space-x-2 cursor-pointer hover:bg-gray-50 p-2 rounded">
+                        <input
+                          type="checkbox"
+                          checked={facultyIds.includes(member.id)}
+                          onChange={() => handleToggleFaculty(member.id)}
+                          className="w-4 h-4 text-orange-600 border-gray-300 rounded focus:ring-orange-500"
+                        />
+                        <span className="text-sm text-gray-700">{member.name}</span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+
               {/* Student Selection Section */}
               <div className="pt-6 border-t border-gray-200">
                 <div className="flex justify-between items-center mb-4">
@@ -418,55 +721,26 @@ export const BatchCreate: React.FC = () => {
                   <button
                     type="button"
                     onClick={handleGetSuggestions}
-                    className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-semibold hover:bg-blue-700 transition-colors"
+                    disabled={suggestMutation.isPending}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-semibold hover:bg-blue-700 transition-colors disabled:opacity-50"
                   >
-                    Get Suggested Students
+                    {suggestMutation.isPending ? 'Finding Students...' : 'Get Suggested Students'}
                   </button>
                 </div>
                 
-                {showSuggestions && suggestedCandidates.length > 0 && (
-                  <div className="mb-4 p-4 bg-blue-50 border border-blue-200 rounded-lg">
-                    <h4 className="font-semibold text-blue-900 mb-2">Suggested Students (based on software)</h4>
-                    <div className="max-h-40 overflow-y-auto space-y-2">
-                      {suggestedCandidates.map((candidate) => (
-                        <div
-                          key={candidate.studentId}
-                          className={`p-2 rounded border cursor-pointer ${
-                            candidate.status === 'available' 
-                              ? 'bg-green-50 border-green-300 hover:bg-green-100' 
-                              : candidate.status === 'fees_overdue'
-                              ? 'bg-yellow-50 border-yellow-300 hover:bg-yellow-100'
-                              : 'bg-gray-50 border-gray-300 opacity-50'
-                          }`}
-                          onClick={() => handleSelectSuggested(candidate)}
-                        >
-                          <div className="flex items-center justify-between">
-                            <div>
-                              <span className="font-medium">{candidate.name}</span>
-                              <span className="text-xs text-gray-600 ml-2">({candidate.email})</span>
-                            </div>
-                            <div className="flex items-center gap-2">
-                              <span className={`text-xs px-2 py-1 rounded ${
-                                candidate.status === 'available' 
-                                  ? 'bg-green-200 text-green-800'
-                                  : candidate.status === 'fees_overdue'
-                                  ? 'bg-yellow-200 text-yellow-800'
-                                  : 'bg-gray-200 text-gray-800'
-                              }`}>
-                                {candidate.statusMessage}
-                              </span>
-                              <input
-                                type="checkbox"
-                                checked={selectedStudents.includes(candidate.studentId)}
-                                onChange={() => handleToggleStudent(candidate.studentId)}
-                                disabled={candidate.status === 'busy'}
-                                className="w-4 h-4 text-orange-600 border-gray-300 rounded focus:ring-orange-500"
-                              />
-                            </div>
-                          </div>
-                        </div>
-                      ))}
-                    </div>
+                {suggestions && (
+                  <div className="mb-4">
+                    {suggestions.candidates.length > 0 ? (
+                      <CandidatePicker
+                        candidates={suggestions.candidates}
+                        summary={suggestions.summary}
+                        selectedIds={selectedStudents}
+                        onChange={setSelectedStudents}
+                        capacity={capacity}
+                      />
+                    ) : (
+                      <p className="text-sm text-gray-500">No students match this software and schedule.</p>
+                    )}
                   </div>
                 )}
 
@@ -493,6 +767,7 @@ export const BatchCreate: React.FC = () => {
                   {selectedStudents.length > 0 && (
                     <p className="mt-2 text-sm text-gray-600">
                       {selectedStudents.length} student(s) selected
+                      {capacity ? ` of ${capacity} seats` : ''}
                     </p>
                   )}
                 </div>
@@ -569,9 +844,36 @@ export const BatchCreate: React.FC = () => {
                     );
                   })}
                 </div>
+
+                <div className="mt-4 space-y-2">
+                  <ScheduleConflictList conflicts={conflicts} isChecking={isChecking} />
+                  {facultyIds.length === 0 && (
+                    <p className="text-xs text-gray-500">
+                      Only rooms and holidays are checked until faculty are assigned; then their other classes and leaves are checked too.
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-3 pt-6 border-t border-gray-200">
+                <input
+                  type="text"
+                  value={templateName}
+                  onChange={(e) => setTemplateName(e.target.value)}
+                  placeholder="Template name, e.g. Photoshop Weekday Evenings"
+                  className="flex-1 min-w-[12rem] px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+                />
+                <button
+                  type="button"
+                  onClick={handleSaveTemplate}
+                  disabled={!templateName.trim() || saveTemplateMutation.isPending}
+                  className="px-4 py-2 bg-white text-orange-600 border border-orange-300 rounded-md font-semibold hover:bg-orange-50 transition-colors disabled:opacity-50"
+                >
+                  {saveTemplateMutation.isPending ? 'Saving...' : 'Save as Template'}
+                </button>
               </div>
 
-              <div className="flex gap-4 pt-6 border-t border-gray-200">
+              <div className="flex gap-4">
                 <button
                   type="submit"
                   disabled={createBatchMutation.isPending}
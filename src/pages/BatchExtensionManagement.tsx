@@ -1,16 +1,23 @@
 import React, { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '../context/AuthContext';
+import { usePermissions } from '../context/PermissionContext';
 import { Layout } from '../components/Layout';
+import { GenerateSessionsModal } from '../components/GenerateSessionsModal';
 import { batchExtensionAPI, BatchExtension, ExtensionStatus, CreateExtensionRequest } from '../api/batchExtension.api';
 import { batchAPI } from '../api/batch.api';
+import { Module } from '../api/permission.api';
+import { toast } from '../context/NotificationContext';
 
 export const BatchExtensionManagement: React.FC = () => {
   const { user } = useAuth();
+  const { can } = usePermissions();
   const queryClient = useQueryClient();
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [selectedExtension, setSelectedExtension] = useState<BatchExtension | null>(null);
   const [isApproveModalOpen, setIsApproveModalOpen] = useState(false);
+  // Approved extension whose extra sessions are being planned
+  const [replanExtension, setReplanExtension] = useState<BatchExtension | null>(null);
 
   // Fetch extensions
   const { data: extensionsData, isLoading } = useQuery({
@@ -26,22 +33,25 @@ export const BatchExtensionManagement: React.FC = () => {
 
   const createExtensionMutation = useMutation({
     mutationFn: (data: CreateExtensionRequest) => batchExtensionAPI.createExtension(data),
+    meta: { successMessage: 'Extension request created successfully!' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['batch-extensions'] });
       setIsCreateModalOpen(false);
-      alert('Extension request created successfully!');
     },
   });
 
   const approveExtensionMutation = useMutation({
     mutationFn: ({ id, approve, rejectionReason }: { id: number; approve: boolean; rejectionReason?: string }) =>
       batchExtensionAPI.approveExtension(id, { approve, rejectionReason }),
-    onSuccess: () => {
+    meta: { successMessage: 'Extension request processed successfully!' },
+    onSuccess: (_, { approve }) => {
       queryClient.invalidateQueries({ queryKey: ['batch-extensions'] });
       queryClient.invalidateQueries({ queryKey: ['batches'] });
+      if (approve && selectedExtension && can(Module.SESSIONS, 'add')) {
+        setReplanExtension(selectedExtension);
+      }
       setIsApproveModalOpen(false);
       setSelectedExtension(null);
-      alert('Extension request processed successfully!');
     },
   });
 
@@ -88,7 +98,7 @@ export const BatchExtensionManagement: React.FC = () => {
                 <h1 className="text-3xl font-bold text-white">Batch Extension Management</h1>
                 <p className="mt-2 text-orange-100">Request and manage batch time extensions</p>
               </div>
-              {(user?.role === 'admin' || user?.role === 'superadmin') && (
+              {can(Module.BATCH_EXTENSIONS, 'add') && (
                 <button
                   onClick={() => setIsCreateModalOpen(true)}
                   className="px-4 py-2 bg-white text-orange-600 rounded-lg font-semibold hover:bg-orange-50 transition-colors"
@@ -210,6 +220,15 @@ export const BatchExtensionManagement: React.FC = () => {
           onSubmit={handleSubmitApprove}
         />
       )}
+
+      {/* Plan the extra sessions of a just-approved extension */}
+      {replanExtension && batches.some((batch) => batch.id === replanExtension.batchId) && (
+        <GenerateSessionsModal
+          batch={batches.find((batch) => batch.id === replanExtension.batchId)!}
+          extension={replanExtension}
+          onClose={() => setReplanExtension(null)}
+        />
+      )}
     </Layout>
   );
 };
@@ -231,7 +250,7 @@ const CreateExtensionModal: React.FC<{
     if (formData.batchId && formData.numberOfSessions > 0) {
       onSubmit(formData);
     } else {
-      alert('Please fill in all required fields');
+      toast.error('Please fill in all required fields');
     }
   };
 
@@ -1,11 +1,16 @@
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { useAuth } from '../context/AuthContext';
+import { usePermissions } from '../context/PermissionContext';
+import { useConfirm } from '../context/NotificationContext';
+import { Module } from '../api/permission.api';
 import { Layout } from '../components/Layout';
+import { ScheduleConflictList, useScheduleConflicts } from '../components/ScheduleConflicts';
+import { GenerateSessionsModal } from '../components/GenerateSessionsModal';
+import { BatchWaitlistModal } from '../components/BatchWaitlistModal';
 import { batchAPI, Batch, UpdateBatchRequest } from '../api/batch.api';
-
-const DAYS_OF_WEEK = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+import { DAYS_OF_WEEK, normalizeSchedule } from '../types/schedule.types';
+import { formatSeats, getBatchSeats } from '../types/capacity.types';
 
 interface DaySchedule {
   startTime: string;
@@ -13,15 +18,19 @@ interface DaySchedule {
 }
 
 export const BatchManagement: React.FC = () => {
-  const { user } = useAuth();
+  const { can } = usePermissions();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
+  const confirm = useConfirm();
   const [selectedBatch, setSelectedBatch] = useState<Batch | null>(null);
   const [isViewModalOpen, setIsViewModalOpen] = useState(false);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
-  const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
   const [daySchedules, setDaySchedules] = useState<Record<string, DaySchedule>>({});
   const [applyToAll, setApplyToAll] = useState(false);
+  // Edit form fields the conflict check needs; the rest of the form is read on submit
+  const [scheduleDraft, setScheduleDraft] = useState({ startDate: '', endDate: '', room: '' });
+  const [generateBatch, setGenerateBatch] = useState<Batch | null>(null);
+  const [waitlistBatch, setWaitlistBatch] = useState<Batch | null>(null);
 
   // Fetch batches
   const { data: batchesData, isLoading } = useQuery({
@@ -31,29 +40,21 @@ export const BatchManagement: React.FC = () => {
 
   const updateBatchMutation = useMutation({
     mutationFn: ({ id, data }: { id: number; data: UpdateBatchRequest }) => batchAPI.updateBatch(id, data),
+    meta: { successMessage: 'Batch updated successfully!', errorMessage: 'Failed to update batch' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['batches'] });
       setIsEditModalOpen(false);
       setSelectedBatch(null);
       setDaySchedules({});
       setApplyToAll(false);
-      alert('Batch updated successfully!');
-    },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to update batch');
     },
   });
 
   const deleteBatchMutation = useMutation({
     mutationFn: (id: number) => batchAPI.deleteBatch(id),
+    meta: { successMessage: 'Batch deleted successfully!', errorMessage: 'Failed to delete batch' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['batches'] });
-      setIsDeleteModalOpen(false);
-      setSelectedBatch(null);
-      alert('Batch deleted successfully!');
-    },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to delete batch');
     },
   });
 
@@ -64,8 +65,22 @@ export const BatchManagement: React.FC = () => {
     setIsViewModalOpen(true);
   };
 
+  const { conflicts, isChecking } = useScheduleConflicts(
+    isEditModalOpen && selectedBatch
+      ? {
+          batch: {
+            ...scheduleDraft,
+            batchId: selectedBatch.id,
+            schedule: normalizeSchedule(daySchedules),
+            facultyIds: (selectedBatch.assignedFaculty || []).map((member) => member.id),
+          },
+        }
+      : null
+  );
+
   const handleEdit = (batch: Batch) => {
     setSelectedBatch(batch);
+    setScheduleDraft({ startDate: batch.startDate.split('T')[0], endDate: batch.endDate.split('T')[0], room: batch.room || '' });
     setDaySchedules(batch.schedule || {});
     setApplyToAll(false);
     setIsEditModalOpen(true);
@@ -110,18 +125,33 @@ export const BatchManagement: React.FC = () => {
     });
   };
 
-  const handleDelete = (batch: Batch) => {
-    setSelectedBatch(batch);
-    setIsDeleteModalOpen(true);
+  const handleDelete = async (batch: Batch) => {
+    const confirmed = await confirm({
+      title: 'Delete Batch',
+      message: (
+        <>
+          Are you sure you want to delete <strong>{batch.title}</strong>? This action cannot be undone.
+        </>
+      ),
+      confirmLabel: 'Delete',
+      destructive: true,
+      typedConfirmation: batch.title,
+    });
+    if (confirmed) {
+      deleteBatchMutation.mutate(batch.id);
+    }
   };
 
-  const handleConfirmDelete = () => {
-    if (selectedBatch) {
-      deleteBatchMutation.mutate(selectedBatch.id);
-    }
+  const handleEditFormChange = (e: React.FormEvent<HTMLFormElement>) => {
+    const formData = new FormData(e.currentTarget);
+    setScheduleDraft({
+      startDate: formData.get('startDate') as string,
+      endDate: formData.get('endDate') as string,
+      room: formData.get('room') as string,
+    });
   };
 
-  const handleUpdateBatch = (e: React.FormEvent<HTMLFormElement>) => {
+  const handleUpdateBatch = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     if (!selectedBatch) return;
 
@@ -133,12 +163,23 @@ export const BatchManagement: React.FC = () => {
       startDate: formData.get('startDate') as string || undefined,
       endDate: formData.get('endDate') as string || undefined,
       maxCapacity: formData.get('maxCapacity') ? parseInt(formData.get('maxCapacity') as string) : undefined,
+      room: (formData.get('room') as string).trim(),
       status: formData.get('status') as string || undefined,
       schedule: Object.keys(daySchedules).length > 0 ? 
         Object.fromEntries(
           Object.entries(daySchedules).filter(([_, times]) => times.startTime && times.endTime)
         ) : undefined,
     };
+    if (
+      conflicts.length > 0 &&
+      !(await confirm({
+        title: 'Save batch despite conflicts?',
+        message: `This schedule has ${conflicts.length} scheduling conflict${conflicts.length === 1 ? '' : 's'}.`,
+        confirmLabel: 'Save anyway',
+      }))
+    ) {
+      return;
+    }
     updateBatchMutation.mutate({ id: selectedBatch.id, data });
   };
 
@@ -164,7 +205,7 @@ export const BatchManagement: React.FC = () => {
                 <h1 className="text-3xl font-bold text-white">Batch Management</h1>
                 <p className="mt-2 text-orange-100">Manage training batches</p>
               </div>
-              {(user?.role === 'admin' || user?.role === 'superadmin') && (
+              {can(Module.BATCHES, 'add') && (
                 <button
                   onClick={() => navigate('/batches/create')}
                   className="px-4 py-2 bg-white text-orange-600 rounded-lg font-semibold hover:bg-orange-50 transition-colors"
@@ -199,11 +240,9 @@ export const BatchManagement: React.FC = () => {
                     <p className="text-sm text-gray-600 mb-2">
                       <span className="font-medium">End:</span> {new Date(batch.endDate).toLocaleDateString()}
                     </p>
-                    {batch.maxCapacity && (
-                      <p className="text-sm text-gray-600 mb-2">
-                        <span className="font-medium">Capacity:</span> {batch.maxCapacity}
-                      </p>
-                    )}
+                    <p className={`text-sm mb-2 ${getBatchSeats(batch).isFull ? 'text-red-600' : 'text-gray-600'}`}>
+                      <span className="font-medium">Seats:</span> {formatSeats(getBatchSeats(batch))}
+                    </p>
                     {batch.status && (
                       <span className={`inline-block px-2 py-1 rounded text-xs font-semibold ${
                         batch.status === 'active' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
@@ -219,23 +258,48 @@ export const BatchManagement: React.FC = () => {
                       >
                         👁️ View
                       </button>
-                      {(user?.role === 'admin' || user?.role === 'superadmin') && (
-                        <>
-                          <button
-                            onClick={() => handleEdit(batch)}
-                            className="px-3 py-1 bg-orange-500 text-white rounded text-sm hover:bg-orange-600 transition-colors"
-                            title="Edit Batch"
-                          >
-                            ✏️ Edit
-                          </button>
-                          <button
-                            onClick={() => handleDelete(batch)}
-                            className="px-3 py-1 bg-red-500 text-white rounded text-sm hover:bg-red-600 transition-colors"
-                            title="Delete Batch"
-                          >
-                            🗑️ Delete
-                          </button>
-                        </>
+                      {can(Module.BATCHES, 'edit') && (
+                        <button
+                          onClick={() => handleEdit(batch)}
+                          className="px-3 py-1 bg-orange-500 text-white rounded text-sm hover:bg-orange-600 transition-colors"
+                          title="Edit Batch"
+                        >
+                          ✏️ Edit
+                        </button>
+                      )}
+                      <button
+                        onClick={() => setWaitlistBatch(batch)}
+                        className="px-3 py-1 bg-purple-500 text-white rounded text-sm hover:bg-purple-600 transition-colors"
+                        title="Seats and waitlist"
+                      >
+                        🪑 Seats
+                      </button>
+                      {can(Module.SESSIONS, 'add') && (
+                        <button
+                          onClick={() => setGenerateBatch(batch)}
+                          className="px-3 py-1 bg-green-600 text-white rounded text-sm hover:bg-green-700 transition-colors"
+                          title="Generate sessions from the schedule"
+                        >
+                          📅 Generate Sessions
+                        </button>
+                      )}
+                      {can(Module.BATCHES, 'add') && (
+                        <button
+                          onClick={() => navigate(`/batches/create?from=${batch.id}`)}
+                          className="px-3 py-1 bg-gray-500 text-white rounded text-sm hover:bg-gray-600 transition-colors"
+                          title="Duplicate Batch"
+                        >
+                          ⧉ Duplicate
+                        </button>
+                      )}
+                      {can(Module.BATCHES, 'delete') && (
+                        <button
+                          onClick={() => handleDelete(batch)}
+                          className="px-3 py-1 bg-red-500 text-white rounded text-sm hover:bg-red-600 transition-colors"
+                          title="Delete Batch"
+                        >
+                          🗑️ Delete
+                        </button>
                       )}
                     </div>
                   </div>
@@ -246,6 +310,10 @@ export const BatchManagement: React.FC = () => {
         </div>
       </div>
 
+      {generateBatch && <GenerateSessionsModal batch={generateBatch} onClose={() => setGenerateBatch(null)} />}
+
+      {waitlistBatch && <BatchWaitlistModal batch={waitlistBatch} onClose={() => setWaitlistBatch(null)} />}
+
       {/* View Batch Modal */}
       {isViewModalOpen && selectedBatch && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -295,6 +363,12 @@ export const BatchManagement: React.FC = () => {
                   <p className="mt-1 text-sm text-gray-900">{selectedBatch.maxCapacity}</p>
                 </div>
               )}
+              {selectedBatch.room && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Classroom / Lab</label>
+                  <p className="mt-1 text-sm text-gray-900">{selectedBatch.room}</p>
+                </div>
+              )}
               {selectedBatch.status && (
                 <div>
                   <label className="block text-sm font-medium text-gray-700">Status</label>
@@ -320,12 +394,12 @@ export const BatchManagement: React.FC = () => {
                   </div>
                 </div>
               )}
-              {selectedBatch.enrollments && selectedBatch.enrollments.length > 0 && (
-                <div>
-                  <label className="block text-sm font-medium text-gray-700">Enrolled Students</label>
-                  <p className="mt-1 text-sm text-gray-900">{selectedBatch.enrollments.length}</p>
-                </div>
-              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Seats</label>
+                <p className="mt-1 text-sm text-gray-900">
+                  {formatSeats(getBatchSeats(selectedBatch))}
+                </p>
+              </div>
               {selectedBatch.assignedFaculty && selectedBatch.assignedFaculty.length > 0 && (
                 <div>
                   <label className="block text-sm font-medium text-gray-700">Assigned Faculty</label>
@@ -363,7 +437,7 @@ export const BatchManagement: React.FC = () => {
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white rounded-lg p-6 max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
             <h2 className="text-2xl font-bold mb-4">Edit Batch</h2>
-            <form onSubmit={handleUpdateBatch}>
+            <form onSubmit={handleUpdateBatch} onChange={handleEditFormChange}>
               <div className="space-y-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Title *</label>
@@ -398,6 +472,16 @@ export const BatchManagement: React.FC = () => {
                     <option value="hybrid">Hybrid</option>
                   </select>
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Classroom / Lab</label>
+                  <input
+                    type="text"
+                    name="room"
+                    defaultValue={selectedBatch.room || ''}
+                    placeholder="e.g., Lab 2"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+                  />
+                </div>
                 <div className="grid grid-cols-2 gap-4">
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">Start Date *</label>
@@ -515,6 +599,10 @@ export const BatchManagement: React.FC = () => {
                     );
                   })}
                 </div>
+
+                <div className="mt-4">
+                  <ScheduleConflictList conflicts={conflicts} isChecking={isChecking} />
+                </div>
               </div>
 
               <div className="flex gap-3 mt-6">
@@ -542,36 +630,6 @@ export const BatchManagement: React.FC = () => {
           </div>
         </div>
       )}
-
-      {/* Delete Confirmation Modal */}
-      {isDeleteModalOpen && selectedBatch && (
-        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
-            <h2 className="text-2xl font-bold mb-4 text-red-600">Delete Batch</h2>
-            <p className="mb-4 text-gray-700">
-              Are you sure you want to delete <strong>{selectedBatch.title}</strong>? This action cannot be undone.
-            </p>
-            <div className="flex gap-3">
-              <button
-                onClick={handleConfirmDelete}
-                disabled={deleteBatchMutation.isPending}
-                className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg font-semibold hover:bg-red-700 transition-colors disabled:opacity-50"
-              >
-                {deleteBatchMutation.isPending ? 'Deleting...' : 'Delete'}
-              </button>
-              <button
-                onClick={() => {
-                  setIsDeleteModalOpen(false);
-                  setSelectedBatch(null);
-                }}
-                className="flex-1 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg font-semibold hover:bg-gray-300 transition-colors"
-              >
-                Cancel
-              </button>
-            </div>
-          </div>
-        </div>
-      )}
     </Layout>
   );
 };
@@ -1,31 +1,41 @@
 import React, { useState } from 'react';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
-import type { AxiosError } from 'axios';
 import { batchProgressAPI, BatchProgress } from '../api/batchProgress.api';
 import { Layout } from '../components/Layout';
+import { useDataTableState } from '../components/DataTable';
 import { userAPI, UserRole, User } from '../api/user.api';
 import { batchAPI } from '../api/batch.api';
-import { useAuth } from '../context/AuthContext';
+import { usePermissions } from '../context/PermissionContext';
+import { Module } from '../api/permission.api';
+import { toast } from '../context/NotificationContext';
+import { getErrorMessage } from '../api/response';
 
 export const BatchProgressList: React.FC = () => {
-  const [searchQuery, setSearchQuery] = useState('');
-  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const { state: listState, update: updateListState } = useDataTableState();
+  const debouncedSearch = listState.search;
+  const [searchQuery, setSearchQuery] = useState(debouncedSearch);
   const [isAllocateModalOpen, setIsAllocateModalOpen] = useState(false);
   const [selectedBatch, setSelectedBatch] = useState<BatchProgress | null>(null);
   const [selectedFacultyIds, setSelectedFacultyIds] = useState<number[]>([]);
   const [facultySearch, setFacultySearch] = useState('');
 
   const queryClient = useQueryClient();
-  const { user } = useAuth();
-  const isAdmin = user?.role === 'admin' || user?.role === 'superadmin';
+  const { can } = usePermissions();
+  const canAllocateFaculty = can(Module.BATCHES, 'edit');
 
-  // Debounce search query
+  // Follow the URL when it changes from outside the search box (back button, saved links)
   React.useEffect(() => {
+    setSearchQuery(debouncedSearch);
+  }, [debouncedSearch]);
+
+  // Debounce search query into the URL
+  React.useEffect(() => {
+    if (searchQuery.trim() === debouncedSearch) return;
     const timer = setTimeout(() => {
-      setDebouncedSearch(searchQuery);
+      updateListState({ search: searchQuery });
     }, 300);
     return () => clearTimeout(timer);
-  }, [searchQuery]);
+  }, [searchQuery, debouncedSearch, updateListState]);
 
   const { data, isLoading, isError, error } = useQuery({
     queryKey: ['batch-progress', debouncedSearch],
@@ -50,6 +60,8 @@ export const BatchProgressList: React.FC = () => {
   const assignFacultyMutation = useMutation({
     mutationFn: ({ batchId, facultyIds }: { batchId: number; facultyIds: number[] }) =>
       batchAPI.assignFaculty(batchId, facultyIds),
+    // The allocation modal shows the error inline
+    meta: { errorMessage: false },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['batch-progress'] });
       setIsAllocateModalOpen(false);
@@ -69,7 +81,7 @@ export const BatchProgressList: React.FC = () => {
       document.body.removeChild(link);
       window.URL.revokeObjectURL(url);
     } catch (err) {
-      alert('Failed to export CSV. Please try again.');
+      toast.error('Failed to export CSV. Please try again.');
       console.error('CSV export error:', err);
     }
   };
@@ -83,7 +95,7 @@ export const BatchProgressList: React.FC = () => {
       // Create a printable HTML content
       const printWindow = window.open('', '_blank');
       if (!printWindow) {
-        alert('Please allow popups to export PDF');
+        toast.error('Please allow popups to export PDF');
         return;
       }
 
@@ -154,7 +166,7 @@ export const BatchProgressList: React.FC = () => {
         printWindow.print();
       }, 250);
     } catch (err) {
-      alert('Failed to export PDF. Please try again.');
+      toast.error('Failed to export PDF. Please try again.');
       console.error('PDF export error:', err);
     }
   };
@@ -234,14 +246,7 @@ export const BatchProgressList: React.FC = () => {
   };
 
   const allocationErrorMessage = assignFacultyMutation.error
-    ? (() => {
-        const maybeAxiosError = assignFacultyMutation.error as AxiosError<{ message?: string }>;
-        return (
-          maybeAxiosError.response?.data?.message ||
-          maybeAxiosError.message ||
-          'Failed to update allocation'
-        );
-      })()
+    ? getErrorMessage(assignFacultyMutation.error, 'Failed to update allocation')
     : null;
 
   return (
@@ -365,7 +370,7 @@ export const BatchProgressList: React.FC = () => {
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Faculty
                     </th>
-                    {isAdmin && (
+                    {canAllocateFaculty && (
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                         Allocation
                       </th>
@@ -434,7 +439,7 @@ export const BatchProgressList: React.FC = () => {
                           )}
                         </div>
                       </td>
-                      {isAdmin && (
+                      {canAllocateFaculty && (
                         <td className="px-6 py-4 whitespace-nowrap">
                           <button
                             onClick={() => handleOpenAllocateModal(batch)}
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { Location, useLocation, useNavigate } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import { authAPI } from '../api/auth.api';
+import { Layout } from '../components/Layout';
+import { PasswordStrengthMeter } from '../components/PasswordStrengthMeter';
+import { isPasswordValid } from '../types/password.types';
+import { getHomePath } from '../types/route.types';
+import { toast } from '../context/NotificationContext';
+import { getErrorMessage } from '../api/response';
+
+export const ChangePassword: React.FC = () => {
+  const { user, refreshUser } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const isForced = !!user?.mustChangePassword;
+  // Set when the route guard sent a first-login user here from another page
+  const from = (location.state as { from?: Location } | null)?.from;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!isPasswordValid(newPassword)) {
+      setError('Please choose a password that meets all the requirements');
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setError('New passwords do not match');
+      return;
+    }
+    if (newPassword === currentPassword) {
+      setError('New password must be different from the current one');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await authAPI.changePassword(currentPassword, newPassword);
+      await refreshUser();
+      toast.success('Password changed successfully!');
+      navigate(from ? `${from.pathname}${from.search}${from.hash}` : getHomePath(user?.role), { replace: true });
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to change password. Please try again.'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="max-w-lg mx-auto">
+        <div className="bg-white shadow-xl rounded-lg p-8">
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Change Password</h1>
+          {isForced ? (
+            <p className="mb-6 p-3 bg-yellow-50 border border-yellow-300 text-yellow-800 rounded-lg text-sm">
+              Your account was created with a temporary password. Please choose a new password to continue.
+            </p>
+          ) : (
+            <p className="text-gray-600 mb-6">Choose a strong password you don't use anywhere else.</p>
+          )}
+
+          {error && <div className="mb-4 p-3 bg-red-50 border border-red-300 text-red-700 rounded-lg text-sm">{error}</div>}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {isForced ? 'Temporary Password' : 'Current Password'}
+              </label>
+              <input
+                type="password"
+                value={currentPassword}
+                onChange={(e) => setCurrentPassword(e.target.value)}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">New Password</label>
+              <input
+                type="password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+              />
+              <PasswordStrengthMeter password={newPassword} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Confirm New Password</label>
+              <input
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full px-4 py-2 bg-orange-600 text-white rounded-lg font-semibold hover:bg-orange-700 transition-colors disabled:opacity-50"
+            >
+              {loading ? 'Saving...' : 'Change Password'}
+            </button>
+          </form>
+        </div>
+      </div>
+    </Layout>
+  );
+};
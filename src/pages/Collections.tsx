@@ -2,6 +2,8 @@ import React, { useMemo, useState } from 'react';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { paymentAPI, PaymentStatus, Payment } from '../api/payment.api';
 import { userAPI, User, UserRole } from '../api/user.api';
+import { Layout } from '../components/Layout';
+import { useDataTableState } from '../components/DataTable';
 
 const formatCurrency = (value: number | string) =>
   `₹${Number(value || 0).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
@@ -14,8 +16,13 @@ const getOutstanding = (payment: Payment) => {
 
 export const Collections: React.FC = () => {
   const queryClient = useQueryClient();
-  const [statusFilter, setStatusFilter] = useState<'all' | PaymentStatus>(PaymentStatus.PENDING);
-  const [studentFilter, setStudentFilter] = useState<number | ''>('');
+  const filterState = useDataTableState({
+    filterIds: ['status', 'studentId'],
+    defaultFilters: { status: PaymentStatus.PENDING },
+  });
+  const statusFilter = filterState.state.filters.status as '' | PaymentStatus;
+  const studentFilter = Number(filterState.state.filters.studentId) || '';
+  const setFilter = (id: 'status' | 'studentId', value: string) => filterState.update({ filters: { [id]: value } });
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [paymentToRecord, setPaymentToRecord] = useState<Payment | null>(null);
 
@@ -38,8 +45,8 @@ export const Collections: React.FC = () => {
     queryKey: ['collections-payments', statusFilter, studentFilter],
     queryFn: () =>
       paymentAPI.getAllPayments({
-        status: statusFilter === 'all' ? undefined : statusFilter,
-        studentId: studentFilter ? Number(studentFilter) : undefined,
+        status: statusFilter || undefined,
+        studentId: studentFilter || undefined,
       }),
   });
 
@@ -85,117 +92,116 @@ export const Collections: React.FC = () => {
   const paidPayments = payments.filter((payment) => payment.status === PaymentStatus.PAID);
 
   return (
-    <div className="p-6 space-y-6">
-      <div className="bg-gradient-to-r from-orange-500 to-orange-600 rounded-2xl shadow-xl p-6 text-white flex flex-col md:flex-row md:items-center md:justify-between gap-4">
-        <div>
-          <h1 className="text-3xl font-bold mb-1">Collections & Payments</h1>
-          <p className="text-orange-100">Track EMI plans, pending dues, and receipts</p>
-        </div>
-        <div className="flex flex-wrap gap-3">
-          <button
-            onClick={() => setShowCreateModal(true)}
-            className="px-5 py-2 bg-white text-orange-600 rounded-lg font-semibold hover:bg-orange-50 transition-colors"
-          >
-            + Add EMI / Payment Plan
-          </button>
+    <Layout>
+      <div className="p-6 space-y-6">
+        <div className="bg-gradient-to-r from-orange-500 to-orange-600 rounded-2xl shadow-xl p-6 text-white flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold mb-1">Collections & Payments</h1>
+            <p className="text-orange-100">Track EMI plans, pending dues, and receipts</p>
+          </div>
+          <div className="flex flex-wrap gap-3">
+            <button
+              onClick={() => setShowCreateModal(true)}
+              className="px-5 py-2 bg-white text-orange-600 rounded-lg font-semibold hover:bg-orange-50 transition-colors"
+            >
+              + Add EMI / Payment Plan
+            </button>
+          </div>
         </div>
-      </div>
 
-      {/* Summary */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-        <SummaryCard title="Total Scheduled" value={formatCurrency(summary.totalAmount)} sub="All EMI plans" color="from-indigo-500 to-indigo-600" />
-        <SummaryCard title="Collected" value={formatCurrency(summary.paidAmount)} sub={`${summary.paidCount} payments`} color="from-green-500 to-green-600" />
-        <SummaryCard
-          title="Outstanding"
-          value={formatCurrency(summary.pendingAmount)}
-          sub={`${summary.pendingCount + summary.partialCount} pending/partial`}
-          color="from-red-500 to-orange-600"
-        />
-      </div>
-
-      {/* Filters */}
-      <div className="bg-white rounded-xl shadow border border-gray-200 p-4 grid grid-cols-1 md:grid-cols-3 gap-4">
-        <div>
-          <label className="block text-sm font-medium text-gray-600 mb-1">Status</label>
-          <select
-            value={statusFilter}
-            onChange={(e) => setStatusFilter(e.target.value as 'all' | PaymentStatus)}
-            className="w-full border border-gray-300 rounded-lg px-3 py-2"
-          >
-            <option value="all">All</option>
-            <option value={PaymentStatus.PENDING}>Pending</option>
-            <option value={PaymentStatus.PARTIAL}>Partial</option>
-            <option value={PaymentStatus.PAID}>Paid</option>
-          </select>
-        </div>
-        <div>
-          <label className="block text-sm font-medium text-gray-600 mb-1">Student</label>
-          <select
-            value={studentFilter}
-            onChange={(e) => setStudentFilter(e.target.value ? Number(e.target.value) : '')}
-            className="w-full border border-gray-300 rounded-lg px-3 py-2"
-          >
-            <option value="">All Students</option>
-            {students.map((student: User) => (
-              <option key={student.id} value={student.id}>
-                {student.name}
-              </option>
-            ))}
-          </select>
-        </div>
-        <div className="flex items-end">
-          <button
-            onClick={() => {
-              setStatusFilter(PaymentStatus.PENDING);
-              setStudentFilter('');
-            }}
-            className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm font-medium hover:bg-gray-50"
-          >
-            Reset Filters
-          </button>
+        {/* Summary */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <SummaryCard title="Total Scheduled" value={formatCurrency(summary.totalAmount)} sub="All EMI plans" color="from-indigo-500 to-indigo-600" />
+          <SummaryCard title="Collected" value={formatCurrency(summary.paidAmount)} sub={`${summary.paidCount} payments`} color="from-green-500 to-green-600" />
+          <SummaryCard
+            title="Outstanding"
+            value={formatCurrency(summary.pendingAmount)}
+            sub={`${summary.pendingCount + summary.partialCount} pending/partial`}
+            color="from-red-500 to-orange-600"
+          />
         </div>
-      </div>
 
-      {/* Tables */}
-      {isLoading ? (
-        <div className="bg-white rounded-xl shadow border border-gray-200 p-12 text-center">
-          <div className="inline-block animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600"></div>
-          <p className="mt-4 text-gray-600">Loading payments...</p>
-        </div>
-      ) : isError ? (
-        <div className="bg-red-50 border border-red-200 rounded-xl p-6 text-red-700">Failed to load payments. Please try again.</div>
-      ) : (
-        <div className="space-y-6">
-          <PaymentSection
-            title="Pending & Partial Payments"
-            payments={pendingPayments}
-            emptyMessage="All payments are cleared!"
-            onRecordPayment={(payment) => setPaymentToRecord(payment)}
-          />
-          <PaymentSection title="Paid Payments" payments={paidPayments} emptyMessage="No payments recorded yet." />
+        {/* Filters */}
+        <div className="bg-white rounded-xl shadow border border-gray-200 p-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-600 mb-1">Status</label>
+            <select
+              value={statusFilter}
+              onChange={(e) => setFilter('status', e.target.value)}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2"
+            >
+              <option value="">All</option>
+              <option value={PaymentStatus.PENDING}>Pending</option>
+              <option value={PaymentStatus.PARTIAL}>Partial</option>
+              <option value={PaymentStatus.PAID}>Paid</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-600 mb-1">Student</label>
+            <select
+              value={studentFilter}
+              onChange={(e) => setFilter('studentId', e.target.value)}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2"
+            >
+              <option value="">All Students</option>
+              {students.map((student: User) => (
+                <option key={student.id} value={student.id}>
+                  {student.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-end">
+            <button
+              onClick={() => filterState.update({ filters: { status: PaymentStatus.PENDING, studentId: '' } })}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm font-medium hover:bg-gray-50"
+            >
+              Reset Filters
+            </button>
+          </div>
         </div>
-      )}
 
-      {showCreateModal && (
-        <CreatePaymentModal
-          students={students}
-          onClose={() => setShowCreateModal(false)}
-          onSubmit={(data) => createPaymentMutation.mutate(data)}
-          isLoading={createPaymentMutation.isPending}
-        />
-      )}
+        {/* Tables */}
+        {isLoading ? (
+          <div className="bg-white rounded-xl shadow border border-gray-200 p-12 text-center">
+            <div className="inline-block animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600"></div>
+            <p className="mt-4 text-gray-600">Loading payments...</p>
+          </div>
+        ) : isError ? (
+          <div className="bg-red-50 border border-red-200 rounded-xl p-6 text-red-700">Failed to load payments. Please try again.</div>
+        ) : (
+          <div className="space-y-6">
+            <PaymentSection
+              title="Pending & Partial Payments"
+              payments={pendingPayments}
+              emptyMessage="All payments are cleared!"
+              onRecordPayment={(payment) => setPaymentToRecord(payment)}
+            />
+            <PaymentSection title="Paid Payments" payments={paidPayments} emptyMessage="No payments recorded yet." />
+          </div>
+        )}
 
-      {paymentToRecord && (
-        <RecordPaymentModal
-          payment={paymentToRecord}
-          onClose={() => setPaymentToRecord(null)}
-          onSubmit={(amountPaid, receiptUrl) =>
-            recordPaymentMutation.mutate({ id: paymentToRecord.id, amountPaid, receiptUrl })
-          }
-          isLoading={recordPaymentMutation.isPending}
-        />
-      )}
-    </div>
+        {showCreateModal && (
+          <CreatePaymentModal
+            students={students}
+            onClose={() => setShowCreateModal(false)}
+            onSubmit={(data) => createPaymentMutation.mutate(data)}
+            isLoading={createPaymentMutation.isPending}
+          />
+        )}
+
+        {paymentToRecord && (
+          <RecordPaymentModal
+            payment={paymentToRecord}
+            onClose={() => setPaymentToRecord(null)}
+            onSubmit={(amountPaid, receiptUrl) =>
+              recordPaymentMutation.mutate({ id: paymentToRecord.id, amountPaid, receiptUrl })
+            }
+            isLoading={recordPaymentMutation.isPending}
+          />
+        )}
+      </div>
+    </Layout>
   );
 };
 
@@ -255,14 +261,16 @@ const PaymentSection: React.FC<{
                     <div className="text-xs text-gray-500">{payment.student?.email}</div>
                   </td>
                   <td className="px-4 py-2 text-sm text-gray-900">{formatCurrency(payment.amount)}</td>
-                  <td className="px-4 py-2 text-sm text-gray-600">{formatCurrency(payment.paidAmount)}</td>
+                  <td className="px-4 py-2 text-sm text-gray-600">{formatCurrency(payment.paidAmount || 0)}</td>
                   <td className="px-4 py-2 text-sm font-semibold text-gray-900">{formatCurrency(outstanding)}</td>
                   <td className="px-4 py-2 text-sm text-gray-900">
-                    {new Date(payment.dueDate).toLocaleDateString('en-IN', {
-                      day: '2-digit',
-                      month: 'short',
-                      year: 'numeric',
-                    })}
+                    {payment.dueDate
+                      ? new Date(payment.dueDate).toLocaleDateString('en-IN', {
+                          day: '2-digit',
+                          month: 'short',
+                          year: 'numeric',
+                        })
+                      : '-'}
                   </td>
                   <td className="px-4 py-2">
                     <StatusBadge status={payment.status} />
@@ -305,12 +313,16 @@ const StatusBadge = ({ status }: { status: PaymentStatus }) => {
     [PaymentStatus.PENDING]: 'bg-yellow-100 text-yellow-800',
     [PaymentStatus.PARTIAL]: 'bg-blue-100 text-blue-800',
     [PaymentStatus.PAID]: 'bg-green-100 text-green-800',
+    [PaymentStatus.OVERDUE]: 'bg-red-100 text-red-800',
+    [PaymentStatus.CANCELLED]: 'bg-gray-100 text-gray-800',
   };
 
   const labels: Record<PaymentStatus, string> = {
     [PaymentStatus.PENDING]: 'Pending',
     [PaymentStatus.PARTIAL]: 'Partial',
     [PaymentStatus.PAID]: 'Paid',
+    [PaymentStatus.OVERDUE]: 'Overdue',
+    [PaymentStatus.CANCELLED]: 'Cancelled',
   };
 
   return <span className={`px-2 py-1 rounded-full text-xs font-semibold ${styles[status]}`}>{labels[status]}</span>;
@@ -1,29 +1,40 @@
 import React from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
+import { usePermissions } from '../context/PermissionContext';
+import { Module } from '../api/permission.api';
 import { Layout } from '../components/Layout';
 
+interface DashboardModule {
+  name: string;
+  path: string;
+  icon: string;
+  description: string;
+  module?: Module;
+}
+
 export const Dashboard: React.FC = () => {
   const { user } = useAuth();
+  const { can } = usePermissions();
   const navigate = useNavigate();
 
-  const allModules = [
-    { name: 'Batches', path: '/batches', icon: '📚', description: 'Manage training batches' },
-    { name: 'Students', path: '/students', icon: '👥', description: 'Manage students' },
-    { name: 'Faculty', path: '/faculty', icon: '👨‍🏫', description: 'Manage faculty members' },
-    { name: 'Employees', path: '/employees', icon: '💼', description: 'Manage employees' },
-    { name: 'Attendance', path: '/attendance', icon: '✅', description: 'Track attendance' },
+  const allModules: DashboardModule[] = [
+    { name: 'Batches', path: '/batches', icon: '📚', description: 'Manage training batches', module: Module.BATCHES },
+    { name: 'Students', path: '/students', icon: '👥', description: 'Manage students', module: Module.STUDENTS },
+    { name: 'Faculty', path: '/faculty', icon: '👨‍🏫', description: 'Manage faculty members', module: Module.FACULTY },
+    { name: 'Employees', path: '/employees', icon: '💼', description: 'Manage employees', module: Module.EMPLOYEES },
+    { name: 'Attendance', path: '/attendance', icon: '✅', description: 'Track attendance', module: Module.ATTENDANCE },
     ...(user?.role !== 'student' ? [{ name: 'My Attendance', path: '/student-attendance', icon: '📸', description: 'Punch in/out with photo and fingerprint' }] : []),
-    { name: 'Payments', path: '/payments', icon: '💰', description: 'Manage payments' },
-    { name: 'Portfolios', path: '/portfolios', icon: '📁', description: 'Student portfolios' },
-    { name: 'Reports', path: '/reports', icon: '📊', description: 'View reports' },
-    { name: 'Approvals', path: '/approvals', icon: '✓', description: 'Manage approvals' },
+    { name: 'Payments', path: '/payments', icon: '💰', description: 'Manage payments', module: Module.PAYMENTS },
+    { name: 'Portfolios', path: '/portfolios', icon: '📁', description: 'Student portfolios', module: Module.PORTFOLIOS },
+    { name: 'Reports', path: '/reports', icon: '📊', description: 'View reports', module: Module.REPORTS },
+    { name: 'Approvals', path: '/approvals', icon: '✓', description: 'Manage approvals', module: Module.APPROVALS },
     { name: 'Leave Management', path: '/leaves', icon: '🏖️', description: 'Manage leave requests for all users' },
-    { name: 'Batch Extensions', path: '/batch-extensions', icon: '⏱️', description: 'Manage batch extensions' },
-    { name: 'Users', path: '/users', icon: '👤', description: 'Manage users' },
+    { name: 'Batch Extensions', path: '/batch-extensions', icon: '⏱️', description: 'Manage batch extensions', module: Module.BATCH_EXTENSIONS },
+    { name: 'Users', path: '/users', icon: '👤', description: 'Manage users', module: Module.USERS },
   ];
 
-  const modules = allModules;
+  const modules = allModules.filter((module) => !module.module || can(module.module));
 
   return (
     <Layout>
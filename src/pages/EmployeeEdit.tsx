@@ -1,15 +1,16 @@
 import React, { useState } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { useAuth } from '../context/AuthContext';
+import { usePermissions } from '../context/PermissionContext';
 import { Layout } from '../components/Layout';
 import { employeeAPI, EmployeeProfile } from '../api/employee.api';
 import { userAPI, UpdateUserRequest } from '../api/user.api';
 import api from '../api/axios';
+import { Module } from '../api/permission.api';
 
 export const EmployeeEdit: React.FC = () => {
   const { id } = useParams<{ id: string }>();
-  const { user } = useAuth();
+  const { can } = usePermissions();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   const [currentStep, setCurrentStep] = useState(1);
@@ -39,18 +40,15 @@ export const EmployeeEdit: React.FC = () => {
 
   const updateProfileMutation = useMutation({
     mutationFn: (data: Partial<EmployeeProfile>) => employeeAPI.updateEmployeeProfile(Number(id!), data),
+    meta: { successMessage: 'Employee updated successfully!', errorMessage: 'Failed to update employee profile' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['employee', id] });
       queryClient.invalidateQueries({ queryKey: ['employees'] });
-      alert('Employee updated successfully!');
       navigate('/employees');
     },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to update employee profile');
-    },
   });
 
-  if (user?.role !== 'admin' && user?.role !== 'superadmin') {
+  if (!can(Module.EMPLOYEES, 'edit')) {
     return (
       <Layout>
         <div className="max-w-7xl mx-auto">
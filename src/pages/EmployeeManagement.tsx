@@ -1,14 +1,18 @@
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { useAuth } from '../context/AuthContext';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { usePermissions } from '../context/PermissionContext';
+import { Module } from '../api/permission.api';
 import { Layout } from '../components/Layout';
 import { employeeAPI, Employee } from '../api/employee.api';
 import { userAPI } from '../api/user.api';
 import { uploadAPI } from '../api/upload.api';
+import { toast } from '../context/NotificationContext';
+import { getErrorMessage } from '../api/response';
+import { DataTable, DataTableColumn, useDataTableState } from '../components/DataTable';
 
 export const EmployeeManagement: React.FC = () => {
-  const { user } = useAuth();
+  const { can } = usePermissions();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   const [selectedEmployee, setSelectedEmployee] = useState<Employee | null>(null);
@@ -17,38 +21,37 @@ export const EmployeeManagement: React.FC = () => {
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [uploadingImage, setUploadingImage] = useState(false);
 
+  const table = useDataTableState({ defaultSortBy: 'name' });
+
   // Fetch employees
-  const { data: employeesData, isLoading, error: employeesError } = useQuery({
-    queryKey: ['employees'],
-    queryFn: () => employeeAPI.getAllEmployees(),
+  const { data: employeesData, isLoading, isFetching, error: employeesError, refetch } = useQuery({
+    queryKey: ['employees', table.params],
+    queryFn: () => employeeAPI.getAllEmployees(table.params),
+    placeholderData: keepPreviousData,
     retry: 1,
   });
 
   const deleteUserMutation = useMutation({
     mutationFn: (id: number) => userAPI.deleteUser(id),
+    meta: { successMessage: 'Employee deleted successfully!', errorMessage: 'Failed to delete employee' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['employees'] });
       setIsDeleteModalOpen(false);
       setSelectedEmployee(null);
-      alert('Employee deleted successfully!');
-    },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to delete employee');
     },
   });
 
   const updateUserImageMutation = useMutation({
     mutationFn: ({ userId, avatarUrl }: { userId: number; avatarUrl: string }) =>
       userAPI.updateUser(userId, { avatarUrl }),
+    meta: { successMessage: 'Image updated successfully!', errorMessage: 'Failed to update image' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['employees'] });
       setIsImageModalOpen(false);
       setSelectedEmployee(null);
       setImagePreview(null);
-      alert('Image updated successfully!');
     },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to update image');
+    onError: () => {
       setUploadingImage(false);
     },
   });
@@ -58,12 +61,12 @@ export const EmployeeManagement: React.FC = () => {
     if (!file || !selectedEmployee) return;
 
     if (!file.type.startsWith('image/')) {
-      alert('Please select an image file');
+      toast.error('Please select an image file');
       return;
     }
 
     if (file.size > 5 * 1024 * 1024) {
-      alert('Image size must be less than 5MB');
+      toast.error('Image size must be less than 5MB');
       return;
     }
 
@@ -84,7 +87,7 @@ export const EmployeeManagement: React.FC = () => {
         });
       }
     } catch (error: any) {
-      alert(error.response?.data?.message || 'Failed to upload image');
+      toast.error(getErrorMessage(error, 'Failed to upload image'));
       setUploadingImage(false);
     }
   };
@@ -102,40 +105,92 @@ export const EmployeeManagement: React.FC = () => {
     }
   };
 
-  if (isLoading) {
-    return (
-      <Layout>
-        <div className="max-w-7xl mx-auto">
-          <div className="flex justify-center items-center min-h-screen">
-            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-500"></div>
-          </div>
-        </div>
-      </Layout>
-    );
-  }
-
-  if (employeesError) {
-    return (
-      <Layout>
-        <div className="max-w-7xl mx-auto">
-          <div className="bg-white shadow-xl rounded-lg p-6">
-            <div className="text-center py-12">
-              <p className="text-red-600 text-lg mb-4">Error loading employee data</p>
-              <p className="text-gray-500 text-sm">
-                {(employeesError as any)?.response?.data?.message || (employeesError as any)?.message || 'Unknown error'}
-              </p>
-              <button
-                onClick={() => window.location.reload()}
-                className="mt-4 px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700"
-              >
-                Retry
-              </button>
-            </div>
+  const columns: DataTableColumn<Employee>[] = [
+    {
+      id: 'photo',
+      header: 'Photo',
+      className: 'px-6 py-4 whitespace-nowrap',
+      cell: (employee) =>
+        employee.avatarUrl ? (
+          <img
+            src={employee.avatarUrl}
+            alt={employee.name}
+            className="h-12 w-12 rounded-full object-cover border-2 border-gray-200"
+            onError={(e) => {
+              (e.target as HTMLImageElement).src = 'https://ui-avatars.com/api/?name=' + encodeURIComponent(employee.name) + '&background=orange&color=fff';
+            }}
+          />
+        ) : (
+          <div className="h-12 w-12 rounded-full bg-orange-500 flex items-center justify-center text-white font-semibold text-lg">
+            {employee.name.charAt(0).toUpperCase()}
           </div>
-        </div>
-      </Layout>
-    );
-  }
+        ),
+    },
+    {
+      id: 'name',
+      header: 'Name',
+      sortable: true,
+      className: 'px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900',
+      cell: (employee) => employee.name,
+    },
+    { id: 'email', header: 'Email', sortable: true, cell: (employee) => employee.email },
+    { id: 'phone', header: 'Phone', cell: (employee) => employee.phone || '-' },
+    { id: 'department', header: 'Department', cell: (employee) => employee.employeeProfile?.department || '-' },
+    { id: 'designation', header: 'Designation', cell: (employee) => employee.employeeProfile?.designation || '-' },
+    {
+      id: 'isActive',
+      header: 'Status',
+      className: 'px-6 py-4 whitespace-nowrap',
+      cell: (employee) => (
+        <span className={`px-2 py-1 rounded text-xs font-semibold ${
+          employee.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+        }`}>
+          {employee.isActive ? 'Active' : 'Inactive'}
+        </span>
+      ),
+    },
+    ...(can(Module.EMPLOYEES, 'edit')
+      ? [
+          {
+            id: 'actions',
+            header: 'Actions',
+            hideable: false,
+            className: 'px-6 py-4 whitespace-nowrap text-sm font-medium',
+            cell: (employee: Employee) => (
+              <div className="flex flex-col gap-2">
+                <button
+                  onClick={() => {
+                    setSelectedEmployee(employee);
+                    setImagePreview(employee.avatarUrl || null);
+                    setIsImageModalOpen(true);
+                  }}
+                  className="text-orange-600 hover:text-orange-900 text-xs"
+                  title="Update Photo"
+                >
+                  📷 Photo
+                </button>
+                <button
+                  onClick={() => navigate(`/employees/${employee.id}/edit`)}
+                  className="text-orange-600 hover:text-orange-900 text-xs"
+                  title="Edit Employee"
+                >
+                  ✏️ Edit
+                </button>
+                {can(Module.EMPLOYEES, 'delete') && (
+                  <button
+                    onClick={() => handleDelete(employee)}
+                    className="text-red-600 hover:text-red-900 text-xs"
+                    title="Delete Employee"
+                  >
+                    🗑️ Delete
+                  </button>
+                )}
+              </div>
+            ),
+          },
+        ]
+      : []),
+  ];
 
   return (
     <Layout>
@@ -147,7 +202,7 @@ export const EmployeeManagement: React.FC = () => {
                 <h1 className="text-3xl font-bold text-white">Employee Management</h1>
                 <p className="mt-2 text-orange-100">Manage employees</p>
               </div>
-              {(user?.role === 'admin' || user?.role === 'superadmin') && (
+              {can(Module.EMPLOYEES, 'add') && (
                 <button
                   onClick={() => window.location.href = '/employees/register'}
                   className="px-4 py-2 bg-white text-orange-600 rounded-lg font-semibold hover:bg-orange-50 transition-colors"
@@ -159,109 +214,21 @@ export const EmployeeManagement: React.FC = () => {
           </div>
 
           <div className="p-6">
-            {employees.length === 0 ? (
-              <div className="text-center py-12">
-                <p className="text-gray-500 text-lg">No employees found</p>
-              </div>
-            ) : (
-              <div className="overflow-x-auto">
-                <table className="min-w-full divide-y divide-gray-200">
-                  <thead className="bg-gray-50">
-                    <tr>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Photo</th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Email</th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Phone</th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Department</th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Designation</th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
-                      {(user?.role === 'admin' || user?.role === 'superadmin') && (
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
-                      )}
-                    </tr>
-                  </thead>
-                  <tbody className="bg-white divide-y divide-gray-200">
-                    {employees.map((employee) => (
-                      <tr key={employee.id} className="hover:bg-gray-50">
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="flex items-center">
-                            {employee.avatarUrl ? (
-                              <img
-                                src={employee.avatarUrl}
-                                alt={employee.name}
-                                className="h-12 w-12 rounded-full object-cover border-2 border-gray-200"
-                                onError={(e) => {
-                                  (e.target as HTMLImageElement).src = 'https://ui-avatars.com/api/?name=' + encodeURIComponent(employee.name) + '&background=orange&color=fff';
-                                }}
-                              />
-                            ) : (
-                              <div className="h-12 w-12 rounded-full bg-orange-500 flex items-center justify-center text-white font-semibold text-lg">
-                                {employee.name.charAt(0).toUpperCase()}
-                              </div>
-                            )}
-                          </div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm font-medium text-gray-900">{employee.name}</div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm text-gray-500">{employee.email}</div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm text-gray-500">{employee.phone || '-'}</div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm text-gray-500">{employee.employeeProfile?.department || '-'}</div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm text-gray-500">{employee.employeeProfile?.designation || '-'}</div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <span className={`px-2 py-1 rounded text-xs font-semibold ${
-                            employee.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
-                          }`}>
-                            {employee.isActive ? 'Active' : 'Inactive'}
-                          </span>
-                        </td>
-                        {(user?.role === 'admin' || user?.role === 'superadmin') && (
-                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                            <div className="flex flex-col gap-2">
-                              <button
-                                onClick={() => {
-                                  setSelectedEmployee(employee);
-                                  setImagePreview(employee.avatarUrl || null);
-                                  setIsImageModalOpen(true);
-                                }}
-                                className="text-orange-600 hover:text-orange-900 text-xs"
-                                title="Update Photo"
-                              >
-                                📷 Photo
-                              </button>
-                              <button
-                                onClick={() => navigate(`/employees/${employee.id}/edit`)}
-                                className="text-orange-600 hover:text-orange-900 text-xs"
-                                title="Edit Employee"
-                              >
-                                ✏️ Edit
-                              </button>
-                              {user?.role === 'superadmin' && (
-                                <button
-                                  onClick={() => handleDelete(employee)}
-                                  className="text-red-600 hover:text-red-900 text-xs"
-                                  title="Delete Employee"
-                                >
-                                  🗑️ Delete
-                                </button>
-                              )}
-                            </div>
-                          </td>
-                        )}
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
-              </div>
-            )}
+            <DataTable
+              tableId="employees"
+              columns={columns}
+              rows={employees}
+              rowKey={(employee) => employee.id}
+              state={table.state}
+              onStateChange={table.update}
+              pagination={employeesData?.data.pagination}
+              isLoading={isLoading}
+              isFetching={isFetching}
+              error={employeesError}
+              onRetry={refetch}
+              searchPlaceholder="Search name, email or phone"
+              emptyMessage="No employees found"
+            />
           </div>
         </div>
       </div>
@@ -4,6 +4,9 @@ import { useNavigate } from 'react-router-dom';
 import { Layout } from '../components/Layout';
 import api from '../api/axios';
 import { employeeAPI, CreateEmployeeProfileRequest } from '../api/employee.api';
+import { toast } from '../context/NotificationContext';
+import { FieldError } from '../components/FieldError';
+import { getFieldErrors, FieldErrors } from '../api/response';
 
 interface RegisterUserRequest {
   name: string;
@@ -11,14 +14,52 @@ interface RegisterUserRequest {
   phone: string;
   password: string;
   role: 'employee';
+  mustChangePassword: boolean;
 }
 
+// The account form posts `name`/`phone`; its inputs are named after the paper form
+const USER_INPUT_NAMES: Record<string, string> = {
+  name: 'fullName',
+  phone: 'contactNumber',
+};
+
+// Wizard step each profile input lives on, so a rejected field can be brought back into view
+const FIELD_STEPS: Record<string, number> = {
+  employeeId: 2,
+  gender: 2,
+  dateOfBirth: 2,
+  nationality: 2,
+  maritalStatus: 2,
+  address: 2,
+  city: 2,
+  state: 2,
+  postalCode: 2,
+  department: 3,
+  designation: 3,
+  dateOfJoining: 3,
+  employmentType: 3,
+  reportingManager: 3,
+  workLocation: 3,
+  bankName: 4,
+  accountNumber: 4,
+  ifscCode: 4,
+  branch: 4,
+  panNumber: 4,
+  emergencyContactName: 5,
+  emergencyRelationship: 5,
+  emergencyPhoneNumber: 5,
+  emergencyAlternatePhone: 5,
+  documentsSubmitted: 6,
+};
+
 export const EmployeeRegistration: React.FC = () => {
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   const [currentStep, setCurrentStep] = useState(1);
   const totalSteps = 6;
   const [createdUserId, setCreatedUserId] = useState<number | null>(null);
+  const [userFieldErrors, setUserFieldErrors] = useState<FieldErrors>({});
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
 
   // Register user first
   const registerUserMutation = useMutation({
@@ -30,22 +71,28 @@ export const EmployeeRegistration: React.FC = () => {
       setCreatedUserId(data.data.user.id);
       setCurrentStep(2); // Move to next step after user creation
     },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to create user account');
+    onError: (error) => {
+      setUserFieldErrors(getFieldErrors(error, USER_INPUT_NAMES));
     },
+    meta: { errorMessage: 'Failed to create user account' },
   });
 
   // Create employee profile
   const createEmployeeProfileMutation = useMutation({
     mutationFn: (data: CreateEmployeeProfileRequest) => employeeAPI.createEmployeeProfile(data),
+    meta: { successMessage: 'Employee registration completed successfully!', errorMessage: 'Failed to create employee profile' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['employees'] });
       queryClient.invalidateQueries({ queryKey: ['users'] });
-      alert('Employee registration completed successfully!');
       navigate('/employees');
     },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to create employee profile');
+    onError: (error) => {
+      const errors = getFieldErrors(error);
+      setFieldErrors(errors);
+      const steps = Object.keys(errors).map((field) => FIELD_STEPS[field]).filter(Boolean);
+      if (steps.length > 0) {
+        setCurrentStep(Math.min(...steps));
+      }
     },
   });
 
@@ -59,8 +106,10 @@ export const EmployeeRegistration: React.FC = () => {
       phone: formData.get('contactNumber') as string,
       password: formData.get('password') as string,
       role: 'employee',
+      mustChangePassword: true,
     };
 
+    setUserFieldErrors({});
     registerUserMutation.mutate(userData);
   };
 
@@ -69,7 +118,7 @@ export const EmployeeRegistration: React.FC = () => {
     const formData = new FormData(e.currentTarget);
     
     if (!createdUserId) {
-      alert('Please complete user registration first');
+      toast.error('Please complete user registration first');
       return;
     }
 
@@ -112,6 +161,7 @@ export const EmployeeRegistration: React.FC = () => {
       documentsSubmitted: documents.join(', ') || undefined,
     };
 
+    setFieldErrors({});
     createEmployeeProfileMutation.mutate(data);
   };
 
@@ -192,6 +242,7 @@ export const EmployeeRegistration: React.FC = () => {
                     required
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                   />
+                  <FieldError message={userFieldErrors.fullName} />
                 </div>
 
                 <div>
@@ -204,6 +255,7 @@ export const EmployeeRegistration: React.FC = () => {
                     required
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                   />
+                  <FieldError message={userFieldErrors.email} />
                 </div>
 
                 <div>
@@ -216,6 +268,7 @@ export const EmployeeRegistration: React.FC = () => {
                     required
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                   />
+                  <FieldError message={userFieldErrors.contactNumber} />
                 </div>
 
                 <div>
@@ -229,6 +282,7 @@ export const EmployeeRegistration: React.FC = () => {
                     minLength={6}
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                   />
+                  <FieldError message={userFieldErrors.password} />
                   <p className="text-xs text-gray-500 mt-1">Minimum 6 characters</p>
                 </div>
 
@@ -265,6 +319,7 @@ export const EmployeeRegistration: React.FC = () => {
                         placeholder="e.g., EMP001"
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                       />
+                      <FieldError message={fieldErrors.employeeId} />
                     </div>
 
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -284,6 +339,7 @@ export const EmployeeRegistration: React.FC = () => {
                             <span>Other</span>
                           </label>
                         </div>
+                        <FieldError message={fieldErrors.gender} />
                       </div>
 
                       <div>
@@ -293,6 +349,7 @@ export const EmployeeRegistration: React.FC = () => {
                           name="dateOfBirth"
                           className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                         />
+                        <FieldError message={fieldErrors.dateOfBirth} />
                       </div>
                     </div>
 
@@ -304,6 +361,7 @@ export const EmployeeRegistration: React.FC = () => {
                           name="nationality"
                           className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                         />
+                        <FieldError message={fieldErrors.nationality} />
                       </div>
 
                       <div>
@@ -322,6 +380,7 @@ export const EmployeeRegistration: React.FC = () => {
                             <span>Other</span>
                           </label>
                         </div>
+                        <FieldError message={fieldErrors.maritalStatus} />
                       </div>
                     </div>
 
@@ -332,6 +391,7 @@ export const EmployeeRegistration: React.FC = () => {
                         rows={3}
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                       />
+                      <FieldError message={fieldErrors.address} />
                     </div>
 
                     <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
@@ -342,6 +402,7 @@ export const EmployeeRegistration: React.FC = () => {
                           name="city"
                           className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                         />
+                        <FieldError message={fieldErrors.city} />
                       </div>
 
                       <div>
@@ -351,6 +412,7 @@ export const EmployeeRegistration: React.FC = () => {
                           name="state"
                           className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                         />
+                        <FieldError message={fieldErrors.state} />
                       </div>
 
                       <div>
@@ -360,6 +422,7 @@ export const EmployeeRegistration: React.FC = () => {
                           name="postalCode"
                           className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                         />
+                        <FieldError message={fieldErrors.postalCode} />
                       </div>
                     </div>
                   </div>
@@ -378,6 +441,7 @@ export const EmployeeRegistration: React.FC = () => {
                           name="department"
                           className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                         />
+                        <FieldError message={fieldErrors.department} />
                       </div>
 
                       <div>
@@ -387,6 +451,7 @@ export const EmployeeRegistration: React.FC = () => {
                           name="designation"
                           className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                         />
+                        <FieldError message={fieldErrors.designation} />
                       </div>
                     </div>
 
@@ -397,6 +462,7 @@ export const EmployeeRegistration: React.FC = () => {
                         name="dateOfJoining"
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                       />
+                      <FieldError message={fieldErrors.dateOfJoining} />
                     </div>
 
                     <div>
@@ -419,6 +485,7 @@ export const EmployeeRegistration: React.FC = () => {
                           <span>Intern</span>
                         </label>
                       </div>
+                      <FieldError message={fieldErrors.employmentType} />
                     </div>
 
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -429,6 +496,7 @@ export const EmployeeRegistration: React.FC = () => {
                           name="reportingManager"
                           className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                         />
+                        <FieldError message={fieldErrors.reportingManager} />
                       </div>
 
                       <div>
@@ -438,6 +506,7 @@ export const EmployeeRegistration: React.FC = () => {
                           name="workLocation"
                           className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                         />
+                        <FieldError message={fieldErrors.workLocation} />
                       </div>
                     </div>
                   </div>
@@ -455,6 +524,7 @@ export const EmployeeRegistration: React.FC = () => {
                         name="bankName"
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                       />
+                      <FieldError message={fieldErrors.bankName} />
                     </div>
 
                     <div>
@@ -464,6 +534,7 @@ export const EmployeeRegistration: React.FC = () => {
                         name="accountNumber"
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                       />
+                      <FieldError message={fieldErrors.accountNumber} />
                     </div>
 
                     <div>
@@ -473,6 +544,7 @@ export const EmployeeRegistration: React.FC = () => {
                         name="ifscCode"
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                       />
+                      <FieldError message={fieldErrors.ifscCode} />
                     </div>
 
                     <div>
@@ -482,6 +554,7 @@ export const EmployeeRegistration: React.FC = () => {
                         name="branch"
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                       />
+                      <FieldError message={fieldErrors.branch} />
                     </div>
 
                     <div>
@@ -492,6 +565,7 @@ export const EmployeeRegistration: React.FC = () => {
                         maxLength={10}
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                       />
+                      <FieldError message={fieldErrors.panNumber} />
                     </div>
                   </div>
                 )}
@@ -508,6 +582,7 @@ export const EmployeeRegistration: React.FC = () => {
                         name="emergencyContactName"
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                       />
+                      <FieldError message={fieldErrors.emergencyContactName} />
                     </div>
 
                     <div>
@@ -518,6 +593,7 @@ export const EmployeeRegistration: React.FC = () => {
                         placeholder="e.g., Father, Mother, Spouse, Guardian"
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                       />
+                      <FieldError message={fieldErrors.emergencyRelationship} />
                     </div>
 
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -528,6 +604,7 @@ export const EmployeeRegistration: React.FC = () => {
                           name="emergencyPhoneNumber"
                           className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                         />
+                        <FieldError message={fieldErrors.emergencyPhoneNumber} />
                       </div>
 
                       <div>
@@ -537,6 +614,7 @@ export const EmployeeRegistration: React.FC = () => {
                           name="emergencyAlternatePhone"
                           className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                         />
+                        <FieldError message={fieldErrors.emergencyAlternatePhone} />
                       </div>
                     </div>
                   </div>
@@ -1,15 +1,17 @@
 import React from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { useAuth } from '../context/AuthContext';
+import { usePermissions } from '../context/PermissionContext';
 import { Layout } from '../components/Layout';
 import { facultyAPI } from '../api/faculty.api';
 import { userAPI, UpdateUserRequest } from '../api/user.api';
 import api from '../api/axios';
+import { Module } from '../api/permission.api';
+import { toast } from '../context/NotificationContext';
 
 export const FacultyEdit: React.FC = () => {
   const { id } = useParams<{ id: string }>();
-  const { user } = useAuth();
+  const { can } = usePermissions();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
 
@@ -33,18 +35,15 @@ export const FacultyEdit: React.FC = () => {
 
   const updateProfileMutation = useMutation({
     mutationFn: (data: { expertise?: string; availability?: string }) => facultyAPI.updateFacultyProfile(Number(id!), data),
+    meta: { successMessage: 'Faculty updated successfully!', errorMessage: 'Failed to update faculty profile' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['faculty', id] });
       queryClient.invalidateQueries({ queryKey: ['faculty'] });
-      alert('Faculty updated successfully!');
       navigate('/faculty');
     },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to update faculty profile');
-    },
   });
 
-  if (user?.role !== 'admin' && user?.role !== 'superadmin') {
+  if (!can(Module.FACULTY, 'edit')) {
     return (
       <Layout>
         <div className="max-w-7xl mx-auto">
@@ -115,7 +114,7 @@ export const FacultyEdit: React.FC = () => {
         if (profileData.expertise || profileData.availability) {
           updateProfileMutation.mutate(profileData);
         } else {
-          alert('Faculty updated successfully!');
+          toast.success('Faculty updated successfully!');
           navigate('/faculty');
         }
       },
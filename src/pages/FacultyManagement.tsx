@@ -1,14 +1,18 @@
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { useAuth } from '../context/AuthContext';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { usePermissions } from '../context/PermissionContext';
+import { Module } from '../api/permission.api';
 import { Layout } from '../components/Layout';
 import { facultyAPI, FacultyUser } from '../api/faculty.api';
 import { userAPI } from '../api/user.api';
 import { uploadAPI } from '../api/upload.api';
+import { toast } from '../context/NotificationContext';
+import { getErrorMessage } from '../api/response';
+import { DataTable, DataTableColumn, useDataTableState } from '../components/DataTable';
 
 export const FacultyManagement: React.FC = () => {
-  const { user } = useAuth();
+  const { can } = usePermissions();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   const [selectedFaculty, setSelectedFaculty] = useState<FacultyUser | null>(null);
@@ -17,38 +21,37 @@ export const FacultyManagement: React.FC = () => {
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [uploadingImage, setUploadingImage] = useState(false);
 
+  const table = useDataTableState({ defaultSortBy: 'name' });
+
   // Fetch faculty
-  const { data: facultyData, isLoading, error: facultyError } = useQuery({
-    queryKey: ['faculty'],
-    queryFn: () => facultyAPI.getAllFaculty(),
+  const { data: facultyData, isLoading, isFetching, error: facultyError, refetch } = useQuery({
+    queryKey: ['faculty', table.params],
+    queryFn: () => facultyAPI.getAllFaculty(table.params),
+    placeholderData: keepPreviousData,
     retry: 1,
   });
 
   const deleteUserMutation = useMutation({
     mutationFn: (id: number) => userAPI.deleteUser(id),
+    meta: { successMessage: 'Faculty deleted successfully!', errorMessage: 'Failed to delete faculty' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['faculty'] });
       setIsDeleteModalOpen(false);
       setSelectedFaculty(null);
-      alert('Faculty deleted successfully!');
-    },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to delete faculty');
     },
   });
 
   const updateUserImageMutation = useMutation({
     mutationFn: ({ userId, avatarUrl }: { userId: number; avatarUrl: string }) =>
       userAPI.updateUser(userId, { avatarUrl }),
+    meta: { successMessage: 'Image updated successfully!', errorMessage: 'Failed to update image' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['faculty'] });
       setIsImageModalOpen(false);
       setSelectedFaculty(null);
       setImagePreview(null);
-      alert('Image updated successfully!');
     },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to update image');
+    onError: () => {
       setUploadingImage(false);
     },
   });
@@ -58,12 +61,12 @@ export const FacultyManagement: React.FC = () => {
     if (!file || !selectedFaculty) return;
 
     if (!file.type.startsWith('image/')) {
-      alert('Please select an image file');
+      toast.error('Please select an image file');
       return;
     }
 
     if (file.size > 5 * 1024 * 1024) {
-      alert('Image size must be less than 5MB');
+      toast.error('Image size must be less than 5MB');
       return;
     }
 
@@ -84,7 +87,7 @@ export const FacultyManagement: React.FC = () => {
         });
       }
     } catch (error: any) {
-      alert(error.response?.data?.message || 'Failed to upload image');
+      toast.error(getErrorMessage(error, 'Failed to upload image'));
       setUploadingImage(false);
     }
   };
@@ -102,40 +105,107 @@ export const FacultyManagement: React.FC = () => {
     }
   };
 
-  if (isLoading) {
-    return (
-      <Layout>
-        <div className="max-w-7xl mx-auto">
-          <div className="flex justify-center items-center min-h-screen">
-            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-500"></div>
-          </div>
-        </div>
-      </Layout>
-    );
-  }
-
-  if (facultyError) {
-    return (
-      <Layout>
-        <div className="max-w-7xl mx-auto">
-          <div className="bg-white shadow-xl rounded-lg p-6">
-            <div className="text-center py-12">
-              <p className="text-red-600 text-lg mb-4">Error loading faculty data</p>
-              <p className="text-gray-500 text-sm">
-                {(facultyError as any)?.response?.data?.message || (facultyError as any)?.message || 'Unknown error'}
-              </p>
-              <button
-                onClick={() => window.location.reload()}
-                className="mt-4 px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700"
-              >
-                Retry
-              </button>
-            </div>
+  const columns: DataTableColumn<FacultyUser>[] = [
+    {
+      id: 'photo',
+      header: 'Photo',
+      className: 'px-6 py-4 whitespace-nowrap',
+      cell: (facultyMember) =>
+        facultyMember.avatarUrl ? (
+          <img
+            src={facultyMember.avatarUrl}
+            alt={facultyMember.name}
+            className="h-12 w-12 rounded-full object-cover border-2 border-orange-200"
+            onError={(e) => {
+              (e.target as HTMLImageElement).src = 'https://ui-avatars.com/api/?name=' + encodeURIComponent(facultyMember.name) + '&background=orange&color=fff';
+            }}
+          />
+        ) : (
+          <div className="h-12 w-12 rounded-full bg-orange-500 flex items-center justify-center text-white font-semibold text-lg">
+            {facultyMember.name.charAt(0).toUpperCase()}
           </div>
-        </div>
-      </Layout>
-    );
-  }
+        ),
+    },
+    {
+      id: 'name',
+      header: 'Name',
+      sortable: true,
+      className: 'px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900',
+      cell: (facultyMember) => facultyMember.name,
+    },
+    { id: 'email', header: 'Email', sortable: true, cell: (facultyMember) => facultyMember.email },
+    { id: 'phone', header: 'Phone', cell: (facultyMember) => facultyMember.phone || '-' },
+    {
+      id: 'expertise',
+      header: 'Expertise',
+      className: 'px-6 py-4 text-sm text-gray-500',
+      cell: (facultyMember) =>
+        facultyMember.facultyProfile ? (
+          facultyMember.facultyProfile.expertise || '-'
+        ) : (
+          <span className="text-xs italic">No faculty profile created yet</span>
+        ),
+    },
+    {
+      id: 'availability',
+      header: 'Availability',
+      className: 'px-6 py-4 text-sm text-gray-500',
+      cell: (facultyMember) => facultyMember.facultyProfile?.availability || '-',
+    },
+    {
+      id: 'isActive',
+      header: 'Status',
+      className: 'px-6 py-4 whitespace-nowrap',
+      cell: (facultyMember) => (
+        <span className={`px-2 py-1 rounded text-xs font-semibold ${
+          facultyMember.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+        }`}>
+          {facultyMember.isActive ? 'Active' : 'Inactive'}
+        </span>
+      ),
+    },
+    ...(can(Module.FACULTY, 'edit')
+      ? [
+          {
+            id: 'actions',
+            header: 'Actions',
+            hideable: false,
+            className: 'px-6 py-4 whitespace-nowrap text-sm font-medium',
+            cell: (facultyMember: FacultyUser) => (
+              <div className="flex flex-col gap-2">
+                <button
+                  onClick={() => {
+                    setSelectedFaculty(facultyMember);
+                    setImagePreview(facultyMember.avatarUrl || null);
+                    setIsImageModalOpen(true);
+                  }}
+                  className="text-orange-600 hover:text-orange-900 text-xs"
+                  title="Update Photo"
+                >
+                  📷 Photo
+                </button>
+                <button
+                  onClick={() => navigate(`/faculty/${facultyMember.id}/edit`)}
+                  className="text-orange-600 hover:text-orange-900 text-xs"
+                  title="Edit Faculty"
+                >
+                  ✏️ Edit
+                </button>
+                {can(Module.FACULTY, 'delete') && (
+                  <button
+                    onClick={() => handleDelete(facultyMember)}
+                    className="text-red-600 hover:text-red-900 text-xs"
+                    title="Delete Faculty"
+                  >
+                    🗑️ Delete
+                  </button>
+                )}
+              </div>
+            ),
+          },
+        ]
+      : []),
+  ];
 
   return (
     <Layout>
@@ -147,7 +217,7 @@ export const FacultyManagement: React.FC = () => {
                 <h1 className="text-3xl font-bold text-white">Faculty Management</h1>
                 <p className="mt-2 text-orange-100">Manage faculty members</p>
               </div>
-              {(user?.role === 'admin' || user?.role === 'superadmin') && (
+              {can(Module.FACULTY, 'add') && (
                 <button
                   onClick={() => window.location.href = '/faculty/register'}
                   className="px-4 py-2 bg-white text-orange-600 rounded-lg font-semibold hover:bg-orange-50 transition-colors"
@@ -159,99 +229,21 @@ export const FacultyManagement: React.FC = () => {
           </div>
 
           <div className="p-6">
-            {faculty.length === 0 ? (
-              <div className="text-center py-12">
-                <p className="text-gray-500 text-lg">No faculty members found</p>
-              </div>
-            ) : (
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {faculty.map((facultyMember) => (
-                  <div key={facultyMember.id} className="border border-gray-200 rounded-lg p-6 hover:shadow-md transition-shadow">
-                    <div className="flex items-start justify-between mb-4">
-                      <div className="flex items-start gap-3">
-                        <div className="flex-shrink-0">
-                          {facultyMember.avatarUrl ? (
-                            <img
-                              src={facultyMember.avatarUrl}
-                              alt={facultyMember.name}
-                              className="h-16 w-16 rounded-full object-cover border-2 border-orange-200"
-                              onError={(e) => {
-                                (e.target as HTMLImageElement).src = 'https://ui-avatars.com/api/?name=' + encodeURIComponent(facultyMember.name) + '&background=orange&color=fff';
-                              }}
-                            />
-                          ) : (
-                            <div className="h-16 w-16 rounded-full bg-orange-500 flex items-center justify-center text-white font-semibold text-xl">
-                              {facultyMember.name.charAt(0).toUpperCase()}
-                            </div>
-                          )}
-                        </div>
-                        <div>
-                          <h3 className="text-xl font-semibold text-gray-900">{facultyMember.name}</h3>
-                          <p className="text-sm text-gray-600 mt-1">{facultyMember.email}</p>
-                          {facultyMember.phone && (
-                            <p className="text-sm text-gray-600">{facultyMember.phone}</p>
-                          )}
-                        </div>
-                      </div>
-                      <span className={`px-2 py-1 rounded text-xs font-semibold ${
-                        facultyMember.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
-                      }`}>
-                        {facultyMember.isActive ? 'Active' : 'Inactive'}
-                      </span>
-                    </div>
-                    {facultyMember.facultyProfile && (
-                      <div className="mt-4 pt-4 border-t border-gray-200">
-                        {facultyMember.facultyProfile.expertise && (
-                          <p className="text-sm text-gray-600 mb-2">
-                            <span className="font-medium">Expertise:</span> {facultyMember.facultyProfile.expertise}
-                          </p>
-                        )}
-                        {facultyMember.facultyProfile.availability && (
-                          <p className="text-sm text-gray-600">
-                            <span className="font-medium">Availability:</span> {facultyMember.facultyProfile.availability}
-                          </p>
-                        )}
-                      </div>
-                    )}
-                    {!facultyMember.facultyProfile && (
-                      <div className="mt-4 pt-4 border-t border-gray-200">
-                        <p className="text-xs text-gray-500 italic">No faculty profile created yet</p>
-                      </div>
-                    )}
-                    {(user?.role === 'admin' || user?.role === 'superadmin') && (
-                      <div className="mt-4 pt-4 border-t border-gray-200 flex flex-col gap-2">
-                        <button
-                          onClick={() => {
-                            setSelectedFaculty(facultyMember);
-                            setImagePreview(facultyMember.avatarUrl || null);
-                            setIsImageModalOpen(true);
-                          }}
-                          className="w-full px-3 py-2 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 transition-colors"
-                        >
-                          📷 Update Photo
-                        </button>
-                        <div className="flex gap-2">
-                          <button
-                            onClick={() => navigate(`/faculty/${facultyMember.id}/edit`)}
-                            className="flex-1 px-3 py-2 bg-orange-600 text-white rounded text-sm hover:bg-orange-700 transition-colors"
-                          >
-                            ✏️ Edit
-                          </button>
-                          {user?.role === 'superadmin' && (
-                            <button
-                              onClick={() => handleDelete(facultyMember)}
-                              className="flex-1 px-3 py-2 bg-red-600 text-white rounded text-sm hover:bg-red-700 transition-colors"
-                            >
-                              🗑️ Delete
-                            </button>
-                          )}
-                        </div>
-                      </div>
-                    )}
-                  </div>
-                ))}
-              </div>
-            )}
+            <DataTable
+              tableId="faculty"
+              columns={columns}
+              rows={faculty}
+              rowKey={(facultyMember) => facultyMember.id}
+              state={table.state}
+              onStateChange={table.update}
+              pagination={facultyData?.data.pagination}
+              isLoading={isLoading}
+              isFetching={isFetching}
+              error={facultyError}
+              onRetry={refetch}
+              searchPlaceholder="Search name, email or phone"
+              emptyMessage="No faculty members found"
+            />
           </div>
         </div>
       </div>
@@ -4,6 +4,9 @@ import { useNavigate } from 'react-router-dom';
 import { Layout } from '../components/Layout';
 import api from '../api/axios';
 import { facultyAPI, CreateFacultyRequest } from '../api/faculty.api';
+import { toast } from '../context/NotificationContext';
+import { FieldError } from '../components/FieldError';
+import { getFieldErrors, FieldErrors } from '../api/response';
 
 interface RegisterUserRequest {
   name: string;
@@ -11,14 +14,36 @@ interface RegisterUserRequest {
   phone: string;
   password: string;
   role: 'faculty';
+  mustChangePassword: boolean;
 }
 
+// The account form posts `name`/`phone`; its inputs are named after the paper form
+const USER_INPUT_NAMES: Record<string, string> = {
+  name: 'fullName',
+  phone: 'contactNumber',
+};
+
+// Wizard step each profile input lives on, so a rejected field can be brought back into view
+const FIELD_STEPS: Record<string, number> = {
+  address: 2,
+  expertise: 3,
+  availability: 3,
+  softwareProficiency: 4,
+  emergencyContactName: 6,
+  emergencyRelationship: 6,
+  emergencyPhoneNumber: 6,
+  emergencyAlternatePhone: 6,
+  documentsSubmitted: 7,
+};
+
 export const FacultyRegistration: React.FC = () => {
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   const [currentStep, setCurrentStep] = useState(1);
   const totalSteps = 7;
   const [createdUserId, setCreatedUserId] = useState<number | null>(null);
+  const [userFieldErrors, setUserFieldErrors] = useState<FieldErrors>({});
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
   const [showOtherSoftware, setShowOtherSoftware] = useState(false);
   const [otherSoftware, setOtherSoftware] = useState('');
 
@@ -32,22 +57,28 @@ export const FacultyRegistration: React.FC = () => {
       setCreatedUserId(data.data.user.id);
       setCurrentStep(2); // Move to next step after user creation
     },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to create user account');
+    onError: (error) => {
+      setUserFieldErrors(getFieldErrors(error, USER_INPUT_NAMES));
     },
+    meta: { errorMessage: 'Failed to create user account' },
   });
 
   // Create faculty profile
   const createFacultyMutation = useMutation({
     mutationFn: (data: CreateFacultyRequest) => facultyAPI.createFacultyProfile(data),
+    meta: { successMessage: 'Faculty registration completed successfully!', errorMessage: 'Failed to create faculty profile' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['faculty'] });
       queryClient.invalidateQueries({ queryKey: ['users'] });
-      alert('Faculty registration completed successfully!');
       navigate('/faculty');
     },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to create faculty profile');
+    onError: (error) => {
+      const errors = getFieldErrors(error);
+      setFieldErrors(errors);
+      const steps = Object.keys(errors).map((field) => FIELD_STEPS[field]).filter(Boolean);
+      if (steps.length > 0) {
+        setCurrentStep(Math.min(...steps));
+      }
     },
   });
 
@@ -61,8 +92,10 @@ export const FacultyRegistration: React.FC = () => {
       phone: formData.get('contactNumber') as string,
       password: formData.get('password') as string,
       role: 'faculty',
+      mustChangePassword: true,
     };
 
+    setUserFieldErrors({});
     registerUserMutation.mutate(userData);
   };
 
@@ -71,7 +104,7 @@ export const FacultyRegistration: React.FC = () => {
     const formData = new FormData(e.currentTarget);
     
     if (!createdUserId) {
-      alert('Please complete user registration first');
+      toast.error('Please complete user registration first');
       return;
     }
 
@@ -107,6 +140,7 @@ export const FacultyRegistration: React.FC = () => {
       documentsSubmitted: documents.join(', ') || undefined,
     };
 
+    setFieldErrors({});
     createFacultyMutation.mutate(data);
   };
 
@@ -188,6 +222,7 @@ export const FacultyRegistration: React.FC = () => {
                     required
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                   />
+                  <FieldError message={userFieldErrors.fullName} />
                 </div>
 
                 <div>
@@ -200,6 +235,7 @@ export const FacultyRegistration: React.FC = () => {
                     required
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                   />
+                  <FieldError message={userFieldErrors.email} />
                 </div>
 
                 <div>
@@ -212,6 +248,7 @@ export const FacultyRegistration: React.FC = () => {
                     required
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                   />
+                  <FieldError message={userFieldErrors.contactNumber} />
                 </div>
 
                 <div>
@@ -225,6 +262,7 @@ export const FacultyRegistration: React.FC = () => {
                     minLength={6}
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                   />
+                  <FieldError message={userFieldErrors.password} />
                   <p className="text-xs text-gray-500 mt-1">Minimum 6 characters</p>
                 </div>
 
@@ -315,6 +353,7 @@ export const FacultyRegistration: React.FC = () => {
                         rows={3}
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                       />
+                      <FieldError message={fieldErrors.address} />
                     </div>
 
                     <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
@@ -430,6 +469,7 @@ export const FacultyRegistration: React.FC = () => {
                         placeholder="Describe your areas of expertise and specialization"
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                       />
+                      <FieldError message={fieldErrors.expertise} />
                     </div>
 
                     <div>
@@ -440,6 +480,7 @@ export const FacultyRegistration: React.FC = () => {
                         placeholder="e.g., Monday-Friday 9 AM - 5 PM"
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                       />
+                      <FieldError message={fieldErrors.availability} />
                     </div>
                   </div>
                 )}
@@ -586,6 +627,7 @@ export const FacultyRegistration: React.FC = () => {
                         name="emergencyContactName"
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                       />
+                      <FieldError message={fieldErrors.emergencyContactName} />
                     </div>
 
                     <div>
@@ -596,6 +638,7 @@ export const FacultyRegistration: React.FC = () => {
                         placeholder="e.g., Father, Mother, Spouse, Guardian"
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                       />
+                      <FieldError message={fieldErrors.emergencyRelationship} />
                     </div>
 
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -606,6 +649,7 @@ export const FacultyRegistration: React.FC = () => {
                           name="emergencyPhoneNumber"
                           className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                         />
+                        <FieldError message={fieldErrors.emergencyPhoneNumber} />
                       </div>
 
                       <div>
@@ -615,6 +659,7 @@ export const FacultyRegistration: React.FC = () => {
                           name="emergencyAlternatePhone"
                           className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                         />
+                        <FieldError message={fieldErrors.emergencyAlternatePhone} />
                       </div>
                     </div>
                   </div>
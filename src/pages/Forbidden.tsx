@@ -0,0 +1,27 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import { Layout } from '../components/Layout';
+import { getHomePath } from '../types/route.types';
+
+export const Forbidden: React.FC = () => {
+  const { user } = useAuth();
+
+  return (
+    <Layout>
+      <div className="max-w-7xl mx-auto">
+        <div className="bg-white shadow-xl rounded-lg p-12 text-center">
+          <div className="text-6xl font-bold text-orange-600 mb-4">403</div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Access Denied</h1>
+          <p className="text-gray-600 mb-6">You don't have permission to access this page.</p>
+          <Link
+            to={getHomePath(user?.role)}
+            className="inline-block px-6 py-2 bg-orange-600 text-white rounded-lg font-semibold hover:bg-orange-700 transition-colors"
+          >
+            Back to Home
+          </Link>
+        </div>
+      </div>
+    </Layout>
+  );
+};
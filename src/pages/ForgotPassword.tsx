@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { authAPI } from '../api/auth.api';
+import { getErrorMessage } from '../api/response';
+
+export const ForgotPassword: React.FC = () => {
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!email.trim()) {
+      setError('Please enter your email address');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await authAPI.forgotPassword(email.trim());
+      setSubmitted(true);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to send reset link. Please try again.'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100 px-4">
+      <div className="bg-white shadow-xl rounded-lg p-8 w-full max-w-md">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Forgot your password?</h1>
+
+        {submitted ? (
+          <>
+            <p className="text-gray-600 mb-6">
+              If an account exists for <strong>{email.trim()}</strong>, a link to reset your password has been sent.
+              The link expires after a short time.
+            </p>
+            <Link to="/login" className="text-orange-600 font-semibold hover:underline">
+              Back to sign in
+            </Link>
+          </>
+        ) : (
+          <>
+            <p className="text-gray-600 mb-6">Enter your registered email and we will send you a link to reset it.</p>
+
+            {error && <div className="mb-4 p-3 bg-red-50 border border-red-300 text-red-700 rounded-lg text-sm">{error}</div>}
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+                placeholder="Enter your email"
+              />
+              <button
+                type="submit"
+                disabled={loading}
+                className="w-full px-4 py-2 bg-orange-600 text-white rounded-lg font-semibold hover:bg-orange-700 transition-colors disabled:opacity-50"
+              >
+                {loading ? 'Sending...' : 'Send reset link'}
+              </button>
+            </form>
+
+            <div className="mt-6 text-center">
+              <Link to="/login" className="text-sm text-orange-600 hover:underline">
+                Back to sign in
+              </Link>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -32,7 +32,7 @@ export const Home: React.FC = () => {
                   Login
                 </Link>
                 <Link
-                  to="/enrollment"
+                  to="/students/enroll"
                   className="inline-block px-8 py-3 bg-transparent border-2 border-orange-600 text-orange-600 font-semibold rounded-lg hover:bg-orange-600 hover:text-white transition"
                 >
                   Enroll Now
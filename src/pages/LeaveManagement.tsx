@@ -2,45 +2,68 @@ import React, { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '../context/AuthContext';
 import { Layout } from '../components/Layout';
-import { studentLeaveAPI, CreateLeaveRequest as CreateStudentLeaveRequest, LeaveStatus } from '../api/studentLeave.api';
-import { employeeLeaveAPI, CreateEmployeeLeaveRequest } from '../api/employeeLeave.api';
-import { facultyLeaveAPI, CreateFacultyLeaveRequest } from '../api/facultyLeave.api';
+import { studentLeaveAPI, CreateLeaveRequest as CreateStudentLeaveRequest, LeaveStatus, StudentLeave } from '../api/studentLeave.api';
+import { employeeLeaveAPI, CreateEmployeeLeaveRequest, EmployeeLeave } from '../api/employeeLeave.api';
+import { facultyLeaveAPI, CreateFacultyLeaveRequest, FacultyLeave } from '../api/facultyLeave.api';
 import { batchAPI } from '../api/batch.api';
 import { userAPI } from '../api/user.api';
+import { toast } from '../context/NotificationContext';
+import { applyTableState, DataTable, DataTableBulkAction, DataTableColumn, DataTableFilter, useDataTableState } from '../components/DataTable';
+
+const LEAVE_TYPES = ['student', 'employee', 'faculty'] as const;
+type LeaveType = (typeof LEAVE_TYPES)[number];
+
+const STATUS_FILTER: DataTableFilter = {
+  id: 'status',
+  label: 'Statuses',
+  options: [
+    { value: LeaveStatus.PENDING, label: 'Pending' },
+    { value: LeaveStatus.APPROVED, label: 'Approved' },
+    { value: LeaveStatus.REJECTED, label: 'Rejected' },
+  ],
+};
+
+type Leave = StudentLeave | EmployeeLeave | FacultyLeave;
 
-type LeaveType = 'student' | 'employee' | 'faculty';
+// Leave records name their requester after their type: leave.student, leave.employee or leave.faculty
+const getRequester = (leave: Leave) =>
+  'studentId' in leave ? leave.student : 'employeeId' in leave ? leave.employee : leave.faculty;
 
 export const LeaveManagement: React.FC = () => {
   const { user: currentUser } = useAuth();
   const queryClient = useQueryClient();
-  const [activeTab, setActiveTab] = useState<LeaveType>(() => {
-    // Set default tab based on user role
-    if (currentUser?.role === 'student') return 'student';
-    if (currentUser?.role === 'employee') return 'employee';
-    if (currentUser?.role === 'faculty') return 'faculty';
-    return 'student'; // Default for admin/superadmin
-  });
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [isApproveModalOpen, setIsApproveModalOpen] = useState(false);
-  const [selectedLeave, setSelectedLeave] = useState<any>(null);
-  const [statusFilter, setStatusFilter] = useState<LeaveStatus | 'all'>('all');
+  const [selectedLeave, setSelectedLeave] = useState<Leave | null>(null);
+  // Students, employees and faculty open on their own leaves; admins start on student leaves
+  const defaultTab: LeaveType =
+    currentUser?.role === 'employee' || currentUser?.role === 'faculty' ? currentUser.role : 'student';
+  const table = useDataTableState({
+    filterIds: ['type', 'status'],
+    defaultFilters: { type: defaultTab },
+    defaultSortBy: 'startDate',
+    defaultSortOrder: 'desc',
+  });
+  const requestedTab = table.state.filters.type as LeaveType;
+  const activeTab = LEAVE_TYPES.includes(requestedTab) ? requestedTab : defaultTab;
+  const statusFilter = (table.state.filters.status || 'all') as LeaveStatus | 'all';
 
   // Fetch student leaves
-  const { data: studentLeavesData, isLoading: isLoadingStudent } = useQuery({
+  const { data: studentLeavesData, isLoading: isLoadingStudent, isFetching: isFetchingStudent, error: studentLeavesError, refetch: refetchStudentLeaves } = useQuery({
     queryKey: ['student-leaves', statusFilter],
     queryFn: () => studentLeaveAPI.getLeaves(statusFilter !== 'all' ? { status: statusFilter } : {}),
     enabled: activeTab === 'student' || currentUser?.role === 'admin' || currentUser?.role === 'superadmin',
   });
 
   // Fetch employee leaves
-  const { data: employeeLeavesData, isLoading: isLoadingEmployee } = useQuery({
+  const { data: employeeLeavesData, isLoading: isLoadingEmployee, isFetching: isFetchingEmployee, error: employeeLeavesError, refetch: refetchEmployeeLeaves } = useQuery({
     queryKey: ['employee-leaves', statusFilter],
     queryFn: () => employeeLeaveAPI.getLeaves(statusFilter !== 'all' ? { status: statusFilter } : {}),
     enabled: activeTab === 'employee' || currentUser?.role === 'admin' || currentUser?.role === 'superadmin',
   });
 
   // Fetch faculty leaves
-  const { data: facultyLeavesData, isLoading: isLoadingFaculty } = useQuery({
+  const { data: facultyLeavesData, isLoading: isLoadingFaculty, isFetching: isFetchingFaculty, error: facultyLeavesError, refetch: refetchFacultyLeaves } = useQuery({
     queryKey: ['faculty-leaves', statusFilter],
     queryFn: () => facultyLeaveAPI.getLeaves(statusFilter !== 'all' ? { status: statusFilter } : {}),
     enabled: activeTab === 'faculty' || currentUser?.role === 'admin' || currentUser?.role === 'superadmin',
@@ -76,79 +99,76 @@ export const LeaveManagement: React.FC = () => {
 
   const createStudentLeaveMutation = useMutation({
     mutationFn: (data: CreateStudentLeaveRequest) => studentLeaveAPI.createLeave(data),
+    meta: { successMessage: 'Leave request created successfully!', errorMessage: 'Failed to create leave request' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['student-leaves'] });
       setIsCreateModalOpen(false);
-      alert('Leave request created successfully!');
-    },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to create leave request');
     },
   });
 
   const createEmployeeLeaveMutation = useMutation({
     mutationFn: (data: CreateEmployeeLeaveRequest) => employeeLeaveAPI.createLeave(data),
+    meta: { successMessage: 'Leave request created successfully!', errorMessage: 'Failed to create leave request' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['employee-leaves'] });
       setIsCreateModalOpen(false);
-      alert('Leave request created successfully!');
-    },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to create leave request');
     },
   });
 
   const createFacultyLeaveMutation = useMutation({
     mutationFn: (data: CreateFacultyLeaveRequest) => facultyLeaveAPI.createLeave(data),
+    meta: { successMessage: 'Leave request created successfully!', errorMessage: 'Failed to create leave request' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['faculty-leaves'] });
       setIsCreateModalOpen(false);
-      alert('Leave request created successfully!');
-    },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to create leave request');
     },
   });
 
   const approveStudentLeaveMutation = useMutation({
     mutationFn: ({ id, approve, rejectionReason }: { id: number; approve: boolean; rejectionReason?: string }) =>
       studentLeaveAPI.approveLeave(id, { approve, rejectionReason }),
+    meta: { successMessage: 'Leave request updated successfully!', errorMessage: 'Failed to update leave request' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['student-leaves'] });
       setIsApproveModalOpen(false);
       setSelectedLeave(null);
-      alert('Leave request updated successfully!');
-    },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to update leave request');
     },
   });
 
   const approveEmployeeLeaveMutation = useMutation({
     mutationFn: ({ id, approve, rejectionReason }: { id: number; approve: boolean; rejectionReason?: string }) =>
       employeeLeaveAPI.approveLeave(id, { approve, rejectionReason }),
+    meta: { successMessage: 'Leave request updated successfully!', errorMessage: 'Failed to update leave request' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['employee-leaves'] });
       setIsApproveModalOpen(false);
       setSelectedLeave(null);
-      alert('Leave request updated successfully!');
-    },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to update leave request');
     },
   });
 
   const approveFacultyLeaveMutation = useMutation({
     mutationFn: ({ id, approve, rejectionReason }: { id: number; approve: boolean; rejectionReason?: string }) =>
       facultyLeaveAPI.approveLeave(id, { approve, rejectionReason }),
+    meta: { successMessage: 'Leave request updated successfully!', errorMessage: 'Failed to update leave request' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['faculty-leaves'] });
       setIsApproveModalOpen(false);
       setSelectedLeave(null);
-      alert('Leave request updated successfully!');
     },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to update leave request');
+  });
+
+  // Approves the selected pending requests of the current tab in one go
+  const bulkApproveMutation = useMutation({
+    mutationFn: (ids: number[]) => {
+      const leaveAPI = activeTab === 'student' ? studentLeaveAPI : activeTab === 'employee' ? employeeLeaveAPI : facultyLeaveAPI;
+      return Promise.all(ids.map((id) => leaveAPI.approveLeave(id, { approve: true })));
+    },
+    meta: { errorMessage: 'Failed to approve some leave requests' },
+    onSuccess: (results) => {
+      toast.success(`${results.length} leave request(s) approved`);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: [`${activeTab}-leaves`] });
     },
   });
 
@@ -184,7 +204,7 @@ export const LeaveManagement: React.FC = () => {
     }
   };
 
-  const handleApprove = (leave: any) => {
+  const handleApprove = (leave: Leave) => {
     setSelectedLeave(leave);
     setIsApproveModalOpen(true);
   };
@@ -206,13 +226,17 @@ export const LeaveManagement: React.FC = () => {
     }
   };
 
-  const getCurrentLeaves = () => {
+  const getCurrentLeaves = (): Leave[] => {
     if (activeTab === 'student') return studentLeavesData?.data.leaves || [];
     if (activeTab === 'employee') return employeeLeavesData?.data.leaves || [];
     if (activeTab === 'faculty') return facultyLeavesData?.data.leaves || [];
     return [];
   };
 
+  const switchTab = (tab: LeaveType) => {
+    table.update({ filters: { type: tab } });
+  };
+
   const isLoading = () => {
     if (activeTab === 'student') return isLoadingStudent;
     if (activeTab === 'employee') return isLoadingEmployee;
@@ -220,6 +244,12 @@ export const LeaveManagement: React.FC = () => {
     return false;
   };
 
+  const currentQuery = {
+    student: { isFetching: isFetchingStudent, error: studentLeavesError, refetch: refetchStudentLeaves },
+    employee: { isFetching: isFetchingEmployee, error: employeeLeavesError, refetch: refetchEmployeeLeaves },
+    faculty: { isFetching: isFetchingFaculty, error: facultyLeavesError, refetch: refetchFacultyLeaves },
+  }[activeTab];
+
   const canCreateLeave = () => {
     if (currentUser?.role === 'admin' || currentUser?.role === 'superadmin') return true;
     if (activeTab === 'student' && currentUser?.role === 'student') return true;
@@ -235,7 +265,125 @@ export const LeaveManagement: React.FC = () => {
   const leaves = getCurrentLeaves();
   const filteredLeaves = statusFilter === 'all' 
     ? leaves 
-    : leaves.filter((leave: any) => leave.status === statusFilter);
+    : leaves.filter((leave) => leave.status === statusFilter);
+
+  const columns: DataTableColumn<Leave>[] = [
+    {
+      id: 'requester',
+      header: activeTab === 'student' ? 'Student' : activeTab === 'employee' ? 'Employee' : 'Faculty',
+      sortable: true,
+      value: (leave) => getRequester(leave)?.name,
+      className: 'px-6 py-4 whitespace-nowrap',
+      cell: (leave) => (
+        <>
+          <div className="text-sm font-medium text-gray-900">{getRequester(leave)?.name || 'N/A'}</div>
+          <div className="text-sm text-gray-500">{getRequester(leave)?.email}</div>
+        </>
+      ),
+    },
+    ...(activeTab === 'student'
+      ? [
+          {
+            id: 'batch',
+            header: 'Batch',
+            sortable: true,
+            value: (leave: Leave) => ('batch' in leave ? leave.batch?.title : undefined),
+            className: 'px-6 py-4 whitespace-nowrap text-sm text-gray-900',
+            cell: (leave: Leave) => ('batch' in leave && leave.batch?.title) || 'N/A',
+          },
+        ]
+      : []),
+    {
+      id: 'startDate',
+      header: 'Start Date',
+      sortable: true,
+      value: (leave) => leave.startDate,
+      className: 'px-6 py-4 whitespace-nowrap text-sm text-gray-900',
+      cell: (leave) => new Date(leave.startDate).toLocaleDateString(),
+    },
+    {
+      id: 'endDate',
+      header: 'End Date',
+      sortable: true,
+      value: (leave) => leave.endDate,
+      className: 'px-6 py-4 whitespace-nowrap text-sm text-gray-900',
+      cell: (leave) => new Date(leave.endDate).toLocaleDateString(),
+    },
+    {
+      id: 'reason',
+      header: 'Reason',
+      value: (leave) => leave.reason,
+      className: 'px-6 py-4 text-sm text-gray-500',
+      cell: (leave) => leave.reason || '-',
+    },
+    {
+      id: 'status',
+      header: 'Status',
+      sortable: true,
+      value: (leave) => leave.status,
+      className: 'px-6 py-4 whitespace-nowrap',
+      cell: (leave) => (
+        <span className={`px-2 py-1 rounded text-xs font-semibold ${
+          leave.status === LeaveStatus.APPROVED ? 'bg-green-100 text-green-800' :
+          leave.status === LeaveStatus.REJECTED ? 'bg-red-100 text-red-800' :
+          'bg-yellow-100 text-yellow-800'
+        }`}>
+          {leave.status}
+        </span>
+      ),
+    },
+    ...(canApproveLeave()
+      ? [
+          {
+            id: 'actions',
+            header: 'Actions',
+            hideable: false,
+            className: 'px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-500',
+            cell: (leave: Leave) =>
+              leave.status === LeaveStatus.PENDING ? (
+                <>
+                  <button
+                    onClick={() => handleApprove(leave)}
+                    className="text-green-600 hover:text-green-900 mr-3"
+                  >
+                    Approve
+                  </button>
+                  <button
+                    onClick={() => handleApprove(leave)}
+                    className="text-red-600 hover:text-red-900"
+                  >
+                    Reject
+                  </button>
+                </>
+              ) : (
+                <>
+                  {leave.approver?.name && `By ${leave.approver.name}`}
+                  {leave.approvedAt && ` on ${new Date(leave.approvedAt).toLocaleDateString()}`}
+                </>
+              ),
+          },
+        ]
+      : []),
+  ];
+
+  // Leave endpoints return every matching request, so search, sorting and paging happen here
+  const leavePage = applyTableState(filteredLeaves, table.state, columns);
+
+  const bulkActions: DataTableBulkAction<Leave>[] = canApproveLeave()
+    ? [
+        {
+          label: 'Approve selected',
+          onClick: (rows) => {
+            const pendingIds = rows.filter((leave) => leave.status === LeaveStatus.PENDING).map((leave) => leave.id);
+            if (pendingIds.length === 0) {
+              toast.info('Only pending leave requests can be approved');
+              return;
+            }
+            bulkApproveMutation.mutate(pendingIds);
+          },
+        },
+      ]
+    : [];
 
   return (
     <Layout>
@@ -263,7 +411,7 @@ export const LeaveManagement: React.FC = () => {
             <nav className="flex -mb-px">
               {(currentUser?.role === 'admin' || currentUser?.role === 'superadmin' || currentUser?.role === 'student') && (
                 <button
-                  onClick={() => setActiveTab('student')}
+                  onClick={() => switchTab('student')}
                   className={`px-6 py-3 text-sm font-medium ${
                     activeTab === 'student'
                       ? 'border-b-2 border-orange-500 text-orange-600'
@@ -275,7 +423,7 @@ export const LeaveManagement: React.FC = () => {
               )}
               {(currentUser?.role === 'admin' || currentUser?.role === 'superadmin' || currentUser?.role === 'employee') && (
                 <button
-                  onClick={() => setActiveTab('employee')}
+                  onClick={() => switchTab('employee')}
                   className={`px-6 py-3 text-sm font-medium ${
                     activeTab === 'employee'
                       ? 'border-b-2 border-orange-500 text-orange-600'
@@ -287,7 +435,7 @@ export const LeaveManagement: React.FC = () => {
               )}
               {(currentUser?.role === 'admin' || currentUser?.role === 'superadmin' || currentUser?.role === 'faculty') && (
                 <button
-                  onClick={() => setActiveTab('faculty')}
+                  onClick={() => switchTab('faculty')}
                   className={`px-6 py-3 text-sm font-medium ${
                     activeTab === 'faculty'
                       ? 'border-b-2 border-orange-500 text-orange-600'
@@ -301,146 +449,23 @@ export const LeaveManagement: React.FC = () => {
           </div>
 
           <div className="p-6">
-            {/* Status Filter */}
-            <div className="mb-4 flex gap-2">
-              <button
-                onClick={() => setStatusFilter('all')}
-                className={`px-4 py-2 rounded-lg text-sm font-medium ${
-                  statusFilter === 'all'
-                    ? 'bg-orange-600 text-white'
-                    : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
-                }`}
-              >
-                All
-              </button>
-              <button
-                onClick={() => setStatusFilter(LeaveStatus.PENDING)}
-                className={`px-4 py-2 rounded-lg text-sm font-medium ${
-                  statusFilter === LeaveStatus.PENDING
-                    ? 'bg-yellow-600 text-white'
-                    : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
-                }`}
-              >
-                Pending
-              </button>
-              <button
-                onClick={() => setStatusFilter(LeaveStatus.APPROVED)}
-                className={`px-4 py-2 rounded-lg text-sm font-medium ${
-                  statusFilter === LeaveStatus.APPROVED
-                    ? 'bg-green-600 text-white'
-                    : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
-                }`}
-              >
-                Approved
-              </button>
-              <button
-                onClick={() => setStatusFilter(LeaveStatus.REJECTED)}
-                className={`px-4 py-2 rounded-lg text-sm font-medium ${
-                  statusFilter === LeaveStatus.REJECTED
-                    ? 'bg-red-600 text-white'
-                    : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
-                }`}
-              >
-                Rejected
-              </button>
-            </div>
-
-            {isLoading() ? (
-              <div className="flex justify-center items-center py-12">
-                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-500"></div>
-              </div>
-            ) : filteredLeaves.length === 0 ? (
-              <div className="text-center py-12">
-                <p className="text-gray-500 text-lg">No leave requests found</p>
-              </div>
-            ) : (
-              <div className="overflow-x-auto">
-                <table className="min-w-full divide-y divide-gray-200">
-                  <thead className="bg-gray-50">
-                    <tr>
-                      {activeTab === 'student' && <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Student</th>}
-                      {activeTab === 'employee' && <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Employee</th>}
-                      {activeTab === 'faculty' && <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Faculty</th>}
-                      {activeTab === 'student' && <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Batch</th>}
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Start Date</th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">End Date</th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reason</th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
-                      {canApproveLeave() && <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>}
-                    </tr>
-                  </thead>
-                  <tbody className="bg-white divide-y divide-gray-200">
-                    {filteredLeaves.map((leave: any) => (
-                      <tr key={leave.id} className="hover:bg-gray-50">
-                        {activeTab === 'student' && (
-                          <td className="px-6 py-4 whitespace-nowrap">
-                            <div className="text-sm font-medium text-gray-900">{leave.student?.name || 'N/A'}</div>
-                            <div className="text-sm text-gray-500">{leave.student?.email}</div>
-                          </td>
-                        )}
-                        {activeTab === 'employee' && (
-                          <td className="px-6 py-4 whitespace-nowrap">
-                            <div className="text-sm font-medium text-gray-900">{leave.employee?.name || 'N/A'}</div>
-                            <div className="text-sm text-gray-500">{leave.employee?.email}</div>
-                          </td>
-                        )}
-                        {activeTab === 'faculty' && (
-                          <td className="px-6 py-4 whitespace-nowrap">
-                            <div className="text-sm font-medium text-gray-900">{leave.faculty?.name || 'N/A'}</div>
-                            <div className="text-sm text-gray-500">{leave.faculty?.email}</div>
-                          </td>
-                        )}
-                        {activeTab === 'student' && (
-                          <td className="px-6 py-4 whitespace-nowrap">
-                            <div className="text-sm text-gray-900">{leave.batch?.title || 'N/A'}</div>
-                          </td>
-                        )}
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                          {new Date(leave.startDate).toLocaleDateString()}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                          {new Date(leave.endDate).toLocaleDateString()}
-                        </td>
-                        <td className="px-6 py-4 text-sm text-gray-500">
-                          {leave.reason || '-'}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <span className={`px-2 py-1 rounded text-xs font-semibold ${
-                            leave.status === LeaveStatus.APPROVED ? 'bg-green-100 text-green-800' :
-                            leave.status === LeaveStatus.REJECTED ? 'bg-red-100 text-red-800' :
-                            'bg-yellow-100 text-yellow-800'
-                          }`}>
-                            {leave.status}
-                          </span>
-                        </td>
-                        {canApproveLeave() && leave.status === LeaveStatus.PENDING && (
-                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                            <button
-                              onClick={() => handleApprove(leave)}
-                              className="text-green-600 hover:text-green-900 mr-3"
-                            >
-                              Approve
-                            </button>
-                            <button
-                              onClick={() => handleApprove(leave)}
-                              className="text-red-600 hover:text-red-900"
-                            >
-                              Reject
-                            </button>
-                          </td>
-                        )}
-                        {canApproveLeave() && leave.status !== LeaveStatus.PENDING && (
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                            {leave.approver?.name && `By ${leave.approver.name}`}
-                            {leave.approvedAt && ` on ${new Date(leave.approvedAt).toLocaleDateString()}`}
-                          </td>
-                        )}
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
-              </div>
-            )}
+            <DataTable
+              tableId={`${activeTab}-leaves`}
+              columns={columns}
+              rows={leavePage.rows}
+              rowKey={(leave) => leave.id}
+              state={table.state}
+              onStateChange={table.update}
+              pagination={leavePage.pagination}
+              isLoading={isLoading()}
+              isFetching={currentQuery.isFetching}
+              error={currentQuery.error}
+              onRetry={currentQuery.refetch}
+              filters={[STATUS_FILTER]}
+              searchPlaceholder="Search name, batch or reason"
+              bulkActions={bulkActions}
+              emptyMessage="No leave requests found"
+            />
           </div>
         </div>
       </div>
@@ -473,7 +498,7 @@ export const LeaveManagement: React.FC = () => {
                         disabled={!studentsData?.data?.users}
                       >
                         <option value="">{studentsData?.data?.users ? 'Select Student' : 'Loading...'}</option>
-                        {studentsData?.data?.users?.map((student: any) => (
+                        {studentsData?.data?.users?.map((student) => (
                           <option key={student.id} value={student.id}>
                             {student.name} ({student.email})
                           </option>
@@ -489,7 +514,7 @@ export const LeaveManagement: React.FC = () => {
                       className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                     >
                       <option value="">Select Batch</option>
-                      {batchesData?.data?.map((batch: any) => (
+                      {batchesData?.data?.map((batch) => (
                         <option key={batch.id} value={batch.id}>{batch.title}</option>
                       ))}
                     </select>
@@ -506,7 +531,7 @@ export const LeaveManagement: React.FC = () => {
                     disabled={!employeesData?.data?.users}
                   >
                     <option value="">{employeesData?.data?.users ? 'Select Employee' : 'Loading...'}</option>
-                    {employeesData?.data?.users?.map((employee: any) => (
+                    {employeesData?.data?.users?.map((employee) => (
                       <option key={employee.id} value={employee.id}>
                         {employee.name} ({employee.email})
                       </option>
@@ -524,7 +549,7 @@ export const LeaveManagement: React.FC = () => {
                     disabled={!facultyData?.data?.users}
                   >
                     <option value="">{facultyData?.data?.users ? 'Select Faculty' : 'Loading...'}</option>
-                    {facultyData?.data?.users?.map((faculty: any) => (
+                    {facultyData?.data?.users?.map((faculty) => (
                       <option key={faculty.id} value={faculty.id}>
                         {faculty.name} ({faculty.email})
                       </option>
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Link, useNavigate, useLocation, Location } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
+import { getErrorMessage } from '../api/response';
 
 export const Login: React.FC = () => {
   const [email, setEmail] = useState('');
@@ -9,13 +10,18 @@ export const Login: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const { login, isAuthenticated, loading: authLoading } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+
+  // The route guard passes the page the user was on; send them back there after signing in
+  const from = (location.state as { from?: Location } | null)?.from;
+  const redirectTo = from ? `${from.pathname}${from.search}${from.hash}` : '/dashboard';
 
   // Redirect if already authenticated
   useEffect(() => {
     if (!authLoading && isAuthenticated) {
-      navigate('/dashboard', { replace: true });
+      navigate(redirectTo, { replace: true });
     }
-  }, [isAuthenticated, authLoading, navigate]);
+  }, [isAuthenticated, authLoading, navigate, redirectTo]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -35,19 +41,9 @@ export const Login: React.FC = () => {
 
     try {
       await login(email.trim(), password);
-      navigate('/dashboard', { replace: true });
-    } catch (err: any) {
-      let errorMessage = 'Login failed. Please check your credentials.';
-      
-      if (err.response) {
-        errorMessage = err.response.data?.message || err.message || errorMessage;
-      } else if (err.request) {
-        errorMessage = 'Unable to connect to server. Please check your connection.';
-      } else {
-        errorMessage = err.message || errorMessage;
-      }
-      
-      setError(errorMessage);
+      navigate(redirectTo, { replace: true });
+    } catch (err) {
+      setError(getErrorMessage(err, 'Login failed. Please check your credentials.'));
     } finally {
       setLoading(false);
     }
@@ -130,6 +126,12 @@ export const Login: React.FC = () => {
               />
             </div>
 
+            <div className="text-right -mt-3">
+              <Link to="/forgot-password" className="text-sm text-orange-400 hover:text-orange-300">
+                Forgot password?
+              </Link>
+            </div>
+
             <button
               type="submit"
               disabled={loading}
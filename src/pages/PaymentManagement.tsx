@@ -1,21 +1,41 @@
 import React, { useState } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { useAuth } from '../context/AuthContext';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { usePermissions } from '../context/PermissionContext';
 import { Layout } from '../components/Layout';
-import { paymentAPI, PaymentTransaction, CreatePaymentRequest, UpdatePaymentRequest } from '../api/payment.api';
+import { paymentAPI, PaymentTransaction, PaymentStatus, CreatePaymentRequest, UpdatePaymentRequest } from '../api/payment.api';
 import { studentAPI } from '../api/student.api';
+import { Module } from '../api/permission.api';
+import { toast } from '../context/NotificationContext';
+import { DataTable, DataTableBulkAction, DataTableColumn, DataTableFilter, useDataTableState } from '../components/DataTable';
+
+const STATUS_FILTER: DataTableFilter = {
+  id: 'status',
+  label: 'Statuses',
+  options: Object.values(PaymentStatus).map((status) => ({
+    value: status,
+    label: status.charAt(0).toUpperCase() + status.slice(1),
+  })),
+};
 
 export const PaymentManagement: React.FC = () => {
-  const { user } = useAuth();
+  const { can } = usePermissions();
   const queryClient = useQueryClient();
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [isUpdateModalOpen, setIsUpdateModalOpen] = useState(false);
   const [selectedPayment, setSelectedPayment] = useState<PaymentTransaction | null>(null);
+  const table = useDataTableState({ filterIds: ['status'], defaultSortBy: 'dueDate', defaultSortOrder: 'desc' });
 
   // Fetch payments
-  const { data: paymentsData, isLoading } = useQuery({
-    queryKey: ['payments'],
-    queryFn: () => paymentAPI.getAllPayments(),
+  const {
+    data: paymentsData,
+    isLoading,
+    isFetching,
+    error: paymentsError,
+    refetch,
+  } = useQuery({
+    queryKey: ['payments', table.params, table.state.filters],
+    queryFn: () => paymentAPI.getAllPayments({ ...table.params, status: table.state.filters.status || undefined }),
+    placeholderData: keepPreviousData,
   });
 
   // Fetch students for form
@@ -26,34 +46,120 @@ export const PaymentManagement: React.FC = () => {
 
   const createPaymentMutation = useMutation({
     mutationFn: (data: CreatePaymentRequest) => paymentAPI.createPayment(data),
+    meta: { successMessage: 'Payment created successfully!', errorMessage: 'Failed to create payment' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['payments'] });
       setIsCreateModalOpen(false);
-      alert('Payment created successfully!');
     },
     onError: (error: any) => {
-      const errorMessage = error.response?.data?.message || error.message || 'Failed to create payment';
       console.error('Payment creation error:', error);
-      alert(`Error: ${errorMessage}\n\nPlease check:\n1. All required fields are filled\n2. Database migrations are up to date\n3. Backend server logs for details`);
     },
   });
 
   const updatePaymentMutation = useMutation({
     mutationFn: ({ id, data }: { id: number; data: UpdatePaymentRequest }) => paymentAPI.updatePayment(id, data),
+    meta: { successMessage: 'Payment updated successfully!', errorMessage: 'Failed to update payment' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['payments'] });
       setIsUpdateModalOpen(false);
       setSelectedPayment(null);
-      alert('Payment updated successfully!');
     },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to update payment');
+  });
+
+  const markPaidMutation = useMutation({
+    mutationFn: (payments: PaymentTransaction[]) =>
+      Promise.all(
+        payments.map((payment) =>
+          paymentAPI.updatePayment(payment.id, {
+            status: PaymentStatus.PAID,
+            paidDate: new Date().toISOString().split('T')[0],
+          })
+        )
+      ),
+    meta: { errorMessage: 'Failed to update some payments' },
+    onSuccess: (results) => {
+      toast.success(`${results.length} payment(s) marked as paid`);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['payments'] });
     },
   });
 
   const payments = paymentsData?.data.payments || [];
   const students = studentsData?.data.students || [];
 
+  const columns: DataTableColumn<PaymentTransaction>[] = [
+    {
+      id: 'student',
+      header: 'Student',
+      className: 'px-6 py-4 whitespace-nowrap',
+      cell: (payment) => (
+        <>
+          <div className="text-sm font-medium text-gray-900">{payment.student?.name || `Student ${payment.studentId}`}</div>
+          <div className="text-sm text-gray-500">{payment.student?.email || '-'}</div>
+        </>
+      ),
+    },
+    {
+      id: 'amount',
+      header: 'Amount',
+      sortable: true,
+      className: 'px-6 py-4 whitespace-nowrap text-sm text-gray-900',
+      cell: (payment) => `₹${payment.amount.toFixed(2)}`,
+    },
+    {
+      id: 'dueDate',
+      header: 'Due Date',
+      sortable: true,
+      cell: (payment) => (payment.dueDate ? new Date(payment.dueDate).toLocaleDateString() : '-'),
+    },
+    {
+      id: 'paidDate',
+      header: 'Paid Date',
+      sortable: true,
+      cell: (payment) => (payment.paidDate ? new Date(payment.paidDate).toLocaleDateString() : '-'),
+    },
+    {
+      id: 'status',
+      header: 'Status',
+      sortable: true,
+      className: 'px-6 py-4 whitespace-nowrap',
+      cell: (payment) => (
+        <span className={`px-2 py-1 rounded text-xs font-semibold ${
+          payment.status === 'paid' ? 'bg-green-100 text-green-800' :
+          payment.status === 'partial' ? 'bg-blue-100 text-blue-800' :
+          payment.status === 'overdue' ? 'bg-red-100 text-red-800' :
+          payment.status === 'cancelled' ? 'bg-gray-100 text-gray-800' :
+          'bg-yellow-100 text-yellow-800'
+        }`}>
+          {payment.status}
+        </span>
+      ),
+    },
+    {
+      id: 'actions',
+      header: 'Actions',
+      hideable: false,
+      className: 'px-6 py-4 whitespace-nowrap text-sm font-medium',
+      cell: (payment) =>
+        can(Module.PAYMENTS, 'edit') && (
+          <button
+            onClick={() => {
+              setSelectedPayment(payment);
+              setIsUpdateModalOpen(true);
+            }}
+            className="text-orange-600 hover:text-orange-900"
+          >
+            Update
+          </button>
+        ),
+    },
+  ];
+
+  const bulkActions: DataTableBulkAction<PaymentTransaction>[] = can(Module.PAYMENTS, 'edit')
+    ? [{ label: 'Mark as paid', onClick: (rows) => markPaidMutation.mutate(rows) }]
+    : [];
+
   const handleCreatePayment = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     const formData = new FormData(e.currentTarget);
@@ -64,15 +170,15 @@ export const PaymentManagement: React.FC = () => {
     
     // Validation
     if (!studentId || isNaN(studentId)) {
-      alert('Please select a valid student');
+      toast.error('Please select a valid student');
       return;
     }
     if (!amount || isNaN(amount) || amount <= 0) {
-      alert('Please enter a valid amount greater than 0');
+      toast.error('Please enter a valid amount greater than 0');
       return;
     }
     if (!dueDate) {
-      alert('Please select a due date');
+      toast.error('Please select a due date');
       return;
     }
     
@@ -92,7 +198,7 @@ export const PaymentManagement: React.FC = () => {
     if (!selectedPayment) return;
     const formData = new FormData(e.currentTarget);
     const data: UpdatePaymentRequest = {
-      status: formData.get('status') as 'pending' | 'paid' | 'overdue' | 'cancelled' || undefined,
+      status: formData.get('status') as PaymentStatus || undefined,
       paidDate: formData.get('paidDate') as string || undefined,
       paymentMethod: formData.get('paymentMethod') as string || undefined,
       transactionId: formData.get('transactionId') as string || undefined,
@@ -101,18 +207,6 @@ export const PaymentManagement: React.FC = () => {
     updatePaymentMutation.mutate({ id: selectedPayment.id, data });
   };
 
-  if (isLoading) {
-    return (
-      <Layout>
-        <div className="max-w-7xl mx-auto">
-          <div className="flex justify-center items-center min-h-screen">
-            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-500"></div>
-          </div>
-        </div>
-      </Layout>
-    );
-  }
-
   return (
     <Layout>
       <div className="max-w-7xl mx-auto">
@@ -123,7 +217,7 @@ export const PaymentManagement: React.FC = () => {
                 <h1 className="text-3xl font-bold text-white">Payment Management</h1>
                 <p className="mt-2 text-orange-100">Manage payments</p>
               </div>
-              {(user?.role === 'admin' || user?.role === 'superadmin') && (
+              {can(Module.PAYMENTS, 'add') && (
                 <button
                   onClick={() => setIsCreateModalOpen(true)}
                   className="px-4 py-2 bg-white text-orange-600 rounded-lg font-semibold hover:bg-orange-50 transition-colors"
@@ -135,72 +229,23 @@ export const PaymentManagement: React.FC = () => {
           </div>
 
           <div className="p-6">
-            {payments.length === 0 ? (
-              <div className="text-center py-12">
-                <p className="text-gray-500 text-lg">No payments found</p>
-              </div>
-            ) : (
-              <div className="overflow-x-auto">
-                <table className="min-w-full divide-y divide-gray-200">
-                  <thead className="bg-gray-50">
-                    <tr>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Student</th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Due Date</th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Paid Date</th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
-                    </tr>
-                  </thead>
-                  <tbody className="bg-white divide-y divide-gray-200">
-                    {payments.map((payment) => (
-                      <tr key={payment.id} className="hover:bg-gray-50">
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm font-medium text-gray-900">{payment.student?.name || `Student ${payment.studentId}`}</div>
-                          <div className="text-sm text-gray-500">{payment.student?.email || '-'}</div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm text-gray-900">₹{payment.amount.toFixed(2)}</div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm text-gray-500">
-                            {payment.dueDate ? new Date(payment.dueDate).toLocaleDateString() : '-'}
-                          </div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm text-gray-500">
-                            {payment.paidDate ? new Date(payment.paidDate).toLocaleDateString() : '-'}
-                          </div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <span className={`px-2 py-1 rounded text-xs font-semibold ${
-                            payment.status === 'paid' ? 'bg-green-100 text-green-800' :
-                            payment.status === 'overdue' ? 'bg-red-100 text-red-800' :
-                            payment.status === 'cancelled' ? 'bg-gray-100 text-gray-800' :
-                            'bg-yellow-100 text-yellow-800'
-                          }`}>
-                            {payment.status}
-                          </span>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                          {(user?.role === 'admin' || user?.role === 'superadmin') && (
-                            <button
-                              onClick={() => {
-                                setSelectedPayment(payment);
-                                setIsUpdateModalOpen(true);
-                              }}
-                              className="text-orange-600 hover:text-orange-900"
-                            >
-                              Update
-                            </button>
-                          )}
-                        </td>
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
-              </div>
-            )}
+            <DataTable
+              tableId="payments"
+              columns={columns}
+              rows={payments}
+              rowKey={(payment) => payment.id}
+              state={table.state}
+              onStateChange={table.update}
+              pagination={paymentsData?.data.pagination}
+              isLoading={isLoading}
+              isFetching={isFetching}
+              error={paymentsError}
+              onRetry={refetch}
+              filters={[STATUS_FILTER]}
+              searchPlaceholder="Search student or transaction ID"
+              bulkActions={bulkActions}
+              emptyMessage="No payments found"
+            />
           </div>
         </div>
       </div>
@@ -289,6 +334,7 @@ export const PaymentManagement: React.FC = () => {
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                 >
                   <option value="pending">Pending</option>
+                  <option value="partial">Partial</option>
                   <option value="paid">Paid</option>
                   <option value="overdue">Overdue</option>
                   <option value="cancelled">Cancelled</option>
@@ -1,14 +1,17 @@
 import React, { useState, useRef } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { useAuth } from '../context/AuthContext';
+import { usePermissions } from '../context/PermissionContext';
 import { Layout } from '../components/Layout';
 import { portfolioAPI, Portfolio, CreatePortfolioRequest, ApprovePortfolioRequest } from '../api/portfolio.api';
 import { studentAPI } from '../api/student.api';
 import { batchAPI } from '../api/batch.api';
 import { uploadAPI } from '../api/upload.api';
+import { Module } from '../api/permission.api';
+import { toast } from '../context/NotificationContext';
+import { getErrorMessage } from '../api/response';
 
 export const PortfolioManagement: React.FC = () => {
-  const { user } = useAuth();
+  const { can } = usePermissions();
   const queryClient = useQueryClient();
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [selectedPortfolio, setSelectedPortfolio] = useState<Portfolio | null>(null);
@@ -39,27 +42,21 @@ export const PortfolioManagement: React.FC = () => {
   const createPortfolioMutation = useMutation({
     mutationFn: ({ studentId, data }: { studentId: number; data: CreatePortfolioRequest }) =>
       portfolioAPI.createPortfolio(studentId, data),
+    meta: { successMessage: 'Portfolio created successfully!', errorMessage: 'Failed to create portfolio' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['portfolios'] });
       setIsCreateModalOpen(false);
-      alert('Portfolio created successfully!');
-    },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to create portfolio');
     },
   });
 
   const approvePortfolioMutation = useMutation({
     mutationFn: ({ id, data }: { id: number; data: ApprovePortfolioRequest }) =>
       portfolioAPI.approvePortfolio(id, data),
+    meta: { successMessage: 'Portfolio status updated successfully!', errorMessage: 'Failed to update portfolio' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['portfolios'] });
       setIsApproveModalOpen(false);
       setSelectedPortfolio(null);
-      alert('Portfolio status updated successfully!');
-    },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to update portfolio');
     },
   });
 
@@ -83,7 +80,7 @@ export const PortfolioManagement: React.FC = () => {
     
     // Validate that at least one link is provided
     if (imageUrls.length === 0 && videoUrls.length === 0) {
-      alert('Please provide at least one image or video link');
+      toast.error('Please provide at least one image or video link');
       return;
     }
     
@@ -168,7 +165,7 @@ export const PortfolioManagement: React.FC = () => {
     const invalidFiles = Array.from(files).filter(file => file.size > maxSize);
     
     if (invalidFiles.length > 0) {
-      alert(`Some files exceed 50MB limit: ${invalidFiles.map(f => f.name).join(', ')}`);
+      toast.error(`Some files exceed 50MB limit: ${invalidFiles.map(f => f.name).join(', ')}`);
       return;
     }
 
@@ -177,7 +174,7 @@ export const PortfolioManagement: React.FC = () => {
     const invalidTypes = Array.from(files).filter(file => !validTypes.includes(file.type));
     
     if (invalidTypes.length > 0) {
-      alert(`Some files are not valid images: ${invalidTypes.map(f => f.name).join(', ')}`);
+      toast.error(`Some files are not valid images: ${invalidTypes.map(f => f.name).join(', ')}`);
       return;
     }
 
@@ -190,9 +187,9 @@ export const PortfolioManagement: React.FC = () => {
       const newUrls = response.data.urls;
       setImageLinks(prev => [...prev, ...newUrls]);
       
-      alert(`${fileArray.length} image(s) uploaded successfully!`);
+      toast.success(`${fileArray.length} image(s) uploaded successfully!`);
     } catch (error: any) {
-      alert(error.response?.data?.message || 'Failed to upload images');
+      toast.error(getErrorMessage(error, 'Failed to upload images'));
     } finally {
       setIsUploading(false);
       // Reset file input
@@ -232,7 +229,7 @@ export const PortfolioManagement: React.FC = () => {
                 <h1 className="text-3xl font-bold text-white">Portfolio Management</h1>
                 <p className="mt-2 text-orange-100">Student portfolios</p>
               </div>
-              {(user?.role === 'admin' || user?.role === 'superadmin' || user?.role === 'student') && (
+              {can(Module.PORTFOLIOS, 'add') && (
                 <button
                   onClick={() => setIsCreateModalOpen(true)}
                   className="px-4 py-2 bg-white text-orange-600 rounded-lg font-semibold hover:bg-orange-50 transition-colors"
@@ -275,7 +272,7 @@ export const PortfolioManagement: React.FC = () => {
                         </p>
                       )}
                     </div>
-                    {(user?.role === 'admin' || user?.role === 'superadmin' || user?.role === 'faculty') && portfolio.status === 'pending' && (
+                    {can(Module.PORTFOLIOS, 'edit') && portfolio.status === 'pending' && (
                       <button
                         onClick={() => {
                           setSelectedPortfolio(portfolio);
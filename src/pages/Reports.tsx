@@ -1,13 +1,14 @@
 import React, { useState } from 'react';
 import api from '../api/axios';
-import { useAuth } from '../context/AuthContext';
+import { Layout } from '../components/Layout';
+import { toast } from '../context/NotificationContext';
+import { getErrorMessage } from '../api/response';
 
 interface ReportData {
   [key: string]: any;
 }
 
 export const Reports: React.FC = () => {
-  const { user } = useAuth();
   const [selectedReport, setSelectedReport] = useState<string>('');
   const [filters, setFilters] = useState<Record<string, any>>({});
   const [reportData, setReportData] = useState<ReportData | null>(null);
@@ -82,13 +83,13 @@ export const Reports: React.FC = () => {
       setReportData(data);
     } catch (error: any) {
       console.error('Error fetching report:', error);
-      setError(error.response?.data?.message || error.message || 'Failed to generate report');
+      setError(getErrorMessage(error, 'Failed to generate report'));
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleDownload = async (format: 'csv' = 'csv') => {
+  const handleDownload = async () => {
     if (!selectedReport) return;
 
     try {
@@ -113,7 +114,7 @@ export const Reports: React.FC = () => {
       window.URL.revokeObjectURL(url);
     } catch (error: any) {
       console.error('Error downloading report:', error);
-      alert('Failed to download report');
+      toast.error('Failed to download report');
     }
   };
 
@@ -763,7 +764,7 @@ export const Reports: React.FC = () => {
           <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
             <h3 className="text-xl font-bold text-white">Report Results</h3>
             <button
-              onClick={() => handleDownload('csv')}
+              onClick={handleDownload}
               className="px-5 py-2.5 bg-white text-orange-600 rounded-lg hover:bg-gray-50 font-medium shadow-md transition-all flex items-center gap-2"
             >
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -781,104 +782,129 @@ export const Reports: React.FC = () => {
   };
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 p-4 sm:p-6">
-      <div className="max-w-7xl mx-auto">
-        {/* Header */}
-        <div className="mb-6 sm:mb-8">
-          <h1 className="text-3xl sm:text-4xl font-bold text-gray-900 mb-2">Reports Dashboard</h1>
-          <p className="text-gray-600 text-sm sm:text-base">Generate and download comprehensive reports</p>
-        </div>
+    <Layout>
+      <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 p-4 sm:p-6">
+        <div className="max-w-7xl mx-auto">
+          {/* Header */}
+          <div className="mb-6 sm:mb-8">
+            <h1 className="text-3xl sm:text-4xl font-bold text-gray-900 mb-2">Reports Dashboard</h1>
+            <p className="text-gray-600 text-sm sm:text-base">Generate and download comprehensive reports</p>
+          </div>
 
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 sm:gap-6">
-          {/* Report Selection - Mobile: Full width, Desktop: Sidebar */}
-          <div className="lg:col-span-1">
-            <div className="bg-white rounded-xl shadow-lg border border-gray-200 overflow-hidden sticky top-4">
-              <div className="bg-gradient-to-r from-orange-500 to-orange-600 px-4 sm:px-6 py-4">
-                <h2 className="text-lg sm:text-xl font-semibold text-white">Report Types</h2>
-              </div>
-              <div className="p-4 sm:p-6 max-h-[calc(100vh-200px)] overflow-y-auto">
-                <div className="space-y-3">
-                  {reportTypes.map((report) => (
-                    <button
-                      key={report.id}
-                      onClick={() => {
-                        setSelectedReport(report.id);
-                        setFilters({});
-                        setReportData(null);
-                        setError(null);
-                      }}
-                      className={`w-full text-left p-4 rounded-lg border-2 transition-all duration-200 ${
-                        selectedReport === report.id
-                          ? 'border-orange-500 bg-orange-50 shadow-md transform scale-[1.02]'
-                          : 'border-gray-200 hover:border-orange-300 hover:bg-gray-50'
-                      }`}
-                    >
-                      <div className="flex items-start gap-3">
-                        <div className={`flex-shrink-0 w-2 h-2 rounded-full mt-2 ${
-                          selectedReport === report.id ? 'bg-orange-500' : 'bg-gray-300'
-                        }`}></div>
-                        <div className="flex-1 min-w-0">
-                          <div className={`font-semibold text-sm sm:text-base mb-1 ${
-                            selectedReport === report.id ? 'text-orange-700' : 'text-gray-900'
-                          }`}>
-                            {report.label}
-                          </div>
-                          <div className="text-xs sm:text-sm text-gray-600 leading-relaxed">
-                            {report.description}
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 sm:gap-6">
+            {/* Report Selection - Mobile: Full width, Desktop: Sidebar */}
+            <div className="lg:col-span-1">
+              <div className="bg-white rounded-xl shadow-lg border border-gray-200 overflow-hidden sticky top-4">
+                <div className="bg-gradient-to-r from-orange-500 to-orange-600 px-4 sm:px-6 py-4">
+                  <h2 className="text-lg sm:text-xl font-semibold text-white">Report Types</h2>
+                </div>
+                <div className="p-4 sm:p-6 max-h-[calc(100vh-200px)] overflow-y-auto">
+                  <div className="space-y-3">
+                    {reportTypes.map((report) => (
+                      <button
+                        key={report.id}
+                        onClick={() => {
+                          setSelectedReport(report.id);
+                          setFilters({});
+                          setReportData(null);
+                          setError(null);
+                        }}
+                        className={`w-full text-left p-4 rounded-lg border-2 transition-all duration-200 ${
+                          selectedReport === report.id
+                            ? 'border-orange-500 bg-orange-50 shadow-md transform scale-[1.02]'
+                            : 'border-gray-200 hover:border-orange-300 hover:bg-gray-50'
+                        }`}
+                      >
+                        <div className="flex items-start gap-3">
+                          <div className={`flex-shrink-0 w-2 h-2 rounded-full mt-2 ${
+                            selectedReport === report.id ? 'bg-orange-500' : 'bg-gray-300'
+                          }`}></div>
+                          <div className="flex-1 min-w-0">
+                            <div className={`font-semibold text-sm sm:text-base mb-1 ${
+                              selectedReport === report.id ? 'text-orange-700' : 'text-gray-900'
+                            }`}>
+                              {report.label}
+                            </div>
+                            <div className="text-xs sm:text-sm text-gray-600 leading-relaxed">
+                              {report.description}
+                            </div>
                           </div>
                         </div>
-                      </div>
-                    </button>
-                  ))}
+                      </button>
+                    ))}
+                  </div>
                 </div>
               </div>
             </div>
-          </div>
 
-          {/* Report Configuration and Results */}
-          <div className="lg:col-span-2 space-y-4 sm:space-y-6">
-            {selectedReport ? (
-              <div className="bg-white rounded-xl shadow-lg border border-gray-200 overflow-hidden">
-                <div className="bg-gradient-to-r from-blue-500 to-blue-600 px-4 sm:px-6 py-4">
-                  <h2 className="text-lg sm:text-xl font-semibold text-white">
-                    {reportTypes.find((r) => r.id === selectedReport)?.label}
-                  </h2>
-                </div>
-                <div className="p-4 sm:p-6">
-
-                  {/* Filters */}
-                  <div className="space-y-4 mb-6">
-                    {reportTypes.find((r) => r.id === selectedReport)?.requiresStudentId && (
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-2">
-                          Student ID <span className="text-red-500">*</span>
-                        </label>
-                        <input
-                          type="number"
-                          value={filters.studentId || ''}
-                          onChange={(e) => setFilters({ ...filters, studentId: e.target.value })}
-                          className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 transition-all"
-                          placeholder="Enter student ID"
-                          required
-                        />
-                      </div>
-                    )}
+            {/* Report Configuration and Results */}
+            <div className="lg:col-span-2 space-y-4 sm:space-y-6">
+              {selectedReport ? (
+                <div className="bg-white rounded-xl shadow-lg border border-gray-200 overflow-hidden">
+                  <div className="bg-gradient-to-r from-blue-500 to-blue-600 px-4 sm:px-6 py-4">
+                    <h2 className="text-lg sm:text-xl font-semibold text-white">
+                      {reportTypes.find((r) => r.id === selectedReport)?.label}
+                    </h2>
+                  </div>
+                  <div className="p-4 sm:p-6">
 
-                    {selectedReport === 'batch-attendance' && (
-                      <>
+                    {/* Filters */}
+                    <div className="space-y-4 mb-6">
+                      {reportTypes.find((r) => r.id === selectedReport)?.requiresStudentId && (
                         <div>
                           <label className="block text-sm font-medium text-gray-700 mb-2">
-                            Batch ID <span className="text-red-500">*</span>
+                            Student ID <span className="text-red-500">*</span>
                           </label>
                           <input
                             type="number"
-                            value={filters.batchId || ''}
-                            onChange={(e) => setFilters({ ...filters, batchId: e.target.value })}
+                            value={filters.studentId || ''}
+                            onChange={(e) => setFilters({ ...filters, studentId: e.target.value })}
                             className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 transition-all"
-                            placeholder="Enter batch ID"
+                            placeholder="Enter student ID"
                             required
                           />
                         </div>
+                      )}
+
+                      {selectedReport === 'batch-attendance' && (
+                        <>
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                              Batch ID <span className="text-red-500">*</span>
+                            </label>
+                            <input
+                              type="number"
+                              value={filters.batchId || ''}
+                              onChange={(e) => setFilters({ ...filters, batchId: e.target.value })}
+                              className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 transition-all"
+                              placeholder="Enter batch ID"
+                              required
+                            />
+                          </div>
+                          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-2">From Date</label>
+                              <input
+                                type="date"
+                                value={filters.from || ''}
+                                onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+                                className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 transition-all"
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-2">To Date</label>
+                              <input
+                                type="date"
+                                value={filters.to || ''}
+                                onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+                                className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 transition-all"
+                              />
+                            </div>
+                          </div>
+                        </>
+                      )}
+
+                      {selectedReport === 'student-attendance' && (
                         <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                           <div>
                             <label className="block text-sm font-medium text-gray-700 mb-2">From Date</label>
@@ -899,150 +925,127 @@ export const Reports: React.FC = () => {
                             />
                           </div>
                         </div>
-                      </>
-                    )}
+                      )}
 
-                    {selectedReport === 'student-attendance' && (
-                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                        <div>
-                          <label className="block text-sm font-medium text-gray-700 mb-2">From Date</label>
-                          <input
-                            type="date"
-                            value={filters.from || ''}
-                            onChange={(e) => setFilters({ ...filters, from: e.target.value })}
-                            className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 transition-all"
-                          />
-                        </div>
-                        <div>
-                          <label className="block text-sm font-medium text-gray-700 mb-2">To Date</label>
-                          <input
-                            type="date"
-                            value={filters.to || ''}
-                            onChange={(e) => setFilters({ ...filters, to: e.target.value })}
-                            className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 transition-all"
-                          />
-                        </div>
-                      </div>
-                    )}
+                      {selectedReport === 'batches-by-faculty' && (
+                        <>
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">Faculty ID (Optional)</label>
+                            <input
+                              type="number"
+                              value={filters.facultyId || ''}
+                              onChange={(e) => setFilters({ ...filters, facultyId: e.target.value })}
+                              className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 transition-all"
+                              placeholder="Leave empty for all faculty"
+                            />
+                          </div>
+                          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-2">From Date</label>
+                              <input
+                                type="date"
+                                value={filters.from || ''}
+                                onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+                                className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 transition-all"
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-2">To Date</label>
+                              <input
+                                type="date"
+                                value={filters.to || ''}
+                                onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+                                className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 transition-all"
+                              />
+                            </div>
+                          </div>
+                        </>
+                      )}
 
-                    {selectedReport === 'batches-by-faculty' && (
-                      <>
-                        <div>
-                          <label className="block text-sm font-medium text-gray-700 mb-2">Faculty ID (Optional)</label>
-                          <input
-                            type="number"
-                            value={filters.facultyId || ''}
-                            onChange={(e) => setFilters({ ...filters, facultyId: e.target.value })}
-                            className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 transition-all"
-                            placeholder="Leave empty for all faculty"
-                          />
-                        </div>
+                      {selectedReport === 'monthwise-payments' && (
                         <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                           <div>
-                            <label className="block text-sm font-medium text-gray-700 mb-2">From Date</label>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">Month (1-12)</label>
                             <input
-                              type="date"
-                              value={filters.from || ''}
-                              onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+                              type="number"
+                              min="1"
+                              max="12"
+                              value={filters.month || ''}
+                              onChange={(e) => setFilters({ ...filters, month: e.target.value })}
                               className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 transition-all"
+                              placeholder="Optional"
                             />
                           </div>
                           <div>
-                            <label className="block text-sm font-medium text-gray-700 mb-2">To Date</label>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">Year</label>
                             <input
-                              type="date"
-                              value={filters.to || ''}
-                              onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+                              type="number"
+                              value={filters.year || new Date().getFullYear()}
+                              onChange={(e) => setFilters({ ...filters, year: e.target.value })}
                               className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 transition-all"
                             />
                           </div>
                         </div>
-                      </>
-                    )}
+                      )}
+                    </div>
 
-                    {selectedReport === 'monthwise-payments' && (
-                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                        <div>
-                          <label className="block text-sm font-medium text-gray-700 mb-2">Month (1-12)</label>
-                          <input
-                            type="number"
-                            min="1"
-                            max="12"
-                            value={filters.month || ''}
-                            onChange={(e) => setFilters({ ...filters, month: e.target.value })}
-                            className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 transition-all"
-                            placeholder="Optional"
-                          />
-                        </div>
-                        <div>
-                          <label className="block text-sm font-medium text-gray-700 mb-2">Year</label>
-                          <input
-                            type="number"
-                            value={filters.year || new Date().getFullYear()}
-                            onChange={(e) => setFilters({ ...filters, year: e.target.value })}
-                            className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 transition-all"
-                          />
+                    {/* Error Message */}
+                    {error && (
+                      <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+                        <div className="flex items-center gap-2">
+                          <svg className="w-5 h-5 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                          </svg>
+                          <p className="text-sm text-red-700">{error}</p>
                         </div>
                       </div>
                     )}
-                  </div>
-
-                  {/* Error Message */}
-                  {error && (
-                    <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg">
-                      <div className="flex items-center gap-2">
-                        <svg className="w-5 h-5 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-                        </svg>
-                        <p className="text-sm text-red-700">{error}</p>
-                      </div>
-                    </div>
-                  )}
 
-                  {/* Generate Button */}
-                  <button
-                    onClick={handleGenerateReport}
-                    disabled={isLoading}
-                    className="w-full px-6 py-3 bg-gradient-to-r from-orange-500 to-orange-600 text-white rounded-lg hover:from-orange-600 hover:to-orange-700 font-semibold shadow-md transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
-                  >
-                    {isLoading ? (
-                      <>
-                        <svg className="animate-spin h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                        </svg>
-                        Generating...
-                      </>
-                    ) : (
-                      <>
-                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                        </svg>
-                        Generate Report
-                      </>
-                    )}
-                  </button>
+                    {/* Generate Button */}
+                    <button
+                      onClick={handleGenerateReport}
+                      disabled={isLoading}
+                      className="w-full px-6 py-3 bg-gradient-to-r from-orange-500 to-orange-600 text-white rounded-lg hover:from-orange-600 hover:to-orange-700 font-semibold shadow-md transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                    >
+                      {isLoading ? (
+                        <>
+                          <svg className="animate-spin h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                          </svg>
+                          Generating...
+                        </>
+                      ) : (
+                        <>
+                          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                          </svg>
+                          Generate Report
+                        </>
+                      )}
+                    </button>
+                  </div>
                 </div>
-              </div>
-            ) : (
-              <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-8 sm:p-12 text-center">
-                <div className="max-w-md mx-auto">
-                  <div className="w-20 h-20 mx-auto mb-4 bg-gray-100 rounded-full flex items-center justify-center">
-                    <svg className="w-10 h-10 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                    </svg>
+              ) : (
+                <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-8 sm:p-12 text-center">
+                  <div className="max-w-md mx-auto">
+                    <div className="w-20 h-20 mx-auto mb-4 bg-gray-100 rounded-full flex items-center justify-center">
+                      <svg className="w-10 h-10 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                      </svg>
+                    </div>
+                    <h3 className="text-xl font-semibold text-gray-900 mb-2">Select a Report Type</h3>
+                    <p className="text-gray-600 text-sm sm:text-base">Choose a report from the sidebar to get started</p>
                   </div>
-                  <h3 className="text-xl font-semibold text-gray-900 mb-2">Select a Report Type</h3>
-                  <p className="text-gray-600 text-sm sm:text-base">Choose a report from the sidebar to get started</p>
                 </div>
-              </div>
-            )}
+              )}
 
-            {renderReportData()}
+              {renderReportData()}
+            </div>
           </div>
         </div>
       </div>
-    </div>
+    </Layout>
   );
 };
 
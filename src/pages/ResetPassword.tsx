@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { authAPI } from '../api/auth.api';
+import { PasswordStrengthMeter } from '../components/PasswordStrengthMeter';
+import { isPasswordValid } from '../types/password.types';
+import { toast } from '../context/NotificationContext';
+import { getErrorMessage } from '../api/response';
+
+export const ResetPassword: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const token = searchParams.get('token');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!token) return;
+    if (!isPasswordValid(password)) {
+      setError('Please choose a password that meets all the requirements');
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await authAPI.resetPassword(token, password);
+      toast.success('Your password has been reset. Please sign in with your new password.');
+      navigate('/login', { replace: true });
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to reset password. The link may have expired.'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100 px-4">
+      <div className="bg-white shadow-xl rounded-lg p-8 w-full max-w-md">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Reset your password</h1>
+
+        {!token ? (
+          <>
+            <p className="text-gray-600 mb-6">This reset link is invalid or incomplete. Please request a new one.</p>
+            <Link to="/forgot-password" className="text-orange-600 font-semibold hover:underline">
+              Request a new link
+            </Link>
+          </>
+        ) : (
+          <>
+            {error && <div className="mb-4 p-3 bg-red-50 border border-red-300 text-red-700 rounded-lg text-sm">{error}</div>}
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">New Password</label>
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+                />
+                <PasswordStrengthMeter password={password} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Confirm New Password</label>
+                <input
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={loading}
+                className="w-full px-4 py-2 bg-orange-600 text-white rounded-lg font-semibold hover:bg-orange-700 transition-colors disabled:opacity-50"
+              >
+                {loading ? 'Resetting...' : 'Reset password'}
+              </button>
+            </form>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '../context/AuthContext';
+import { useConfirm } from '../context/NotificationContext';
 import { Layout } from '../components/Layout';
 import { roleAPI, Role, CreateRoleRequest, UpdateRoleRequest, RolePermission } from '../api/role.api';
 import { permissionAPI, Module } from '../api/permission.api';
@@ -8,10 +9,10 @@ import { permissionAPI, Module } from '../api/permission.api';
 export const RoleManagement: React.FC = () => {
   const { user: currentUser } = useAuth();
   const queryClient = useQueryClient();
+  const confirm = useConfirm();
   const [selectedRole, setSelectedRole] = useState<Role | null>(null);
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
-  const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
   const [isPermissionModalOpen, setIsPermissionModalOpen] = useState(false);
   const [rolePermissions, setRolePermissions] = useState<RolePermission[]>([]);
   const [availableModules, setAvailableModules] = useState<Array<{ value: string; label: string }>>([]);
@@ -77,11 +78,11 @@ export const RoleManagement: React.FC = () => {
 
   const createRoleMutation = useMutation({
     mutationFn: (data: CreateRoleRequest) => roleAPI.createRole(data),
+    meta: { successMessage: 'Role created successfully!', errorMessage: 'Failed to create role' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['roles'] });
       setIsCreateModalOpen(false);
       setRolePermissions([]);
-      alert('Role created successfully!');
       // Reset form by clearing permissions state
       setTimeout(() => {
         if (availableModules.length > 0) {
@@ -98,36 +99,25 @@ export const RoleManagement: React.FC = () => {
         }
       }, 100);
     },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to create role');
-    },
   });
 
   const updateRoleMutation = useMutation({
     mutationFn: ({ id, data }: { id: number; data: UpdateRoleRequest }) => roleAPI.updateRole(id, data),
+    meta: { successMessage: 'Role updated successfully!', errorMessage: 'Failed to update role' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['roles'] });
       setIsEditModalOpen(false);
       setIsPermissionModalOpen(false);
       setSelectedRole(null);
       setRolePermissions([]);
-      alert('Role updated successfully!');
-    },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to update role');
     },
   });
 
   const deleteRoleMutation = useMutation({
     mutationFn: (id: number) => roleAPI.deleteRole(id),
+    meta: { successMessage: 'Role deleted successfully!', errorMessage: 'Failed to delete role' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['roles'] });
-      setIsDeleteModalOpen(false);
-      setSelectedRole(null);
-      alert('Role deleted successfully!');
-    },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to delete role');
     },
   });
 
@@ -187,9 +177,21 @@ export const RoleManagement: React.FC = () => {
     setIsPermissionModalOpen(true);
   };
 
-  const handleDelete = (role: Role) => {
-    setSelectedRole(role);
-    setIsDeleteModalOpen(true);
+  const handleDelete = async (role: Role) => {
+    const confirmed = await confirm({
+      title: 'Delete Role',
+      message: (
+        <>
+          Are you sure you want to delete <strong>{role.name}</strong>? This action cannot be undone.
+        </>
+      ),
+      confirmLabel: 'Delete',
+      destructive: true,
+      typedConfirmation: role.name,
+    });
+    if (confirmed) {
+      deleteRoleMutation.mutate(role.id);
+    }
   };
 
   const handleSavePermissions = () => {
@@ -671,40 +673,6 @@ export const RoleManagement: React.FC = () => {
           </div>
         </div>
       )}
-
-      {/* Delete Confirmation Modal */}
-      {isDeleteModalOpen && selectedRole && (
-        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
-            <h2 className="text-2xl font-bold mb-4 text-red-600">Delete Role</h2>
-            <p className="mb-4 text-gray-700">
-              Are you sure you want to delete <strong>{selectedRole.name}</strong>? This action cannot be undone.
-            </p>
-            <div className="flex gap-3">
-              <button
-                onClick={() => {
-                  if (selectedRole) {
-                    deleteRoleMutation.mutate(selectedRole.id);
-                  }
-                }}
-                disabled={deleteRoleMutation.isPending}
-                className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg font-semibold hover:bg-red-700 transition-colors disabled:opacity-50"
-              >
-                {deleteRoleMutation.isPending ? 'Deleting...' : 'Delete'}
-              </button>
-              <button
-                onClick={() => {
-                  setIsDeleteModalOpen(false);
-                  setSelectedRole(null);
-                }}
-                className="flex-1 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg font-semibold hover:bg-gray-300 transition-colors"
-              >
-                Cancel
-              </button>
-            </div>
-          </div>
-        </div>
-      )}
     </Layout>
   );
 };
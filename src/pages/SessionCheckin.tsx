@@ -0,0 +1,78 @@
+import React from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import { useMutation } from '@tanstack/react-query';
+import { useAuth } from '../context/AuthContext';
+import { attendanceAPI } from '../api/attendance.api';
+import { getErrorMessage } from '../api/response';
+import { Layout } from '../components/Layout';
+import { getHomePath } from '../types/route.types';
+
+/**
+ * Landing page of the session QR code. Scanning it opens this page with the session and
+ * the current token; the student confirms and is marked present for that session.
+ */
+export const SessionCheckin: React.FC = () => {
+  const { user } = useAuth();
+  const { id } = useParams<{ id: string }>();
+  const [searchParams] = useSearchParams();
+  const sessionId = Number(id);
+  const token = searchParams.get('token') || '';
+
+  const checkinMutation = useMutation({
+    mutationFn: () => attendanceAPI.selfCheckin(sessionId, token),
+  });
+
+  const attendance = checkinMutation.data?.data.attendance;
+
+  return (
+    <Layout>
+      <div className="max-w-md mx-auto">
+        <div className="bg-white shadow-xl rounded-lg p-8 text-center">
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Session Check-in</h1>
+
+          {!sessionId || !token ? (
+            <p className="text-gray-600">This check-in link is incomplete. Scan the QR code shown in class again.</p>
+          ) : attendance ? (
+            <>
+              <div className="text-5xl mb-3">✅</div>
+              <p className="text-gray-900 font-semibold">You are marked present.</p>
+              {attendance.session && (
+                <p className="text-sm text-gray-600 mt-1">
+                  {new Date(attendance.session.date).toLocaleDateString()}
+                  {attendance.session.topic ? ` · ${attendance.session.topic}` : ''}
+                </p>
+              )}
+              {attendance.isLate && (
+                <p className="mt-3 px-3 py-2 text-sm bg-yellow-50 border border-yellow-300 text-yellow-800 rounded">
+                  Your check-in was recorded as late.
+                </p>
+              )}
+            </>
+          ) : (
+            <>
+              <p className="text-gray-600 mb-6">
+                {user?.name ? `${user.name}, confirm` : 'Confirm'} that you are attending this session.
+              </p>
+              {checkinMutation.isError && (
+                <p className="mb-4 px-3 py-2 text-sm bg-red-50 border border-red-300 text-red-700 rounded">
+                  {getErrorMessage(checkinMutation.error, 'Check-in failed. The code may have expired; scan the QR code again.')}
+                </p>
+              )}
+              <button
+                onClick={() => checkinMutation.mutate()}
+                disabled={checkinMutation.isPending}
+                className="w-full px-6 py-3 bg-orange-600 text-white rounded-lg font-semibold hover:bg-orange-700 transition-colors disabled:opacity-50"
+              >
+                {checkinMutation.isPending ? 'Checking in...' : 'Mark me present'}
+              </button>
+            </>
+          )}
+
+          <Link to={getHomePath(user?.role)} className="inline-block mt-6 text-sm text-orange-600 hover:underline">
+            Back to Home
+          </Link>
+        </div>
+      </div>
+    </Layout>
+  );
+};
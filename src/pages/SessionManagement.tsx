@@ -1,34 +1,59 @@
 import React, { useState } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { useAuth } from '../context/AuthContext';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { usePermissions } from '../context/PermissionContext';
 import { Layout } from '../components/Layout';
 import { sessionAPI, Session, CreateSessionRequest } from '../api/session.api';
 import { batchAPI } from '../api/batch.api';
 import { facultyAPI } from '../api/faculty.api';
 import { attendanceAPI } from '../api/attendance.api';
+import { Module } from '../api/permission.api';
+import { DataTable, DataTableColumn, useDataTableState } from '../components/DataTable';
+import { ScheduleConflictList, useScheduleConflicts } from '../components/ScheduleConflicts';
+import { useConfirm } from '../context/NotificationContext';
+
+const readSessionForm = (form: HTMLFormElement): CreateSessionRequest => {
+  const formData = new FormData(form);
+  return {
+    batchId: parseInt(formData.get('batchId') as string),
+    facultyId: parseInt(formData.get('facultyId') as string),
+    date: formData.get('date') as string,
+    startTime: formData.get('startTime') as string,
+    endTime: formData.get('endTime') as string,
+    topic: formData.get('topic') as string || undefined,
+    isBackup: formData.get('isBackup') === 'true',
+  };
+};
 
 export const SessionManagement: React.FC = () => {
-  const { user } = useAuth();
+  const { can } = usePermissions();
   const queryClient = useQueryClient();
+  const confirm = useConfirm();
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
+  const [sessionDraft, setSessionDraft] = useState<CreateSessionRequest | null>(null);
   const [selectedSession, setSelectedSession] = useState<Session | null>(null);
   const [isAttendanceModalOpen, setIsAttendanceModalOpen] = useState(false);
   
-  // Filter states
-  const [filterBatchId, setFilterBatchId] = useState<number | ''>('');
-  const [filterFacultyId, setFilterFacultyId] = useState<number | ''>('');
-  const [filterStatus, setFilterStatus] = useState<string>('');
-  const [filterDateFrom, setFilterDateFrom] = useState<string>('');
-  const [filterDateTo, setFilterDateTo] = useState<string>('');
+  // Filters live in the URL alongside paging and sorting
+  const table = useDataTableState({
+    filterIds: ['batchId', 'facultyId', 'status', 'dateFrom', 'dateTo'],
+    defaultSortBy: 'date',
+    defaultSortOrder: 'desc',
+  });
+  const filters = table.state.filters;
+  const setFilter = (id: string, value: string) => table.update({ filters: { [id]: value } });
 
   // Fetch sessions with filters
-  const { data: sessionsData, isLoading } = useQuery({
-    queryKey: ['sessions', filterBatchId, filterFacultyId, filterStatus],
+  const { data: sessionsData, isLoading, isFetching, error: sessionsError, refetch } = useQuery({
+    queryKey: ['sessions', table.params, filters],
     queryFn: () => sessionAPI.getAllSessions({
-      batchId: filterBatchId ? Number(filterBatchId) : undefined,
-      facultyId: filterFacultyId ? Number(filterFacultyId) : undefined,
-      status: filterStatus || undefined,
+      ...table.params,
+      batchId: filters.batchId ? Number(filters.batchId) : undefined,
+      facultyId: filters.facultyId ? Number(filters.facultyId) : undefined,
+      status: filters.status || undefined,
+      dateFrom: filters.dateFrom || undefined,
+      dateTo: filters.dateTo || undefined,
     }),
+    placeholderData: keepPreviousData,
   });
 
   // Fetch attendance for selected session
@@ -51,79 +76,169 @@ export const SessionManagement: React.FC = () => {
 
   const createSessionMutation = useMutation({
     mutationFn: (data: CreateSessionRequest) => sessionAPI.createSession(data),
+    meta: { successMessage: 'Session created successfully!', errorMessage: 'Failed to create session' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['sessions'] });
       setIsCreateModalOpen(false);
-      alert('Session created successfully!');
-    },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to create session');
+      setSessionDraft(null);
     },
   });
 
 
   const checkOutMutation = useMutation({
     mutationFn: (id: number) => sessionAPI.checkOutSession(id),
+    meta: { successMessage: 'Session checked out successfully!', errorMessage: 'Failed to check out session' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['sessions'] });
-      alert('Session checked out successfully!');
-    },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to check out session');
     },
   });
 
   const checkInMutation = useMutation({
     mutationFn: (id: number) => sessionAPI.checkInSession(id),
+    meta: { successMessage: 'Session checked in successfully!', errorMessage: 'Failed to check in session' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['sessions'] });
-      alert('Session checked in successfully!');
-    },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to check in session');
     },
   });
 
-  let sessions = sessionsData?.data.sessions || [];
+  const sessions = sessionsData?.data.sessions || [];
   const batches = batchesData?.data || [];
   const faculty = facultyData?.data.users || [];
 
-  // Apply date filters
-  if (filterDateFrom || filterDateTo) {
-    sessions = sessions.filter(session => {
-      const sessionDate = new Date(session.date);
-      if (filterDateFrom && sessionDate < new Date(filterDateFrom)) return false;
-      if (filterDateTo && sessionDate > new Date(filterDateTo)) return false;
-      return true;
-    });
-  }
+  // Checked as the form is filled in, once the date and both times are set
+  const { conflicts, isChecking } = useScheduleConflicts(
+    isCreateModalOpen && sessionDraft?.date && sessionDraft.startTime && sessionDraft.endTime
+      ? {
+          session: {
+            batchId: sessionDraft.batchId || undefined,
+            facultyId: sessionDraft.facultyId || undefined,
+            date: sessionDraft.date,
+            startTime: sessionDraft.startTime,
+            endTime: sessionDraft.endTime,
+          },
+        }
+      : null
+  );
 
-  const handleCreateSession = (e: React.FormEvent<HTMLFormElement>) => {
+  const handleCreateSession = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
-    const formData = new FormData(e.currentTarget);
-    const data: CreateSessionRequest = {
-      batchId: parseInt(formData.get('batchId') as string),
-      facultyId: parseInt(formData.get('facultyId') as string),
-      date: formData.get('date') as string,
-      startTime: formData.get('startTime') as string,
-      endTime: formData.get('endTime') as string,
-      topic: formData.get('topic') as string || undefined,
-      isBackup: formData.get('isBackup') === 'true',
-    };
+    const data = readSessionForm(e.currentTarget);
+    if (
+      conflicts.length > 0 &&
+      !(await confirm({
+        title: 'Create session despite conflicts?',
+        message: `This session has ${conflicts.length} scheduling conflict${conflicts.length === 1 ? '' : 's'}.`,
+        confirmLabel: 'Create anyway',
+      }))
+    ) {
+      return;
+    }
     createSessionMutation.mutate(data);
   };
 
-  if (isLoading) {
-    return (
-      <Layout>
-        <div className="max-w-7xl mx-auto">
-          <div className="flex justify-center items-center min-h-screen">
-            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-500"></div>
-          </div>
+  const closeCreateModal = () => {
+    setIsCreateModalOpen(false);
+    setSessionDraft(null);
+  };
+
+  const columns: DataTableColumn<Session>[] = [
+    {
+      id: 'date',
+      header: 'Date',
+      sortable: true,
+      className: 'px-6 py-4 whitespace-nowrap text-sm text-gray-900',
+      cell: (session) => new Date(session.date).toLocaleDateString(),
+    },
+    {
+      id: 'startTime',
+      header: 'Time',
+      sortable: true,
+      cell: (session) => `${session.startTime} - ${session.endTime}`,
+    },
+    {
+      id: 'batch',
+      header: 'Batch',
+      className: 'px-6 py-4 whitespace-nowrap text-sm text-gray-900',
+      cell: (session) => session.batch?.title || `Batch ${session.batchId}`,
+    },
+    {
+      id: 'faculty',
+      header: 'Faculty',
+      cell: (session) => session.faculty?.name || `Faculty ${session.facultyId}`,
+    },
+    {
+      id: 'topic',
+      header: 'Topic',
+      className: 'px-6 py-4 text-sm text-gray-500',
+      cell: (session) => session.topic || '-',
+    },
+    {
+      id: 'status',
+      header: 'Status',
+      sortable: true,
+      className: 'px-6 py-4 whitespace-nowrap',
+      cell: (session) => (
+        <span className={`px-2 py-1 rounded text-xs font-semibold ${
+          session.status === 'completed' ? 'bg-green-100 text-green-800' :
+          session.status === 'ongoing' ? 'bg-blue-100 text-blue-800' :
+          session.status === 'cancelled' ? 'bg-red-100 text-red-800' :
+          'bg-gray-100 text-gray-800'
+        }`}>
+          {session.status}
+        </span>
+      ),
+    },
+    {
+      id: 'actions',
+      header: 'Actions',
+      hideable: false,
+      className: 'px-6 py-4 whitespace-nowrap text-sm font-medium',
+      cell: (session) => (
+        <div className="flex gap-2">
+          {session.status === 'scheduled' && can(Module.SESSIONS, 'edit') && (
+            <button
+              onClick={() => checkInMutation.mutate(session.id)}
+              disabled={checkInMutation.isPending}
+              className="px-3 py-1 bg-orange-600 text-white rounded hover:bg-orange-700 transition-colors disabled:opacity-50 text-xs"
+            >
+              Check In
+            </button>
+          )}
+          {session.status === 'ongoing' && can(Module.SESSIONS, 'edit') && (
+            <>
+              <button
+                onClick={() => checkOutMutation.mutate(session.id)}
+                disabled={checkOutMutation.isPending}
+                className="px-3 py-1 bg-green-600 text-white rounded hover:bg-green-700 transition-colors disabled:opacity-50 text-xs"
+              >
+                Check Out
+              </button>
+              <button
+                onClick={() => {
+                  setSelectedSession(session);
+                  setIsAttendanceModalOpen(true);
+                }}
+                className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors text-xs"
+              >
+                View Attendance
+              </button>
+            </>
+          )}
+          {(session.status === 'completed' || session.status === 'ongoing') && (
+            <button
+              onClick={() => {
+                setSelectedSession(session);
+                setIsAttendanceModalOpen(true);
+              }}
+              className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors text-xs"
+            >
+              View Attendance
+            </button>
+          )}
         </div>
-      </Layout>
-    );
-  }
+      ),
+    },
+  ];
 
   return (
     <Layout>
@@ -135,7 +250,7 @@ export const SessionManagement: React.FC = () => {
                  <h1 className="text-3xl font-bold text-white">Session Management</h1>
                  <p className="mt-2 text-orange-100">Manage class sessions</p>
                </div>
-              {(user?.role === 'admin' || user?.role === 'superadmin' || user?.role === 'faculty') && (
+              {can(Module.SESSIONS, 'add') && (
                 <button
                   onClick={() => setIsCreateModalOpen(true)}
                   className="px-4 py-2 bg-white text-orange-600 rounded-lg font-semibold hover:bg-orange-50 transition-colors"
@@ -152,8 +267,8 @@ export const SessionManagement: React.FC = () => {
               <div>
                 <label className="block text-xs font-medium text-gray-700 mb-1">Filter by Batch</label>
                 <select
-                  value={filterBatchId}
-                  onChange={(e) => setFilterBatchId(e.target.value ? Number(e.target.value) : '')}
+                  value={filters.batchId}
+                  onChange={(e) => setFilter('batchId', e.target.value)}
                   className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                 >
                   <option value="">All Batches</option>
@@ -167,8 +282,8 @@ export const SessionManagement: React.FC = () => {
               <div>
                 <label className="block text-xs font-medium text-gray-700 mb-1">Filter by Faculty</label>
                 <select
-                  value={filterFacultyId}
-                  onChange={(e) => setFilterFacultyId(e.target.value ? Number(e.target.value) : '')}
+                  value={filters.facultyId}
+                  onChange={(e) => setFilter('facultyId', e.target.value)}
                   className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                 >
                   <option value="">All Faculty</option>
@@ -182,8 +297,8 @@ export const SessionManagement: React.FC = () => {
               <div>
                 <label className="block text-xs font-medium text-gray-700 mb-1">Filter by Status</label>
                 <select
-                  value={filterStatus}
-                  onChange={(e) => setFilterStatus(e.target.value)}
+                  value={filters.status}
+                  onChange={(e) => setFilter('status', e.target.value)}
                   className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                 >
                   <option value="">All Status</option>
@@ -197,8 +312,8 @@ export const SessionManagement: React.FC = () => {
                 <label className="block text-xs font-medium text-gray-700 mb-1">From Date</label>
                 <input
                   type="date"
-                  value={filterDateFrom}
-                  onChange={(e) => setFilterDateFrom(e.target.value)}
+                  value={filters.dateFrom}
+                  onChange={(e) => setFilter('dateFrom', e.target.value)}
                   className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                 />
               </div>
@@ -206,8 +321,8 @@ export const SessionManagement: React.FC = () => {
                 <label className="block text-xs font-medium text-gray-700 mb-1">To Date</label>
                 <input
                   type="date"
-                  value={filterDateTo}
-                  onChange={(e) => setFilterDateTo(e.target.value)}
+                  value={filters.dateTo}
+                  onChange={(e) => setFilter('dateTo', e.target.value)}
                   className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                 />
               </div>
@@ -217,125 +332,43 @@ export const SessionManagement: React.FC = () => {
             <div className="mb-6 grid grid-cols-1 md:grid-cols-4 gap-4">
               <div className="bg-blue-50 p-4 rounded-lg">
                 <p className="text-sm text-gray-600">Total Sessions</p>
-                <p className="text-2xl font-bold text-blue-600">{sessions.length}</p>
+                <p className="text-2xl font-bold text-blue-600">{sessionsData?.data.pagination?.total ?? sessions.length}</p>
               </div>
               <div className="bg-green-50 p-4 rounded-lg">
-                <p className="text-sm text-gray-600">Completed</p>
+                <p className="text-sm text-gray-600">Completed (this page)</p>
                 <p className="text-2xl font-bold text-green-600">
                   {sessions.filter(s => s.status === 'completed').length}
                 </p>
               </div>
               <div className="bg-yellow-50 p-4 rounded-lg">
-                <p className="text-sm text-gray-600">Ongoing</p>
+                <p className="text-sm text-gray-600">Ongoing (this page)</p>
                 <p className="text-2xl font-bold text-yellow-600">
                   {sessions.filter(s => s.status === 'ongoing').length}
                 </p>
               </div>
               <div className="bg-gray-50 p-4 rounded-lg">
-                <p className="text-sm text-gray-600">Scheduled</p>
+                <p className="text-sm text-gray-600">Scheduled (this page)</p>
                 <p className="text-2xl font-bold text-gray-600">
                   {sessions.filter(s => s.status === 'scheduled').length}
                 </p>
               </div>
             </div>
 
-            {sessions.length === 0 ? (
-              <div className="text-center py-12">
-                <p className="text-gray-500 text-lg">No sessions found</p>
-                <p className="text-sm text-gray-400 mt-2">Try adjusting your filters or create a new session</p>
-              </div>
-            ) : (
-              <div className="overflow-x-auto">
-                <table className="min-w-full divide-y divide-gray-200">
-                  <thead className="bg-gray-50">
-                    <tr>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Time</th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Batch</th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Faculty</th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Topic</th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
-                    </tr>
-                  </thead>
-                  <tbody className="bg-white divide-y divide-gray-200">
-                    {sessions.map((session) => (
-                      <tr key={session.id} className="hover:bg-gray-50">
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm text-gray-900">{new Date(session.date).toLocaleDateString()}</div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm text-gray-500">{session.startTime} - {session.endTime}</div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm text-gray-900">{session.batch?.title || `Batch ${session.batchId}`}</div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm text-gray-500">{session.faculty?.name || `Faculty ${session.facultyId}`}</div>
-                        </td>
-                        <td className="px-6 py-4">
-                          <div className="text-sm text-gray-500">{session.topic || '-'}</div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <span className={`px-2 py-1 rounded text-xs font-semibold ${
-                            session.status === 'completed' ? 'bg-green-100 text-green-800' :
-                            session.status === 'ongoing' ? 'bg-blue-100 text-blue-800' :
-                            session.status === 'cancelled' ? 'bg-red-100 text-red-800' :
-                            'bg-gray-100 text-gray-800'
-                          }`}>
-                            {session.status}
-                          </span>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                          <div className="flex gap-2">
-                            {session.status === 'scheduled' && (user?.role === 'admin' || user?.role === 'superadmin' || user?.role === 'faculty') && (
-                              <button
-                                onClick={() => checkInMutation.mutate(session.id)}
-                                disabled={checkInMutation.isPending}
-                                className="px-3 py-1 bg-orange-600 text-white rounded hover:bg-orange-700 transition-colors disabled:opacity-50 text-xs"
-                              >
-                                Check In
-                              </button>
-                            )}
-                            {session.status === 'ongoing' && (user?.role === 'admin' || user?.role === 'superadmin' || user?.role === 'faculty') && (
-                              <>
-                                <button
-                                  onClick={() => checkOutMutation.mutate(session.id)}
-                                  disabled={checkOutMutation.isPending}
-                                  className="px-3 py-1 bg-green-600 text-white rounded hover:bg-green-700 transition-colors disabled:opacity-50 text-xs"
-                                >
-                                  Check Out
-                                </button>
-                                <button
-                                  onClick={() => {
-                                    setSelectedSession(session);
-                                    setIsAttendanceModalOpen(true);
-                                  }}
-                                  className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors text-xs"
-                                >
-                                  View Attendance
-                                </button>
-                              </>
-                            )}
-                            {(session.status === 'completed' || session.status === 'ongoing') && (
-                              <button
-                                onClick={() => {
-                                  setSelectedSession(session);
-                                  setIsAttendanceModalOpen(true);
-                                }}
-                                className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors text-xs"
-                              >
-                                View Attendance
-                              </button>
-                            )}
-                          </div>
-                        </td>
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
-              </div>
-            )}
+            <DataTable
+              tableId="sessions"
+              columns={columns}
+              rows={sessions}
+              rowKey={(session) => session.id}
+              state={table.state}
+              onStateChange={table.update}
+              pagination={sessionsData?.data.pagination}
+              isLoading={isLoading}
+              isFetching={isFetching}
+              error={sessionsError}
+              onRetry={refetch}
+              searchPlaceholder="Search topic, batch or faculty"
+              emptyMessage="No sessions found. Try adjusting your filters or create a new session."
+            />
           </div>
         </div>
       </div>
@@ -345,7 +378,7 @@ export const SessionManagement: React.FC = () => {
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4 max-h-[90vh] overflow-y-auto">
             <h2 className="text-2xl font-bold mb-4">Create New Session</h2>
-            <form onSubmit={handleCreateSession}>
+            <form onSubmit={handleCreateSession} onChange={(e) => setSessionDraft(readSessionForm(e.currentTarget))}>
               <div className="mb-4">
                 <label className="block text-sm font-medium text-gray-700 mb-1">Batch *</label>
                 <select
@@ -422,6 +455,9 @@ export const SessionManagement: React.FC = () => {
                   <span className="text-sm text-gray-700">Is Backup Session</span>
                 </label>
               </div>
+              <div className="mb-4">
+                <ScheduleConflictList conflicts={conflicts} isChecking={isChecking} />
+              </div>
               <div className="flex gap-3">
                 <button
                   type="submit"
@@ -432,7 +468,7 @@ export const SessionManagement: React.FC = () => {
                 </button>
                 <button
                   type="button"
-                  onClick={() => setIsCreateModalOpen(false)}
+                  onClick={closeCreateModal}
                   className="flex-1 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg font-semibold hover:bg-gray-300 transition-colors"
                 >
                   Cancel
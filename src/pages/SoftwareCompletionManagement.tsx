@@ -1,13 +1,17 @@
 import React, { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '../context/AuthContext';
+import { usePermissions } from '../context/PermissionContext';
 import { Layout } from '../components/Layout';
 import { softwareCompletionAPI, SoftwareCompletion, SoftwareCompletionStatus, CreateCompletionRequest } from '../api/softwareCompletion.api';
 import { batchAPI } from '../api/batch.api';
 import { studentAPI } from '../api/student.api';
+import { Module } from '../api/permission.api';
+import { toast } from '../context/NotificationContext';
 
 export const SoftwareCompletionManagement: React.FC = () => {
   const { user } = useAuth();
+  const { can } = usePermissions();
   const queryClient = useQueryClient();
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [selectedCompletion, setSelectedCompletion] = useState<SoftwareCompletion | null>(null);
@@ -33,21 +37,21 @@ export const SoftwareCompletionManagement: React.FC = () => {
 
   const createCompletionMutation = useMutation({
     mutationFn: (data: CreateCompletionRequest) => softwareCompletionAPI.createCompletion(data),
+    meta: { successMessage: 'Software completion record created successfully!' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['software-completions'] });
       setIsCreateModalOpen(false);
-      alert('Software completion record created successfully!');
     },
   });
 
   const updateCompletionMutation = useMutation({
     mutationFn: ({ id, status, endDate }: { id: number; status?: 'in_progress' | 'completed'; endDate?: string }) =>
       softwareCompletionAPI.updateCompletion(id, { status, endDate }),
+    meta: { successMessage: 'Software completion record updated successfully!' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['software-completions'] });
       setIsUpdateModalOpen(false);
       setSelectedCompletion(null);
-      alert('Software completion record updated successfully!');
     },
   });
 
@@ -88,7 +92,7 @@ export const SoftwareCompletionManagement: React.FC = () => {
                 <h1 className="text-3xl font-bold text-white">Software Completion Management</h1>
                 <p className="mt-2 text-orange-100">Track software completion for students</p>
               </div>
-              {(user?.role === 'faculty' || user?.role === 'admin' || user?.role === 'superadmin') && (
+              {can(Module.SOFTWARE_COMPLETIONS, 'add') && (
                 <button
                   onClick={() => setIsCreateModalOpen(true)}
                   className="px-4 py-2 bg-white text-orange-600 rounded-lg font-semibold hover:bg-orange-50 transition-colors"
@@ -130,7 +134,7 @@ export const SoftwareCompletionManagement: React.FC = () => {
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                         Status
                       </th>
-                      {(user?.role === 'faculty' || user?.role === 'admin' || user?.role === 'superadmin') && (
+                      {can(Module.SOFTWARE_COMPLETIONS, 'edit') && (
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                           Actions
                         </th>
@@ -160,7 +164,7 @@ export const SoftwareCompletionManagement: React.FC = () => {
                           {new Date(completion.endDate).toLocaleDateString()}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">{getStatusBadge(completion.status)}</td>
-                        {(user?.role === 'faculty' || user?.role === 'admin' || user?.role === 'superadmin') && (
+                        {can(Module.SOFTWARE_COMPLETIONS, 'edit') && (
                           <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                             <button
                               onClick={() => handleUpdate(completion)}
@@ -231,7 +235,7 @@ const CreateCompletionModal: React.FC<{
     if (formData.studentId && formData.batchId && formData.softwareName && formData.startDate && formData.endDate && formData.facultyId) {
       onSubmit(formData);
     } else {
-      alert('Please fill in all required fields');
+      toast.error('Please fill in all required fields');
     }
   };
 
@@ -3,7 +3,10 @@ import { useNavigate } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '../context/AuthContext';
 import { Layout } from '../components/Layout';
-import { attendanceAPI, PunchInRequest, PunchOutRequest } from '../api/attendance.api';
+import { PunchLocationStatus, usePunchLocation } from '../components/PunchLocation';
+import { PunchAuditTrail, RegularisationModal } from '../components/Regularisation';
+import { attendanceAPI, PunchInRequest, PunchOutRequest, StudentPunch } from '../api/attendance.api';
+import { toast } from '../context/NotificationContext';
 
 export const StudentAttendance: React.FC = () => {
   const { user } = useAuth();
@@ -19,7 +22,11 @@ export const StudentAttendance: React.FC = () => {
   const [isCapturing, setIsCapturing] = useState(false);
   const [capturedPhoto, setCapturedPhoto] = useState<string | null>(null);
   const [fingerprintData, setFingerprintData] = useState<string | null>(null);
-  const [location, setLocation] = useState<{ latitude?: number; longitude?: number; address?: string } | null>(null);
+  const punchLocation = usePunchLocation();
+  const { preparePunch } = punchLocation;
+  // The punch a correction is being requested for; null for a day without one
+  const [regularisePunch, setRegularisePunch] = useState<StudentPunch | null | undefined>(undefined);
+  const [auditPunchId, setAuditPunchId] = useState<number | null>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -38,66 +45,26 @@ export const StudentAttendance: React.FC = () => {
 
   const punchInMutation = useMutation({
     mutationFn: (data: PunchInRequest) => attendanceAPI.punchIn(data),
+    meta: { successMessage: 'Punched in successfully!', errorMessage: 'Failed to punch in' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['today-punch'] });
       queryClient.invalidateQueries({ queryKey: ['punch-history'] });
       setCapturedPhoto(null);
       setFingerprintData(null);
-      alert('Punched in successfully!');
-    },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to punch in');
     },
   });
 
   const punchOutMutation = useMutation({
     mutationFn: (data: PunchOutRequest) => attendanceAPI.punchOut(data),
+    meta: { successMessage: 'Punched out successfully!', errorMessage: 'Failed to punch out' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['today-punch'] });
       queryClient.invalidateQueries({ queryKey: ['punch-history'] });
       setCapturedPhoto(null);
       setFingerprintData(null);
-      alert('Punched out successfully!');
-    },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to punch out');
     },
   });
 
-  // Get user location
-  const getLocation = useCallback(() => {
-    if (navigator.geolocation) {
-      navigator.geolocation.getCurrentPosition(
-        (position) => {
-          setLocation({
-            latitude: position.coords.latitude,
-            longitude: position.coords.longitude,
-          });
-          // Optionally get address from coordinates
-          fetch(`https://api.opencagedata.com/geocode/v1/json?q=${position.coords.latitude}+${position.coords.longitude}&key=YOUR_API_KEY`)
-            .then(res => res.json())
-            .then(data => {
-              if (data.results && data.results.length > 0) {
-                setLocation(prev => ({
-                  ...prev,
-                  address: data.results[0].formatted,
-                }));
-              }
-            })
-            .catch(() => {
-              // If geocoding fails, just use coordinates
-            });
-        },
-        (error) => {
-          console.error('Error getting location:', error);
-          setLocation({ address: 'Location access denied' });
-        }
-      );
-    } else {
-      setLocation({ address: 'Geolocation not supported' });
-    }
-  }, []);
-
   // Start webcam
   const startWebcam = useCallback(async () => {
     try {
@@ -109,13 +76,12 @@ export const StudentAttendance: React.FC = () => {
       if (videoRef.current) {
         videoRef.current.srcObject = stream;
         setIsCapturing(true);
-        getLocation();
       }
     } catch (error) {
       console.error('Error accessing webcam:', error);
-      alert('Unable to access webcam. Please check permissions.');
+      toast.error('Unable to access webcam. Please check permissions.');
     }
-  }, [getLocation]);
+  }, []);
 
   // Stop webcam
   const stopWebcam = useCallback(() => {
@@ -152,42 +118,48 @@ export const StudentAttendance: React.FC = () => {
     // In production, this would interface with a fingerprint scanner
     const simulatedFingerprint = `FP_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     setFingerprintData(simulatedFingerprint);
-    alert('Fingerprint captured! (Simulated - connect actual scanner in production)');
+    toast.success('Fingerprint captured! (Simulated - connect actual scanner in production)');
   }, []);
 
   // Handle punch in
-  const handlePunchIn = useCallback(() => {
+  const handlePunchIn = useCallback(async () => {
     if (!capturedPhoto) {
-      alert('Please capture your photo first');
+      toast.error('Please capture your photo first');
       return;
     }
 
+    const locationFields = await preparePunch('Punch In');
+    if (!locationFields) return;
+
     const data: PunchInRequest = {
       photo: capturedPhoto,
       fingerprint: fingerprintData || undefined,
-      location: location || undefined,
+      ...locationFields,
     };
 
     punchInMutation.mutate(data);
     stopWebcam();
-  }, [capturedPhoto, fingerprintData, location, punchInMutation, stopWebcam]);
+  }, [capturedPhoto, fingerprintData, preparePunch, punchInMutation, stopWebcam]);
 
   // Handle punch out
-  const handlePunchOut = useCallback(() => {
+  const handlePunchOut = useCallback(async () => {
     if (!capturedPhoto) {
-      alert('Please capture your photo first');
+      toast.error('Please capture your photo first');
       return;
     }
 
+    const locationFields = await preparePunch('Punch Out');
+    if (!locationFields) return;
+
     const data: PunchOutRequest = {
       photo: capturedPhoto,
       fingerprint: fingerprintData || undefined,
-      location: location || undefined,
+      ...locationFields,
     };
 
     punchOutMutation.mutate(data);
     stopWebcam();
-  }, [capturedPhoto, fingerprintData, location, punchOutMutation, stopWebcam]);
+  }, [capturedPhoto, fingerprintData, preparePunch, punchOutMutation, stopWebcam]);
 
   // Cleanup on unmount
   React.useEffect(() => {
@@ -372,16 +344,10 @@ export const StudentAttendance: React.FC = () => {
             </div>
 
             {/* Location Info */}
-            {location && (
-              <div className="mb-6">
-                <h2 className="text-xl font-bold mb-4">Location</h2>
-                <div className="bg-blue-50 p-4 rounded-lg border border-blue-200">
-                  <p className="text-sm text-gray-600">
-                    {location.address || `Lat: ${location.latitude}, Lng: ${location.longitude}`}
-                  </p>
-                </div>
-              </div>
-            )}
+            <div className="mb-6">
+              <h2 className="text-xl font-bold mb-4">Location</h2>
+              <PunchLocationStatus punchLocation={punchLocation} />
+            </div>
 
             {/* Punch In/Out Buttons */}
             <div className="mb-6">
@@ -406,7 +372,15 @@ export const StudentAttendance: React.FC = () => {
 
             {/* Punch History */}
             <div>
-              <h2 className="text-xl font-bold mb-4">Punch History</h2>
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-bold">Punch History</h2>
+                <button
+                  onClick={() => setRegularisePunch(null)}
+                  className="px-3 py-1.5 text-sm text-orange-600 border border-orange-300 rounded-lg hover:bg-orange-50"
+                >
+                  Request Correction
+                </button>
+              </div>
               {punches.length === 0 ? (
                 <div className="text-center py-8 bg-gray-50 rounded-lg">
                   <p className="text-gray-500">No punch history available</p>
@@ -421,44 +395,70 @@ export const StudentAttendance: React.FC = () => {
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Punch Out</th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Hours</th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Photo</th>
+                        <th className="px-6 py-3"></th>
                       </tr>
                     </thead>
                     <tbody className="bg-white divide-y divide-gray-200">
                       {punches.map((punch) => (
-                        <tr key={punch.id} className="hover:bg-gray-50">
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                            {new Date(punch.date).toLocaleDateString()}
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                            {punch.punchInAt ? new Date(punch.punchInAt).toLocaleTimeString() : '-'}
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                            {punch.punchOutAt ? new Date(punch.punchOutAt).toLocaleTimeString() : '-'}
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                            {punch.effectiveHours ? `${punch.effectiveHours.toFixed(2)} hrs` : '-'}
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap">
-                            <div className="flex gap-2">
-                              {punch.punchInPhoto && (
-                                <img
-                                  src={punch.punchInPhoto}
-                                  alt="Punch In"
-                                  className="w-12 h-12 rounded object-cover cursor-pointer hover:scale-150 transition-transform"
-                                  onClick={() => window.open(punch.punchInPhoto, '_blank')}
-                                />
+                        <React.Fragment key={punch.id}>
+                          <tr className="hover:bg-gray-50">
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                              {new Date(punch.date).toLocaleDateString()}
+                              {punch.regularisation && (
+                                <button
+                                  onClick={() => setAuditPunchId(auditPunchId === punch.id ? null : punch.id)}
+                                  className="ml-2 px-2 py-0.5 text-xs font-semibold rounded bg-blue-100 text-blue-800"
+                                >
+                                  Corrected
+                                </button>
                               )}
-                              {punch.punchOutPhoto && (
-                                <img
-                                  src={punch.punchOutPhoto}
-                                  alt="Punch Out"
-                                  className="w-12 h-12 rounded object-cover cursor-pointer hover:scale-150 transition-transform"
-                                  onClick={() => window.open(punch.punchOutPhoto, '_blank')}
-                                />
-                              )}
-                            </div>
-                          </td>
-                        </tr>
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                              {punch.punchInAt ? new Date(punch.punchInAt).toLocaleTimeString() : '-'}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                              {punch.punchOutAt ? new Date(punch.punchOutAt).toLocaleTimeString() : '-'}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                              {punch.effectiveHours ? `${punch.effectiveHours.toFixed(2)} hrs` : '-'}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap">
+                              <div className="flex gap-2">
+                                {punch.punchInPhoto && (
+                                  <img
+                                    src={punch.punchInPhoto}
+                                    alt="Punch In"
+                                    className="w-12 h-12 rounded object-cover cursor-pointer hover:scale-150 transition-transform"
+                                    onClick={() => window.open(punch.punchInPhoto, '_blank')}
+                                  />
+                                )}
+                                {punch.punchOutPhoto && (
+                                  <img
+                                    src={punch.punchOutPhoto}
+                                    alt="Punch Out"
+                                    className="w-12 h-12 rounded object-cover cursor-pointer hover:scale-150 transition-transform"
+                                    onClick={() => window.open(punch.punchOutPhoto, '_blank')}
+                                  />
+                                )}
+                              </div>
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-right">
+                              <button
+                                onClick={() => setRegularisePunch(punch)}
+                                className="text-sm text-orange-600 hover:underline"
+                              >
+                                Correct
+                              </button>
+                            </td>
+                          </tr>
+                          {auditPunchId === punch.id && punch.regularisation && (
+                            <tr className="bg-gray-50">
+                              <td colSpan={6} className="px-6 py-3">
+                                <PunchAuditTrail regularisation={punch.regularisation} />
+                              </td>
+                            </tr>
+                          )}
+                        </React.Fragment>
                       ))}
                     </tbody>
                   </table>
@@ -468,6 +468,10 @@ export const StudentAttendance: React.FC = () => {
           </div>
         </div>
       </div>
+
+      {regularisePunch !== undefined && (
+        <RegularisationModal source="student" punch={regularisePunch} onClose={() => setRegularisePunch(undefined)} />
+      )}
     </Layout>
   );
 };
@@ -2,12 +2,16 @@ import React, { useState } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '../context/AuthContext';
+import { usePermissions } from '../context/PermissionContext';
 import { Layout } from '../components/Layout';
 import { userAPI, UpdateUserRequest, UpdateStudentProfileRequest } from '../api/user.api';
+import { Module } from '../api/permission.api';
+import { toast } from '../context/NotificationContext';
 
 export const StudentEdit: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const { user } = useAuth();
+  const { can } = usePermissions();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
 
@@ -31,7 +35,7 @@ export const StudentEdit: React.FC = () => {
         }
       } catch (error: any) {
         console.error('Error fetching student data:', error);
-        console.error('Error response:', error.response?.data);
+        console.error('Error response:', error.data);
         throw error;
       }
     },
@@ -47,9 +51,7 @@ export const StudentEdit: React.FC = () => {
       queryClient.invalidateQueries({ queryKey: ['student', id] });
       queryClient.invalidateQueries({ queryKey: ['students'] });
     },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to update user information');
-    },
+    meta: { errorMessage: 'Failed to update user information' },
   });
 
   const updateStudentProfileMutation = useMutation({
@@ -59,9 +61,7 @@ export const StudentEdit: React.FC = () => {
       queryClient.invalidateQueries({ queryKey: ['students'] });
       queryClient.invalidateQueries({ queryKey: ['student-profile'] });
     },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to update student profile');
-    },
+    meta: { errorMessage: 'Failed to update student profile' },
   });
 
   // Check if user is loaded
@@ -77,7 +77,7 @@ export const StudentEdit: React.FC = () => {
     );
   }
 
-  if (user?.role !== 'admin' && user?.role !== 'superadmin') {
+  if (!can(Module.STUDENTS, 'edit')) {
     return (
       <Layout>
         <div className="max-w-7xl mx-auto">
@@ -169,7 +169,7 @@ export const StudentEdit: React.FC = () => {
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     if (!studentData) {
-      alert('Student data is not loaded. Please try again.');
+      toast.error('Student data is not loaded. Please try again.');
       return;
     }
     
@@ -199,7 +199,7 @@ export const StudentEdit: React.FC = () => {
       if (studentData?.studentProfile || Object.values(profileData).some(v => v !== undefined && v !== '')) {
         await updateStudentProfileMutation.mutateAsync(profileData);
       }
-      alert('Student updated successfully!');
+      toast.success('Student updated successfully!');
       navigate('/students');
     } catch (error) {
       // Error handling is done in mutation onError
@@ -4,6 +4,39 @@ import { useNavigate } from 'react-router-dom';
 import { Layout } from '../components/Layout';
 import { studentAPI, CompleteEnrollmentRequest } from '../api/student.api';
 import { batchAPI, Batch } from '../api/batch.api';
+import { FieldError } from '../components/FieldError';
+import { getFieldErrors, FieldErrors } from '../api/response';
+import { toast } from '../context/NotificationContext';
+
+// Wizard step each input lives on, so a rejected field can be brought back into view
+const FIELD_STEPS: Record<string, number> = {
+  studentName: 1,
+  email: 1,
+  phone: 1,
+  whatsappNumber: 1,
+  dateOfAdmission: 1,
+  localAddress: 2,
+  permanentAddress: 2,
+  emergencyContactNumber: 2,
+  emergencyName: 2,
+  emergencyRelation: 2,
+  courseName: 3,
+  batchId: 3,
+  softwaresIncluded: 3,
+  totalDeal: 3,
+  bookingAmount: 3,
+  balanceAmount: 3,
+  emiPlan: 3,
+  emiPlanDate: 3,
+  complimentarySoftware: 4,
+  complimentaryGift: 4,
+  hasReference: 4,
+  referenceDetails: 4,
+  counselorName: 4,
+  leadSource: 4,
+  walkinDate: 4,
+  masterFaculty: 4,
+};
 
 export const StudentEnrollment: React.FC = () => {
   const navigate = useNavigate();
@@ -14,6 +47,7 @@ export const StudentEnrollment: React.FC = () => {
   const [otherSoftware, setOtherSoftware] = useState('');
   const [selectedSoftwares, setSelectedSoftwares] = useState<string[]>([]);
   const [suggestedBatches, setSuggestedBatches] = useState<Batch[]>([]);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
 
   // Fetch batches for enrollment
   const { data: batchesData } = useQuery({
@@ -23,14 +57,27 @@ export const StudentEnrollment: React.FC = () => {
 
   const enrollmentMutation = useMutation({
     mutationFn: (data: CompleteEnrollmentRequest) => studentAPI.completeEnrollment(data),
-    onSuccess: () => {
+    meta: { errorMessage: 'Failed to enroll student. Please check all required fields.' },
+    onSuccess: (response) => {
+      // The student is registered either way; a full batch only queues them
+      const { waitlistEntry } = response.data;
+      if (waitlistEntry) {
+        toast.info(`Student registered. The batch is full, so they were added to its waitlist at position ${waitlistEntry.position}.`);
+        queryClient.invalidateQueries({ queryKey: ['batch-waitlist', waitlistEntry.batchId] });
+      } else {
+        toast.success('Student enrolled successfully!');
+      }
       queryClient.invalidateQueries({ queryKey: ['students'] });
       queryClient.invalidateQueries({ queryKey: ['batches'] });
-      alert('Student enrolled successfully!');
       navigate('/students');
     },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to enroll student. Please check all required fields.');
+    onError: (error) => {
+      const errors = getFieldErrors(error);
+      setFieldErrors(errors);
+      const steps = Object.keys(errors).map((field) => FIELD_STEPS[field]).filter(Boolean);
+      if (steps.length > 0) {
+        setCurrentStep(Math.min(...steps));
+      }
     },
   });
 
@@ -126,8 +173,11 @@ export const StudentEnrollment: React.FC = () => {
       leadSource: formData.get('leadSource') as string || undefined,
       walkinDate: formData.get('walkinDate') as string || undefined,
       masterFaculty: formData.get('masterFaculty') as string || undefined,
+
+      mustChangePassword: true,
     };
 
+    setFieldErrors({});
     enrollmentMutation.mutate(data);
   };
 
@@ -208,6 +258,7 @@ export const StudentEnrollment: React.FC = () => {
                         required
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                       />
+                      <FieldError message={fieldErrors.studentName} />
                     </div>
 
                     <div>
@@ -220,6 +271,7 @@ export const StudentEnrollment: React.FC = () => {
                         required
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                       />
+                      <FieldError message={fieldErrors.email} />
                     </div>
 
                     <div>
@@ -232,6 +284,7 @@ export const StudentEnrollment: React.FC = () => {
                         required
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                       />
+                      <FieldError message={fieldErrors.phone} />
                     </div>
 
                     <div>
@@ -243,6 +296,7 @@ export const StudentEnrollment: React.FC = () => {
                         name="whatsappNumber"
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                       />
+                      <FieldError message={fieldErrors.whatsappNumber} />
                     </div>
 
                     <div>
@@ -256,6 +310,7 @@ export const StudentEnrollment: React.FC = () => {
                         defaultValue={new Date().toISOString().split('T')[0]}
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                       />
+                      <FieldError message={fieldErrors.dateOfAdmission} />
                     </div>
                   </div>
                 </div>
@@ -276,6 +331,7 @@ export const StudentEnrollment: React.FC = () => {
                         rows={3}
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                       />
+                      <FieldError message={fieldErrors.localAddress} />
                     </div>
 
                     <div>
@@ -287,6 +343,7 @@ export const StudentEnrollment: React.FC = () => {
                         rows={3}
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                       />
+                      <FieldError message={fieldErrors.permanentAddress} />
                     </div>
 
                     <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
@@ -299,6 +356,7 @@ export const StudentEnrollment: React.FC = () => {
                           name="emergencyContactNumber"
                           className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                         />
+                        <FieldError message={fieldErrors.emergencyContactNumber} />
                       </div>
 
                       <div>
@@ -310,6 +368,7 @@ export const StudentEnrollment: React.FC = () => {
                           name="emergencyName"
                           className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                         />
+                        <FieldError message={fieldErrors.emergencyName} />
                       </div>
 
                       <div>
@@ -322,6 +381,7 @@ export const StudentEnrollment: React.FC = () => {
                           placeholder="e.g., Father, Mother, Guardian"
                           className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                         />
+                        <FieldError message={fieldErrors.emergencyRelation} />
                       </div>
                     </div>
                   </div>
@@ -343,6 +403,7 @@ export const StudentEnrollment: React.FC = () => {
                         name="courseName"
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                       />
+                      <FieldError message={fieldErrors.courseName} />
                     </div>
 
                     <div>
@@ -415,6 +476,7 @@ export const StudentEnrollment: React.FC = () => {
                           </option>
                         ))}
                       </select>
+                      <FieldError message={fieldErrors.batchId} />
                       {suggestedBatches.length > 0 && (
                         <p className="mt-1 text-xs text-blue-600">
                           Batches matching your software selection are shown above
@@ -478,6 +540,7 @@ export const StudentEnrollment: React.FC = () => {
                           ))}
                         </div>
                       </div>
+                      <FieldError message={fieldErrors.softwaresIncluded} />
                       {showOtherSoftwareInput && (
                         <div className="mt-3">
                           <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -516,6 +579,7 @@ export const StudentEnrollment: React.FC = () => {
                           step="0.01"
                           className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                         />
+                        <FieldError message={fieldErrors.totalDeal} />
                       </div>
 
                       <div>
@@ -528,6 +592,7 @@ export const StudentEnrollment: React.FC = () => {
                           step="0.01"
                           className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                         />
+                        <FieldError message={fieldErrors.bookingAmount} />
                       </div>
 
                       <div>
@@ -540,6 +605,7 @@ export const StudentEnrollment: React.FC = () => {
                           step="0.01"
                           className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                         />
+                        <FieldError message={fieldErrors.balanceAmount} />
                       </div>
                     </div>
 
@@ -555,6 +621,7 @@ export const StudentEnrollment: React.FC = () => {
                           <option value="no">No</option>
                           <option value="yes">Yes</option>
                         </select>
+                        <FieldError message={fieldErrors.emiPlan} />
                       </div>
 
                       <div>
@@ -566,6 +633,7 @@ export const StudentEnrollment: React.FC = () => {
                           name="emiPlanDate"
                           className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                         />
+                        <FieldError message={fieldErrors.emiPlanDate} />
                       </div>
                     </div>
                   </div>
@@ -588,6 +656,7 @@ export const StudentEnrollment: React.FC = () => {
                           name="complimentarySoftware"
                           className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                         />
+                        <FieldError message={fieldErrors.complimentarySoftware} />
                       </div>
 
                       <div>
@@ -599,6 +668,7 @@ export const StudentEnrollment: React.FC = () => {
                           name="complimentaryGift"
                           className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                         />
+                        <FieldError message={fieldErrors.complimentaryGift} />
                       </div>
                     </div>
 
@@ -613,6 +683,7 @@ export const StudentEnrollment: React.FC = () => {
                         <option value="no">No</option>
                         <option value="yes">Yes</option>
                       </select>
+                      <FieldError message={fieldErrors.hasReference} />
                     </div>
 
                     <div>
@@ -624,6 +695,7 @@ export const StudentEnrollment: React.FC = () => {
                         rows={3}
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                       />
+                      <FieldError message={fieldErrors.referenceDetails} />
                     </div>
 
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -636,6 +708,7 @@ export const StudentEnrollment: React.FC = () => {
                           name="counselorName"
                           className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                         />
+                        <FieldError message={fieldErrors.counselorName} />
                       </div>
 
                       <div>
@@ -654,6 +727,7 @@ export const StudentEnrollment: React.FC = () => {
                           <option value="Advertisement">Advertisement</option>
                           <option value="Other">Other</option>
                         </select>
+                        <FieldError message={fieldErrors.leadSource} />
                       </div>
                     </div>
 
@@ -667,6 +741,7 @@ export const StudentEnrollment: React.FC = () => {
                           name="walkinDate"
                           className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                         />
+                        <FieldError message={fieldErrors.walkinDate} />
                       </div>
 
                       <div>
@@ -678,6 +753,7 @@ export const StudentEnrollment: React.FC = () => {
                           name="masterFaculty"
                           className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                         />
+                        <FieldError message={fieldErrors.masterFaculty} />
                       </div>
                     </div>
                   </div>
@@ -2,9 +2,11 @@ import React, { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '../context/AuthContext';
 import { Layout } from '../components/Layout';
+import { BatchTransferModal } from '../components/BatchTransferModal';
 import { studentLeaveAPI, StudentLeave, LeaveStatus, CreateLeaveRequest } from '../api/studentLeave.api';
 import { batchAPI } from '../api/batch.api';
 import { studentAPI } from '../api/student.api';
+import { toast } from '../context/NotificationContext';
 
 export const StudentLeaveManagement: React.FC = () => {
   const { user } = useAuth();
@@ -12,6 +14,7 @@ export const StudentLeaveManagement: React.FC = () => {
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [selectedLeave, setSelectedLeave] = useState<StudentLeave | null>(null);
   const [isApproveModalOpen, setIsApproveModalOpen] = useState(false);
+  const [isTransferModalOpen, setIsTransferModalOpen] = useState(false);
 
   // Fetch leaves
   const { data: leavesData, isLoading } = useQuery({
@@ -35,21 +38,21 @@ export const StudentLeaveManagement: React.FC = () => {
 
   const createLeaveMutation = useMutation({
     mutationFn: (data: CreateLeaveRequest) => studentLeaveAPI.createLeave(data),
+    meta: { successMessage: 'Leave request created successfully!' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['student-leaves'] });
       setIsCreateModalOpen(false);
-      alert('Leave request created successfully!');
     },
   });
 
   const approveLeaveMutation = useMutation({
     mutationFn: ({ id, approve, rejectionReason }: { id: number; approve: boolean; rejectionReason?: string }) =>
       studentLeaveAPI.approveLeave(id, { approve, rejectionReason }),
+    meta: { successMessage: 'Leave request processed successfully!' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['student-leaves'] });
       setIsApproveModalOpen(false);
       setSelectedLeave(null);
-      alert('Leave request processed successfully!');
     },
   });
 
@@ -91,14 +94,24 @@ export const StudentLeaveManagement: React.FC = () => {
                 <h1 className="text-3xl font-bold text-white">Student Leave Management</h1>
                 <p className="mt-2 text-orange-100">Manage student leave requests and approvals</p>
               </div>
-              {(user?.role === 'student' || user?.role === 'admin' || user?.role === 'superadmin') && (
-                <button
-                  onClick={() => setIsCreateModalOpen(true)}
-                  className="px-4 py-2 bg-white text-orange-600 rounded-lg font-semibold hover:bg-orange-50 transition-colors"
-                >
-                  + Request Leave
-                </button>
-              )}
+              <div className="flex gap-2">
+                {user?.role === 'student' && (
+                  <button
+                    onClick={() => setIsTransferModalOpen(true)}
+                    className="px-4 py-2 bg-white text-orange-600 rounded-lg font-semibold hover:bg-orange-50 transition-colors"
+                  >
+                    🔀 Request Batch Transfer
+                  </button>
+                )}
+                {(user?.role === 'student' || user?.role === 'admin' || user?.role === 'superadmin') && (
+                  <button
+                    onClick={() => setIsCreateModalOpen(true)}
+                    className="px-4 py-2 bg-white text-orange-600 rounded-lg font-semibold hover:bg-orange-50 transition-colors"
+                  >
+                    + Request Leave
+                  </button>
+                )}
+              </div>
             </div>
           </div>
 
@@ -197,6 +210,10 @@ export const StudentLeaveManagement: React.FC = () => {
         />
       )}
 
+      {isTransferModalOpen && user && (
+        <BatchTransferModal student={{ id: user.id, name: user.name }} onClose={() => setIsTransferModalOpen(false)} />
+      )}
+
       {/* Approve/Reject Modal */}
       {isApproveModalOpen && selectedLeave && (
         <ApproveLeaveModal
@@ -242,7 +259,7 @@ const CreateLeaveModal: React.FC<{
     if (formData.studentId && formData.batchId && formData.startDate && formData.endDate) {
       onSubmit(formData);
     } else {
-      alert('Please fill in all required fields');
+      toast.error('Please fill in all required fields');
     }
   };
 
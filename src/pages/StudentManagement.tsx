@@ -1,16 +1,22 @@
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { useAuth } from '../context/AuthContext';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { usePermissions } from '../context/PermissionContext';
+import { Module } from '../api/permission.api';
 import { Layout } from '../components/Layout';
-import { studentAPI, Student, CreateEnrollmentRequest } from '../api/student.api';
+import { studentAPI, Student, CreateEnrollmentRequest, BulkEnrollResult } from '../api/student.api';
 import { batchAPI } from '../api/batch.api';
 import { uploadAPI } from '../api/upload.api';
 import { softwareCompletionAPI } from '../api/softwareCompletion.api';
 import { userAPI } from '../api/user.api';
+import { toast } from '../context/NotificationContext';
+import { getErrorMessage } from '../api/response';
+import { DataTable, DataTableColumn, useDataTableState } from '../components/DataTable';
+import { BatchTransferModal } from '../components/BatchTransferModal';
+import { formatSeats, getBatchSeats } from '../types/capacity.types';
 
 export const StudentManagement: React.FC = () => {
-  const { user } = useAuth();
+  const { can } = usePermissions();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   const [isEnrollmentModalOpen, setIsEnrollmentModalOpen] = useState(false);
@@ -19,15 +25,26 @@ export const StudentManagement: React.FC = () => {
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
   const [isBulkUploadModalOpen, setIsBulkUploadModalOpen] = useState(false);
   const [selectedStudent, setSelectedStudent] = useState<Student | null>(null);
+  const [transferStudent, setTransferStudent] = useState<Student | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [uploadingImage, setUploadingImage] = useState(false);
   const [uploadingBulk, setUploadingBulk] = useState(false);
-  const [bulkUploadResult, setBulkUploadResult] = useState<{ success: number; failed: number; errors: any[] } | null>(null);
+  const [bulkUploadResult, setBulkUploadResult] = useState<BulkEnrollResult | null>(null);
 
-  // Fetch students
-  const { data: studentsData, isLoading } = useQuery({
+  const table = useDataTableState({ defaultSortBy: 'createdAt', defaultSortOrder: 'desc' });
+
+  // Fetch the current page of students
+  const { data: studentsPageData, isLoading, isFetching, error: studentsError, refetch } = useQuery({
+    queryKey: ['students', 'page', table.params],
+    queryFn: () => userAPI.getAllUsers({ ...table.params, role: 'student' }),
+    placeholderData: keepPreviousData,
+  });
+
+  // Every student, for the enrollment form's dropdown
+  const { data: studentsData } = useQuery({
     queryKey: ['students'],
     queryFn: () => studentAPI.getAllStudents(),
+    enabled: isEnrollmentModalOpen,
   });
 
   // Fetch batches for enrollment form
@@ -52,29 +69,33 @@ export const StudentManagement: React.FC = () => {
 
   const createEnrollmentMutation = useMutation({
     mutationFn: (data: CreateEnrollmentRequest) => studentAPI.createEnrollment(data),
-    onSuccess: () => {
+    meta: { errorMessage: 'Failed to enroll student. Please check if the enrollment endpoint exists in the backend.' },
+    onSuccess: (response, data) => {
+      // Full batches queue the student instead of enrolling them
+      const { waitlistEntry } = response.data;
+      if (waitlistEntry) {
+        toast.info(`Batch is full. Student added to the waitlist at position ${waitlistEntry.position}.`);
+        queryClient.invalidateQueries({ queryKey: ['batch-waitlist', data.batchId] });
+      } else {
+        toast.success('Student enrolled successfully!');
+      }
       queryClient.invalidateQueries({ queryKey: ['students'] });
       queryClient.invalidateQueries({ queryKey: ['batches'] });
       setIsEnrollmentModalOpen(false);
-      alert('Student enrolled successfully!');
-    },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to enroll student. Please check if the enrollment endpoint exists in the backend.');
     },
   });
 
   const updateUserImageMutation = useMutation({
     mutationFn: ({ userId, avatarUrl }: { userId: number; avatarUrl: string }) =>
       userAPI.updateUser(userId, { avatarUrl }),
+    meta: { successMessage: 'Image updated successfully!', errorMessage: 'Failed to update image' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['students'] });
       setIsImageModalOpen(false);
       setSelectedStudent(null);
       setImagePreview(null);
-      alert('Image updated successfully!');
     },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to update image');
+    onError: () => {
       setUploadingImage(false);
     },
   });
@@ -82,33 +103,30 @@ export const StudentManagement: React.FC = () => {
 
   const deleteUserMutation = useMutation({
     mutationFn: (id: number) => userAPI.deleteUser(id),
+    meta: { successMessage: 'Student deleted successfully!', errorMessage: 'Failed to delete student' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['students'] });
       setIsDeleteModalOpen(false);
       setSelectedStudent(null);
-      alert('Student deleted successfully!');
-    },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to delete student');
     },
   });
 
   const bulkEnrollMutation = useMutation({
     mutationFn: (file: File) => studentAPI.bulkEnrollStudents(file),
+    meta: { errorMessage: 'Failed to bulk enroll students' },
     onSuccess: (data) => {
       setBulkUploadResult(data.data);
       queryClient.invalidateQueries({ queryKey: ['students'] });
       queryClient.invalidateQueries({ queryKey: ['batches'] });
       setUploadingBulk(false);
-      if (data.data.failed === 0) {
-        alert(`Successfully enrolled ${data.data.success} student(s)!`);
+      if (data.data.failed === 0 && data.data.waitlisted === 0) {
+        toast.success(`Successfully enrolled ${data.data.success} student(s)!`);
         setIsBulkUploadModalOpen(false);
         setBulkUploadResult(null);
       }
     },
-    onError: (error: any) => {
+    onError: () => {
       setUploadingBulk(false);
-      alert(error.response?.data?.message || 'Failed to bulk enroll students');
     },
   });
 
@@ -124,7 +142,7 @@ export const StudentManagement: React.FC = () => {
       document.body.removeChild(link);
       window.URL.revokeObjectURL(url);
     } catch (error: any) {
-      alert(error.response?.data?.message || 'Failed to download template');
+      toast.error(getErrorMessage(error, 'Failed to download template'));
     }
   };
 
@@ -134,7 +152,7 @@ export const StudentManagement: React.FC = () => {
     const file = formData.get('file') as File;
     
     if (!file) {
-      alert('Please select a file');
+      toast.error('Please select a file');
       return;
     }
 
@@ -146,7 +164,7 @@ export const StudentManagement: React.FC = () => {
     ];
     
     if (!allowedTypes.includes(file.type)) {
-      alert('Invalid file type. Only Excel files (.xlsx, .xls) and CSV files are allowed.');
+      toast.error('Invalid file type. Only Excel files (.xlsx, .xls) and CSV files are allowed.');
       return;
     }
 
@@ -161,13 +179,13 @@ export const StudentManagement: React.FC = () => {
 
     // Validate file type
     if (!file.type.startsWith('image/')) {
-      alert('Please select an image file');
+      toast.error('Please select an image file');
       return;
     }
 
     // Validate file size (5MB)
     if (file.size > 5 * 1024 * 1024) {
-      alert('Image size must be less than 5MB');
+      toast.error('Image size must be less than 5MB');
       return;
     }
 
@@ -190,11 +208,12 @@ export const StudentManagement: React.FC = () => {
         });
       }
     } catch (error: any) {
-      alert(error.response?.data?.message || 'Failed to upload image');
+      toast.error(getErrorMessage(error, 'Failed to upload image'));
       setUploadingImage(false);
     }
   };
 
+  const studentRows: Student[] = studentsPageData?.data.users || [];
   const students = studentsData?.data.students || [];
   const batches = batchesData?.data || [];
 
@@ -231,17 +250,98 @@ export const StudentManagement: React.FC = () => {
     }
   };
 
-  if (isLoading) {
-    return (
-      <Layout>
-        <div className="max-w-7xl mx-auto">
-          <div className="flex justify-center items-center min-h-screen">
-            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-500"></div>
+  const columns: DataTableColumn<Student>[] = [
+    {
+      id: 'photo',
+      header: 'Photo',
+      className: 'px-6 py-4 whitespace-nowrap',
+      cell: (student) =>
+        student.avatarUrl ? (
+          <img
+            src={student.avatarUrl}
+            alt={student.name}
+            className="h-12 w-12 rounded-full object-cover border-2 border-gray-200"
+            onError={(e) => {
+              (e.target as HTMLImageElement).src = 'https://ui-avatars.com/api/?name=' + encodeURIComponent(student.name) + '&background=orange&color=fff';
+            }}
+          />
+        ) : (
+          <div className="h-12 w-12 rounded-full bg-orange-500 flex items-center justify-center text-white font-semibold text-lg">
+            {student.name.charAt(0).toUpperCase()}
           </div>
+        ),
+    },
+    {
+      id: 'name',
+      header: 'Name',
+      sortable: true,
+      className: 'px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900',
+      cell: (student) => student.name,
+    },
+    { id: 'email', header: 'Email', sortable: true, cell: (student) => student.email },
+    { id: 'phone', header: 'Phone', cell: (student) => student.phone || '-' },
+    {
+      id: 'createdAt',
+      header: 'Joined Date',
+      sortable: true,
+      cell: (student) => (student.createdAt ? new Date(student.createdAt).toLocaleDateString() : '-'),
+    },
+    {
+      id: 'actions',
+      header: 'Actions',
+      hideable: false,
+      className: 'px-6 py-4 whitespace-nowrap text-sm font-medium',
+      cell: (student) => (
+        <div className="flex gap-2">
+          <button
+            onClick={() => handleView(student)}
+            className="text-blue-600 hover:text-blue-900"
+            title="View Student"
+          >
+            👁️ View
+          </button>
+          {can(Module.STUDENTS, 'edit') && (
+            <>
+              <button
+                onClick={() => {
+                  setSelectedStudent(student);
+                  setImagePreview(student.avatarUrl || null);
+                  setIsImageModalOpen(true);
+                }}
+                className="text-blue-600 hover:text-blue-900"
+                title="Update Photo"
+              >
+                📷 Photo
+              </button>
+              <button
+                onClick={() => handleEdit(student)}
+                className="text-orange-600 hover:text-orange-900"
+                title="Edit Student"
+              >
+                ✏️ Edit
+              </button>
+              <button
+                onClick={() => setTransferStudent(student)}
+                className="text-purple-600 hover:text-purple-900"
+                title="Request Batch Transfer"
+              >
+                🔀 Transfer
+              </button>
+              {can(Module.STUDENTS, 'delete') && (
+                <button
+                  onClick={() => handleDelete(student)}
+                  className="text-red-600 hover:text-red-900"
+                  title="Delete Student"
+                >
+                  🗑️ Delete
+                </button>
+              )}
+            </>
+          )}
         </div>
-      </Layout>
-    );
-  }
+      ),
+    },
+  ];
 
   return (
     <Layout>
@@ -253,7 +353,7 @@ export const StudentManagement: React.FC = () => {
                 <h1 className="text-3xl font-bold text-white">Student Management</h1>
                 <p className="mt-2 text-orange-100">Manage students and enrollments</p>
               </div>
-              {(user?.role === 'admin' || user?.role === 'superadmin') && (
+              {can(Module.STUDENTS, 'add') && (
                 <div className="flex gap-3">
                   <button
                     onClick={() => navigate('/students/enroll')}
@@ -285,120 +385,21 @@ export const StudentManagement: React.FC = () => {
           </div>
 
           <div className="p-6">
-            {students.length === 0 ? (
-              <div className="text-center py-12">
-                <p className="text-gray-500 text-lg">No students found</p>
-              </div>
-            ) : (
-              <div className="overflow-x-auto">
-                <table className="min-w-full divide-y divide-gray-200">
-                  <thead className="bg-gray-50">
-                    <tr>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Photo
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Name
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Email
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Phone
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Joined Date
-                      </th>
-                      {(user?.role === 'admin' || user?.role === 'superadmin') && (
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                          Actions
-                        </th>
-                      )}
-                    </tr>
-                  </thead>
-                  <tbody className="bg-white divide-y divide-gray-200">
-                    {students.map((student) => (
-                      <tr key={student.id} className="hover:bg-gray-50">
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="flex items-center">
-                            {student.avatarUrl ? (
-                              <img
-                                src={student.avatarUrl}
-                                alt={student.name}
-                                className="h-12 w-12 rounded-full object-cover border-2 border-gray-200"
-                                onError={(e) => {
-                                  (e.target as HTMLImageElement).src = 'https://ui-avatars.com/api/?name=' + encodeURIComponent(student.name) + '&background=orange&color=fff';
-                                }}
-                              />
-                            ) : (
-                              <div className="h-12 w-12 rounded-full bg-orange-500 flex items-center justify-center text-white font-semibold text-lg">
-                                {student.name.charAt(0).toUpperCase()}
-                              </div>
-                            )}
-                          </div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm font-medium text-gray-900">{student.name}</div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm text-gray-500">{student.email}</div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm text-gray-500">{student.phone || '-'}</div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm text-gray-500">
-                            {student.createdAt ? new Date(student.createdAt).toLocaleDateString() : '-'}
-                          </div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                          <div className="flex gap-2">
-                            <button
-                              onClick={() => handleView(student)}
-                              className="text-blue-600 hover:text-blue-900"
-                              title="View Student"
-                            >
-                              👁️ View
-                            </button>
-                            {(user?.role === 'admin' || user?.role === 'superadmin') && (
-                              <>
-                                <button
-                                  onClick={() => {
-                                    setSelectedStudent(student);
-                                    setImagePreview(student.avatarUrl || null);
-                                    setIsImageModalOpen(true);
-                                  }}
-                                  className="text-blue-600 hover:text-blue-900"
-                                  title="Update Photo"
-                                >
-                                  📷 Photo
-                                </button>
-                                <button
-                                  onClick={() => handleEdit(student)}
-                                  className="text-orange-600 hover:text-orange-900"
-                                  title="Edit Student"
-                                >
-                                  ✏️ Edit
-                                </button>
-                                {user?.role === 'superadmin' && (
-                                  <button
-                                    onClick={() => handleDelete(student)}
-                                    className="text-red-600 hover:text-red-900"
-                                    title="Delete Student"
-                                  >
-                                    🗑️ Delete
-                                  </button>
-                                )}
-                              </>
-                            )}
-                          </div>
-                        </td>
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
-              </div>
-            )}
+            <DataTable
+              tableId="students"
+              columns={columns}
+              rows={studentRows}
+              rowKey={(student) => student.id}
+              state={table.state}
+              onStateChange={table.update}
+              pagination={studentsPageData?.data.pagination}
+              isLoading={isLoading}
+              isFetching={isFetching}
+              error={studentsError}
+              onRetry={refetch}
+              searchPlaceholder="Search name, email or phone"
+              emptyMessage="No students found"
+            />
           </div>
         </div>
       </div>
@@ -434,7 +435,7 @@ export const StudentManagement: React.FC = () => {
                   <option value="">Select a batch</option>
                   {batches.map((batch) => (
                     <option key={batch.id} value={batch.id}>
-                      {batch.title} {batch.software ? `- ${batch.software}` : ''} ({batch.mode})
+                      {batch.title} {batch.software ? `- ${batch.software}` : ''} ({batch.mode}) · {formatSeats(getBatchSeats(batch))}
                     </option>
                   ))}
                 </select>
@@ -489,6 +490,8 @@ export const StudentManagement: React.FC = () => {
         </div>
       )}
 
+      {transferStudent && <BatchTransferModal student={transferStudent} onClose={() => setTransferStudent(null)} />}
+
       {/* Image Upload Modal */}
       {isImageModalOpen && selectedStudent && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -845,7 +848,7 @@ export const StudentManagement: React.FC = () => {
             {bulkUploadResult ? (
               <div className="mb-4">
                 <div className={`p-4 rounded-lg mb-4 ${
-                  bulkUploadResult.failed === 0 
+                  bulkUploadResult.failed === 0 && bulkUploadResult.waitlisted === 0
                     ? 'bg-green-50 border border-green-200' 
                     : 'bg-yellow-50 border border-yellow-200'
                 }`}>
@@ -855,6 +858,11 @@ export const StudentManagement: React.FC = () => {
                   <p className="text-green-700 font-medium">
                     ✓ Successfully enrolled: {bulkUploadResult.success} student(s)
                   </p>
+                  {bulkUploadResult.waitlisted > 0 && (
+                    <p className="text-yellow-700 font-medium mt-1">
+                      ⏳ Waitlisted (batch full): {bulkUploadResult.waitlisted} student(s)
+                    </p>
+                  )}
                   {bulkUploadResult.failed > 0 && (
                     <p className="text-red-700 font-medium mt-1">
                       ✗ Failed: {bulkUploadResult.failed} student(s)
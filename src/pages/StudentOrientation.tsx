@@ -4,6 +4,8 @@ import { useForm } from 'react-hook-form';
 import { yupResolver } from '@hookform/resolvers/yup';
 import * as yup from 'yup';
 import { studentAPI, OrientationAcknowledgmentData } from '../api/student.api';
+import { toast } from '../context/NotificationContext';
+import { getErrorMessage } from '../api/response';
 
 const schema = yup.object().shape({
   studentName: yup.string().required('Student name is required'),
@@ -18,11 +20,11 @@ const schema = yup.object().shape({
 interface OrientationFormData {
   studentName: string;
   course: string;
-  specialCommitment?: string;
-  specialBatchTiming?: string;
-  unableToPracticeReason?: string;
-  paymentExemption?: string;
-  confirmed: boolean;
+  specialCommitment?: string | null;
+  specialBatchTiming?: string | null;
+  unableToPracticeReason?: string | null;
+  paymentExemption?: string | null;
+  confirmed?: boolean;
 }
 
 export const StudentOrientation: React.FC = () => {
@@ -70,16 +72,16 @@ export const StudentOrientation: React.FC = () => {
         specialBatchTiming: data.specialBatchTiming || undefined,
         unableToPracticeReason: data.unableToPracticeReason || undefined,
         paymentExemption: data.paymentExemption || undefined,
-        confirmed: data.confirmed,
+        confirmed: !!data.confirmed,
       };
 
       await studentAPI.acknowledgeOrientation(orientationData);
 
       // Navigate to login
-      alert('Orientation acknowledged successfully! Please login to continue.');
+      toast.success('Orientation acknowledged successfully! Please login to continue.');
       navigate('/login');
     } catch (err: any) {
-      setError(err.response?.data?.message || 'Failed to save orientation acknowledgment. Please try again.');
+      setError(getErrorMessage(err, 'Failed to save orientation acknowledgment. Please try again.'));
     } finally {
       setLoading(false);
     }
@@ -319,7 +321,7 @@ export const StudentOrientation: React.FC = () => {
                 type="button"
                 onClick={() => {
                   if (currentPage === 1) {
-                    navigate('/enrollment');
+                    navigate('/students/enroll');
                   } else {
                     setCurrentPage(1);
                   }
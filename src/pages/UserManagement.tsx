@@ -1,26 +1,53 @@
 import React, { useState, useEffect } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
 import { useAuth } from '../context/AuthContext';
+import { usePermissions } from '../context/PermissionContext';
+import { toast, useConfirm } from '../context/NotificationContext';
 import { Layout } from '../components/Layout';
 import { userAPI, User, UpdateUserRequest, CreateUserRequest } from '../api/user.api';
 import { permissionAPI, Permission, Module, UpdatePermissionRequest } from '../api/permission.api';
 import { roleAPI, Role } from '../api/role.api';
-import { parseRoleFromForm } from '../types/user.types';
+import { parseRoleFromForm, VALID_ROLES } from '../types/user.types';
+import { DataTable, DataTableBulkAction, DataTableColumn, DataTableFilter, useDataTableState } from '../components/DataTable';
+import { FieldError } from '../components/FieldError';
+import { getFieldErrors, FieldErrors } from '../api/response';
+import { getErrorMessage } from '../api/response';
+
+const USER_FILTERS: DataTableFilter[] = [
+  {
+    id: 'role',
+    label: 'Roles',
+    options: VALID_ROLES.map((role) => ({ value: role, label: role.charAt(0).toUpperCase() + role.slice(1) })),
+  },
+  {
+    id: 'isActive',
+    label: 'Statuses',
+    options: [
+      { value: 'true', label: 'Active' },
+      { value: 'false', label: 'Inactive' },
+    ],
+  },
+];
 
 export const UserManagement: React.FC = () => {
-  const { user: currentUser } = useAuth();
+  const { user: currentUser, isImpersonating, startImpersonating } = useAuth();
+  const { can, refreshPermissions } = usePermissions();
   const queryClient = useQueryClient();
+  const confirm = useConfirm();
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
+  // Backend validation errors for the open create/edit user form
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
   const [isViewModalOpen, setIsViewModalOpen] = useState(false);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
-  const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
+  const [isImpersonateModalOpen, setIsImpersonateModalOpen] = useState(false);
+  const [blockDestructiveActions, setBlockDestructiveActions] = useState(true);
+  const [isStartingImpersonation, setIsStartingImpersonation] = useState(false);
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [isPermissionModalOpen, setIsPermissionModalOpen] = useState(false);
   const [isRoleAssignmentModalOpen, setIsRoleAssignmentModalOpen] = useState(false);
   const [isRoleManagementModalOpen, setIsRoleManagementModalOpen] = useState(false);
   const [isCreateRoleModalOpen, setIsCreateRoleModalOpen] = useState(false);
   const [isEditRoleModalOpen, setIsEditRoleModalOpen] = useState(false);
-  const [isDeleteRoleModalOpen, setIsDeleteRoleModalOpen] = useState(false);
   const [selectedRole, setSelectedRole] = useState<Role | null>(null);
   const [userPermissions, setUserPermissions] = useState<Permission[]>([]);
   const [availableModules, setAvailableModules] = useState<Array<{ value: string; label: string }>>([]);
@@ -35,48 +62,63 @@ export const UserManagement: React.FC = () => {
     canDelete: boolean;
   }>>([]);
 
+  const table = useDataTableState({ filterIds: ['role', 'isActive'], defaultSortBy: 'name' });
+
   // Fetch users
-  const { data: usersData, isLoading, error: usersError } = useQuery({
-    queryKey: ['users'],
-    queryFn: () => userAPI.getAllUsers(),
+  const { data: usersData, isLoading, isFetching, error: usersError, refetch } = useQuery({
+    queryKey: ['users', table.params, table.state.filters],
+    queryFn: () =>
+      userAPI.getAllUsers({
+        ...table.params,
+        role: table.state.filters.role || undefined,
+        isActive: table.state.filters.isActive ? table.state.filters.isActive === 'true' : undefined,
+      }),
+    placeholderData: keepPreviousData,
     retry: 1,
   });
 
   const updateUserMutation = useMutation({
     mutationFn: ({ id, data }: { id: number; data: UpdateUserRequest }) => userAPI.updateUser(id, data),
+    meta: { successMessage: 'User updated successfully!', errorMessage: 'Failed to update user' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['users'] });
       setIsEditModalOpen(false);
       setSelectedUser(null);
-      alert('User updated successfully!');
     },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to update user');
+    onError: (error) => {
+      setFieldErrors(getFieldErrors(error));
+    },
+  });
+
+  const setUsersActiveMutation = useMutation({
+    mutationFn: ({ users, isActive }: { users: User[]; isActive: boolean }) =>
+      Promise.all(users.map((user) => userAPI.updateUser(user.id, { isActive }))),
+    meta: { errorMessage: 'Failed to update some users' },
+    onSuccess: (results, { isActive }) => {
+      toast.success(`${results.length} user(s) ${isActive ? 'activated' : 'deactivated'}`);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['users'] });
     },
   });
 
   const deleteUserMutation = useMutation({
     mutationFn: (id: number) => userAPI.deleteUser(id),
+    meta: { successMessage: 'User deleted successfully!', errorMessage: 'Failed to delete user' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['users'] });
-      setIsDeleteModalOpen(false);
-      setSelectedUser(null);
-      alert('User deleted successfully!');
-    },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to delete user');
     },
   });
 
   const createUserMutation = useMutation({
     mutationFn: (data: CreateUserRequest) => userAPI.createUser(data),
+    meta: { successMessage: 'User created successfully!', errorMessage: 'Failed to create user' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['users'] });
       setIsCreateModalOpen(false);
-      alert('User created successfully!');
     },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to create user');
+    onError: (error) => {
+      setFieldErrors(getFieldErrors(error));
     },
   });
 
@@ -193,83 +235,73 @@ export const UserManagement: React.FC = () => {
   const updatePermissionsMutation = useMutation({
     mutationFn: ({ userId, permissions }: { userId: number; permissions: UpdatePermissionRequest[] }) =>
       permissionAPI.updateUserPermissions(userId, { permissions }),
+    meta: { successMessage: 'Permissions updated successfully!', errorMessage: 'Failed to update permissions' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['user-permissions', selectedUser?.id] });
-      alert('Permissions updated successfully!');
+      if (selectedUser?.id === currentUser?.id) {
+        refreshPermissions();
+      }
       setIsPermissionModalOpen(false);
     },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to update permissions');
-    },
   });
 
   const assignRoleMutation = useMutation({
     mutationFn: ({ userId, roleId }: { userId: number; roleId: number }) =>
       roleAPI.assignRoleToUser(userId, { roleId }),
+    meta: { successMessage: 'Role assigned successfully!', errorMessage: 'Failed to assign role' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['user-roles', selectedUser?.id] });
       queryClient.invalidateQueries({ queryKey: ['users'] });
-      alert('Role assigned successfully!');
-    },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to assign role');
+      if (selectedUser?.id === currentUser?.id) {
+        refreshPermissions();
+      }
     },
   });
 
   const unassignRoleMutation = useMutation({
     mutationFn: ({ userId, roleId }: { userId: number; roleId: number }) =>
       roleAPI.unassignRoleFromUser(userId, roleId),
+    meta: { successMessage: 'Role unassigned successfully!', errorMessage: 'Failed to unassign role' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['user-roles', selectedUser?.id] });
       queryClient.invalidateQueries({ queryKey: ['users'] });
-      alert('Role unassigned successfully!');
-    },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to unassign role');
+      if (selectedUser?.id === currentUser?.id) {
+        refreshPermissions();
+      }
     },
   });
 
   const createRoleMutation = useMutation({
     mutationFn: (data: any) => roleAPI.createRole(data),
+    meta: { successMessage: 'Role created successfully!', errorMessage: 'Failed to create role' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['roles'] });
       queryClient.invalidateQueries({ queryKey: ['all-roles'] });
       setIsCreateRoleModalOpen(false);
       setRolePermissions([]);
-      alert('Role created successfully!');
-    },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to create role');
     },
   });
 
   const updateRoleMutation = useMutation({
     mutationFn: ({ id, data }: { id: number; data: any }) => roleAPI.updateRole(id, data),
+    meta: { successMessage: 'Role updated successfully!', errorMessage: 'Failed to update role' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['roles'] });
       queryClient.invalidateQueries({ queryKey: ['all-roles'] });
       queryClient.invalidateQueries({ queryKey: ['role', selectedRole?.id] });
+      refreshPermissions();
       setIsEditRoleModalOpen(false);
       setSelectedRole(null);
       setRolePermissions([]);
-      alert('Role updated successfully!');
-    },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to update role');
     },
   });
 
   const deleteRoleMutation = useMutation({
     mutationFn: (id: number) => roleAPI.deleteRole(id),
+    meta: { successMessage: 'Role deleted successfully!', errorMessage: 'Failed to delete role' },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['roles'] });
       queryClient.invalidateQueries({ queryKey: ['all-roles'] });
-      setIsDeleteRoleModalOpen(false);
-      setSelectedRole(null);
-      alert('Role deleted successfully!');
-    },
-    onError: (error: any) => {
-      alert(error.response?.data?.message || 'Failed to delete role');
     },
   });
 
@@ -277,14 +309,51 @@ export const UserManagement: React.FC = () => {
 
   const handleEdit = (user: User) => {
     setSelectedUser(user);
+    setFieldErrors({});
     setIsEditModalOpen(true);
   };
 
-  const handleDelete = (user: User) => {
+  const handleDelete = async (user: User) => {
+    const confirmed = await confirm({
+      title: 'Delete User',
+      message: (
+        <>
+          Are you sure you want to delete <strong>{user.name}</strong>? This action cannot be undone.
+        </>
+      ),
+      confirmLabel: 'Delete',
+      destructive: true,
+      typedConfirmation: user.name,
+    });
+    if (confirmed) {
+      deleteUserMutation.mutate(user.id);
+    }
+  };
+
+  const handleImpersonate = (user: User) => {
     setSelectedUser(user);
-    setIsDeleteModalOpen(true);
+    setBlockDestructiveActions(true);
+    setIsImpersonateModalOpen(true);
   };
 
+  const handleConfirmImpersonate = async () => {
+    if (!selectedUser) return;
+    setIsStartingImpersonation(true);
+    try {
+      await startImpersonating(selectedUser.id, { blockDestructiveActions });
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to view as this user'));
+      setIsStartingImpersonation(false);
+    }
+  };
+
+  // Admins may view as anyone below superadmin; only a superadmin may view as another superadmin
+  const canImpersonate = (user: User) =>
+    !isImpersonating &&
+    user.id !== currentUser?.id &&
+    user.isActive &&
+    (currentUser?.role === 'superadmin' || (currentUser?.role === 'admin' && user.role !== 'superadmin'));
+
   const handleView = (user: User) => {
     setSelectedUser(user);
     setIsViewModalOpen(true);
@@ -302,21 +371,16 @@ export const UserManagement: React.FC = () => {
       role: parseRoleFromForm(formData.get('role') as string),
       isActive: formData.get('isActive') === 'true',
     };
+    setFieldErrors({});
     updateUserMutation.mutate({ id: selectedUser.id, data });
   };
 
-  const handleConfirmDelete = () => {
-    if (selectedUser) {
-      deleteUserMutation.mutate(selectedUser.id);
-    }
-  };
-
   const handleCreateUser = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     const formData = new FormData(e.currentTarget);
     const roleValue = parseRoleFromForm(formData.get('role') as string);
     if (!roleValue) {
-      alert('Please select a valid role');
+      toast.error('Please select a valid role');
       return;
     }
     const data: CreateUserRequest = {
@@ -325,7 +389,9 @@ export const UserManagement: React.FC = () => {
       phone: formData.get('phone') as string || undefined,
       role: roleValue,
       password: formData.get('password') as string,
+      mustChangePassword: true,
     };
+    setFieldErrors({});
     createUserMutation.mutate(data);
   };
 
@@ -344,9 +410,15 @@ export const UserManagement: React.FC = () => {
     assignRoleMutation.mutate({ userId: selectedUser.id, roleId });
   };
 
-  const handleUnassignRole = (roleId: number) => {
+  const handleUnassignRole = async (roleId: number) => {
     if (!selectedUser) return;
-    if (window.confirm('Are you sure you want to unassign this role?')) {
+    const confirmed = await confirm({
+      title: 'Unassign Role',
+      message: 'Are you sure you want to unassign this role?',
+      confirmLabel: 'Unassign',
+      destructive: true,
+    });
+    if (confirmed) {
       unassignRoleMutation.mutate({ userId: selectedUser.id, roleId });
     }
   };
@@ -400,14 +472,25 @@ export const UserManagement: React.FC = () => {
     setIsEditRoleModalOpen(true);
   };
 
-  const handleDeleteRole = (role: Role) => {
-    setSelectedRole(role);
-    setIsDeleteRoleModalOpen(true);
-  };
-
-  const handleConfirmDeleteRole = () => {
-    if (selectedRole) {
-      deleteRoleMutation.mutate(selectedRole.id);
+  const handleDeleteRole = async (role: Role) => {
+    const confirmed = await confirm({
+      title: 'Delete Role',
+      message: (
+        <>
+          <p className="mb-2">
+            Are you sure you want to delete the role <strong>{role.name}</strong>? This action cannot be undone.
+          </p>
+          <p className="text-sm text-yellow-600">
+            Note: You cannot delete a role if it is assigned to any users. Please unassign it first.
+          </p>
+        </>
+      ),
+      confirmLabel: 'Delete',
+      destructive: true,
+      typedConfirmation: role.name,
+    });
+    if (confirmed) {
+      deleteRoleMutation.mutate(role.id);
     }
   };
 
@@ -433,17 +516,135 @@ export const UserManagement: React.FC = () => {
     }
   }, [isCreateRoleModalOpen, availableModules]);
 
-  if (isLoading) {
-    return (
-      <Layout>
-        <div className="max-w-7xl mx-auto">
-          <div className="flex justify-center items-center min-h-screen">
-            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-500"></div>
-          </div>
+  const columns: DataTableColumn<User>[] = [
+    {
+      id: 'name',
+      header: 'Name',
+      sortable: true,
+      className: 'px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900',
+      cell: (user) => user.name,
+    },
+    { id: 'email', header: 'Email', sortable: true, cell: (user) => user.email },
+    { id: 'phone', header: 'Phone', cell: (user) => user.phone || '-' },
+    {
+      id: 'role',
+      header: 'Role',
+      sortable: true,
+      className: 'px-6 py-4 whitespace-nowrap',
+      cell: (user) => (
+        <span className={`px-2 py-1 rounded text-xs font-semibold ${
+          user.role === 'superadmin' ? 'bg-purple-100 text-purple-800' :
+          user.role === 'admin' ? 'bg-blue-100 text-blue-800' :
+          user.role === 'faculty' ? 'bg-green-100 text-green-800' :
+          user.role === 'student' ? 'bg-yellow-100 text-yellow-800' :
+          'bg-gray-100 text-gray-800'
+        }`}>
+          {user.role}
+        </span>
+      ),
+    },
+    {
+      id: 'isActive',
+      header: 'Status',
+      sortable: true,
+      className: 'px-6 py-4 whitespace-nowrap',
+      cell: (user) => (
+        <span className={`px-2 py-1 rounded text-xs font-semibold ${
+          user.isActive ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+        }`}>
+          {user.isActive ? 'Active' : 'Inactive'}
+        </span>
+      ),
+    },
+    {
+      id: 'createdAt',
+      header: 'Created',
+      sortable: true,
+      defaultHidden: true,
+      cell: (user) => (user.createdAt ? new Date(user.createdAt).toLocaleDateString() : '-'),
+    },
+    {
+      id: 'actions',
+      header: 'Actions',
+      hideable: false,
+      className: 'px-6 py-4 whitespace-nowrap text-sm font-medium',
+      cell: (user) => (
+        <div className="flex flex-wrap gap-2 items-center">
+          <button
+            onClick={() => handleView(user)}
+            className="px-2 py-1 text-blue-600 hover:text-blue-900 hover:bg-blue-50 rounded transition-colors"
+            title="View Profile"
+          >
+            👁️ View
+          </button>
+          {can(Module.USERS, 'edit') && (
+            <button
+              onClick={() => handleEdit(user)}
+              className="px-2 py-1 text-orange-600 hover:text-orange-900 hover:bg-orange-50 rounded transition-colors"
+              title="Edit User"
+            >
+              ✏️ Edit
+            </button>
+          )}
+          {currentUser?.role === 'superadmin' && (
+            <>
+              <button
+                onClick={() => handleManagePermissions(user)}
+                className="px-2 py-1 text-purple-600 hover:text-purple-900 hover:bg-purple-50 rounded transition-colors"
+                title="Manage Permissions"
+              >
+                🔐 Permissions
+              </button>
+              <button
+                onClick={() => handleAssignRole(user)}
+                className="px-2 py-1 text-indigo-600 hover:text-indigo-900 hover:bg-indigo-50 rounded transition-colors"
+                title="Assign Role"
+              >
+                👤 Roles
+              </button>
+            </>
+          )}
+          {canImpersonate(user) && (
+            <button
+              onClick={() => handleImpersonate(user)}
+              className="px-2 py-1 text-yellow-600 hover:text-yellow-900 hover:bg-yellow-50 rounded transition-colors"
+              title="View as User"
+            >
+              🕵️ View as
+            </button>
+          )}
+          {can(Module.USERS, 'delete') && user.id !== currentUser?.id && (
+            <button
+              onClick={() => handleDelete(user)}
+              className="px-2 py-1 text-red-600 hover:text-red-900 hover:bg-red-50 rounded transition-colors"
+              title="Delete User"
+            >
+              🗑️ Delete
+            </button>
+          )}
         </div>
-      </Layout>
-    );
-  }
+      ),
+    },
+  ];
+
+  // The signed-in user is left out so nobody deactivates their own account by accident
+  const bulkActions: DataTableBulkAction<User>[] = can(Module.USERS, 'edit')
+    ? [
+        {
+          label: 'Activate',
+          onClick: (rows) => setUsersActiveMutation.mutate({ users: rows, isActive: true }),
+        },
+        {
+          label: 'Deactivate',
+          destructive: true,
+          onClick: (rows) =>
+            setUsersActiveMutation.mutate({
+              users: rows.filter((user) => user.id !== currentUser?.id),
+              isActive: false,
+            }),
+        },
+      ]
+    : [];
 
   return (
     <Layout>
@@ -455,14 +656,19 @@ export const UserManagement: React.FC = () => {
                 <h1 className="text-3xl font-bold text-white">User Management</h1>
                 <p className="mt-2 text-orange-100">Manage all users in the system</p>
               </div>
-              {(currentUser?.role === 'admin' || currentUser?.role === 'superadmin') && (
+              {(can(Module.USERS, 'add') || currentUser?.role === 'superadmin') && (
                 <div className="flex gap-3">
-                  <button
-                    onClick={() => setIsCreateModalOpen(true)}
-                    className="px-4 py-2 bg-white text-orange-600 rounded-lg font-semibold hover:bg-orange-50 transition-colors"
-                  >
-                    + Create User
-                  </button>
+                  {can(Module.USERS, 'add') && (
+                    <button
+                      onClick={() => {
+                        setFieldErrors({});
+                        setIsCreateModalOpen(true);
+                      }}
+                      className="px-4 py-2 bg-white text-orange-600 rounded-lg font-semibold hover:bg-orange-50 transition-colors"
+                    >
+                      + Create User
+                    </button>
+                  )}
                   {currentUser?.role === 'superadmin' && (
                     <button
                       onClick={() => setIsRoleManagementModalOpen(true)}
@@ -477,125 +683,23 @@ export const UserManagement: React.FC = () => {
           </div>
 
           <div className="p-6">
-            {isLoading ? (
-              <div className="flex justify-center items-center py-12">
-                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-500"></div>
-              </div>
-            ) : usersError ? (
-              <div className="text-center py-12">
-                <p className="text-red-600 text-lg mb-4">Error loading users</p>
-                <p className="text-gray-500 text-sm mb-4">
-                  {(usersError as any)?.response?.data?.message || (usersError as any)?.message || 'Unknown error'}
-                </p>
-                <button
-                  onClick={() => window.location.reload()}
-                  className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700"
-                >
-                  Retry
-                </button>
-              </div>
-            ) : users.length === 0 ? (
-              <div className="text-center py-12">
-                <p className="text-gray-500 text-lg">No users found</p>
-              </div>
-            ) : (
-              <div className="overflow-x-auto">
-                <table className="min-w-full divide-y divide-gray-200">
-                  <thead className="bg-gray-50">
-                    <tr>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Email</th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Phone</th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Role</th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
-                    </tr>
-                  </thead>
-                  <tbody className="bg-white divide-y divide-gray-200">
-                    {users.map((user) => (
-                      <tr key={user.id} className="hover:bg-gray-50">
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm font-medium text-gray-900">{user.name}</div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm text-gray-500">{user.email}</div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm text-gray-500">{user.phone || '-'}</div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <span className={`px-2 py-1 rounded text-xs font-semibold ${
-                            user.role === 'superadmin' ? 'bg-purple-100 text-purple-800' :
-                            user.role === 'admin' ? 'bg-blue-100 text-blue-800' :
-                            user.role === 'faculty' ? 'bg-green-100 text-green-800' :
-                            user.role === 'student' ? 'bg-yellow-100 text-yellow-800' :
-                            'bg-gray-100 text-gray-800'
-                          }`}>
-                            {user.role}
-                          </span>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <span className={`px-2 py-1 rounded text-xs font-semibold ${
-                            user.isActive ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
-                          }`}>
-                            {user.isActive ? 'Active' : 'Inactive'}
-                          </span>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                          <div className="flex flex-wrap gap-2 items-center">
-                            <button
-                              onClick={() => handleView(user)}
-                              className="px-2 py-1 text-blue-600 hover:text-blue-900 hover:bg-blue-50 rounded transition-colors"
-                              title="View Profile"
-                            >
-                              👁️ View
-                            </button>
-                            {(currentUser?.role === 'admin' || currentUser?.role === 'superadmin') && (
-                              <>
-                                <button
-                                  onClick={() => handleEdit(user)}
-                                  className="px-2 py-1 text-orange-600 hover:text-orange-900 hover:bg-orange-50 rounded transition-colors"
-                                  title="Edit User"
-                                >
-                                  ✏️ Edit
-                                </button>
-                                {currentUser?.role === 'superadmin' && (
-                                  <>
-                                    <button
-                                      onClick={() => handleManagePermissions(user)}
-                                      className="px-2 py-1 text-purple-600 hover:text-purple-900 hover:bg-purple-50 rounded transition-colors"
-                                      title="Manage Permissions"
-                                    >
-                                      🔐 Permissions
-                                    </button>
-                                    <button
-                                      onClick={() => handleAssignRole(user)}
-                                      className="px-2 py-1 text-indigo-600 hover:text-indigo-900 hover:bg-indigo-50 rounded transition-colors"
-                                      title="Assign Role"
-                                    >
-                                      👤 Roles
-                                    </button>
-                                    {user.id !== currentUser.id && (
-                                      <button
-                                        onClick={() => handleDelete(user)}
-                                        className="px-2 py-1 text-red-600 hover:text-red-900 hover:bg-red-50 rounded transition-colors"
-                                        title="Delete User"
-                                      >
-                                        🗑️ Delete
-                                      </button>
-                                    )}
-                                  </>
-                                )}
-                              </>
-                            )}
-                          </div>
-                        </td>
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
-              </div>
-            )}
+            <DataTable
+              tableId="users"
+              columns={columns}
+              rows={users}
+              rowKey={(user) => user.id}
+              state={table.state}
+              onStateChange={table.update}
+              pagination={usersData?.data.pagination}
+              isLoading={isLoading}
+              isFetching={isFetching}
+              error={usersError}
+              onRetry={refetch}
+              filters={USER_FILTERS}
+              searchPlaceholder="Search name, email or phone"
+              bulkActions={bulkActions}
+              emptyMessage="No users found"
+            />
           </div>
         </div>
       </div>
@@ -676,6 +780,7 @@ export const UserManagement: React.FC = () => {
                   required
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                 />
+                <FieldError message={fieldErrors.name} />
               </div>
               <div className="mb-4">
                 <label className="block text-sm font-medium text-gray-700 mb-1">Email *</label>
@@ -686,6 +791,7 @@ export const UserManagement: React.FC = () => {
                   required
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                 />
+                <FieldError message={fieldErrors.email} />
               </div>
               <div className="mb-4">
                 <label className="block text-sm font-medium text-gray-700 mb-1">Phone</label>
@@ -695,6 +801,7 @@ export const UserManagement: React.FC = () => {
                   defaultValue={selectedUser.phone || ''}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                 />
+                <FieldError message={fieldErrors.phone} />
               </div>
               <div className="mb-4">
                 <label className="block text-sm font-medium text-gray-700 mb-1">Role *</label>
@@ -713,6 +820,7 @@ export const UserManagement: React.FC = () => {
                     <option key={role.id} value={role.name.toLowerCase()}>{role.name}</option>
                   ))}
                 </select>
+                <FieldError message={fieldErrors.role} />
               </div>
               <div className="mb-4">
                 <label className="block text-sm font-medium text-gray-700 mb-1">Status *</label>
@@ -725,6 +833,7 @@ export const UserManagement: React.FC = () => {
                   <option value="true">Active</option>
                   <option value="false">Inactive</option>
                 </select>
+                <FieldError message={fieldErrors.isActive} />
               </div>
               <div className="flex gap-3">
                 <button
@@ -750,25 +859,35 @@ export const UserManagement: React.FC = () => {
         </div>
       )}
 
-      {/* Delete Confirmation Modal */}
-      {isDeleteModalOpen && selectedUser && (
+      {/* Impersonation Confirmation Modal */}
+      {isImpersonateModalOpen && selectedUser && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
-            <h2 className="text-2xl font-bold mb-4 text-red-600">Delete User</h2>
+            <h2 className="text-2xl font-bold mb-4">View as {selectedUser.name}</h2>
             <p className="mb-4 text-gray-700">
-              Are you sure you want to delete <strong>{selectedUser.name}</strong>? This action cannot be undone.
+              You will see the application exactly as <strong>{selectedUser.name}</strong> ({selectedUser.role}) does.
+              Use the banner at the top of the page to return to your own account.
             </p>
+            <label className="flex items-center gap-2 mb-6 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={blockDestructiveActions}
+                onChange={(e) => setBlockDestructiveActions(e.target.checked)}
+                className="rounded border-gray-300 text-orange-600 focus:ring-orange-500"
+              />
+              Block delete actions while viewing as this user
+            </label>
             <div className="flex gap-3">
               <button
-                onClick={handleConfirmDelete}
-                disabled={deleteUserMutation.isPending}
-                className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg font-semibold hover:bg-red-700 transition-colors disabled:opacity-50"
+                onClick={handleConfirmImpersonate}
+                disabled={isStartingImpersonation}
+                className="flex-1 px-4 py-2 bg-orange-600 text-white rounded-lg font-semibold hover:bg-orange-700 transition-colors disabled:opacity-50"
               >
-                {deleteUserMutation.isPending ? 'Deleting...' : 'Delete'}
+                {isStartingImpersonation ? 'Switching...' : 'View as User'}
               </button>
               <button
                 onClick={() => {
-                  setIsDeleteModalOpen(false);
+                  setIsImpersonateModalOpen(false);
                   setSelectedUser(null);
                 }}
                 className="flex-1 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg font-semibold hover:bg-gray-300 transition-colors"
@@ -804,6 +923,7 @@ export const UserManagement: React.FC = () => {
                   required
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                 />
+                <FieldError message={fieldErrors.name} />
               </div>
               <div className="mb-4">
                 <label className="block text-sm font-medium text-gray-700 mb-1">Email *</label>
@@ -813,6 +933,7 @@ export const UserManagement: React.FC = () => {
                   required
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                 />
+                <FieldError message={fieldErrors.email} />
               </div>
               <div className="mb-4">
                 <label className="block text-sm font-medium text-gray-700 mb-1">Phone</label>
@@ -821,6 +942,7 @@ export const UserManagement: React.FC = () => {
                   name="phone"
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                 />
+                <FieldError message={fieldErrors.phone} />
               </div>
               <div className="mb-4">
                 <label className="block text-sm font-medium text-gray-700 mb-1">Role *</label>
@@ -838,6 +960,7 @@ export const UserManagement: React.FC = () => {
                     <option key={role.id} value={role.name.toLowerCase()}>{role.name}</option>
                   ))}
                 </select>
+                <FieldError message={fieldErrors.role} />
               </div>
               <div className="mb-4">
                 <label className="block text-sm font-medium text-gray-700 mb-1">Password *</label>
@@ -848,6 +971,7 @@ export const UserManagement: React.FC = () => {
                   minLength={6}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
                 />
+                <FieldError message={fieldErrors.password} />
               </div>
               <div className="flex gap-3">
                 <button
@@ -1418,39 +1542,6 @@ export const UserManagement: React.FC = () => {
           </div>
         </div>
       )}
-
-      {/* Delete Role Confirmation Modal */}
-      {isDeleteRoleModalOpen && selectedRole && (
-        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
-            <h2 className="text-2xl font-bold mb-4 text-red-600">Delete Role</h2>
-            <p className="mb-4 text-gray-700">
-              Are you sure you want to delete the role <strong>{selectedRole.name}</strong>? This action cannot be undone.
-            </p>
-            <p className="mb-4 text-sm text-yellow-600">
-              Note: You cannot delete a role if it is assigned to any users. Please unassign it first.
-            </p>
-            <div className="flex gap-3">
-              <button
-                onClick={handleConfirmDeleteRole}
-                disabled={deleteRoleMutation.isPending}
-                className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg font-semibold hover:bg-red-700 transition-colors disabled:opacity-50"
-              >
-                {deleteRoleMutation.isPending ? 'Deleting...' : 'Delete'}
-              </button>
-              <button
-                onClick={() => {
-                  setIsDeleteRoleModalOpen(false);
-                  setSelectedRole(null);
-                }}
-                className="flex-1 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg font-semibold hover:bg-gray-300 transition-colors"
-              >
-                Cancel
-              </button>
-            </div>
-          </div>
-        </div>
-      )}
     </Layout>
   );
 };
@@ -0,0 +1,166 @@
+import { lazy, ComponentType } from 'react';
+import { Module } from './api/permission.api';
+import { AppRoute } from './types/route.types';
+
+// Pages export named components; React.lazy needs a default export
+const lazyPage = <K extends string>(loader: () => Promise<Record<K, ComponentType>>, name: K) =>
+  lazy(() => loader().then((module) => ({ default: module[name] })));
+
+const Dashboard = lazyPage(() => import('./pages/Dashboard'), 'Dashboard');
+const FacultyDashboard = lazyPage(() => import('./pages/FacultyDashboard'), 'FacultyDashboard');
+const BatchManagement = lazyPage(() => import('./pages/BatchManagement'), 'BatchManagement');
+const BatchesList = lazyPage(() => import('./pages/BatchesList'), 'BatchesList');
+const BatchProgressList = lazyPage(() => import('./pages/BatchProgressList'), 'BatchProgressList');
+const BatchCalendar = lazyPage(() => import('./pages/BatchCalendar'), 'BatchCalendar');
+const BatchCreate = lazyPage(() => import('./pages/BatchCreate'), 'BatchCreate');
+const BatchExtensionManagement = lazyPage(() => import('./pages/BatchExtensionManagement'), 'BatchExtensionManagement');
+const StudentManagement = lazyPage(() => import('./pages/StudentManagement'), 'StudentManagement');
+const StudentEnrollment = lazyPage(() => import('./pages/StudentEnrollment'), 'StudentEnrollment');
+const StudentEdit = lazyPage(() => import('./pages/StudentEdit'), 'StudentEdit');
+const StudentOrientation = lazyPage(() => import('./pages/StudentOrientation'), 'StudentOrientation');
+const FacultyManagement = lazyPage(() => import('./pages/FacultyManagement'), 'FacultyManagement');
+const FacultyRegistration = lazyPage(() => import('./pages/FacultyRegistration'), 'FacultyRegistration');
+const FacultyEdit = lazyPage(() => import('./pages/FacultyEdit'), 'FacultyEdit');
+const EmployeeManagement = lazyPage(() => import('./pages/EmployeeManagement'), 'EmployeeManagement');
+const EmployeeRegistration = lazyPage(() => import('./pages/EmployeeRegistration'), 'EmployeeRegistration');
+const EmployeeEdit = lazyPage(() => import('./pages/EmployeeEdit'), 'EmployeeEdit');
+const EmployeeDetails = lazyPage(() => import('./pages/EmployeeDetails'), 'EmployeeDetails');
+const EmployeeAttendance = lazyPage(() => import('./pages/EmployeeAttendance'), 'EmployeeAttendance');
+const SessionManagement = lazyPage(() => import('./pages/SessionManagement'), 'SessionManagement');
+const SessionCheckin = lazyPage(() => import('./pages/SessionCheckin'), 'SessionCheckin');
+const AttendanceManagement = lazyPage(() => import('./pages/AttendanceManagement'), 'AttendanceManagement');
+const AttendanceRegister = lazyPage(() => import('./pages/AttendanceRegister'), 'AttendanceRegister');
+const StudentAttendance = lazyPage(() => import('./pages/StudentAttendance'), 'StudentAttendance');
+const PaymentManagement = lazyPage(() => import('./pages/PaymentManagement'), 'PaymentManagement');
+const Collections = lazyPage(() => import('./pages/Collections'), 'Collections');
+const PortfolioManagement = lazyPage(() => import('./pages/PortfolioManagement'), 'PortfolioManagement');
+const Reports = lazyPage(() => import('./pages/Reports'), 'Reports');
+const ApprovalManagement = lazyPage(() => import('./pages/ApprovalManagement'), 'ApprovalManagement');
+const LeaveManagement = lazyPage(() => import('./pages/LeaveManagement'), 'LeaveManagement');
+const StudentLeaveManagement = lazyPage(() => import('./pages/StudentLeaveManagement'), 'StudentLeaveManagement');
+const SoftwareCompletionManagement = lazyPage(
+  () => import('./pages/SoftwareCompletionManagement'),
+  'SoftwareCompletionManagement'
+);
+const UserManagement = lazyPage(() => import('./pages/UserManagement'), 'UserManagement');
+const RoleManagement = lazyPage(() => import('./pages/RoleManagement'), 'RoleManagement');
+const ChangePassword = lazyPage(() => import('./pages/ChangePassword'), 'ChangePassword');
+
+/**
+ * Authenticated routes of the application.
+ * The route guard and the navigation menus both read their access rules from here,
+ * and the order of entries with `nav` is the menu order.
+ *
+ * Duplicated screens:
+ * - `/batches` is BatchManagement (cards with edit/delete); BatchesList is the
+ *   current/upcoming/past view of the same data under `/batches/list`.
+ * - `/batches/create` is BatchCreate. The older BatchCreation screen was removed.
+ * - `/reports` is Reports, which covers every report of the former ReportManagement
+ *   screen plus CSV download. ReportManagement was removed.
+ * - `/students/enroll` is StudentEnrollment. The older Enrollment screen posted to an
+ *   endpoint that no longer exists and was removed.
+ */
+export const appRoutes: AppRoute[] = [
+  { path: '/', component: Dashboard },
+  { path: '/dashboard', component: Dashboard, nav: { name: 'Dashboard', icon: '🏠' } },
+  {
+    path: '/faculty/dashboard',
+    component: FacultyDashboard,
+    roles: ['faculty'],
+    nav: { name: 'Faculty Dashboard', icon: '👨‍🏫' },
+  },
+  { path: '/batches', component: BatchManagement, module: Module.BATCHES, nav: { name: 'Batches', icon: '📚' } },
+  { path: '/batches/list', component: BatchesList, module: Module.BATCHES },
+  {
+    path: '/batches/progress',
+    component: BatchProgressList,
+    module: Module.BATCHES,
+    nav: { name: 'Batch Progress', icon: '📈' },
+  },
+  {
+    path: '/batches/calendar',
+    component: BatchCalendar,
+    module: Module.BATCHES,
+    nav: { name: 'Batch Calendar', icon: '🗓️' },
+  },
+  { path: '/batches/create', component: BatchCreate, module: Module.BATCHES, action: 'add' },
+  { path: '/students', component: StudentManagement, module: Module.STUDENTS, nav: { name: 'Students', icon: '👥' } },
+  {
+    path: '/students/enroll',
+    component: StudentEnrollment,
+    module: Module.STUDENTS,
+    action: 'add',
+    nav: { name: 'Student Enrollment', icon: '📝' },
+  },
+  { path: '/students/orientation', component: StudentOrientation, module: Module.STUDENTS, action: 'add' },
+  { path: '/students/:id/edit', component: StudentEdit, module: Module.STUDENTS, action: 'edit' },
+  { path: '/faculty', component: FacultyManagement, module: Module.FACULTY, nav: { name: 'Faculty', icon: '👨‍🏫' } },
+  { path: '/faculty/register', component: FacultyRegistration, module: Module.FACULTY, action: 'add' },
+  { path: '/faculty/:id/edit', component: FacultyEdit, module: Module.FACULTY, action: 'edit' },
+  { path: '/employees', component: EmployeeManagement, module: Module.EMPLOYEES, nav: { name: 'Employees', icon: '💼' } },
+  { path: '/employees/register', component: EmployeeRegistration, module: Module.EMPLOYEES, action: 'add' },
+  { path: '/employees/:id/edit', component: EmployeeEdit, module: Module.EMPLOYEES, action: 'edit' },
+  {
+    path: '/employee/details',
+    component: EmployeeDetails,
+    module: Module.EMPLOYEES,
+    nav: { name: 'Employee Details', icon: '🪪' },
+  },
+  { path: '/sessions', component: SessionManagement, module: Module.SESSIONS },
+  // Opened by scanning a session's QR code
+  { path: '/sessions/:id/checkin', component: SessionCheckin, roles: ['student'] },
+  { path: '/attendance', component: AttendanceManagement, module: Module.ATTENDANCE, nav: { name: 'Attendance', icon: '✅' } },
+  // Staff only: the register shows everyone's attendance, not just the viewer's
+  {
+    path: '/attendance/register',
+    component: AttendanceRegister,
+    module: Module.ATTENDANCE,
+    action: 'edit',
+    nav: { name: 'Attendance Register', icon: '🗒️' },
+  },
+  {
+    path: '/student-attendance',
+    component: StudentAttendance,
+    roles: ['superadmin', 'admin', 'faculty', 'employee'],
+    nav: { name: 'My Attendance', icon: '📸' },
+  },
+  {
+    path: '/employee-attendance',
+    component: EmployeeAttendance,
+    module: Module.EMPLOYEES,
+    nav: { name: 'Employee Attendance', icon: '⏰' },
+  },
+  { path: '/payments', component: PaymentManagement, module: Module.PAYMENTS, nav: { name: 'Payments', icon: '💰' } },
+  {
+    path: '/collections',
+    component: Collections,
+    module: Module.PAYMENTS,
+    action: 'add',
+    nav: { name: 'Collections', icon: '💳' },
+  },
+  { path: '/portfolios', component: PortfolioManagement, module: Module.PORTFOLIOS, nav: { name: 'Portfolios', icon: '📁' } },
+  { path: '/reports', component: Reports, module: Module.REPORTS, nav: { name: 'Reports', icon: '📊' } },
+  { path: '/approvals', component: ApprovalManagement, module: Module.APPROVALS, nav: { name: 'Approvals', icon: '✓' } },
+  { path: '/leaves', component: LeaveManagement, nav: { name: 'Leave Management', icon: '🏖️' } },
+  {
+    path: '/student-leaves',
+    component: StudentLeaveManagement,
+    module: Module.STUDENT_LEAVES,
+    nav: { name: 'Student Leaves', icon: '🧳' },
+  },
+  {
+    path: '/software-completions',
+    component: SoftwareCompletionManagement,
+    module: Module.SOFTWARE_COMPLETIONS,
+    nav: { name: 'Software Completion', icon: '🎓' },
+  },
+  {
+    path: '/batch-extensions',
+    component: BatchExtensionManagement,
+    module: Module.BATCH_EXTENSIONS,
+    nav: { name: 'Batch Extensions', icon: '⏱️' },
+  },
+  { path: '/users', component: UserManagement, module: Module.USERS, nav: { name: 'Users', icon: '👤' } },
+  { path: '/roles', component: RoleManagement, roles: ['superadmin'], nav: { name: 'Roles', icon: '🔐' } },
+  { path: '/change-password', component: ChangePassword },
+];
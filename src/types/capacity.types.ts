@@ -0,0 +1,35 @@
+import type { Batch } from '../api/batch.api';
+
+export interface BatchSeats {
+  // Undefined when the batch has no maximum
+  capacity?: number;
+  // Undefined when the batch came without a count or its enrollments
+  filled?: number;
+  remaining?: number;
+  isFull: boolean;
+  waitlisted: number;
+}
+
+/**
+ * Works out how many seats of a batch are taken, from the counts the batch list includes
+ * or, failing that, its enrollments. For display only: the enrollment endpoints enforce capacity.
+ * @param batch - The batch as returned by the API
+ */
+export function getBatchSeats(batch: Batch): BatchSeats {
+  const filled = batch.enrolledCount ?? batch.enrollments?.length;
+  const capacity = batch.maxCapacity || undefined;
+  const remaining = capacity !== undefined && filled !== undefined ? Math.max(capacity - filled, 0) : undefined;
+  return { capacity, filled, remaining, isFull: remaining === 0, waitlisted: batch.waitlistCount ?? 0 };
+}
+
+/**
+ * Short seat summary for batch cards and pickers, e.g. "20 / 20 seats (full), 3 waitlisted"
+ * @param seats - Result of getBatchSeats
+ */
+export function formatSeats(seats: BatchSeats): string {
+  const waitlist = seats.waitlisted > 0 ? `, ${seats.waitlisted} waitlisted` : '';
+  if (seats.filled === undefined) return `${seats.capacity !== undefined ? `${seats.capacity} seats` : 'No seat limit'}${waitlist}`;
+  if (seats.capacity === undefined) return `${seats.filled} enrolled${waitlist}`;
+  const status = seats.isFull ? 'full' : `${seats.remaining} left`;
+  return `${seats.filled} / ${seats.capacity} seats (${status})${waitlist}`;
+}
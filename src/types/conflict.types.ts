@@ -0,0 +1,214 @@
+import type { Batch } from '../api/batch.api';
+import type { FacultyLeave } from '../api/facultyLeave.api';
+import type { Holiday } from '../api/holiday.api';
+import { Session, SessionStatus } from '../api/session.api';
+import {
+  BatchSchedule,
+  DAYS_OF_WEEK,
+  TimeSlot,
+  getSlotForDate,
+  listClassDates,
+  normalizeSchedule,
+  parseDateKey,
+} from './schedule.types';
+
+export type ConflictKind = 'faculty' | 'room' | 'leave' | 'holiday';
+
+export interface ScheduleConflict {
+  kind: ConflictKind;
+  message: string;
+}
+
+// Existing bookings a proposal is checked against
+export interface ConflictSources {
+  sessions: Session[];
+  batches: Batch[];
+  // Approved leaves only
+  facultyLeaves: FacultyLeave[];
+  holidays: Holiday[];
+}
+
+export interface SessionProposal {
+  batchId?: number;
+  facultyId?: number;
+  date: string;
+  startTime: string;
+  endTime: string;
+}
+
+export interface BatchProposal {
+  // Set when editing, so the batch and its own sessions don't conflict with themselves
+  batchId?: number;
+  startDate: string;
+  endDate: string;
+  schedule: BatchSchedule;
+  room?: string;
+  facultyIds: number[];
+}
+
+// Times come as HH:MM from inputs and HH:MM:SS from the API
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Checks whether two time slots on the same day overlap; back-to-back slots do not
+ */
+export function slotsOverlap(a: TimeSlot, b: TimeSlot): boolean {
+  return toMinutes(a.startTime) < toMinutes(b.endTime) && toMinutes(b.startTime) < toMinutes(a.endTime);
+}
+
+const sameRoom = (a?: string, b?: string) => !!a?.trim() && !!b?.trim() && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const dateOf = (value: string) => value.split('T')[0];
+
+const formatDate = (date: string) => parseDateKey(date).toLocaleDateString();
+
+const formatSlot = (slot: TimeSlot) => `${slot.startTime.slice(0, 5)}–${slot.endTime.slice(0, 5)}`;
+
+const isActiveBatch = (batch: Batch) => batch.status !== 'inactive';
+
+const isActiveSession = (session: Session) => session.status !== SessionStatus.CANCELLED;
+
+const batchTitle = (batchesById: Map<number, Batch>, batchId: number, fallback?: string) =>
+  fallback || batchesById.get(batchId)?.title || `Batch ${batchId}`;
+
+/**
+ * Finds the double bookings a new session would create: the faculty teaching elsewhere or
+ * on leave, another batch in the same room, or a holiday
+ * @param proposal - The session about to be created
+ * @param sources - Existing sessions, batches, approved faculty leaves and holidays
+ */
+export function findSessionConflicts(proposal: SessionProposal, sources: ConflictSources): ScheduleConflict[] {
+  const conflicts: ScheduleConflict[] = [];
+  const batchesById = new Map(sources.batches.map((batch) => [batch.id, batch]));
+  const room = proposal.batchId ? batchesById.get(proposal.batchId)?.room : undefined;
+  const day = parseDateKey(proposal.date);
+
+  sources.holidays
+    .filter((holiday) => dateOf(holiday.date) === proposal.date)
+    .forEach((holiday) => conflicts.push({ kind: 'holiday', message: `${formatDate(proposal.date)} is a holiday (${holiday.name})` }));
+
+  if (proposal.facultyId) {
+    sources.facultyLeaves
+      .filter(
+        (leave) =>
+          leave.facultyId === proposal.facultyId &&
+          dateOf(leave.startDate) <= proposal.date &&
+          dateOf(leave.endDate) >= proposal.date
+      )
+      .forEach((leave) =>
+        conflicts.push({
+          kind: 'leave',
+          message: `The faculty is on approved leave from ${formatDate(dateOf(leave.startDate))} to ${formatDate(dateOf(leave.endDate))}`,
+        })
+      );
+  }
+
+  const sameDaySessions = sources.sessions.filter((session) => isActiveSession(session) && dateOf(session.date) === proposal.date);
+  sameDaySessions
+    .filter((session) => slotsOverlap(proposal, session))
+    .forEach((session) => {
+      const title = batchTitle(batchesById, session.batchId, session.batch?.title);
+      if (proposal.facultyId && session.facultyId === proposal.facultyId) {
+        conflicts.push({ kind: 'faculty', message: `The faculty already teaches ${title} at ${formatSlot(session)}` });
+      } else if (session.batchId !== proposal.batchId && sameRoom(room, batchesById.get(session.batchId)?.room)) {
+        conflicts.push({ kind: 'room', message: `${room} is booked for ${title} at ${formatSlot(session)}` });
+      }
+    });
+
+  // Other batches of this faculty still meet on their schedule on days without a session
+  if (proposal.facultyId) {
+    sources.batches.forEach((batch) => {
+      if (batch.id === proposal.batchId || !isActiveBatch(batch)) return;
+      if (!batch.assignedFaculty?.some((member) => member.id === proposal.facultyId)) return;
+      if (dateOf(batch.startDate) > proposal.date || dateOf(batch.endDate) < proposal.date) return;
+      if (sameDaySessions.some((session) => session.batchId === batch.id)) return;
+      const slot = getSlotForDate(normalizeSchedule(batch.schedule), day);
+      if (slot && slotsOverlap(proposal, slot)) {
+        conflicts.push({
+          kind: 'faculty',
+          message: `The faculty is assigned to ${batch.title}, which meets at ${formatSlot(slot)} on this day`,
+        });
+      }
+    });
+  }
+
+  return conflicts;
+}
+
+/**
+ * Finds the double bookings a batch schedule would create over its whole date range:
+ * shared faculty or room with overlapping batches, sessions its faculty already teach,
+ * approved faculty leaves and holidays on class days
+ * @param proposal - The batch being created or edited
+ * @param sources - Existing sessions, batches, approved faculty leaves and holidays
+ */
+export function findBatchConflicts(proposal: BatchProposal, sources: ConflictSources): ScheduleConflict[] {
+  const { startDate, endDate, schedule } = proposal;
+  if (!startDate || !endDate || endDate < startDate || Object.keys(schedule).length === 0) return [];
+
+  const conflicts: ScheduleConflict[] = [];
+  const batchesById = new Map(sources.batches.map((batch) => [batch.id, batch]));
+  const classDates = new Set(listClassDates(schedule, startDate, endDate).map((classDate) => classDate.date));
+
+  sources.holidays
+    .filter((holiday) => classDates.has(dateOf(holiday.date)))
+    .forEach((holiday) =>
+      conflicts.push({ kind: 'holiday', message: `${formatDate(dateOf(holiday.date))} is a holiday (${holiday.name})` })
+    );
+
+  sources.facultyLeaves
+    .filter((leave) => proposal.facultyIds.includes(leave.facultyId))
+    .forEach((leave) => {
+      const missed = Array.from(classDates).filter((date) => date >= dateOf(leave.startDate) && date <= dateOf(leave.endDate));
+      if (missed.length === 0) return;
+      conflicts.push({
+        kind: 'leave',
+        message: `${leave.faculty?.name || 'A faculty member'} is on approved leave from ${formatDate(dateOf(leave.startDate))} to ${formatDate(dateOf(leave.endDate))} (${missed.length} class day${missed.length === 1 ? '' : 's'})`,
+      });
+    });
+
+  sources.batches.forEach((batch) => {
+    if (batch.id === proposal.batchId || !isActiveBatch(batch)) return;
+    if (dateOf(batch.startDate) > endDate || dateOf(batch.endDate) < startDate) return;
+    const otherSchedule = normalizeSchedule(batch.schedule);
+    const clashDays = DAYS_OF_WEEK.filter(
+      (day) => schedule[day] && otherSchedule[day] && slotsOverlap(schedule[day], otherSchedule[day])
+    );
+    if (clashDays.length === 0) return;
+
+    const sharedFaculty = (batch.assignedFaculty || []).filter((member) => proposal.facultyIds.includes(member.id));
+    if (sharedFaculty.length > 0) {
+      conflicts.push({
+        kind: 'faculty',
+        message: `${sharedFaculty.map((member) => member.name).join(', ')} also teach${sharedFaculty.length === 1 ? 'es' : ''} ${batch.title} on ${clashDays.join(', ')}`,
+      });
+    }
+    if (sameRoom(proposal.room, batch.room)) {
+      conflicts.push({ kind: 'room', message: `${batch.room} is booked for ${batch.title} on ${clashDays.join(', ')}` });
+    }
+  });
+
+  // Sessions outside this batch that its faculty already teach at class times, grouped per batch
+  const clashingSessions = new Map<string, { count: number; firstDate: string }>();
+  sources.sessions.forEach((session) => {
+    const date = dateOf(session.date);
+    if (session.batchId === proposal.batchId || !isActiveSession(session) || !classDates.has(date)) return;
+    if (!proposal.facultyIds.includes(session.facultyId)) return;
+    const slot = getSlotForDate(schedule, parseDateKey(date));
+    if (!slot || !slotsOverlap(slot, session)) return;
+    const key = `${session.faculty?.name || 'A faculty member'} already teaches ${batchTitle(batchesById, session.batchId, session.batch?.title)}`;
+    const entry = clashingSessions.get(key);
+    clashingSessions.set(key, { count: (entry?.count || 0) + 1, firstDate: entry && entry.firstDate < date ? entry.firstDate : date });
+  });
+  clashingSessions.forEach(({ count, firstDate }, key) => {
+    conflicts.push({
+      kind: 'faculty',
+      message: `${key} in ${count} session${count === 1 ? '' : 's'} at class times, starting ${formatDate(firstDate)}`,
+    });
+  });
+
+  return conflicts;
+}
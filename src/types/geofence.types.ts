@@ -0,0 +1,93 @@
+import type { CampusGeofence, GeofencePolicy, PunchGeofence } from '../api/geofence.api';
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface GeofenceCheck {
+  status: PunchGeofence['status'];
+  // The fence the position is in, or the nearest one when outside
+  fence?: CampusGeofence;
+  distanceMeters?: number;
+  // How an out-of-fence or unlocated punch is handled; undefined when inside
+  policy?: GeofencePolicy;
+}
+
+const EARTH_RADIUS_METERS = 6371000;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two points
+ * @param from - First point
+ * @param to - Second point
+ * @returns Distance in meters
+ */
+export function distanceInMeters(from: Coordinates, to: Coordinates): number {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Short distance label, e.g. "350 m" or "2.4 km"
+ * @param meters - Distance in meters
+ */
+export function formatDistance(meters: number): string {
+  return meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(1)} km`;
+}
+
+/**
+ * Checks a position against the campus fences
+ * @param position - The device position, or null when location is unavailable
+ * @param fences - Configured campus fences, or null when they could not be loaded
+ * @returns The check, or null when no fences are configured and any location is accepted
+ */
+export function checkGeofences(position: Coordinates | null, fences: CampusGeofence[] | null): GeofenceCheck | null {
+  if (fences?.length === 0) return null;
+  // Without a location or the fences the punch can't be verified; accept it for approval rather than lock the user out
+  if (!position || !fences) return { status: 'unavailable', policy: 'flag' };
+
+  const nearest = fences
+    .map((fence) => ({ fence, distance: distanceInMeters(position, fence) }))
+    .sort((a, b) => a.distance - b.distance)[0];
+  if (nearest.distance <= nearest.fence.radiusMeters) {
+    return { status: 'inside', fence: nearest.fence, distanceMeters: Math.round(nearest.distance) };
+  }
+  return {
+    status: 'outside',
+    fence: nearest.fence,
+    distanceMeters: Math.round(nearest.distance - nearest.fence.radiusMeters),
+    policy: nearest.fence.policy,
+  };
+}
+
+/**
+ * Place name for a position from the configured sites, used instead of an external geocoder
+ * @param position - The device position
+ * @param check - Result of checkGeofences for the same position
+ */
+export function describeLocation(position: Coordinates, check: GeofenceCheck | null): string {
+  if (check?.status === 'inside' && check.fence) return check.fence.name;
+  if (check?.status === 'outside' && check.fence && check.distanceMeters !== undefined) {
+    return `${formatDistance(check.distanceMeters)} outside ${check.fence.name}`;
+  }
+  return `Lat: ${position.latitude.toFixed(6)}, Lng: ${position.longitude.toFixed(6)}`;
+}
+
+/**
+ * Fence details to send with a punch request
+ * @param check - Result of checkGeofences
+ */
+export function toPunchGeofence(check: GeofenceCheck): PunchGeofence {
+  return {
+    status: check.status,
+    geofenceId: check.fence?.id,
+    distanceMeters: check.distanceMeters,
+    needsApproval: check.policy === 'flag' || undefined,
+  };
+}
@@ -0,0 +1,43 @@
+export interface PasswordRule {
+  id: string;
+  label: string;
+  test: (password: string) => boolean;
+}
+
+export type PasswordStrength = 'weak' | 'fair' | 'strong';
+
+// Rules every new password must satisfy (reset, change and forced first-login change)
+export const PASSWORD_RULES: PasswordRule[] = [
+  { id: 'length', label: 'At least 8 characters', test: (password) => password.length >= 8 },
+  { id: 'uppercase', label: 'An uppercase letter', test: (password) => /[A-Z]/.test(password) },
+  { id: 'lowercase', label: 'A lowercase letter', test: (password) => /[a-z]/.test(password) },
+  { id: 'number', label: 'A number', test: (password) => /\d/.test(password) },
+  { id: 'symbol', label: 'A symbol (e.g. ! @ # $)', test: (password) => /[^A-Za-z0-9]/.test(password) },
+];
+
+/**
+ * Returns the password rules a password does not yet satisfy
+ * @param password - The candidate password
+ */
+export function getUnmetPasswordRules(password: string): PasswordRule[] {
+  return PASSWORD_RULES.filter((rule) => !rule.test(password));
+}
+
+/**
+ * Checks whether a password satisfies every password rule
+ * @param password - The candidate password
+ */
+export function isPasswordValid(password: string): boolean {
+  return getUnmetPasswordRules(password).length === 0;
+}
+
+/**
+ * Rates a password by how many rules it meets
+ * @param password - The candidate password
+ */
+export function getPasswordStrength(password: string): PasswordStrength {
+  const unmet = getUnmetPasswordRules(password).length;
+  if (unmet === 0) return 'strong';
+  if (unmet <= 2) return 'fair';
+  return 'weak';
+}
@@ -0,0 +1,148 @@
+import { Module, Permission } from '../api/permission.api';
+import { Role } from '../api/role.api';
+import { UserRole } from './user.types';
+
+// Permission action type definition
+export type PermissionAction = 'view' | 'add' | 'edit' | 'delete';
+
+export interface ModuleRights {
+  canView: boolean;
+  canAdd: boolean;
+  canEdit: boolean;
+  canDelete: boolean;
+}
+
+export type PermissionMap = Record<Module, ModuleRights>;
+
+export const NO_RIGHTS: ModuleRights = { canView: false, canAdd: false, canEdit: false, canDelete: false };
+export const FULL_RIGHTS: ModuleRights = { canView: true, canAdd: true, canEdit: true, canDelete: true };
+const VIEW_ONLY: ModuleRights = { ...NO_RIGHTS, canView: true };
+const VIEW_ADD: ModuleRights = { ...VIEW_ONLY, canAdd: true };
+const VIEW_ADD_EDIT: ModuleRights = { ...VIEW_ADD, canEdit: true };
+
+const ACTION_FIELDS: Record<PermissionAction, keyof ModuleRights> = {
+  view: 'canView',
+  add: 'canAdd',
+  edit: 'canEdit',
+  delete: 'canDelete',
+};
+
+const ALL_MODULES = Object.values(Module) as Module[];
+
+const buildPermissionMap = (rights: Partial<Record<Module, ModuleRights>>, fallback: ModuleRights = NO_RIGHTS): PermissionMap =>
+  ALL_MODULES.reduce((map, module) => {
+    map[module] = { ...(rights[module] || fallback) };
+    return map;
+  }, {} as PermissionMap);
+
+/**
+ * Built-in rights for the five system roles, used when the user has no
+ * assigned Role carrying rolePermissions. Mirrors what the UI allowed
+ * before permissions were resolved from the backend.
+ */
+export const DEFAULT_ROLE_PERMISSIONS: Record<UserRole, PermissionMap> = {
+  superadmin: buildPermissionMap({}, FULL_RIGHTS),
+  admin: buildPermissionMap(
+    {
+      [Module.USERS]: VIEW_ADD_EDIT,
+      [Module.STUDENTS]: VIEW_ADD_EDIT,
+      [Module.FACULTY]: VIEW_ADD_EDIT,
+      [Module.EMPLOYEES]: VIEW_ADD_EDIT,
+    },
+    FULL_RIGHTS
+  ),
+  faculty: buildPermissionMap({
+    [Module.BATCHES]: VIEW_ONLY,
+    [Module.STUDENTS]: VIEW_ONLY,
+    [Module.SESSIONS]: VIEW_ADD_EDIT,
+    [Module.ATTENDANCE]: VIEW_ADD_EDIT,
+    [Module.PORTFOLIOS]: { ...VIEW_ONLY, canEdit: true },
+    [Module.SOFTWARE_COMPLETIONS]: VIEW_ADD_EDIT,
+    [Module.FACULTY_LEAVES]: VIEW_ADD,
+  }),
+  student: buildPermissionMap({
+    [Module.BATCHES]: VIEW_ONLY,
+    [Module.ATTENDANCE]: VIEW_ONLY,
+    [Module.PAYMENTS]: VIEW_ONLY,
+    [Module.PORTFOLIOS]: VIEW_ADD,
+    [Module.SOFTWARE_COMPLETIONS]: VIEW_ONLY,
+    [Module.STUDENT_LEAVES]: VIEW_ADD,
+  }),
+  employee: buildPermissionMap({
+    [Module.EMPLOYEES]: VIEW_ONLY,
+    [Module.ATTENDANCE]: VIEW_ONLY,
+    [Module.EMPLOYEE_LEAVES]: VIEW_ADD,
+  }),
+};
+
+/**
+ * Resolves the effective per-module rights of a user.
+ * Rights of all assigned active roles are combined (a right granted by any role wins),
+ * then user-level permission overrides replace the result module by module.
+ * @param systemRole - The user's system role, used for defaults and the superadmin bypass
+ * @param roles - Roles assigned to the user (with rolePermissions)
+ * @param overrides - User-level permission records
+ */
+export function resolvePermissions(
+  systemRole: UserRole | undefined,
+  roles: Role[] = [],
+  overrides: Permission[] = []
+): PermissionMap {
+  if (systemRole === 'superadmin') {
+    return DEFAULT_ROLE_PERMISSIONS.superadmin;
+  }
+
+  const rolePermissions = roles
+    .filter((role) => role.isActive)
+    .flatMap((role) => role.rolePermissions || []);
+
+  const permissions =
+    rolePermissions.length > 0
+      ? buildPermissionMap({})
+      : buildPermissionMap(systemRole ? DEFAULT_ROLE_PERMISSIONS[systemRole] : {});
+
+  rolePermissions.forEach((perm) => {
+    const current = permissions[perm.module];
+    if (!current) return;
+    permissions[perm.module] = {
+      canView: current.canView || perm.canView,
+      canAdd: current.canAdd || perm.canAdd,
+      canEdit: current.canEdit || perm.canEdit,
+      canDelete: current.canDelete || perm.canDelete,
+    };
+  });
+
+  overrides.forEach((perm) => {
+    if (!permissions[perm.module]) return;
+    permissions[perm.module] = {
+      canView: perm.canView,
+      canAdd: perm.canAdd,
+      canEdit: perm.canEdit,
+      canDelete: perm.canDelete,
+    };
+  });
+
+  return permissions;
+}
+
+/**
+ * Checks a single right in a resolved permission map
+ * @param permissions - The resolved permission map
+ * @param module - The module to check
+ * @param action - The action to check (defaults to view)
+ */
+export function hasPermission(permissions: PermissionMap, module: Module, action: PermissionAction = 'view'): boolean {
+  return !!permissions[module]?.[ACTION_FIELDS[action]];
+}
+
+/**
+ * Returns a copy of a permission map with every delete right removed
+ * @param permissions - The resolved permission map
+ */
+export function withoutDeleteRights(permissions: PermissionMap): PermissionMap {
+  return buildPermissionMap(
+    Object.fromEntries(
+      Object.entries(permissions).map(([module, rights]) => [module, { ...rights, canDelete: false }])
+    )
+  );
+}
@@ -0,0 +1,21 @@
+import '@tanstack/react-query';
+
+/**
+ * Per-mutation options for the app-wide toasts wired up in main.tsx.
+ * The backend `message` is preferred when the response carries one; these
+ * texts are the fallback.
+ * Declared as a type alias: react-query only accepts meta types assignable
+ * to Record<string, unknown>, which interfaces are not.
+ */
+export type MutationToastMeta = {
+  // Shown on success. Mutations without it succeed silently.
+  successMessage?: string;
+  // Shown on failure; `false` opts out, for mutations that report errors inline
+  errorMessage?: string | false;
+};
+
+declare module '@tanstack/react-query' {
+  interface Register {
+    mutationMeta: MutationToastMeta;
+  }
+}
@@ -0,0 +1,178 @@
+import type { EmployeePunch } from '../api/employeeAttendance.api';
+import type { EmployeeLeave } from '../api/employeeLeave.api';
+import type { Holiday } from '../api/holiday.api';
+import type { BatchAttendanceReport } from '../api/report.api';
+import type { StudentLeave } from '../api/studentLeave.api';
+import { addDays, parseDateKey, toDateKey } from './schedule.types';
+
+export type RegisterCode = 'P' | 'HD' | 'A' | 'L' | 'H';
+
+export const REGISTER_CODES: RegisterCode[] = ['P', 'HD', 'A', 'L', 'H'];
+
+export const REGISTER_CODE_LABELS: Record<RegisterCode, string> = {
+  P: 'Present',
+  HD: 'Half day',
+  A: 'Absent',
+  L: 'Leave',
+  H: 'Holiday',
+};
+
+// An employee day with fewer worked hours than this is a half day
+export const FULL_DAY_MIN_HOURS = 4;
+
+export interface RegisterPerson {
+  id: number;
+  name: string;
+}
+
+export interface RegisterRow extends RegisterPerson {
+  // One code per day of the month; null for days still to come or without a class
+  days: (RegisterCode | null)[];
+  totals: Record<RegisterCode, number>;
+}
+
+export interface AttendanceRegister {
+  // YYYY-MM-DD of every day in the month
+  dates: string[];
+  rows: RegisterRow[];
+}
+
+export interface EmployeeRegisterSources {
+  employees: RegisterPerson[];
+  punches: EmployeePunch[];
+  // Approved leaves only
+  leaves: EmployeeLeave[];
+  holidays: Holiday[];
+}
+
+export interface StudentRegisterSources {
+  students: RegisterPerson[];
+  sessions: BatchAttendanceReport['sessions'];
+  // Approved leaves only
+  leaves: StudentLeave[];
+  holidays: Holiday[];
+}
+
+const dateKeyOf = (value: string) => value.split('T')[0];
+
+// Sundays are the weekly off
+const isWeeklyOff = (dateKey: string) => parseDateKey(dateKey).getDay() === 0;
+
+const isOnLeave = (leaves: { startDate: string; endDate: string }[], dateKey: string) =>
+  leaves.some((leave) => dateKeyOf(leave.startDate) <= dateKey && dateKey <= dateKeyOf(leave.endDate));
+
+const countCodes = (days: (RegisterCode | null)[]) =>
+  Object.fromEntries(REGISTER_CODES.map((code) => [code, days.filter((day) => day === code).length])) as Record<
+    RegisterCode,
+    number
+  >;
+
+/**
+ * Every date of a month
+ * @param month - YYYY-MM
+ */
+export function listMonthDates(month: string): string[] {
+  const first = parseDateKey(`${month}-01`);
+  const dates: string[] = [];
+  for (let date = first; date.getMonth() === first.getMonth(); date = addDays(date, 1)) {
+    dates.push(toDateKey(date));
+  }
+  return dates;
+}
+
+/**
+ * Month register for employees from their punches, approved leaves and holidays.
+ * A punch without a punch-out counts as a half day until it is regularised.
+ * @param month - YYYY-MM
+ * @param sources - Punches, leaves and holidays covering the month
+ * @param today - YYYY-MM-DD; later days are left blank
+ */
+export function buildEmployeeRegister(month: string, sources: EmployeeRegisterSources, today: string): AttendanceRegister {
+  const dates = listMonthDates(month);
+  const holidays = new Set(sources.holidays.map((holiday) => dateKeyOf(holiday.date)));
+  const punchesByDay = new Map<string, EmployeePunch>();
+  sources.punches.forEach((punch) => {
+    if (punch.user) punchesByDay.set(`${punch.user.id}:${dateKeyOf(punch.date)}`, punch);
+  });
+
+  const rows = sources.employees.map((employee) => {
+    const leaves = sources.leaves.filter((leave) => leave.employeeId === employee.id);
+    const days = dates.map((dateKey): RegisterCode | null => {
+      if (dateKey > today) return null;
+      const punch = punchesByDay.get(`${employee.id}:${dateKey}`);
+      if (punch?.punchInAt) {
+        const isShort = punch.effectiveWorkingHours !== null && punch.effectiveWorkingHours < FULL_DAY_MIN_HOURS;
+        return !punch.punchOutAt || isShort ? 'HD' : 'P';
+      }
+      if (isOnLeave(leaves, dateKey)) return 'L';
+      if (holidays.has(dateKey) || isWeeklyOff(dateKey)) return 'H';
+      return 'A';
+    });
+    return { ...employee, days, totals: countCodes(days) };
+  });
+
+  return { dates, rows };
+}
+
+/**
+ * Month register for the students of a batch from session attendance, approved leaves and holidays.
+ * On days with more than one session, attending only some of them is a half day.
+ * @param month - YYYY-MM
+ * @param sources - Sessions with their attendance, leaves and holidays covering the month
+ * @param today - YYYY-MM-DD; later days are left blank
+ */
+export function buildStudentRegister(month: string, sources: StudentRegisterSources, today: string): AttendanceRegister {
+  const dates = listMonthDates(month);
+  const holidays = new Set(sources.holidays.map((holiday) => dateKeyOf(holiday.date)));
+  const sessionsByDay = new Map<string, BatchAttendanceReport['sessions']>();
+  sources.sessions
+    .filter((entry) => entry.session.status !== 'cancelled')
+    .forEach((entry) => {
+      const dateKey = dateKeyOf(entry.session.date);
+      sessionsByDay.set(dateKey, [...(sessionsByDay.get(dateKey) || []), entry]);
+    });
+
+  const rows = sources.students.map((student) => {
+    const leaves = sources.leaves.filter((leave) => leave.studentId === student.id);
+    const days = dates.map((dateKey): RegisterCode | null => {
+      const sessions = sessionsByDay.get(dateKey) || [];
+      if (sessions.length === 0) return holidays.has(dateKey) ? 'H' : null;
+      const attended = sessions.filter((entry) =>
+        entry.attendances.some(
+          (attendance) =>
+            attendance.studentId === student.id && (attendance.status === 'present' || attendance.status === 'manual_present')
+        )
+      ).length;
+      if (attended === sessions.length) return 'P';
+      if (attended > 0) return 'HD';
+      if (isOnLeave(leaves, dateKey)) return 'L';
+      return dateKey > today ? null : 'A';
+    });
+    return { ...student, days, totals: countCodes(days) };
+  });
+
+  return { dates, rows };
+}
+
+/**
+ * Share of attended days, counting half days as half
+ * @param totals - Totals of a register row
+ * @returns Percentage, or null when there was nothing to attend
+ */
+export function getAttendanceRate(totals: Record<RegisterCode, number>): number | null {
+  const expected = totals.P + totals.HD + totals.A;
+  return expected > 0 ? Math.round(((totals.P + totals.HD / 2) / expected) * 100) : null;
+}
+
+/**
+ * The register as rows of cells for CSV and spreadsheet export, header row first
+ * @param register - The month register
+ */
+export function toRegisterTable(register: AttendanceRegister): (string | number)[][] {
+  const header = ['Name', ...register.dates.map((date) => parseDateKey(date).getDate()), ...REGISTER_CODES, 'Attendance %'];
+  const rows = register.rows.map((row) => {
+    const rate = getAttendanceRate(row.totals);
+    return [row.name, ...row.days.map((day) => day ?? ''), ...REGISTER_CODES.map((code) => row.totals[code]), rate ?? ''];
+  });
+  return [header, ...rows];
+}
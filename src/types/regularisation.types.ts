@@ -0,0 +1,55 @@
+import type { BreakCorrection, PunchTimes } from '../api/regularisation.api';
+
+export interface PunchTimeChange {
+  label: string;
+  original: string;
+  requested: string;
+  changed: boolean;
+}
+
+/**
+ * Time of day for a punch timestamp, or a dash when there is none
+ * @param value - ISO timestamp
+ */
+export function formatPunchTime(value?: string | null): string {
+  return value ? new Date(value).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : '—';
+}
+
+const formatBreak = (item?: BreakCorrection) =>
+  item ? `${formatPunchTime(item.startTime)} - ${formatPunchTime(item.endTime)}` : '—';
+
+/**
+ * Lines up recorded and requested punch times, one row per punch and break
+ * @param original - Times as recorded
+ * @param requested - Times asked for in the request
+ */
+export function comparePunchTimes(original: PunchTimes, requested: PunchTimes): PunchTimeChange[] {
+  const rows: Omit<PunchTimeChange, 'changed'>[] = [
+    { label: 'Punch in', original: formatPunchTime(original.punchInAt), requested: formatPunchTime(requested.punchInAt ?? original.punchInAt) },
+    { label: 'Punch out', original: formatPunchTime(original.punchOutAt), requested: formatPunchTime(requested.punchOutAt ?? original.punchOutAt) },
+  ];
+  const originalBreaks = original.breaks || [];
+  const requestedBreaks = requested.breaks || [];
+  // Requested breaks with an id replace that break; the rest are added
+  originalBreaks.forEach((item, index) => {
+    const correction = requestedBreaks.find((candidate) => candidate.breakId && candidate.breakId === item.breakId);
+    rows.push({ label: `Break ${index + 1}`, original: formatBreak(item), requested: formatBreak(correction ?? item) });
+  });
+  requestedBreaks
+    .filter((item) => !item.breakId || !originalBreaks.some((candidate) => candidate.breakId === item.breakId))
+    .forEach((item, index) => {
+      rows.push({ label: `Break ${originalBreaks.length + index + 1}`, original: '—', requested: formatBreak(item) });
+    });
+  return rows.map((row) => ({ ...row, changed: row.original !== row.requested }));
+}
+
+/**
+ * Value for a datetime-local input in the browser's timezone
+ * @param value - ISO timestamp
+ */
+export function toDateTimeInput(value?: string | null): string {
+  if (!value) return '';
+  const date = new Date(value);
+  const pad = (part: number) => String(part).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
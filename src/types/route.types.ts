@@ -0,0 +1,55 @@
+import type { ComponentType, LazyExoticComponent } from 'react';
+import { Module } from '../api/permission.api';
+import { PermissionAction } from './permission.types';
+import { UserRole, validateUserRole } from './user.types';
+
+// Access requirements shared by the route guard and the navigation menus
+export interface RouteAccess {
+  roles?: UserRole[];
+  module?: Module;
+  action?: PermissionAction;
+}
+
+export interface AppRoute extends RouteAccess {
+  path: string;
+  component: ComponentType | LazyExoticComponent<ComponentType>;
+  // Routes with nav metadata are listed in the Sidebar/Layout menus
+  nav?: {
+    name: string;
+    icon: string;
+  };
+}
+
+/**
+ * Checks whether a user may open a route
+ * @param access - The route's role/module requirements
+ * @param role - The user's system role
+ * @param can - Permission check from usePermissions
+ * @returns True when every declared requirement is met
+ */
+export function isRouteAllowed(
+  access: RouteAccess,
+  role: string | undefined,
+  can: (module: Module, action?: PermissionAction) => boolean
+): boolean {
+  if (access.roles) {
+    const userRole = validateUserRole(role);
+    if (!userRole || !access.roles.includes(userRole)) return false;
+  }
+  if (access.module && !can(access.module, access.action)) return false;
+  return true;
+}
+
+// Role-specific landing pages; everyone else lands on the dashboard
+const HOME_PATHS: Partial<Record<UserRole, string>> = {
+  faculty: '/faculty/dashboard',
+};
+
+/**
+ * Returns the landing page for a user role
+ * @param role - The user's system role
+ */
+export function getHomePath(role?: string): string {
+  const userRole = validateUserRole(role);
+  return (userRole && HOME_PATHS[userRole]) || '/dashboard';
+}
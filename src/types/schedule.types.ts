@@ -0,0 +1,139 @@
+// Batch.schedule is keyed by these day names, as entered on the batch create/edit forms
+export const DAYS_OF_WEEK = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+export interface TimeSlot {
+  startTime: string;
+  endTime: string;
+}
+
+export type BatchSchedule = Record<string, TimeSlot>;
+
+/**
+ * Formats a date as YYYY-MM-DD in local time, the format the API uses for dates
+ * @param date - The date to format
+ */
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Parses a YYYY-MM-DD date (or the date part of an ISO timestamp) as local midnight
+ * @param value - The date string
+ */
+export function parseDateKey(value: string): Date {
+  const [year, month, day] = value.split('T')[0].split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Returns the date a number of days away, at local midnight
+ * @param date - The starting date
+ * @param days - Days to add; negative goes back
+ */
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/**
+ * Reads a batch schedule, which older batches may store as a JSON string.
+ * Entries that are not a weekday with both times set are dropped.
+ * @param schedule - Batch.schedule as returned by the API
+ * @returns Time slots keyed by their DAYS_OF_WEEK name
+ */
+export function normalizeSchedule(schedule: unknown): BatchSchedule {
+  let value = schedule;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return {};
+    }
+  }
+  if (!value || typeof value !== 'object') return {};
+
+  const result: BatchSchedule = {};
+  Object.entries(value as Record<string, Partial<TimeSlot>>).forEach(([key, slot]) => {
+    const day = DAYS_OF_WEEK.find((name) => name.toLowerCase() === key.toLowerCase());
+    if (day && slot?.startTime && slot?.endTime) {
+      result[day] = { startTime: slot.startTime, endTime: slot.endTime };
+    }
+  });
+  return result;
+}
+
+/**
+ * Finds the scheduled time slot of a batch on a given date
+ * @param schedule - Normalised batch schedule
+ * @param date - The calendar date
+ * @returns The slot for that weekday, or undefined when the batch doesn't meet that day
+ */
+export function getSlotForDate(schedule: BatchSchedule, date: Date): TimeSlot | undefined {
+  // getDay() counts from Sunday; DAYS_OF_WEEK starts on Monday
+  return schedule[DAYS_OF_WEEK[(date.getDay() + 6) % 7]];
+}
+
+// Bounds the day-by-day schedule walks: a schedule that never meets, or a mistyped date range
+const MAX_SCHEDULE_DAYS = 3 * 366;
+
+export interface ClassDate extends TimeSlot {
+  date: string;
+}
+
+/**
+ * Lists the days a schedule meets between two dates, in order.
+ * Looks at most MAX_SCHEDULE_DAYS ahead, so a half-typed end date can't stall the form.
+ * @param schedule - Normalised batch schedule
+ * @param from - First date considered, YYYY-MM-DD
+ * @param until - Last date considered, YYYY-MM-DD
+ */
+export function listClassDates(schedule: BatchSchedule, from: string, until: string): ClassDate[] {
+  const dates: ClassDate[] = [];
+  const first = parseDateKey(from);
+  for (let offset = 0; offset < MAX_SCHEDULE_DAYS; offset++) {
+    const day = addDays(first, offset);
+    if (toDateKey(day) > until) break;
+    const slot = getSlotForDate(schedule, day);
+    if (slot) dates.push({ date: toDateKey(day), ...slot });
+  }
+  return dates;
+}
+
+/**
+ * Finds the date of the last class when a batch starting on a date runs a number of sessions
+ * @param schedule - Normalised batch schedule
+ * @param startDate - First day of the batch, YYYY-MM-DD
+ * @param sessionCount - Number of classes the batch runs
+ * @returns The date of the last class, or undefined when the schedule has no days
+ */
+export function computeEndDate(schedule: BatchSchedule, startDate: string, sessionCount: number): string | undefined {
+  if (!startDate || sessionCount < 1 || Object.keys(schedule).length === 0) return undefined;
+  let remaining = sessionCount;
+  for (let offset = 0; offset < MAX_SCHEDULE_DAYS; offset++) {
+    const day = addDays(parseDateKey(startDate), offset);
+    if (getSlotForDate(schedule, day) && --remaining === 0) return toDateKey(day);
+  }
+  return undefined;
+}
+
+export interface ScheduleDayComparison {
+  day: string;
+  from?: TimeSlot;
+  to?: TimeSlot;
+  changed: boolean;
+}
+
+/**
+ * Lines up two schedules day by day, for days either of them meets
+ * @param from - Normalised schedule being left
+ * @param to - Normalised schedule being moved to
+ */
+export function compareSchedules(from: BatchSchedule, to: BatchSchedule): ScheduleDayComparison[] {
+  return DAYS_OF_WEEK.filter((day) => from[day] || to[day]).map((day) => ({
+    day,
+    from: from[day],
+    to: to[day],
+    changed: from[day]?.startTime !== to[day]?.startTime || from[day]?.endTime !== to[day]?.endTime,
+  }));
+}
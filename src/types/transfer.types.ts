@@ -0,0 +1,21 @@
+import type { BatchTransferData, ChangeRequest } from '../api/approval.api';
+
+/**
+ * Reads the structured from/to batches of a batch_change request. Requests raised before
+ * transfers carried structured data return null and are shown as plain requests.
+ * @param request - The change request
+ */
+export function getTransferData(request: ChangeRequest): BatchTransferData | null {
+  const data = request.requestedData;
+  if (request.type !== 'batch_change' || !data) return null;
+  const fromBatchId = Number(data.fromBatchId ?? request.batchId);
+  const toBatchId = Number(data.toBatchId);
+  if (!fromBatchId || !toBatchId) return null;
+  return {
+    fromBatchId,
+    fromBatchTitle: data.fromBatchTitle || request.batch?.title,
+    toBatchId,
+    toBatchTitle: data.toBatchTitle,
+    effectiveDate: data.effectiveDate || request.createdAt?.split('T')[0] || '',
+  };
+}